@@ -0,0 +1,202 @@
+import { adminDb } from '@/lib/firebase-admin';
+import {
+  AgentJobQueue,
+  buildBatchResult,
+  isJobAbandoned,
+  isJobClaimable,
+  retryDelayMs,
+  summarizeJobs
+} from '@/lib/agents/jobQueue';
+import type { AgentUpdateJob, AgentUpdateRun } from '@/types';
+
+describe('AgentJobQueue', () => {
+  const now = new Date('2026-03-02T14:00:00Z');
+  const minutes = (n: number) => new Date(now.getTime() + n * 60 * 1000);
+
+  const job = (overrides: Partial<AgentUpdateJob> = {}): AgentUpdateJob => ({
+    id: 'run-1_AAPL',
+    runId: 'run-1',
+    ticker: 'AAPL',
+    status: 'queued',
+    attempts: 0,
+    maxAttempts: 3,
+    availableAt: now,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides
+  });
+
+  it('should back off exponentially between attempts', () => {
+    expect(retryDelayMs(1)).toBe(30 * 1000);
+    expect(retryDelayMs(2)).toBe(60 * 1000);
+    expect(retryDelayMs(3)).toBe(120 * 1000);
+  });
+
+  it('should only claim jobs whose backoff passed or whose lease expired', () => {
+    expect(isJobClaimable(job(), now)).toBe(true);
+    expect(isJobClaimable(job({ availableAt: minutes(1) }), now)).toBe(false);
+    expect(isJobClaimable(job({ status: 'running', leaseExpiresAt: minutes(1) }), now)).toBe(false);
+    expect(isJobClaimable(job({ status: 'running', attempts: 2, leaseExpiresAt: minutes(-1) }), now)).toBe(true);
+    expect(isJobClaimable(job({ status: 'done' }), now)).toBe(false);
+    expect(isJobClaimable(job({ status: 'failed' }), now)).toBe(false);
+  });
+
+  it('should stop re-leasing a job once its last attempt expired', () => {
+    const expired = job({ status: 'running', attempts: 3, leaseExpiresAt: minutes(-1) });
+
+    expect(isJobClaimable(expired, now)).toBe(false);
+    expect(isJobAbandoned(expired, now)).toBe(true);
+    expect(isJobAbandoned({ ...expired, leaseExpiresAt: minutes(1) }, now)).toBe(false);
+    expect(isJobAbandoned({ ...expired, attempts: 2 }, now)).toBe(false);
+  });
+
+  it('should count jobs by status and flag retries', () => {
+    const summary = summarizeJobs([
+      job(),
+      job({ ticker: 'MSFT', attempts: 1, lastError: 'News: timeout' }),
+      job({ ticker: 'NVDA', status: 'running', attempts: 1 }),
+      job({ ticker: 'AMD', status: 'done', attempts: 1 }),
+      job({ ticker: 'INTC', status: 'failed', attempts: 3 })
+    ]);
+
+    expect(summary.counts).toEqual({ queued: 2, running: 1, done: 1, failed: 1 });
+    expect(summary.retrying).toBe(1);
+  });
+
+  it('should build a batch result for metrics from a finished run', () => {
+    const run: AgentUpdateRun = {
+      id: 'run-1',
+      type: 'full',
+      status: 'completed',
+      tickers: ['AAPL', 'INTC'],
+      requestedBy: 'admin@example.com',
+      successCount: 1,
+      errorCount: 1,
+      createdAt: now,
+      startedAt: minutes(1),
+      completedAt: minutes(5)
+    };
+    const result = buildBatchResult(run, [
+      job({ status: 'done', result: { ticker: 'AAPL', success: true, newsUpdated: true, financialsUpdated: true, lastUpdated: minutes(2) } }),
+      job({ ticker: 'INTC', status: 'failed', attempts: 3, lastError: 'Financials: rate limited' })
+    ]);
+
+    expect(result.totalProcessed).toBe(2);
+    expect(result.successCount).toBe(1);
+    expect(result.errorCount).toBe(1);
+    expect(result.results[1]).toMatchObject({ ticker: 'INTC', success: false, error: 'Financials: rate limited' });
+    expect(result.duration).toBe(4 * 60 * 1000);
+  });
+
+  describe('completing and failing leased jobs', () => {
+    const update = jest.fn();
+    let stored: Record<string, any>;
+
+    beforeEach(() => {
+      update.mockReset();
+      stored = { status: 'running', leaseOwner: 'claim-1' };
+      jest.mocked(adminDb.collection).mockImplementation(() => ({
+        doc: (id: string) => ({ id })
+      }) as any);
+      (adminDb as any).runTransaction = async (fn: any) => fn({
+        get: async (ref: { id: string }) => ({ exists: true, id: ref.id, data: () => stored }),
+        update
+      });
+    });
+
+    it('should requeue with backoff while attempts remain', async () => {
+      const status = await new AgentJobQueue().failJob(job({ status: 'running', attempts: 2, leaseOwner: 'claim-1' }), 'News: timeout', now);
+
+      expect(status).toBe('queued');
+      expect(update.mock.calls[0][1]).toMatchObject({
+        status: 'queued',
+        lastError: 'News: timeout',
+        availableAt: minutes(1)
+      });
+    });
+
+    it('should mark the job failed once attempts are used up', async () => {
+      const status = await new AgentJobQueue().failJob(job({ status: 'running', attempts: 3, leaseOwner: 'claim-1' }), 'News: timeout', now);
+
+      expect(status).toBe('failed');
+      expect(update.mock.calls[0][1]).toMatchObject({ status: 'failed', lastError: 'News: timeout' });
+      expect(update.mock.calls[0][1]).not.toHaveProperty('availableAt');
+    });
+
+    it('should leave a job alone once another worker holds its lease', async () => {
+      stored = { status: 'running', leaseOwner: 'claim-2' };
+      const queue = new AgentJobQueue();
+      const stale = job({ status: 'running', attempts: 1, leaseOwner: 'claim-1' });
+
+      expect(await queue.failJob(stale, 'News: timeout', now)).toBeNull();
+      expect(await queue.completeJob(stale, { ticker: 'AAPL', success: true, lastUpdated: now }, now)).toBe(false);
+      expect(update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('claimNextJob', () => {
+    it('should ask for the longest-waiting jobs first and lease one to a new owner', async () => {
+      const orderBy = jest.fn();
+      const update = jest.fn();
+      const stored: Record<string, any> = {
+        'run-1_AAPL': { runId: 'run-1', ticker: 'AAPL', status: 'queued', attempts: 0, maxAttempts: 3, availableAt: now, createdAt: now, updatedAt: now }
+      };
+      const query: any = {
+        where: () => query,
+        orderBy: (...args: any[]) => {
+          orderBy(...args);
+          return query;
+        },
+        limit: () => query,
+        get: async () => ({ docs: Object.entries(stored).map(([id, data]) => ({ id, data: () => data })) })
+      };
+
+      jest.mocked(adminDb.collection).mockImplementation(() => ({
+        where: query.where,
+        doc: (id: string) => ({ id, get: async () => ({ exists: false }) })
+      }) as any);
+      (adminDb as any).runTransaction = async (fn: any) => fn({
+        get: async (ref: { id: string }) => ({ exists: true, id: ref.id, data: () => stored[ref.id] }),
+        update
+      });
+
+      const claimed = await new AgentJobQueue().claimNextJob(undefined, now);
+
+      expect(orderBy).toHaveBeenCalledWith('availableAt');
+      expect(claimed).toMatchObject({ ticker: 'AAPL', status: 'running', attempts: 1 });
+      expect(claimed?.leaseOwner).toEqual(expect.any(String));
+      expect(update.mock.calls[0][1]).toMatchObject({ leaseOwner: claimed?.leaseOwner });
+    });
+  });
+
+  describe('failAbandonedJobs', () => {
+    it('should fail abandoned jobs and report their runs', async () => {
+      const stored: Record<string, any> = {
+        'run-1_AAPL': { runId: 'run-1', ticker: 'AAPL', status: 'running', attempts: 3, maxAttempts: 3, availableAt: now, leaseExpiresAt: minutes(-1), createdAt: now, updatedAt: now },
+        'run-1_MSFT': { runId: 'run-1', ticker: 'MSFT', status: 'running', attempts: 1, maxAttempts: 3, availableAt: now, leaseExpiresAt: minutes(-1), createdAt: now, updatedAt: now }
+      };
+      const update = jest.fn();
+      const query: any = {
+        where: () => query,
+        limit: () => query,
+        get: async () => ({ docs: Object.entries(stored).map(([id, data]) => ({ id, data: () => data })) })
+      };
+
+      jest.mocked(adminDb.collection).mockImplementation(() => ({
+        where: query.where,
+        doc: (id: string) => ({ id })
+      }) as any);
+      (adminDb as any).runTransaction = async (fn: any) => fn({
+        get: async (ref: { id: string }) => ({ exists: true, id: ref.id, data: () => stored[ref.id] }),
+        update
+      });
+
+      const runIds = await new AgentJobQueue().failAbandonedJobs(undefined, now);
+
+      expect(runIds).toEqual(['run-1']);
+      expect(update).toHaveBeenCalledTimes(1);
+      expect(update.mock.calls[0][0]).toMatchObject({ id: 'run-1_AAPL' });
+      expect(update.mock.calls[0][1]).toMatchObject({ status: 'failed', lastError: 'Worker stopped responding on all 3 attempts' });
+    });
+  });
+});
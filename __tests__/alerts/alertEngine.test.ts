@@ -0,0 +1,259 @@
+import { getMessaging } from 'firebase-admin/messaging';
+import { adminDb } from '@/lib/firebase-admin';
+import {
+  createAlertEngine,
+  evaluateCondition,
+  evaluateConditions,
+  buildEventKey,
+  buildAlertMessage,
+  calculateGapPercent,
+  type AlertContext
+} from '@/lib/alerts/alertEngine';
+import { createMarketPriceSource } from '@/lib/marketData/marketDataProvider';
+import type { EarningsEvent, RatingChangeEvent, SentimentSignal } from '@/types';
+
+jest.mock('firebase-admin/messaging', () => ({
+  getMessaging: jest.fn()
+}));
+
+jest.mock('@/lib/marketData/marketDataProvider', () => ({
+  createMarketPriceSource: jest.fn()
+}));
+
+describe('AlertEngine conditions', () => {
+  const now = new Date('2025-01-10T12:00:00Z');
+
+  const earningsEvent = {
+    id: 'evt-1',
+    ticker: 'AAPL',
+    companyName: 'Apple Inc.',
+    expectedDate: new Date('2025-01-14T21:00:00Z'),
+    expectedTime: 'after_market',
+    market: 'SP500',
+    sector: 'Technology',
+    quarter: 'Q1',
+    fiscalYear: 2025,
+    createdAt: now,
+    updatedAt: now
+  } as EarningsEvent;
+
+  const signal = {
+    id: 'sig-1',
+    ticker: 'AAPL',
+    companyName: 'Apple Inc.',
+    sentiment: 'positive',
+    sentimentScore: 0.8,
+    reasoning: 'Strong services growth',
+    sourceData: '{}',
+    confidence: 0.85,
+    createdAt: now,
+    expiresAt: new Date('2025-01-17T12:00:00Z')
+  } as SentimentSignal;
+
+  const context: AlertContext = { ticker: 'AAPL', now, earningsEvent, signal };
+
+  describe('evaluateCondition', () => {
+    it('should match watchlist earnings inside the default window', () => {
+      expect(evaluateCondition({ type: 'watchlist_earnings', parameters: {} }, context)).toBe(true);
+    });
+
+    it('should respect a custom daysAhead window', () => {
+      expect(evaluateCondition({ type: 'watchlist_earnings', parameters: { daysAhead: 2 } }, context)).toBe(false);
+    });
+
+    it('should not match earnings without an event', () => {
+      expect(evaluateCondition({ type: 'watchlist_earnings', parameters: {} }, { ticker: 'AAPL', now })).toBe(false);
+    });
+
+    it('should match sentiment_available only for unexpired signals', () => {
+      expect(evaluateCondition({ type: 'sentiment_available', parameters: {} }, context)).toBe(true);
+
+      const expired = { ...signal, expiresAt: new Date('2025-01-09T00:00:00Z') };
+      expect(evaluateCondition({ type: 'sentiment_available', parameters: {} }, { ...context, signal: expired })).toBe(false);
+    });
+
+    it('should compare high_confidence against the threshold', () => {
+      expect(evaluateCondition({ type: 'high_confidence', parameters: { threshold: 0.8 } }, context)).toBe(true);
+      expect(evaluateCondition({ type: 'high_confidence', parameters: { threshold: 0.9 } }, context)).toBe(false);
+    });
+  });
+
+  describe('evaluateConditions', () => {
+    it('should require every condition to match', () => {
+      expect(evaluateConditions([
+        { type: 'watchlist_earnings', parameters: {} },
+        { type: 'high_confidence', parameters: { threshold: 0.9 } }
+      ], context)).toBe(false);
+
+      expect(evaluateConditions([
+        { type: 'watchlist_earnings', parameters: {} },
+        { type: 'sentiment_available', parameters: {} }
+      ], context)).toBe(true);
+    });
+
+    it('should never match a rule without conditions', () => {
+      expect(evaluateConditions([], context)).toBe(false);
+    });
+  });
+
+  describe('buildEventKey', () => {
+    it('should key earnings rules by earnings event', () => {
+      expect(buildEventKey([{ type: 'watchlist_earnings', parameters: {} }], context)).toBe('earnings-evt-1');
+    });
+
+    it('should key sentiment-only rules by signal', () => {
+      expect(buildEventKey([{ type: 'sentiment_available', parameters: {} }], context)).toBe('signal-sig-1');
+    });
+
+    it('should return null when nothing triggered the rule', () => {
+      expect(buildEventKey([{ type: 'sentiment_available', parameters: {} }], { ticker: 'AAPL', now })).toBeNull();
+    });
+  });
+
+  describe('buildAlertMessage', () => {
+    it('should describe both the earnings event and the signal', () => {
+      const message = buildAlertMessage(context);
+      expect(message).toContain('AAPL reports Q1 earnings');
+      expect(message).toContain('POSITIVE (85% confidence)');
+    });
+
+    it('should quote prices in the ticker\'s market currency', () => {
+      const quote = { price: 14.5, change: 0.2, changePercent: 1.4, volume: 1000, open: 14.3, high: 14.6, low: 14.2, previousClose: 14.3, timestamp: now };
+
+      expect(buildAlertMessage({ ticker: 'LUMI', now, snapshot: { ...quote, ticker: 'LUMI' } })).toContain('LUMI is trading at ₪14.50');
+      expect(buildAlertMessage({ ticker: 'AAPL', now, snapshot: { ...quote, ticker: 'AAPL' } })).toContain('AAPL is trading at $14.50');
+    });
+  });
+});
+
+describe('AlertEngine price conditions', () => {
+  const now = new Date('2025-01-10T15:00:00Z');
+
+  const snapshot = {
+    ticker: 'NVDA',
+    price: 130,
+    change: 5,
+    changePercent: 4,
+    volume: 1000000,
+    open: 128,
+    high: 131,
+    low: 127,
+    previousClose: 125,
+    timestamp: now
+  };
+
+  const context: AlertContext = { ticker: 'NVDA', now, snapshot };
+
+  it('should compare price levels against the snapshot', () => {
+    expect(evaluateCondition({ type: 'price_above', parameters: { ticker: 'NVDA', price: 120 } }, context)).toBe(true);
+    expect(evaluateCondition({ type: 'price_above', parameters: { ticker: 'NVDA', price: 140 } }, context)).toBe(false);
+    expect(evaluateCondition({ type: 'price_below', parameters: { ticker: 'NVDA', price: 140 } }, context)).toBe(true);
+  });
+
+  it('should ignore conditions scoped to another ticker', () => {
+    expect(evaluateCondition({ type: 'price_above', parameters: { ticker: 'AAPL', price: 120 } }, context)).toBe(false);
+  });
+
+  it('should not match price conditions without a snapshot', () => {
+    expect(evaluateCondition({ type: 'price_above', parameters: { ticker: 'NVDA', price: 120 } }, { ticker: 'NVDA', now })).toBe(false);
+  });
+
+  it('should evaluate daily moves with direction', () => {
+    expect(evaluateCondition({ type: 'percent_change_day', parameters: { percent: 3 } }, context)).toBe(true);
+    expect(evaluateCondition({ type: 'percent_change_day', parameters: { percent: 3, direction: 'down' } }, context)).toBe(false);
+    expect(evaluateCondition({ type: 'percent_change_day', parameters: { percent: 5 } }, context)).toBe(false);
+  });
+
+  it('should evaluate the gap between open and previous close', () => {
+    expect(calculateGapPercent(snapshot)).toBeCloseTo(2.4, 5);
+    expect(evaluateCondition({ type: 'gap_at_open', parameters: { percent: 2, direction: 'up' } }, context)).toBe(true);
+    expect(evaluateCondition({ type: 'gap_at_open', parameters: { percent: 3 } }, context)).toBe(false);
+  });
+
+  it('should key level alerts per crossing and daily moves per day', () => {
+    expect(buildEventKey([{ type: 'price_above', parameters: { ticker: 'NVDA', price: 120 } }], context))
+      .toBe(`crossing-${now.getTime()}`);
+    expect(buildEventKey([{ type: 'gap_at_open', parameters: { percent: 2 } }], context)).toBe('move-2025-01-10');
+  });
+
+  it('should quote each ticker from its own market', async () => {
+    const getSnapshotTicker = jest.fn(async (ticker: string) => ({ ...snapshot, ticker }));
+    jest.mocked(createMarketPriceSource).mockReturnValue({ getSnapshotTicker } as any);
+    const engine = createAlertEngine() as any;
+
+    expect((await engine.getSnapshot('LUMI', new Map()))?.ticker).toBe('LUMI');
+    expect((await engine.getSnapshot('NVDA', new Map()))?.ticker).toBe('NVDA');
+    expect(jest.mocked(createMarketPriceSource).mock.calls).toEqual([['TA125'], ['SP500']]);
+  });
+});
+
+describe('AlertEngine rating changes', () => {
+  const change: RatingChangeEvent = {
+    ticker: 'AAPL',
+    analystId: 'a1',
+    analystName: 'Jane Doe',
+    from: 'HOLD',
+    to: 'BUY',
+    direction: 'upgrade',
+    date: new Date('2025-03-10T15:00:00Z'),
+    recommendationId: 'rec-new',
+    notificationStatus: 'pending'
+  };
+
+  it('should push each pending change once to each user watching the ticker', async () => {
+    const send = jest.fn();
+    const historySet = jest.fn();
+    const changeUpdate = jest.fn();
+    const users: Record<string, any> = {
+      u1: { email: 'u1@example.com', fcmToken: 'token-1', preferences: { pushNotifications: true } },
+      u2: { email: 'u2@example.com', fcmToken: 'token-2', preferences: { pushNotifications: false } }
+    };
+
+    jest.mocked(getMessaging).mockReturnValue({ send } as any);
+    jest.mocked(adminDb.collection).mockImplementation(((name: string) => {
+      if (name === 'analyst_rating_changes') {
+        return {
+          where: () => ({
+            get: async () => ({ empty: false, docs: [{ id: 'rec-new', data: () => change, ref: { update: changeUpdate } }] })
+          })
+        };
+      }
+      if (name === 'watchlists') {
+        return {
+          get: async () => ({
+            docs: [
+              { data: () => ({ userId: 'u1', companies: [{ ticker: 'AAPL' }] }) },
+              { data: () => ({ userId: 'u1', companies: [{ ticker: 'AAPL' }, { ticker: 'MSFT' }] }) },
+              { data: () => ({ userId: 'u2', companies: [{ ticker: 'AAPL' }] }) },
+              { data: () => ({ userId: 'u3', companies: [{ ticker: 'MSFT' }] }) }
+            ]
+          })
+        };
+      }
+      if (name === 'users') {
+        return { doc: (id: string) => ({ get: async () => ({ exists: true, id, data: () => users[id] }) }) };
+      }
+      if (name === 'alert_history') {
+        return { doc: () => ({ get: async () => ({ exists: false }), set: historySet }) };
+      }
+      return { doc: () => ({ set: jest.fn() }) };
+    }) as any);
+
+    const now = new Date('2025-03-10T15:05:00Z');
+    const result = await createAlertEngine().notifyPendingRatingChanges(now);
+
+    expect(result).toEqual({ changes: 1, notified: 1, failed: 0, errors: [] });
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledWith(expect.objectContaining({
+      token: 'token-1',
+      notification: { title: 'Analyst upgrade: AAPL', body: 'Jane Doe upgraded AAPL from HOLD to BUY.' }
+    }));
+    expect(historySet).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'u1',
+      ruleId: 'analyst-rating-change',
+      status: 'sent',
+      eventKey: 'rating_rec-new'
+    }));
+    expect(changeUpdate).toHaveBeenCalledWith({ notificationStatus: 'sent', notified: 1, notifiedAt: now });
+  });
+});
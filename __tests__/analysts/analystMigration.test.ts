@@ -0,0 +1,178 @@
+import { adminDb } from '@/lib/firebase-admin';
+import {
+  AnalystMigration,
+  analystKey,
+  fromCredibilityRecord,
+  fromEnhancedRecord,
+  mergeAnalystRecords
+} from '@/lib/analysts/analystMigration';
+import { EnhancedAnalystTracker } from '@/lib/analysts/enhancedAnalystTracker';
+import { AnalystCredibilityTracker } from '@/lib/credibility/analystCredibility';
+
+describe('Analyst migration', () => {
+  const updated = new Date('2025-03-01T00:00:00Z');
+
+  it('should read seeded profiles and tracker records into the same fields', () => {
+    const seeded = fromEnhancedRecord({
+      name: 'Sarah Chen',
+      firm: 'Goldman Sachs',
+      current_score: 82,
+      accuracy_rate: 0.75,
+      total_recommendations: 20,
+      sectors: ['Technology'],
+      average_return: 0.04,
+      last_updated: { toDate: () => updated },
+      score_history: [80, 82]
+    });
+
+    expect(seeded).toMatchObject({
+      score: 82,
+      lifetime_calls: 20,
+      correct_calls: 15,
+      accuracy_rate: 0.75,
+      avg_alpha: 0.04,
+      specializations: ['Technology'],
+      updated_at: updated
+    });
+    expect(seeded).not.toHaveProperty('legacy_ids');
+
+    expect(fromEnhancedRecord({ name: 'Sarah Chen', firm: 'Goldman Sachs', score: 64, lifetime_calls: 4, correct_calls: 3 }))
+      .toMatchObject({ score: 64, lifetime_calls: 4, correct_calls: 3 });
+  });
+
+  it('should turn a 0-1 credibility into a 0-100 score', () => {
+    const record = fromCredibilityRecord({
+      analyst_id: 'analyst_1',
+      analyst_name: 'Sarah Chen',
+      firm: 'Goldman Sachs',
+      credibility_score: 0.85,
+      track_record: { total_predictions: 10, accurate_predictions: 8, accuracy_rate: 0.8, last_updated: updated },
+      covered_tickers: ['AAPL']
+    });
+
+    expect(record).toMatchObject({ score: 85, lifetime_calls: 10, correct_calls: 8, accuracy_rate: 0.8, covered_tickers: ['AAPL'] });
+  });
+
+  it('should merge records by call-weighted score and union their coverage', () => {
+    const merged = mergeAnalystRecords([
+      { name: 'Sarah Chen', firm: 'Goldman Sachs', score: 70, lifetime_calls: 30, correct_calls: 20, accuracy_rate: 2 / 3, current_streak: 3, covered_tickers: ['AAPL'] },
+      { name: 'sarah chen', firm: 'Goldman Sachs', score: 50, lifetime_calls: 10, correct_calls: 5, covered_tickers: ['MSFT', 'AAPL'], legacy_ids: ['analyst_credibility/a1'] }
+    ]);
+
+    expect(merged).toMatchObject({
+      name: 'Sarah Chen',
+      score: 65,
+      lifetime_calls: 40,
+      correct_calls: 25,
+      current_streak: 3,
+      covered_tickers: ['AAPL', 'MSFT'],
+      legacy_ids: ['analyst_credibility/a1']
+    });
+    expect(merged.accuracy_rate).toBeCloseTo(0.625);
+    expect(analystKey('Sarah Chen', 'J.P. Morgan')).toBe(analystKey('sarah  chen', 'J P Morgan'));
+  });
+
+  it('should keep running stats when an evaluation lands', () => {
+    const first = EnhancedAnalystTracker.applyEvaluation({ current_streak: -2 }, 'CORRECT', 0.06, 54);
+    const second = EnhancedAnalystTracker.applyEvaluation(first, 'INCORRECT', -0.02, 51);
+
+    expect(first).toMatchObject({ lifetime_calls: 1, correct_calls: 1, accuracy_rate: 1, current_streak: 1, score_history: [54] });
+    expect(second).toMatchObject({ lifetime_calls: 2, correct_calls: 1, accuracy_rate: 0.5, current_streak: -1, score_history: [54, 51] });
+    expect(second.avg_alpha).toBeCloseTo(0.02);
+
+    expect(AnalystCredibilityTracker.credibilityFromScore(50)).toBe(0.5);
+    expect(AnalystCredibilityTracker.weightFromScore(100)).toBe(2);
+  });
+
+  it('should not fold a credibility record twice when rerun after a partial failure', async () => {
+    const set = jest.fn();
+    const deleted = jest.fn();
+    const ref = (path: string) => ({ id: path.split('/')[1], path });
+    const docs = (collection: string, rows: Array<[string, Record<string, any>]>) => ({
+      size: rows.length,
+      docs: rows.map(([id, data]) => ({ id, ref: ref(`${collection}/${id}`), data: () => data }))
+    });
+
+    jest.mocked(adminDb.collection).mockImplementation(((name: string) => {
+      if (name === 'analysts_enhanced') {
+        return {
+          // The first run wrote Sarah Chen but stopped before deleting her credibility record
+          get: async () => docs(name, [['sarah', {
+            name: 'Sarah Chen', firm: 'Goldman Sachs', score: 65, lifetime_calls: 40, legacy_ids: ['analyst_credibility/c1']
+          }]]),
+          doc: (id = 'new') => ref(`${name}/${id}`)
+        };
+      }
+      return {
+        get: async () => docs(name, [
+          ['c1', { analyst_name: 'Sarah Chen', firm: 'Goldman Sachs', credibility_score: 0.5, track_record: { total_predictions: 10 } }],
+          ['c2', { analyst_name: 'Mike Ross', firm: 'Morgan Stanley', credibility_score: 0.7, track_record: { total_predictions: 5 } }]
+        ])
+      };
+    }) as any);
+    (adminDb as any).batch = () => ({
+      set: (target: { path: string }, data: any) => set(target.path, data),
+      delete: (target: { path: string }) => deleted(target.path),
+      commit: async () => undefined
+    });
+
+    const report = await new AnalystMigration().run(false);
+
+    expect(report).toMatchObject({ analysts: 2, credibilityFolded: 1 });
+    expect(set).toHaveBeenCalledWith('analysts_enhanced/sarah', expect.objectContaining({ lifetime_calls: 40, score: 65 }));
+    expect(set).toHaveBeenCalledWith('analysts_enhanced/new', expect.objectContaining({ name: 'Mike Ross', score: 70 }));
+    expect(deleted).toHaveBeenCalledWith('analyst_credibility/c1');
+    expect(deleted).toHaveBeenCalledWith('analyst_credibility/c2');
+  });
+
+  it('should move a duplicate analyst\'s stats buckets onto the analyst it is merged into', async () => {
+    const set = jest.fn();
+    const deleted = jest.fn();
+    const ref = (path: string) => ({ id: path.split('/')[1], path });
+    const bucket = (calls: number, wins: number) => ({
+      calls, wins, alpha_sum: 0.01 * calls, alpha_sq_sum: 0, by_action: { BUY: calls }, by_sector: { Technology: { calls, wins, alpha_sum: 0.01 * calls } }
+    });
+    const day = new Date().toISOString().split('T')[0];
+    const stats: Record<string, any> = {
+      sarah: { buckets: { [day]: bucket(2, 1) } },
+      'sarah-dup': { buckets: { [day]: bucket(1, 1) } }
+    };
+
+    jest.mocked(adminDb.collection).mockImplementation(((name: string) => {
+      if (name === 'analysts_enhanced') {
+        return {
+          get: async () => ({ docs: [
+            { id: 'sarah', ref: ref('analysts_enhanced/sarah'), data: () => ({ name: 'Sarah Chen', firm: 'Goldman Sachs', score: 60, lifetime_calls: 20 }) },
+            { id: 'sarah-dup', ref: ref('analysts_enhanced/sarah-dup'), data: () => ({ name: 'sarah chen', firm: 'Goldman Sachs', score: 70, lifetime_calls: 5 }) }
+          ] }),
+          doc: (id: string) => ref(`analysts_enhanced/${id}`)
+        };
+      }
+      if (name === 'analyst_stats') {
+        return { doc: (id: string) => ({ ...ref(`analyst_stats/${id}`), get: async () => ({ exists: true, data: () => stats[id] }) }) };
+      }
+      if (name === 'analyst_recommendations_enhanced') {
+        return { where: () => ({ get: async () => ({ size: 0, docs: [] }) }) };
+      }
+      return { get: async () => ({ docs: [] }) };
+    }) as any);
+    (adminDb as any).batch = () => ({
+      set: (target: { path: string }, data: any) => set(target.path, data),
+      delete: (target: { path: string }) => deleted(target.path),
+      commit: async () => undefined
+    });
+
+    const report = await new AnalystMigration().run(false);
+
+    expect(report).toMatchObject({ analysts: 1, duplicatesMerged: 1 });
+    expect(set).toHaveBeenCalledWith('analyst_stats/sarah', expect.objectContaining({
+      analyst_id: 'sarah',
+      buckets: { [day]: expect.objectContaining({ calls: 3, wins: 2, by_action: { BUY: 3 }, by_sector: { Technology: expect.objectContaining({ calls: 3 }) } }) }
+    }));
+    expect(set).toHaveBeenCalledWith('analysts_enhanced/sarah', expect.objectContaining({
+      stats: expect.objectContaining({ d30: expect.objectContaining({ calls: 3 }) })
+    }));
+    expect(deleted).toHaveBeenCalledWith('analyst_stats/sarah-dup');
+    expect(deleted).toHaveBeenCalledWith('analysts_enhanced/sarah-dup');
+  });
+});
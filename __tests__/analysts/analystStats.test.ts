@@ -0,0 +1,136 @@
+import { adminDb } from '@/lib/firebase-admin';
+import {
+  addClosedCall,
+  AnalystStatsMaterializer,
+  materializeStats,
+  resolveSector,
+  type ClosedCall,
+  type StatsBucket
+} from '@/lib/analysts/analystStats';
+
+describe('Analyst stats', () => {
+  const now = new Date('2025-06-30T20:00:00Z');
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+  const call = (overrides: Partial<ClosedCall>): ClosedCall => ({
+    action: 'BUY',
+    outcome: 'CORRECT',
+    alpha: 0.04,
+    sector: 'Technology',
+    closed_at: daysAgo(5),
+    ...overrides
+  });
+
+  const closeAll = (calls: ClosedCall[]) =>
+    calls.reduce<Record<string, StatsBucket>>((buckets, closed) => addClosedCall(buckets, closed, now), {});
+
+  it('should split calls into rolling windows with win rate, alpha and action counts', () => {
+    const buckets = closeAll([
+      call({}),
+      call({ alpha: 0.02, closed_at: daysAgo(5) }),
+      call({ action: 'SELL', outcome: 'INCORRECT', alpha: -0.03, sector: 'Energy', closed_at: daysAgo(60) }),
+      call({ action: 'HOLD', outcome: 'NEUTRAL', alpha: 0.01, closed_at: daysAgo(200) })
+    ]);
+
+    const stats = materializeStats(buckets, now);
+
+    expect(stats.d30).toMatchObject({ calls: 2, win_rate: 1, calls_by_action: { BUY: 2, HOLD: 0, SELL: 0 }, information_ratio: null });
+    expect(stats.d30.avg_alpha).toBeCloseTo(0.03);
+    expect(stats.d90).toMatchObject({ calls: 3, calls_by_action: { BUY: 2, HOLD: 0, SELL: 1 } });
+    expect(stats.d90.win_rate).toBeCloseTo(2 / 3);
+    expect(stats.d365.calls).toBe(4);
+    expect(stats.d365.sectors).toEqual({
+      Technology: { calls: 3, win_rate: 2 / 3, avg_alpha: expect.closeTo(0.07 / 3) },
+      Energy: { calls: 1, win_rate: 0, avg_alpha: -0.03 }
+    });
+  });
+
+  it('should compute the information ratio from the running sums', () => {
+    const stats = materializeStats(closeAll([
+      call({ alpha: 0.01 }),
+      call({ alpha: 0.03 }),
+      call({ alpha: 0.05 })
+    ]), now);
+
+    // mean 0.03, sample standard deviation 0.02
+    expect(stats.d30.information_ratio).toBeCloseTo(1.5);
+  });
+
+  it('should drop days older than the longest window', () => {
+    const buckets = closeAll([call({ closed_at: daysAgo(400) }), call({})]);
+
+    expect(Object.keys(buckets)).toEqual(['2025-06-25']);
+    expect(materializeStats(buckets, now).d365.calls).toBe(1);
+  });
+
+  it('should fall back to the index sector for calls recorded without one', () => {
+    expect(resolveSector('AAPL', 'Consumer Staples')).toBe('Consumer Staples');
+    expect(resolveSector('ADBE')).toBe('Technology');
+    expect(resolveSector('ZZZZ')).toBe('Other');
+  });
+
+  it('should rebuild buckets from past evaluations and zero the stats of analysts without closed calls', async () => {
+    const statsSet = jest.fn();
+    const analystUpdate = jest.fn();
+    const docs = (rows: Array<[string, Record<string, any>]>) => ({
+      docs: rows.map(([id, data]) => ({ id, ref: { id }, data: () => data }))
+    });
+    const query = (rows: Array<[string, Record<string, any>]>) => ({ where: () => ({ get: async () => docs(rows) }) });
+
+    jest.mocked(adminDb.collection).mockImplementation(((name: string) => {
+      if (name === 'analysts_enhanced') {
+        return { get: async () => docs([['a1', {}], ['a2', {}]]) };
+      }
+      if (name === 'analyst_recommendations_enhanced') {
+        return query([['rec-1', { analyst_id: 'a1', ticker: 'ADBE', action: 'BUY' }]]);
+      }
+      if (name === 'analyst_evaluations_enhanced') {
+        return query([
+          ['eval-1', { recommendation_id: 'rec-1', t1: daysAgo(10), alpha: 0.05, outcome: 'CORRECT' }],
+          ['eval-2', { recommendation_id: 'rec-missing', t1: daysAgo(10), alpha: 0.05, outcome: 'CORRECT' }]
+        ]);
+      }
+      return { doc: (id: string) => ({ id }) };
+    }) as any);
+    (adminDb as any).batch = () => ({
+      set: statsSet,
+      update: (ref: { id: string }, data: any) => analystUpdate(ref.id, data),
+      commit: async () => undefined
+    });
+
+    const result = await new AnalystStatsMaterializer().backfill('analysts_enhanced', now);
+
+    expect(result).toEqual({ analysts: 2, calls: 1 });
+    expect(statsSet).toHaveBeenCalledWith({ id: 'a2' }, { analyst_id: 'a2', buckets: {}, as_of: now });
+    expect(analystUpdate).toHaveBeenCalledWith('a1', { stats: expect.objectContaining({
+      d30: expect.objectContaining({ calls: 1, win_rate: 1, sectors: { Technology: expect.objectContaining({ calls: 1 }) } })
+    }) });
+    expect(analystUpdate).toHaveBeenCalledWith('a2', { stats: expect.objectContaining({
+      d30: expect.objectContaining({ calls: 0, win_rate: 0 })
+    }) });
+  });
+
+  it('should prune stale buckets from the copy read in the transaction, not the earlier scan', async () => {
+    const bucketsAt = (closedAt: Date[]) => closeAll(closedAt.map(closed_at => call({ closed_at })));
+    const scanned = { as_of: daysAgo(1), buckets: bucketsAt([daysAgo(400)]) };
+    // An evaluation closed a call between the scan and the refresh
+    const current = { as_of: daysAgo(1), buckets: bucketsAt([daysAgo(400), daysAgo(0)]) };
+    const set = jest.fn();
+    const update = jest.fn();
+
+    jest.mocked(adminDb.collection).mockImplementation(((name: string) => name === 'analyst_stats'
+      ? { get: async () => ({ docs: [
+        { id: 'a1', ref: { id: 'a1' }, data: () => scanned },
+        { id: 'a2', ref: { id: 'a2' }, data: () => ({ as_of: now, buckets: {} }) }
+      ] }) }
+      : { doc: (id: string) => ({ id }) }) as any);
+    (adminDb as any).runTransaction = async (fn: any) => fn({
+      get: async (ref: { id: string }) => ({ id: ref.id, ref, data: () => current }),
+      set,
+      update
+    });
+
+    expect(await new AnalystStatsMaterializer().refreshStale('analysts_enhanced', now)).toBe(1);
+    expect(set).toHaveBeenCalledWith({ id: 'a1' }, { analyst_id: 'a1', buckets: bucketsAt([daysAgo(0)]), as_of: now });
+    expect(update.mock.calls[0][1].stats.d30.calls).toBe(1);
+  });
+});
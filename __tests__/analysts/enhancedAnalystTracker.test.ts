@@ -0,0 +1,183 @@
+import { adminDb } from '@/lib/firebase-admin';
+import {
+  EnhancedAnalystTracker,
+  evaluatePriceTarget,
+  summarizePriceTargets,
+  type AnalystEvaluation,
+  type PriceTargetEvaluation
+} from '@/lib/analysts/enhancedAnalystTracker';
+import type { AggregateBar } from '@/lib/marketData/types';
+
+jest.mock('@/lib/marketData/marketDataProvider', () => ({
+  createMarketPriceSource: jest.fn(() => ({}))
+}));
+
+describe('EnhancedAnalystTracker price targets', () => {
+  const t0 = new Date('2025-01-06T15:00:00Z');
+  const bar = (day: string, low: number, high: number, close: number): AggregateBar => ({
+    timestamp: new Date(`${day}T05:00:00Z`),
+    open: close,
+    high,
+    low,
+    close,
+    volume: 1000
+  });
+  const bars = [
+    bar('2025-01-07', 97, 103, 102),
+    bar('2025-01-08', 101, 111, 108),
+    bar('2025-01-09', 104, 109, 105)
+  ];
+
+  it('should record when an upside target was first traded through', () => {
+    const result = evaluatePriceTarget({ t0, p0: 100, target_price: 110 }, bars, 105);
+
+    expect(result).toMatchObject({
+      target_price: 110,
+      hit: true,
+      hit_date: bars[1].timestamp,
+      days_to_hit: 2,
+      score: 1
+    });
+    expect(result!.max_favorable_excursion).toBeCloseTo(0.11);
+    expect(result!.max_adverse_excursion).toBeCloseTo(0.03);
+    expect(result!.error).toBeCloseTo(-0.05);
+  });
+
+  it('should score a missed downside target by how far the price moved toward it', () => {
+    const result = evaluatePriceTarget({ t0, p0: 100, target_price: 90 }, bars, 105);
+
+    expect(result).toMatchObject({ hit: false, hit_date: null, days_to_hit: null, score: 0 });
+    expect(result!.max_favorable_excursion).toBeCloseTo(0.03);
+    expect(result!.max_adverse_excursion).toBeCloseTo(0.11);
+
+    expect(evaluatePriceTarget({ t0, p0: 100, target_price: 90 }, [], 96)!.score).toBeCloseTo(0.4);
+    expect(evaluatePriceTarget({ t0, p0: 100 }, bars, 105)).toBeNull();
+  });
+
+  it('should summarize only evaluations that carried a target', () => {
+    const target = (overrides: Partial<PriceTargetEvaluation>): PriceTargetEvaluation => ({
+      target_price: 110,
+      hit: false,
+      hit_date: null,
+      days_to_hit: null,
+      max_favorable_excursion: 0.04,
+      max_adverse_excursion: 0.02,
+      error: -0.06,
+      score: 0.4,
+      ...overrides
+    });
+    const evaluations = [
+      { price_target: target({ hit: true, days_to_hit: 4, error: 0.02, score: 1, max_favorable_excursion: 0.12 }) },
+      { price_target: target({}) },
+      {}
+    ] as AnalystEvaluation[];
+
+    const summary = summarizePriceTargets(evaluations);
+
+    expect(summary).toMatchObject({ evaluated: 2, hitRate: 0.5, avgDaysToHit: 4 });
+    expect(summary!.accuracy).toBeCloseTo(0.7);
+    expect(summary!.avgAbsError).toBeCloseTo(0.04);
+    expect(summary!.avgMaxFavorableExcursion).toBeCloseTo(0.08);
+    expect(summarizePriceTargets([])).toBeNull();
+  });
+});
+
+describe('EnhancedAnalystTracker recommendations', () => {
+  const priorCall = (id: string, action: string, t0: string) => ({
+    id,
+    data: () => ({ analyst_id: 'a1', ticker: 'AAPL', action, t0: new Date(t0), horizon_days: 30, status: 'OPEN' })
+  });
+
+  const setup = (openCalls: ReturnType<typeof priorCall>[], storedStatus: string = 'OPEN') => {
+    const writes: Array<[string, string, any]> = [];
+    const stored: Record<string, any> = {
+      'analysts_enhanced/a1': { name: 'Jane Doe', score: 50, lifetime_calls: 4 },
+      ...Object.fromEntries(openCalls.map(call => [`analyst_recommendations_enhanced/${call.id}`, { status: storedStatus }]))
+    };
+    const query: any = { where: jest.fn(() => query), get: async () => ({ docs: openCalls }) };
+
+    jest.mocked(adminDb.collection).mockImplementation(((name: string) => ({
+      where: query.where,
+      doc: (id: string = name === 'analyst_recommendations_enhanced' ? 'rec-new' : 'auto') => ({
+        id,
+        path: `${name}/${id}`,
+        get: async () => ({ exists: true, data: () => stored[`${name}/${id}`] })
+      })
+    })) as any);
+    (adminDb as any).runTransaction = async (fn: any) => fn({
+      get: async (ref: { path: string }) => ({ exists: ref.path in stored, data: () => stored[ref.path] }),
+      set: (ref: { path: string }, data: any) => writes.push(['set', ref.path, data]),
+      update: (ref: { path: string }, data: any) => writes.push(['update', ref.path, data])
+    });
+
+    const tracker = new EnhancedAnalystTracker();
+    jest.spyOn(tracker as any, 'getPriceAt').mockResolvedValue(100);
+    const priceCall = jest.spyOn(tracker as any, 'priceCall').mockImplementation(async (rec: any, t1: any) => ({
+      rec, t1, p1: 110, benchReturn: 0.02, absReturn: 0.1, alpha: 0.08, outcome: 'CORRECT', priceTarget: null, K: 10
+    }));
+    const written = (kind: string, path: string) => writes.filter(([k, p]) => k === kind && p === path).map(([, , data]) => data);
+
+    return { tracker, writes, written, priceCall };
+  };
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should write the new call, the scored close of the one it replaces and the upgrade in one transaction', async () => {
+    jest.useFakeTimers({ now: new Date('2025-03-10T15:00:00Z') });
+    const { tracker, written, priceCall } = setup([priorCall('rec-old', 'HOLD', '2025-03-01T15:00:00Z')]);
+
+    const id = await tracker.recordRecommendation({ analystId: 'a1', ticker: 'AAPL', action: 'BUY' });
+
+    expect(id).toBe('rec-new');
+    expect(written('set', 'analyst_recommendations_enhanced/rec-new')).toEqual([expect.objectContaining({ action: 'BUY', status: 'OPEN', p0: 100 })]);
+    expect(priceCall).toHaveBeenCalledWith(expect.objectContaining({ id: 'rec-old' }), expect.any(Date), true);
+    expect(written('update', 'analyst_recommendations_enhanced/rec-old')).toEqual([{ status: 'CLOSED', superseded_by: 'rec-new' }]);
+    expect(written('set', 'analyst_evaluations_enhanced/auto')).toEqual([expect.objectContaining({ recommendation_id: 'rec-old', outcome: 'CORRECT' })]);
+    expect(written('update', 'analysts_enhanced/a1')).toContainEqual(expect.objectContaining({ lifetime_calls: 5, correct_calls: 1 }));
+    expect(written('set', 'analyst_stats/a1')).toEqual([expect.objectContaining({ analyst_id: 'a1' })]);
+    expect(written('set', 'analyst_rating_changes/rec-new')).toEqual([expect.objectContaining({
+      ticker: 'AAPL',
+      analystName: 'Jane Doe',
+      from: 'HOLD',
+      to: 'BUY',
+      direction: 'upgrade',
+      recommendationId: 'rec-new',
+      previousRecommendationId: 'rec-old',
+      notificationStatus: 'pending'
+    })]);
+  });
+
+  it('should close a call replaced in the same session without scoring it', async () => {
+    jest.useFakeTimers({ now: new Date('2025-03-10T19:00:00Z') });
+    const { tracker, written, priceCall } = setup([priorCall('rec-old', 'SELL', '2025-03-10T14:00:00Z')]);
+
+    await tracker.recordRecommendation({ analystId: 'a1', ticker: 'AAPL', action: 'HOLD' });
+
+    expect(priceCall).not.toHaveBeenCalled();
+    expect(written('update', 'analyst_recommendations_enhanced/rec-old')).toEqual([{ status: 'CLOSED', superseded_by: 'rec-new' }]);
+    expect(written('set', 'analyst_evaluations_enhanced/auto')).toEqual([]);
+  });
+
+  it('should supersede a reiterated call without reporting a change', async () => {
+    jest.useFakeTimers({ now: new Date('2025-03-10T15:00:00Z') });
+    const { tracker, written, priceCall } = setup([priorCall('rec-old', 'BUY', '2025-03-01T15:00:00Z')]);
+
+    await tracker.recordRecommendation({ analystId: 'a1', ticker: 'AAPL', action: 'BUY' });
+
+    expect(priceCall).toHaveBeenCalledTimes(1);
+    expect(written('set', 'analyst_rating_changes/rec-new')).toEqual([]);
+  });
+
+  it('should not score a replaced call that another run already closed', async () => {
+    jest.useFakeTimers({ now: new Date('2025-03-10T15:00:00Z') });
+    const { tracker, written } = setup([priorCall('rec-old', 'HOLD', '2025-03-01T15:00:00Z')], 'CLOSED');
+
+    await tracker.recordRecommendation({ analystId: 'a1', ticker: 'AAPL', action: 'BUY' });
+
+    expect(written('update', 'analyst_recommendations_enhanced/rec-old')).toEqual([]);
+    expect(written('set', 'analyst_evaluations_enhanced/auto')).toEqual([]);
+    expect(written('set', 'analyst_recommendations_enhanced/rec-new')).toHaveLength(1);
+  });
+});
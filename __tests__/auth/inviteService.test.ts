@@ -0,0 +1,66 @@
+import { adminDb } from '@/lib/firebase-admin';
+import { InviteService, isValidEmail } from '@/lib/services/inviteService';
+
+describe('InviteService', () => {
+  const writes: Array<{ collection: string; id: string; data: any }> = [];
+
+  const mockDocs = (docs: Record<string, Record<string, any>>) => {
+    jest.mocked(adminDb.collection).mockImplementation((name: string) => ({
+      doc: (id: string) => ({
+        get: async () => {
+          const data = docs[`${name}/${id}`];
+          return { exists: !!data, data: () => data };
+        },
+        set: async (data: any) => { writes.push({ collection: name, id, data }); },
+        update: async (data: any) => { writes.push({ collection: name, id, data }); },
+      }),
+    }) as any);
+  };
+
+  const profile = { uid: 'user-1', email: 'Trader@Example.com', displayName: 'Trader' };
+  const now = new Date('2026-03-02T14:00:00Z');
+
+  beforeEach(() => {
+    writes.length = 0;
+  });
+
+  it('should validate email addresses', () => {
+    expect(isValidEmail(' Trader@Example.com ')).toBe(true);
+    expect(isValidEmail('trader@example')).toBe(false);
+    expect(isValidEmail('not an email')).toBe(false);
+  });
+
+  it('should refuse sign-in without an active invite', async () => {
+    mockDocs({ 'user_invites/revoked@example.com': { email: 'revoked@example.com', role: 'user', status: 'revoked', invitedAt: now } });
+    const service = new InviteService();
+
+    expect(await service.registerSignIn(profile, now)).toBeNull();
+    expect(await service.registerSignIn({ ...profile, email: 'revoked@example.com' }, now)).toBeNull();
+    expect(writes).toHaveLength(0);
+  });
+
+  it('should create new accounts with the invited role and mark the invite accepted', async () => {
+    mockDocs({ 'user_invites/trader@example.com': { email: 'trader@example.com', role: 'admin', status: 'active', invitedAt: now } });
+
+    const role = await new InviteService().registerSignIn(profile, now);
+
+    expect(role).toBe('admin');
+    const userWrite = writes.find(write => write.collection === 'users');
+    expect(userWrite?.data).toMatchObject({ email: 'trader@example.com', role: 'admin', lastLogin: now, createdAt: now });
+    expect(writes).toContainEqual({ collection: 'user_invites', id: 'trader@example.com', data: { acceptedAt: now } });
+  });
+
+  it('should take the role from the invite rather than the users doc', async () => {
+    mockDocs({
+      'user_invites/trader@example.com': { email: 'trader@example.com', role: 'user', status: 'active', invitedAt: now, acceptedAt: now },
+      'users/user-1': { email: 'trader@example.com', role: 'admin' },
+    });
+
+    const role = await new InviteService().registerSignIn(profile, now);
+
+    expect(role).toBe('user');
+    expect(writes).toHaveLength(1);
+    expect(writes[0].data).toMatchObject({ role: 'user', lastLogin: now });
+    expect(writes[0].data).not.toHaveProperty('createdAt');
+  });
+});
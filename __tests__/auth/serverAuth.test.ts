@@ -0,0 +1,124 @@
+import { NextRequest } from 'next/server';
+import { adminAuth, adminDb } from '@/lib/firebase-admin';
+import { authorizeRequest, canActAsUser, satisfiesPolicy } from '@/lib/serverAuth';
+
+describe('serverAuth', () => {
+  const mockAccount = (role?: string, inviteStatus: string | null = 'active', profileRole?: string) => {
+    jest.mocked(adminDb.collection).mockImplementation((name: string) => ({
+      doc: () => ({
+        get: async () => {
+          if (name === 'user_invites') {
+            return {
+              exists: !!inviteStatus,
+              data: () => (inviteStatus ? { email: 'trader@example.com', status: inviteStatus, ...(role && { role }) } : undefined)
+            };
+          }
+          return { exists: true, data: () => (profileRole ? { role: profileRole } : {}) };
+        },
+      }),
+    }) as any);
+  };
+
+  const request = (headers: Record<string, string> = {}) =>
+    new NextRequest('http://localhost/api/db/cleanup', { method: 'POST', headers });
+
+  beforeEach(() => {
+    process.env.API_KEY = 'scheduled-secret';
+    jest.mocked(adminAuth.verifyIdToken).mockReset();
+    jest.mocked(adminAuth.verifyIdToken).mockImplementation(async (token: string) => {
+      if (token !== 'valid-token' && token !== 'unverified-token') {
+        throw new Error('Decoding Firebase ID token failed');
+      }
+      return { uid: 'user-1', email: 'Trader@Example.com', email_verified: token !== 'unverified-token' } as any;
+    });
+  });
+
+  afterAll(() => {
+    delete process.env.API_KEY;
+  });
+
+  it('should reject anonymous requests', async () => {
+    const result = await authorizeRequest(request(), 'user');
+    expect(result.response?.status).toBe(401);
+  });
+
+  it('should reject invalid tokens and API keys', async () => {
+    expect((await authorizeRequest(request({ authorization: 'Bearer forged' }), 'user')).response?.status).toBe(401);
+    expect((await authorizeRequest(request({ 'x-api-key': 'guess' }), 'scheduled')).response?.status).toBe(401);
+  });
+
+  it('should reject API keys when none is configured', async () => {
+    delete process.env.API_KEY;
+    expect((await authorizeRequest(request({ 'x-api-key': 'undefined' }), 'scheduled')).response?.status).toBe(401);
+  });
+
+  it('should let signed-in users through user routes but not admin routes', async () => {
+    mockAccount();
+    const headers = { authorization: 'Bearer valid-token' };
+
+    const allowed = await authorizeRequest(request(headers), 'user');
+    expect(allowed.principal).toEqual({ uid: 'user-1', email: 'trader@example.com', role: 'user' });
+
+    const denied = await authorizeRequest(request(headers), 'admin');
+    expect(denied.response?.status).toBe(403);
+    expect((await authorizeRequest(request(headers), 'scheduled')).response?.status).toBe(403);
+  });
+
+  it('should reject signed-in users whose invite is missing or revoked', async () => {
+    const headers = { authorization: 'Bearer valid-token' };
+
+    mockAccount('admin', 'revoked');
+    expect((await authorizeRequest(request(headers), 'user')).response?.status).toBe(403);
+
+    mockAccount('user', null);
+    expect((await authorizeRequest(request(headers), 'user')).response?.status).toBe(403);
+  });
+
+  it('should reject invited users whose email is not verified', async () => {
+    mockAccount('admin');
+
+    const result = await authorizeRequest(request({ authorization: 'Bearer unverified-token' }), 'user');
+    expect(result.response?.status).toBe(403);
+    expect(await result.response?.json()).toMatchObject({ error: 'Email address not verified' });
+  });
+
+  it('should let admins through every policy', async () => {
+    mockAccount('admin');
+    const headers = { authorization: 'Bearer valid-token' };
+
+    for (const policy of ['user', 'admin', 'scheduled'] as const) {
+      expect((await authorizeRequest(request(headers), policy)).principal?.role).toBe('admin');
+    }
+  });
+
+  it('should ignore a role written to the users doc', async () => {
+    mockAccount('user', 'active', 'admin');
+    const headers = { authorization: 'Bearer valid-token' };
+
+    expect((await authorizeRequest(request(headers), 'user')).principal?.role).toBe('user');
+    expect((await authorizeRequest(request(headers), 'admin')).response?.status).toBe(403);
+  });
+
+  it('should accept the scheduled-jobs key on scheduled and user routes only', async () => {
+    const headers = { 'x-api-key': 'scheduled-secret' };
+
+    expect((await authorizeRequest(request(headers), 'scheduled')).principal?.role).toBe('service');
+    expect((await authorizeRequest(request(headers), 'user')).principal?.role).toBe('service');
+    expect((await authorizeRequest(request(headers), 'admin')).response?.status).toBe(403);
+  });
+
+  it('should limit users to their own data', () => {
+    const user = { uid: 'user-1', email: '', role: 'user' as const };
+    expect(canActAsUser(user, 'user-1')).toBe(true);
+    expect(canActAsUser(user, 'user-2')).toBe(false);
+    expect(canActAsUser({ ...user, role: 'admin' }, 'user-2')).toBe(true);
+    expect(canActAsUser({ uid: 'service', email: '', role: 'service' }, '*')).toBe(true);
+  });
+
+  it('should check an authorized principal against a stricter policy', () => {
+    const user = { uid: 'user-1', email: '', role: 'user' as const };
+    expect(satisfiesPolicy(user, 'scheduled')).toBe(false);
+    expect(satisfiesPolicy({ ...user, role: 'admin' }, 'scheduled')).toBe(true);
+    expect(satisfiesPolicy({ uid: 'service', email: '', role: 'service' }, 'admin')).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+import { adminDb } from '@/lib/firebase-admin';
+import { FirestoreSearchCache, MemorySearchCache, normalizeSearchQuery, searchCacheKey } from '@/lib/cache/searchCache';
+
+describe('SearchCache', () => {
+  const now = new Date('2026-03-02T14:00:00Z');
+  const hoursLater = (hours: number) => new Date(now.getTime() + hours * 60 * 60 * 1000);
+
+  it('should normalize case and whitespace in queries', () => {
+    expect(normalizeSearchQuery('  AAPL   Latest\tNews ')).toBe('aapl latest news');
+    expect(searchCacheKey('news', 'AAPL latest news')).toBe(searchCacheKey('news', ' aapl  LATEST news'));
+    expect(searchCacheKey('news', 'AAPL latest news')).not.toBe(searchCacheKey('analyst', 'AAPL latest news'));
+  });
+
+  it('should serve cached responses until the query type TTL passes', async () => {
+    const cache = new MemorySearchCache();
+    await cache.set('news', 'AAPL latest news', '{"news":[]}', now);
+    await cache.set('earnings', 'AAPL earnings date', '{"organic":[]}', now);
+
+    expect(await cache.get('news', 'aapl latest news', hoursLater(0.5))).toBe('{"news":[]}');
+    expect(await cache.get('news', 'AAPL latest news', hoursLater(2))).toBeNull();
+    expect(await cache.get('earnings', 'AAPL earnings date', hoursLater(2))).toBe('{"organic":[]}');
+
+    const stats = await cache.getStats();
+    expect(stats.byType.news).toMatchObject({ hits: 1, misses: 1, entries: 0, ttlMinutes: 60 });
+    expect(stats.byType.earnings).toMatchObject({ hits: 1, misses: 0, entries: 1 });
+    expect(stats.hitRate).toBeCloseTo(2 / 3);
+  });
+
+  it('should evict the least recently used entry when full', async () => {
+    const cache = new MemorySearchCache(2);
+    await cache.set('analyst', 'first', '1', now);
+    await cache.set('analyst', 'second', '2', now);
+    await cache.get('analyst', 'first', now);
+    await cache.set('analyst', 'third', '3', now);
+
+    expect(await cache.get('analyst', 'second', now)).toBeNull();
+    expect(await cache.get('analyst', 'first', now)).toBe('1');
+    expect(await cache.get('analyst', 'third', now)).toBe('3');
+  });
+
+  it('should purge one query type or everything', async () => {
+    const cache = new MemorySearchCache();
+    await cache.set('analyst', 'Goldman AAPL rating', '1', now);
+    await cache.set('analyst', 'Morgan Stanley AAPL rating', '2', now);
+    await cache.set('news', 'AAPL latest news', '3', now);
+
+    expect(await cache.purge('analyst')).toBe(2);
+    expect(await cache.get('news', 'AAPL latest news', now)).toBe('3');
+    expect(await cache.purge()).toBe(1);
+    expect((await cache.getStats()).entries).toBe(0);
+  });
+
+  it('should drop only expired entries when purging expired', async () => {
+    const cache = new MemorySearchCache();
+    await cache.set('news', 'AAPL latest news', '1', now);
+    await cache.set('earnings', 'AAPL earnings date', '2', now);
+
+    expect(await cache.purgeExpired(hoursLater(2))).toBe(1);
+    expect((await cache.getStats()).byType.earnings.entries).toBe(1);
+  });
+
+  it('should delete an expired Firestore entry when it is read', async () => {
+    const remove = jest.fn().mockResolvedValue(undefined);
+    const get = jest.fn().mockResolvedValue({
+      exists: true,
+      ref: { delete: remove },
+      data: () => ({ response: '1', expiresAt: hoursLater(1) })
+    });
+    jest.mocked(adminDb.collection).mockImplementation(() => ({
+      doc: () => ({ get, set: jest.fn().mockResolvedValue(undefined) })
+    }) as any);
+
+    const cache = new FirestoreSearchCache();
+
+    expect(await cache.get('news', 'AAPL latest news', hoursLater(0.5))).toBe('1');
+    expect(remove).not.toHaveBeenCalled();
+    expect(await cache.get('news', 'AAPL latest news', hoursLater(2))).toBeNull();
+    expect(remove).toHaveBeenCalledTimes(1);
+  });
+});
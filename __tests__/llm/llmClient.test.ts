@@ -0,0 +1,90 @@
+import { adminDb } from '@/lib/firebase-admin';
+import { validateJsonSchema } from '@/lib/llm/jsonSchema';
+import { LLMResponseError, createLLMClient, type JsonSchema } from '@/lib/llm/llmClient';
+import { createMockLLMModel } from '@/lib/llm/mockModel';
+import { priceOpenAICompletion } from '@/lib/llm/openaiModel';
+
+describe('LLMClient', () => {
+  const logged: any[] = [];
+
+  const schema: JsonSchema = {
+    type: 'object',
+    required: ['sentiment', 'score'],
+    properties: {
+      sentiment: { type: 'string', enum: ['positive', 'neutral', 'negative'] },
+      score: { type: 'number', minimum: 0, maximum: 1 },
+      themes: { type: 'array', items: { type: 'string' } }
+    }
+  };
+
+  const request = {
+    purpose: 'sentiment',
+    ticker: 'AAPL',
+    schema,
+    messages: [{ role: 'user' as const, content: 'Rate AAPL' }]
+  };
+
+  beforeEach(() => {
+    logged.length = 0;
+    jest.mocked(adminDb.collection).mockImplementation(() => ({
+      add: async (data: any) => { logged.push(data); },
+    }) as any);
+  });
+
+  it('should report each schema violation with its path', () => {
+    expect(validateJsonSchema({ sentiment: 'great', themes: ['ok', 3] }, schema)).toEqual([
+      '$.score is required',
+      '$.sentiment should be one of "positive", "neutral", "negative"',
+      '$.themes[1] should be string, got number'
+    ]);
+    expect(validateJsonSchema({ sentiment: 'neutral', score: 0.5 }, schema)).toEqual([]);
+  });
+
+  it('should return validated JSON from a fenced answer and log tokens and cost', async () => {
+    const model = createMockLLMModel(['```json\n{"sentiment": "positive", "score": 0.8}\n```'], { tokensPerCall: 1500, costPer1kTokens: 0.002 });
+    const client = createLLMClient(model);
+
+    const result = await client.completeJson<{ sentiment: string; score: number }>(request);
+
+    expect(result.data).toEqual({ sentiment: 'positive', score: 0.8 });
+    expect(result.attempts).toBe(1);
+    expect(logged).toHaveLength(1);
+    expect(logged[0]).toMatchObject({
+      ticker: 'AAPL',
+      purpose: 'sentiment',
+      tokensUsed: 1500,
+      cost: 0.003,
+      resultUsed: true,
+      response: '{"sentiment":"positive","score":0.8}'
+    });
+  });
+
+  it('should send malformed answers back to the model and retry', async () => {
+    const model = createMockLLMModel(['Sure! The sentiment is positive.', { sentiment: 'positive', score: 1.4 }, { sentiment: 'positive', score: 0.9 }]);
+    const client = createLLMClient(model);
+
+    const result = await client.completeJson(request);
+
+    expect(result).toMatchObject({ data: { sentiment: 'positive', score: 0.9 }, attempts: 3, tokensUsed: 300 });
+    expect(model.requests[1].messages.slice(-2)).toEqual([
+      { role: 'assistant', content: 'Sure! The sentiment is positive.' },
+      expect.objectContaining({ role: 'user', content: expect.stringContaining('not valid JSON') })
+    ]);
+    expect(model.requests[2].messages[model.requests[2].messages.length - 1].content).toContain('$.score should be <= 1');
+    expect(model.requests.every(sent => sent.json)).toBe(true);
+  });
+
+  it('should give up after the last attempt and log the failed call', async () => {
+    const client = createLLMClient(createMockLLMModel([{ sentiment: 'bullish', score: 0.5 }]), 2);
+
+    await expect(client.completeJson(request)).rejects.toBeInstanceOf(LLMResponseError);
+    expect(logged).toHaveLength(1);
+    expect(logged[0]).toMatchObject({ resultUsed: false, attempts: 2, tokensUsed: 200 });
+  });
+
+  it('should price OpenAI prompt and completion tokens by model', () => {
+    expect(priceOpenAICompletion('gpt-4o-mini-2024-07-18', 1000, 1000)).toBeCloseTo(0.00075);
+    expect(priceOpenAICompletion('gpt-4o', 1000, 1000)).toBeCloseTo(0.0125);
+    expect(priceOpenAICompletion('some-new-model', 1000, 500)).toBeCloseTo(0.003);
+  });
+});
@@ -0,0 +1,81 @@
+import { adminDb } from '@/lib/firebase-admin';
+import { createLLMClient } from '@/lib/llm/llmClient';
+import { createMockLLMModel } from '@/lib/llm/mockModel';
+import { getActivePromptVersion, renderPrompt } from '@/lib/llm/prompts';
+import { evaluatePromptVersions, loadPromptEvalCases } from '@/lib/llm/promptEvaluation';
+import type { LLMCompletionRequest } from '@/lib/llm/types';
+
+describe('Prompt evaluation', () => {
+  const logged: any[] = [];
+  const userPrompt = (request: LLMCompletionRequest) => request.messages[request.messages.length - 1].content;
+
+  beforeEach(() => {
+    logged.length = 0;
+    jest.mocked(adminDb.collection).mockImplementation(() => ({
+      add: async (data: any) => { logged.push(data); },
+    }) as any);
+  });
+
+  afterEach(() => {
+    delete process.env.PROMPT_VERSIONS;
+  });
+
+  it('should render the requested version and honor PROMPT_VERSIONS', async () => {
+    const [evalCase] = await loadPromptEvalCases('earnings-date');
+
+    const v1 = renderPrompt('earnings-date', evalCase.input, 'v1');
+    const v2 = renderPrompt('earnings-date', evalCase.input, 'v2');
+
+    expect(v1.messages[1].content).toContain('${searchResults}');
+    expect(v2.messages[1].content).toContain('January 30, 2025 after market close');
+    expect(v2.messages[1].content).toContain("Today's date: January 10, 2025");
+    expect(() => renderPrompt('earnings-date', evalCase.input, 'v9')).toThrow('Unknown earnings-date prompt version "v9"');
+
+    const v3 = renderPrompt('earnings-date', evalCase.input);
+    expect(v3.version).toBe('v3');
+    expect(v3.messages[1].content).not.toContain('"organic"');
+    expect(v3.messages[1].content).toContain('"confirmed"');
+
+    expect(getActivePromptVersion('sentiment')).toBe('v1');
+    process.env.PROMPT_VERSIONS = 'earnings-date=v1, sentiment=v2';
+    expect(getActivePromptVersion('sentiment')).toBe('v2');
+    expect(renderPrompt('earnings-date', evalCase.input).version).toBe('v1');
+  });
+
+  it('should report agreement and accuracy for two versions', async () => {
+    const cases = await loadPromptEvalCases('sentiment');
+    // v1 calls everything positive; v2 follows the saved labels except for Coca-Cola
+    const model = createMockLLMModel([request => {
+      const prompt = userPrompt(request);
+      const v2 = prompt.includes('Work through these in order');
+      const sentiment = !v2 ? 'positive'
+        : prompt.includes('(INTC)') ? 'negative'
+        : prompt.includes('(MSFT)') ? 'neutral'
+        : 'positive';
+      return { sentiment, sentimentScore: 0.5, reasoning: 'test' };
+    }]);
+
+    const report = await evaluatePromptVersions('sentiment', 'v1', 'v2', cases, createLLMClient(model));
+
+    expect(report.total).toBe(5);
+    expect(report.cases.filter(result => result.agree).map(result => result.id)).toEqual(['aapl-growth', 'ko-flat', 'nvda-context-only']);
+    expect(report.agreement).toBe(0.6);
+    expect(report.a).toMatchObject({ version: 'v1', labeled: 4, correct: 1, accuracy: 0.25, failed: 0 });
+    expect(report.b).toMatchObject({ version: 'v2', labeled: 4, correct: 3, accuracy: 0.75, tokensUsed: 500 });
+    expect(logged.map(call => call.promptVersion)).toEqual(['v1', 'v2', 'v1', 'v2', 'v1', 'v2', 'v1', 'v2', 'v1', 'v2']);
+    expect(logged[0].purpose).toBe('sentiment-eval');
+  });
+
+  it('should count a version that never returns valid JSON as failed and wrong', async () => {
+    const cases = (await loadPromptEvalCases('earnings-date')).slice(0, 1);
+    const model = createMockLLMModel([request =>
+      userPrompt(request).includes('${searchResults}') ? 'I could not find a date.' : { date: '2025-01-30', quarter: 'Q4', confidence: 0.9 }
+    ]);
+
+    const report = await evaluatePromptVersions('earnings-date', 'v1', 'v2', cases, createLLMClient(model, 1));
+
+    expect(report.a).toMatchObject({ answered: 0, failed: 1, accuracy: 0 });
+    expect(report.b).toMatchObject({ answered: 1, correct: 1, accuracy: 1 });
+    expect(report.agreement).toBe(0);
+  });
+});
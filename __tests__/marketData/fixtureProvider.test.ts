@@ -0,0 +1,69 @@
+import { createFixtureMarketDataProvider } from '@/lib/marketData/fixtureProvider';
+import { createMarketDataProvider, getMarketDataProviderName } from '@/lib/marketData/marketDataProvider';
+import { PolygonTool } from '@/lib/tools/polygonTool';
+
+describe('FixtureMarketDataProvider', () => {
+  const provider = createFixtureMarketDataProvider('fixtures/market-data');
+
+  it('should filter daily bars to the requested range', async () => {
+    const aggregates = await provider.getAggregates('AAPL', 1, 'day', '2025-01-06', '2025-01-10');
+
+    expect(aggregates.ticker).toBe('AAPL');
+    expect(aggregates.results.map(bar => bar.timestamp.toISOString().slice(0, 10)))
+      .toEqual(['2025-01-06', '2025-01-07', '2025-01-08', '2025-01-10']);
+  });
+
+  it('should derive the snapshot from the latest bars', async () => {
+    const { results } = await provider.getAggregates('AAPL', 1, 'day', '2025-01-01', '2025-12-31');
+    const snapshot = await provider.getSnapshotTicker('AAPL');
+
+    expect(snapshot.price).toBe(results[results.length - 1].close);
+    expect(snapshot.previousClose).toBe(results[results.length - 2].close);
+    expect(snapshot.changePercent).toBeCloseTo((snapshot.change / snapshot.previousClose) * 100, 6);
+  });
+
+  it('should combine snapshot and details into stock data', async () => {
+    const stockData = await provider.getStockData('MSFT');
+
+    expect(stockData.name).toBe('Microsoft Corporation');
+    expect(stockData.details.sector).toBe('Technology');
+  });
+
+  it('should return the earnings calendar within the date range', async () => {
+    const calendar = await provider.getEarningsCalendar('2025-01-30', '2025-02-15');
+
+    expect(calendar.count).toBe(1);
+    expect(calendar.results[0].ticker).toBe('AAPL');
+    expect(calendar.results[0].reportDate).toBeInstanceOf(Date);
+  });
+
+  it('should throw for tickers without fixtures', async () => {
+    await expect(provider.getSnapshotTicker('ZZZZ')).rejects.toThrow('No market data fixture for ZZZZ');
+  });
+});
+
+describe('createMarketDataProvider', () => {
+  const originalProvider = process.env.MARKET_DATA_PROVIDER;
+
+  afterEach(() => {
+    if (originalProvider === undefined) {
+      delete process.env.MARKET_DATA_PROVIDER;
+    } else {
+      process.env.MARKET_DATA_PROVIDER = originalProvider;
+    }
+  });
+
+  it('should select the provider from MARKET_DATA_PROVIDER', () => {
+    process.env.MARKET_DATA_PROVIDER = 'fixture';
+    expect(createMarketDataProvider()).not.toBeInstanceOf(PolygonTool);
+
+    process.env.MARKET_DATA_PROVIDER = 'polygon';
+    process.env.POLYGON_API_KEY = 'test-polygon-key';
+    expect(createMarketDataProvider()).toBeInstanceOf(PolygonTool);
+  });
+
+  it('should reject unknown providers', () => {
+    process.env.MARKET_DATA_PROVIDER = 'yahoo';
+    expect(() => getMarketDataProviderName()).toThrow('Unknown MARKET_DATA_PROVIDER');
+  });
+});
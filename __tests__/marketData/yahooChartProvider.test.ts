@@ -0,0 +1,69 @@
+import { createMarketPriceSource } from '@/lib/marketData/marketDataProvider';
+import { createYahooChartMarketData, getChartInterval, YahooChartMarketData } from '@/lib/marketData/yahooChartProvider';
+import { getMarketForTicker, getQuoteSymbol } from '@/lib/utils/ta125Tickers';
+
+global.fetch = jest.fn();
+
+describe('YahooChartMarketData', () => {
+  const chart = (currency: string) => ({
+    chart: {
+      result: [{
+        meta: { currency, regularMarketPrice: 6210, regularMarketTime: 1736870400 },
+        timestamp: [1736697600, 1736784000, 1736870400],
+        indicators: {
+          quote: [{
+            open: [6000, 6050, 6100],
+            high: [6080, 6120, 6250],
+            low: [5950, 6000, 6090],
+            close: [6050, null, 6100],
+            volume: [1000, 0, 1200],
+          }],
+        },
+      }],
+      error: null,
+    },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should quote the exchange-qualified symbol and convert agorot to shekels', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: true, status: 200, json: async () => chart('ILA') });
+
+    const snapshot = await createYahooChartMarketData().getSnapshotTicker('LUMI');
+
+    expect((global.fetch as jest.Mock).mock.calls[0][0]).toContain('/chart/LUMI.TA?');
+    expect(snapshot).toMatchObject({ ticker: 'LUMI', price: 62.1, previousClose: 60.5 });
+    expect(snapshot.changePercent).toBeCloseTo((1.6 / 60.5) * 100);
+  });
+
+  it('should keep shekel quotes as they are and skip empty bars', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: true, status: 200, json: async () => chart('ILS') });
+
+    const { results } = await createYahooChartMarketData().getAggregates('NICE', 1, 'day', '2025-01-12', '2025-01-14');
+
+    expect(results.map(bar => bar.close)).toEqual([6050, 6100]);
+    expect((global.fetch as jest.Mock).mock.calls[0][0]).toContain('interval=1d');
+    expect(getChartInterval(30, 'minute')).toBe('30m');
+    expect(getChartInterval(3, 'minute')).toBe('5m');
+  });
+
+  it('should only scrape Yahoo for TA-125 prices when opted in', async () => {
+    expect(createMarketPriceSource('TA125', 'polygon', 'yahoo')).toBeInstanceOf(YahooChartMarketData);
+    expect(createMarketPriceSource('SP500', 'polygon', 'yahoo')).not.toBeInstanceOf(YahooChartMarketData);
+    expect(createMarketPriceSource('TA125', 'fixture', 'yahoo')).not.toBeInstanceOf(YahooChartMarketData);
+
+    await expect(createMarketPriceSource('TA125', 'polygon', 'none').getSnapshotTicker('LUMI'))
+      .rejects.toThrow('No TA-125 price source configured');
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should not read dual listings or US-named symbols as Tel Aviv quotes', () => {
+    expect(getMarketForTicker('LUMI')).toBe('TA125');
+    expect(getMarketForTicker('TEVA')).toBe('SP500');
+    expect(getMarketForTicker('FOX')).toBe('SP500');
+    expect(getQuoteSymbol('teva', 'TA125')).toBe('TEVA.TA');
+    expect(getQuoteSymbol('TEVA', 'SP500')).toBe('TEVA');
+  });
+});
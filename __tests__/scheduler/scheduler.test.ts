@@ -0,0 +1,125 @@
+jest.mock('@/lib/scheduler/jobRegistry', () => ({ SCHEDULED_JOB_DEFINITIONS: [] }));
+jest.mock('firebase-admin/firestore', () => ({ FieldValue: { delete: () => '__delete__' } }));
+
+import { adminDb } from '@/lib/firebase-admin';
+import { Scheduler, SCHEDULED_JOBS_COLLECTION, SCHEDULED_JOB_RUNS_COLLECTION } from '@/lib/scheduler/scheduler';
+import type { ScheduledJobDefinition } from '@/lib/scheduler/jobRegistry';
+
+describe('Scheduler', () => {
+  let store: Map<string, Map<string, any>>;
+  let autoId = 0;
+
+  const collectionOf = (name: string) => {
+    if (!store.has(name)) store.set(name, new Map());
+    return store.get(name)!;
+  };
+
+  const docRef = (name: string, id: string) => ({
+    id,
+    get: async () => {
+      const data = collectionOf(name).get(id);
+      return { id, exists: !!data, data: () => data };
+    },
+    set: async (data: any) => { collectionOf(name).set(id, { ...data }); },
+    update: async (data: any) => {
+      const merged = { ...collectionOf(name).get(id), ...data };
+      Object.keys(merged).forEach(key => merged[key] === '__delete__' && delete merged[key]);
+      collectionOf(name).set(id, merged);
+    },
+  });
+
+  const stored = (jobId: string) => collectionOf(SCHEDULED_JOBS_COLLECTION).get(jobId);
+  const runs = () => [...collectionOf(SCHEDULED_JOB_RUNS_COLLECTION).values()];
+
+  // Monday 2026-03-09 14:00 UTC = 10:00 EDT
+  const now = new Date('2026-03-09T14:00:00Z');
+  const minutesLater = (n: number) => new Date(now.getTime() + n * 60 * 1000);
+
+  const definition = (overrides: Partial<ScheduledJobDefinition> = {}): ScheduledJobDefinition => ({
+    id: 'every-minute',
+    name: 'Every minute',
+    description: 'Test job',
+    defaultCron: '* * * * *',
+    handler: jest.fn().mockResolvedValue({ success: true, message: '3 things done' }),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    store = new Map();
+    autoId = 0;
+    jest.mocked(adminDb.collection).mockImplementation((name: string) => ({
+      doc: (id?: string) => docRef(name, id || `auto-${++autoId}`),
+      get: async () => ({
+        docs: [...collectionOf(name).entries()].map(([id, data]) => ({ id, data: () => data })),
+      }),
+    }) as any);
+    (adminDb as any).runTransaction = async (fn: (transaction: any) => Promise<any>) => fn({
+      get: (ref: any) => ref.get(),
+      update: (ref: any, data: any) => ref.update(data),
+    });
+  });
+
+  it('should register new jobs with their default schedule', async () => {
+    const jobs = await new Scheduler([definition()]).listJobs(now);
+
+    expect(jobs).toHaveLength(1);
+    expect(stored('every-minute')).toMatchObject({
+      cron: '* * * * *',
+      timeZone: 'America/New_York',
+      enabled: true,
+      nextRunAt: minutesLater(1),
+    });
+  });
+
+  it('should run due jobs, record the run and advance the schedule', async () => {
+    const job = definition();
+    const scheduler = new Scheduler([job]);
+
+    expect((await scheduler.tick(now)).ran).toHaveLength(0);
+
+    const result = await scheduler.tick(minutesLater(1));
+
+    expect(job.handler).toHaveBeenCalledTimes(1);
+    expect(result.ran).toEqual([{ jobId: 'every-minute', status: 'success', message: '3 things done' }]);
+    expect(runs()).toHaveLength(1);
+    expect(runs()[0]).toMatchObject({ jobId: 'every-minute', trigger: 'schedule', status: 'success' });
+    expect(stored('every-minute')).toMatchObject({ lastStatus: 'success', nextRunAt: minutesLater(2) });
+    expect(stored('every-minute')).not.toHaveProperty('lockedUntil');
+  });
+
+  it('should skip disabled and locked jobs', async () => {
+    const disabled = definition({ id: 'disabled' });
+    const locked = definition({ id: 'locked' });
+    const scheduler = new Scheduler([disabled, locked]);
+    await scheduler.listJobs(now);
+    await scheduler.updateJob('disabled', { enabled: false }, now);
+    collectionOf(SCHEDULED_JOBS_COLLECTION).get('locked').lockedUntil = minutesLater(5);
+
+    const result = await scheduler.tick(minutesLater(1));
+
+    expect(disabled.handler).not.toHaveBeenCalled();
+    expect(locked.handler).not.toHaveBeenCalled();
+    expect(result.skipped).toEqual(['locked']);
+  });
+
+  it('should record failures when a handler throws', async () => {
+    const job = definition({ handler: jest.fn().mockRejectedValue(new Error('SendGrid down')) });
+    const scheduler = new Scheduler([job]);
+    await scheduler.listJobs(now);
+
+    const run = await scheduler.runNow('every-minute', 'admin@example.com', now);
+
+    expect(run).toMatchObject({ status: 'failed', message: 'SendGrid down', trigger: 'manual', triggeredBy: 'admin@example.com' });
+    expect(stored('every-minute')).toMatchObject({ lastStatus: 'failed', nextRunAt: minutesLater(1) });
+  });
+
+  it('should validate cron changes and recompute the next run', async () => {
+    const scheduler = new Scheduler([definition()]);
+
+    await expect(scheduler.updateJob('every-minute', { cron: '0 25 * * *' }, now)).rejects.toThrow('out of range');
+
+    const updated = await scheduler.updateJob('every-minute', { cron: '30 16 * * 1-5' }, now);
+    expect(updated?.nextRunAt?.toISOString()).toBe('2026-03-09T20:30:00.000Z');
+    expect(await scheduler.updateJob('missing', { enabled: false }, now)).toBeNull();
+  });
+});
@@ -0,0 +1,121 @@
+import { adminDb } from '@/lib/firebase-admin';
+import {
+  createConsensusHistoryService,
+  detectRatingChanges,
+  summarizeEarningsShifts
+} from '@/lib/services/consensusHistoryService';
+import type { ConsensusSnapshot } from '@/types';
+
+jest.mock('@/lib/marketData/marketDataProvider', () => ({
+  createMarketPriceSource: jest.fn(() => ({}))
+}));
+
+describe('ConsensusHistoryService', () => {
+  const day = (date: string) => new Date(`${date}T15:00:00Z`);
+  const snapshot = (date: string, consensus: ConsensusSnapshot['consensus']): ConsensusSnapshot => ({
+    ticker: 'AAPL',
+    date,
+    consensus,
+    confidence: 0.6,
+    participants: 3,
+    weights: { BUY: 1, HOLD: 1, SELL: 1 },
+    counts: { BUY: 1, HOLD: 1, SELL: 1 },
+    createdAt: day(date)
+  });
+
+  it('should report each change of call per analyst as an upgrade or downgrade', () => {
+    const changes = detectRatingChanges('AAPL', [
+      { analyst_id: 'a1', action: 'BUY', t0: day('2025-03-10') },
+      { analyst_id: 'a1', action: 'HOLD', t0: day('2025-02-01') },
+      { analyst_id: 'a2', action: 'HOLD', t0: day('2025-02-05') },
+      { analyst_id: 'a2', action: 'HOLD', t0: day('2025-02-20') },
+      { analyst_id: 'a2', action: 'SELL', t0: day('2025-03-01') }
+    ]);
+
+    expect(changes).toEqual([
+      { ticker: 'AAPL', analystId: 'a2', from: 'HOLD', to: 'SELL', direction: 'downgrade', date: day('2025-03-01') },
+      { ticker: 'AAPL', analystId: 'a1', from: 'HOLD', to: 'BUY', direction: 'upgrade', date: day('2025-03-10') }
+    ]);
+  });
+
+  it('should take the consensus about four weeks out and on the eve of each report', () => {
+    const snapshots = [
+      snapshot('2025-03-25', 'HOLD'),
+      snapshot('2025-04-01', 'HOLD'),
+      snapshot('2025-04-20', 'BUY'),
+      snapshot('2025-05-01', 'BUY')
+    ];
+
+    const [shift] = summarizeEarningsShifts(snapshots, [{ date: day('2025-05-01'), label: 'Q2 2025 earnings' }]);
+
+    expect(shift.before?.date).toBe('2025-04-01');
+    expect(shift.latest?.date).toBe('2025-04-20');
+    expect(summarizeEarningsShifts([], [{ date: day('2025-05-01'), label: '' }])[0]).toMatchObject({ before: null, latest: null });
+  });
+
+  it('should save one snapshot per covered ticker per day', async () => {
+    const set = jest.fn();
+    const doc = jest.fn(() => ({ set }));
+    jest.mocked(adminDb.collection).mockImplementation(((name: string) => name === 'consensus_snapshots'
+      ? { doc }
+      : {
+        where: () => ({
+          get: async () => ({
+            docs: [{ data: () => ({ ticker: 'AAPL' }) }, { data: () => ({ ticker: 'AAPL' }) }, { data: () => ({ ticker: 'MSFT' }) }]
+          })
+        })
+      }) as any);
+
+    const service = createConsensusHistoryService();
+    const getWeightedConsensus = jest.spyOn((service as any).tracker, 'getWeightedConsensus')
+      .mockImplementation(async (ticker: any) => ticker === 'AAPL'
+        ? {
+          consensus: 'BUY',
+          confidence: 0.7,
+          weights: { BUY: 1.4, HOLD: 0.6, SELL: 0 },
+          counts: { BUY: 2, HOLD: 1, SELL: 0 },
+          participants: [{}, {}, {}]
+        }
+        : { consensus: 'HOLD', confidence: 0, weights: { BUY: 0, HOLD: 0, SELL: 0 }, counts: { BUY: 0, HOLD: 0, SELL: 0 }, participants: [] });
+
+    const result = await service.snapshotOpenTickers(day('2025-05-01'));
+
+    expect(getWeightedConsensus).toHaveBeenCalledTimes(2);
+    expect(result).toEqual({ snapshots: 1, errors: [] });
+    expect(doc).toHaveBeenCalledWith('AAPL_2025-05-01');
+    expect(set).toHaveBeenCalledWith(expect.objectContaining({ consensus: 'BUY', participants: 3, counts: { BUY: 2, HOLD: 1, SELL: 0 } }));
+  });
+
+  it('should include past reports from the company history alongside the next one', async () => {
+    const where = (docs: any[]) => () => ({ get: async () => ({ docs }) });
+    jest.mocked(adminDb.collection).mockImplementation(((name: string) => {
+      if (name === 'company_history') {
+        return {
+          doc: () => ({
+            get: async () => ({
+              exists: true,
+              data: () => ({
+                events: [
+                  { type: 'earnings_release', date: { toDate: () => day('2025-05-01') }, data: { quarter: 'Q2', fiscalYear: 2025 } },
+                  { type: 'sentiment_update', date: { toDate: () => day('2025-04-20') }, data: {} }
+                ]
+              })
+            })
+          })
+        };
+      }
+      if (name === 'earnings_events') {
+        return { where: where([{ data: () => ({ expectedDate: day('2025-07-31'), quarter: 'Q3', fiscalYear: 2025 }) }]) };
+      }
+      if (name === 'consensus_snapshots') {
+        return { where: where([{ data: () => snapshot('2025-04-02', 'HOLD') }, { data: () => snapshot('2025-04-30', 'BUY') }]) };
+      }
+      return { where: where([]) };
+    }) as any);
+
+    const history = await createConsensusHistoryService().getHistory('AAPL', 120, day('2025-07-15'));
+
+    expect(history.earnings.map(report => report.label)).toEqual(['Q2 2025 earnings', 'Q3 2025 earnings']);
+    expect(history.earnings[0]).toMatchObject({ before: { date: '2025-04-02' }, latest: { date: '2025-04-30' } });
+  });
+});
@@ -0,0 +1,182 @@
+import { adminDb } from '@/lib/firebase-admin';
+import {
+  MAX_DATE_CHANGES,
+  appendDateChange,
+  createEarningsDateService,
+  isNextReport,
+  mergeDateCandidates,
+  reconcileEarningsDate
+} from '@/lib/services/earningsDateService';
+import type { EarningsDateCandidate, EarningsDateChange } from '@/types';
+
+describe('EarningsDateService', () => {
+  const now = new Date('2025-01-10T12:00:00Z');
+  const candidate = (overrides: Partial<EarningsDateCandidate>): EarningsDateCandidate => ({
+    source: 'sp500',
+    date: new Date('2025-01-30T00:00:00Z'),
+    confidence: 0.7,
+    confirmed: false,
+    fetchedAt: now,
+    ...overrides
+  });
+
+  describe('reconcileEarningsDate', () => {
+    it('should raise confidence when sources agree on the day', () => {
+      const reconciled = reconcileEarningsDate([
+        candidate({}),
+        // Same day parsed as midnight US Eastern
+        candidate({ source: 'polygon', date: new Date('2025-01-30T05:00:00Z'), confidence: 0.9 })
+      ], now);
+
+      expect(reconciled).toMatchObject({
+        date: new Date('2025-01-30T00:00:00Z'),
+        source: 'sp500',
+        confidence: 0.86,
+        confirmed: false,
+        agreeingSources: ['sp500', 'polygon'],
+        conflictingCandidates: 0
+      });
+    });
+
+    it('should lower confidence on disagreement and prefer a company-confirmed date', () => {
+      const estimates = [
+        candidate({}),
+        candidate({ source: 'polygon', date: new Date('2025-02-06T00:00:00Z'), confidence: 0.9 })
+      ];
+
+      expect(reconcileEarningsDate(estimates, now)).toMatchObject({
+        date: new Date('2025-01-30T00:00:00Z'),
+        confidence: 0.51,
+        conflictingCandidates: 1
+      });
+
+      const confirmed = candidate({ source: 'web', date: new Date('2025-02-03T00:00:00Z'), confidence: 0.6, confirmed: true });
+      expect(reconcileEarningsDate([...estimates, confirmed], now)).toMatchObject({
+        date: confirmed.date,
+        source: 'web',
+        confirmed: true,
+        confidence: 0.54
+      });
+    });
+
+    it('should ignore past dates while an upcoming one is known', () => {
+      const past = candidate({ source: 'polygon', date: new Date('2025-01-05T00:00:00Z'), confidence: 0.9 });
+      const upcoming = candidate({ source: 'web', confidence: 0.6 });
+
+      expect(reconcileEarningsDate([past, upcoming], now)?.date).toEqual(upcoming.date);
+      expect(reconcileEarningsDate([past], now)?.date).toEqual(past.date);
+      expect(reconcileEarningsDate([], now)).toBeNull();
+    });
+  });
+
+  it('should replace refreshed sources and drop stale candidates when merging', () => {
+    const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+    const merged = mergeDateCandidates(
+      [
+        candidate({ confidence: 0.4, fetchedAt: daysAgo(1) }),
+        candidate({ source: 'web', confidence: 0.6, fetchedAt: daysAgo(2) }),
+        candidate({ source: 'polygon', confidence: 0.9, fetchedAt: daysAgo(20) })
+      ],
+      [candidate({ confidence: 0.8 })],
+      now
+    );
+
+    expect(merged.map(c => [c.source, c.confidence])).toEqual([['sp500', 0.8], ['web', 0.6]]);
+  });
+
+  it('should log a move only when the date lands on another day', () => {
+    const reconciled = reconcileEarningsDate([candidate({ date: new Date('2025-02-04T00:00:00Z') })], now)!;
+    const changes: EarningsDateChange[] = [];
+
+    expect(appendDateChange(changes, new Date('2025-02-04T05:00:00Z'), reconciled, now)).toBe(changes);
+    expect(appendDateChange(changes, undefined, reconciled, now)).toBe(changes);
+    expect(appendDateChange(changes, new Date('2025-01-30T00:00:00Z'), reconciled, now)).toEqual([
+      { from: new Date('2025-01-30T00:00:00Z'), to: reconciled.date, changedAt: now, source: 'sp500', confirmed: false }
+    ]);
+
+    const full = Array.from({ length: MAX_DATE_CHANGES }, () => ({ ...reconciled, from: now, to: now, changedAt: now }));
+    expect(appendDateChange(full, new Date('2025-01-30T00:00:00Z'), reconciled, now)).toHaveLength(MAX_DATE_CHANGES);
+  });
+
+  it('should merge stored candidates into the event and record the move', async () => {
+    const update = jest.fn();
+    jest.mocked(adminDb.collection).mockImplementation(() => ({
+      where: () => ({
+        get: async () => ({
+          empty: false,
+          docs: [{
+            ref: { update },
+            data: () => ({
+              ticker: 'AAPL',
+              expectedDate: new Date('2025-01-30T00:00:00Z'),
+              dateCandidates: [candidate({ source: 'polygon', confidence: 0.9 })],
+              updatedAt: { toDate: () => now }
+            })
+          }]
+        })
+      })
+    }) as any);
+
+    const result = await createEarningsDateService().applyDateCandidates({
+      ticker: 'AAPL',
+      candidates: [candidate({ date: new Date('2025-02-04T00:00:00Z'), confidence: 0.9, confirmed: true })],
+      fields: { companyName: 'Apple Inc.' }
+    }, now);
+
+    expect(result).toMatchObject({ action: 'updated', moved: true });
+    const written = update.mock.calls[0][0];
+    expect(written).toMatchObject({
+      companyName: 'Apple Inc.',
+      expectedDate: new Date('2025-02-04T00:00:00Z'),
+      dataSource: 'sp500',
+      dateConfirmed: true
+    });
+    expect(written.dateCandidates.map((c: EarningsDateCandidate) => c.source)).toEqual(['sp500', 'polygon']);
+    expect(written.dateChanges).toHaveLength(1);
+  });
+
+  it('should tell the next quarter from a delayed report', () => {
+    const reported = { date: new Date('2024-10-31T00:00:00Z'), quarter: 'Q4', fiscalYear: 2024 };
+
+    expect(isNextReport(reported, { date: new Date('2025-01-30T00:00:00Z'), quarter: 'Q1', fiscalYear: 2025 }, now)).toBe(true);
+    expect(isNextReport(reported, { date: new Date('2025-01-30T00:00:00Z') }, now)).toBe(true);
+    expect(isNextReport(reported, { date: new Date('2024-11-07T00:00:00Z'), quarter: 'Q4', fiscalYear: 2024 }, now)).toBe(false);
+    expect(isNextReport({ date: new Date('2025-01-30T00:00:00Z') }, { date: new Date('2025-04-30T00:00:00Z') }, now)).toBe(false);
+    expect(isNextReport(undefined, { date: new Date('2025-01-30T00:00:00Z') }, now)).toBe(false);
+  });
+
+  it('should start a fresh log and drop past candidates when the next report is reached', async () => {
+    const update = jest.fn();
+    jest.mocked(adminDb.collection).mockImplementation(() => ({
+      where: () => ({
+        get: async () => ({
+          empty: false,
+          docs: [{
+            ref: { update },
+            data: () => ({
+              ticker: 'AAPL',
+              quarter: 'Q4',
+              fiscalYear: 2024,
+              expectedDate: new Date('2024-10-31T00:00:00Z'),
+              dateCandidates: [candidate({ source: 'polygon', date: new Date('2024-10-31T00:00:00Z'), fetchedAt: new Date('2025-01-02T00:00:00Z') })],
+              dateChanges: [{ from: new Date('2024-10-24T00:00:00Z'), to: new Date('2024-10-31T00:00:00Z'), changedAt: new Date('2024-10-01T00:00:00Z'), source: 'sp500', confirmed: true }],
+              updatedAt: { toDate: () => now }
+            })
+          }]
+        })
+      })
+    }) as any);
+
+    const result = await createEarningsDateService().applyDateCandidates({
+      ticker: 'AAPL',
+      candidates: [candidate({ date: new Date('2025-01-30T00:00:00Z') })],
+      fields: { quarter: 'Q1', fiscalYear: 2025 }
+    }, now);
+
+    expect(result).toMatchObject({ action: 'updated', moved: false });
+    const written = update.mock.calls[0][0];
+    expect(written.expectedDate).toEqual(new Date('2025-01-30T00:00:00Z'));
+    expect(written.dateChanges).toEqual([]);
+    expect(written.dateCandidates.map((c: EarningsDateCandidate) => c.source)).toEqual(['sp500']);
+  });
+});
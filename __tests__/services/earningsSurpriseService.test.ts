@@ -0,0 +1,86 @@
+import {
+  calculateSurprisePercent,
+  calculatePriceReaction,
+  findReportedQuarter,
+  type DailyBar
+} from '@/lib/services/earningsSurpriseService';
+
+describe('EarningsSurpriseService', () => {
+  describe('calculateSurprisePercent', () => {
+    it('should compute beat and miss relative to the estimate', () => {
+      expect(calculateSurprisePercent(1.1, 1.0)).toBeCloseTo(10);
+      expect(calculateSurprisePercent(0.9, 1.0)).toBeCloseTo(-10);
+    });
+
+    it('should use the absolute estimate for negative estimates', () => {
+      // Smaller loss than expected is a beat
+      expect(calculateSurprisePercent(-0.5, -1.0)).toBeCloseTo(50);
+    });
+
+    it('should return undefined when figures are missing or the estimate is zero', () => {
+      expect(calculateSurprisePercent(undefined, 1.0)).toBeUndefined();
+      expect(calculateSurprisePercent(1.0, undefined)).toBeUndefined();
+      expect(calculateSurprisePercent(1.0, 0)).toBeUndefined();
+    });
+  });
+
+  describe('calculatePriceReaction', () => {
+    const bars: DailyBar[] = [
+      { timestamp: new Date('2025-01-27T05:00:00Z'), close: 100 },
+      { timestamp: new Date('2025-01-28T05:00:00Z'), close: 102 },
+      { timestamp: new Date('2025-01-29T05:00:00Z'), close: 96.9 },
+      { timestamp: new Date('2025-01-30T05:00:00Z'), close: 98 },
+    ];
+    const reportDate = new Date('2025-01-28T21:00:00Z');
+
+    it('should measure the next session for after-market reports', () => {
+      const reaction = calculatePriceReaction(bars, reportDate, 'after_market');
+
+      expect(reaction?.percent).toBeCloseTo(-5);
+      expect(reaction?.date).toEqual(bars[2].timestamp);
+    });
+
+    it('should measure the report day for before-market reports', () => {
+      const reaction = calculatePriceReaction(bars, reportDate, 'before_market');
+
+      expect(reaction?.percent).toBeCloseTo(2);
+      expect(reaction?.date).toEqual(bars[1].timestamp);
+    });
+
+    it('should return null until the reaction session has closed', () => {
+      expect(calculatePriceReaction(bars.slice(0, 2), reportDate, 'after_market')).toBeNull();
+    });
+
+    it('should use the Tel Aviv trading week for TASE listings', () => {
+      // Sunday was a TASE session before 2026; NYSE only reacts on Monday
+      const taseBars: DailyBar[] = [
+        { timestamp: new Date('2025-01-23T00:00:00Z'), close: 100 },
+        { timestamp: new Date('2025-01-26T00:00:00Z'), close: 105 },
+        { timestamp: new Date('2025-01-27T00:00:00Z'), close: 110 },
+      ];
+      const sundayReport = new Date('2025-01-26T05:00:00Z');
+
+      expect(calculatePriceReaction(taseBars, sundayReport, 'before_market', 'TASE')?.date).toEqual(taseBars[1].timestamp);
+      expect(calculatePriceReaction(taseBars, sundayReport, 'before_market')?.date).toEqual(taseBars[2].timestamp);
+    });
+  });
+
+  describe('findReportedQuarter', () => {
+    const quarter = (fiscalPeriod: string, endDate: string) => ({
+      ticker: 'AAPL',
+      fiscalPeriod,
+      fiscalYear: 2024,
+      endDate: new Date(endDate),
+      eps: 1
+    });
+    const maxGapMs = 120 * 24 * 60 * 60 * 1000;
+
+    it('should pick the latest quarter that ended before the report, whatever the order', () => {
+      const financials = [quarter('Q2', '2024-06-29'), quarter('Q4', '2024-12-28'), quarter('Q3', '2024-09-28')];
+
+      expect(findReportedQuarter(financials, new Date('2025-01-30'), maxGapMs)?.fiscalPeriod).toBe('Q4');
+      expect(findReportedQuarter(financials, new Date('2024-10-31'), maxGapMs)?.fiscalPeriod).toBe('Q3');
+      expect(findReportedQuarter(financials, new Date('2025-09-01'), maxGapMs)).toBeUndefined();
+    });
+  });
+});
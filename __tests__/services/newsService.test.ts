@@ -0,0 +1,110 @@
+import { adminDb } from '@/lib/firebase-admin';
+import { createLLMClient } from '@/lib/llm/llmClient';
+import { createMockLLMModel } from '@/lib/llm/mockModel';
+import { parseSerperDate, parseSerperNewsArticles } from '@/lib/tools/serperTool';
+import {
+  NewsService,
+  aggregateSentiment,
+  articleId,
+  buildNewsDigest,
+  mergeArticles
+} from '@/lib/services/newsService';
+import type { NewsArticle } from '@/types';
+
+describe('NewsService', () => {
+  const now = new Date('2026-03-02T14:00:00Z');
+  const earlier = new Date('2026-03-01T14:00:00Z');
+
+  const stored = (overrides: Partial<NewsArticle>): NewsArticle => {
+    const article = {
+      title: 'Apple beats on services revenue',
+      url: 'https://www.reuters.com/technology/apple-services/',
+      source: 'Reuters',
+      snippet: 'Services revenue hit a record.',
+      firstSeenAt: earlier,
+      ...overrides
+    };
+    return { id: articleId(article), ...article } as NewsArticle;
+  };
+
+  it('should parse Serper news results with sources and dates', () => {
+    const results = JSON.stringify({
+      news: [
+        { title: 'Apple unveils new iPad', link: 'https://example.com/ipad', snippet: 'A new iPad.', source: 'The Verge', date: '3 hours ago' },
+        { title: 'Apple supplier update', link: 'https://www.ft.com/content/abc', snippet: 'Supply chain.', date: 'Feb 27, 2026' }
+      ],
+      organic: [{ title: 'AAPL stock quote', link: 'https://www.nasdaq.com/aapl', snippet: 'Quote.' }]
+    });
+
+    const articles = parseSerperNewsArticles(results, now);
+
+    expect(articles).toHaveLength(3);
+    expect(articles[0]).toMatchObject({ title: 'Apple unveils new iPad', source: 'The Verge', publishedAt: new Date('2026-03-02T11:00:00Z') });
+    expect(articles[2].source).toBe('nasdaq.com');
+    expect(parseSerperDate('yesterday', now)).toBeUndefined();
+  });
+
+  it('should skip articles seen on earlier runs and syndicated copies', () => {
+    const existing = [stored({ sentiment: 'positive', sentimentScore: 0.6 })];
+
+    const { articles, added } = mergeArticles(existing, [
+      // Same story with tracking parameters
+      { title: 'Apple beats on services revenue', url: 'https://reuters.com/technology/apple-services?utm_source=x', source: 'Reuters', snippet: '' },
+      // Same headline on another site
+      { title: 'Apple Beats on Services Revenue!', url: 'https://yahoo.com/apple', source: 'Yahoo', snippet: '' },
+      { title: 'Apple faces EU fine', url: 'https://bbc.com/apple-fine', source: 'BBC', snippet: 'A fine.', publishedAt: now }
+    ], now);
+
+    expect(added.map(article => article.title)).toEqual(['Apple faces EU fine']);
+    expect(articles).toHaveLength(2);
+    expect(articles[0].title).toBe('Apple faces EU fine');
+    expect(articles[1]).toMatchObject({ sentimentScore: 0.6, firstSeenAt: earlier });
+  });
+
+  it('should map LLM article scores back to the articles sent', () => {
+    const articles = [stored({}), stored({ title: 'Apple faces EU fine', url: 'https://bbc.com/apple-fine' })];
+    const digest = buildNewsDigest({
+      summary: 'Strong services offset regulatory pressure.',
+      themes: ['Services growth', ' EU regulation ', ''],
+      articles: [{ index: 1, score: 0.7 }, { index: 2, score: -3 }, { index: 9, score: 1 }]
+    }, articles);
+
+    expect(digest.themes).toEqual(['Services growth', 'EU regulation']);
+    expect(digest.articleScores.get(articles[0].id)).toBe(0.7);
+    expect(digest.articleScores.get(articles[1].id)).toBe(-1);
+    expect(digest.articleScores.size).toBe(2);
+  });
+
+  it('should average article scores into an overall sentiment', () => {
+    expect(aggregateSentiment([stored({ sentimentScore: 0.6 }), stored({ sentimentScore: 0.2 })]))
+      .toEqual({ sentiment: 'positive', sentimentScore: 0.4 });
+    expect(aggregateSentiment([stored({ sentimentScore: 0.1 }), stored({})]))
+      .toEqual({ sentiment: 'neutral', sentimentScore: 0.1 });
+    expect(aggregateSentiment([stored({})])).toEqual({});
+  });
+
+  it('should not call the LLM again when no new articles arrived', async () => {
+    const article = stored({ sentiment: 'positive', sentimentScore: 0.6 });
+    const writes: any[] = [];
+    jest.mocked(adminDb.collection).mockImplementation(() => ({
+      doc: (id: string) => ({
+        get: async () => ({
+          exists: true,
+          id,
+          data: () => ({ ticker: 'AAPL', articles: [article], summary: 'Services strength.', themes: ['Services'], lastUpdated: earlier, updatedAt: earlier })
+        }),
+        set: async (data: any) => { writes.push(data); },
+      }),
+    }) as any);
+    const model = createMockLLMModel([{ summary: 'Should not be used.' }]);
+
+    const news = await new NewsService(createLLMClient(model)).refreshStockNews('AAPL', [
+      { title: article.title, url: article.url, source: article.source, snippet: article.snippet }
+    ], now);
+
+    expect(model.requests).toHaveLength(0);
+    expect(news).toMatchObject({ summary: 'Services strength.', sentiment: 'positive', sentimentScore: 0.6 });
+    expect(writes[0].articles).toHaveLength(1);
+    expect(writes[0].lastUpdated).toEqual(now);
+  });
+});
@@ -0,0 +1,149 @@
+import { calculatePortfolioSummary } from '@/lib/services/portfolioService';
+import type { PortfolioLot, EarningsEvent } from '@/types';
+
+describe('PortfolioService', () => {
+  const now = new Date('2025-01-15T12:00:00Z');
+
+  const lot = (overrides: Partial<PortfolioLot>): PortfolioLot => ({
+    id: 'lot',
+    userId: 'user-1',
+    ticker: 'AAPL',
+    companyName: 'Apple Inc.',
+    market: 'SP500',
+    sector: 'Technology',
+    quantity: 10,
+    costBasis: 100,
+    buyDate: new Date('2024-06-01'),
+    status: 'open',
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  });
+
+  const earnings = (ticker: string, expectedDate: string): EarningsEvent => ({
+    id: `${ticker}-${expectedDate}`,
+    ticker,
+    companyName: ticker,
+    expectedDate: new Date(expectedDate),
+    expectedTime: 'after_market',
+  } as EarningsEvent);
+
+  it('should aggregate open lots into positions with unrealized P&L', () => {
+    const summary = calculatePortfolioSummary(
+      [
+        lot({ id: 'a', quantity: 10, costBasis: 100 }),
+        lot({ id: 'b', quantity: 10, costBasis: 120 }),
+      ],
+      { AAPL: 130 },
+      [],
+      now
+    );
+
+    expect(summary.positions).toHaveLength(1);
+    expect(summary.positions[0].quantity).toBe(20);
+    expect(summary.positions[0].averageCost).toBe(110);
+    expect(summary.totalMarketValue).toBe(2600);
+    expect(summary.unrealizedPnL).toBe(400);
+    expect(summary.unrealizedPnLPercent).toBeCloseTo(18.18, 1);
+  });
+
+  it('should value unpriced positions at cost and count realized P&L from closed lots', () => {
+    const summary = calculatePortfolioSummary(
+      [
+        lot({ id: 'a', ticker: 'MSFT', quantity: 5, costBasis: 40 }),
+        lot({ id: 'b', status: 'closed', quantity: 4, costBasis: 100, sellPrice: 90 }),
+      ],
+      {},
+      [],
+      now
+    );
+
+    expect(summary.positions[0].priceAvailable).toBe(false);
+    expect(summary.positions[0].marketValue).toBe(200);
+    expect(summary.unrealizedPnL).toBe(0);
+    expect(summary.realizedPnL).toBe(-40);
+  });
+
+  it('should split exposure by sector and market in USD', () => {
+    const summary = calculatePortfolioSummary(
+      [
+        lot({ id: 'a', quantity: 3, costBasis: 100 }),
+        lot({ id: 'b', ticker: 'TEVA', market: 'TA125', sector: 'Healthcare', quantity: 1, costBasis: 400 }),
+      ],
+      { AAPL: 100, 'TEVA.TA': 400 },
+      [],
+      now,
+      14,
+      { USD: 1, ILS: 0.25 }
+    );
+
+    expect(summary.exposureBySector).toEqual([
+      { key: 'Technology', marketValue: 300, weight: 0.75 },
+      { key: 'Healthcare', marketValue: 100, weight: 0.25 },
+    ]);
+    expect(summary.exposureByMarket.map(item => item.key)).toEqual(['SP500', 'TA125']);
+  });
+
+  it('should leave shekel positions out of the totals without an exchange rate', () => {
+    const summary = calculatePortfolioSummary(
+      [
+        lot({ id: 'a', quantity: 1, costBasis: 100 }),
+        lot({ id: 'b', ticker: 'LUMI', market: 'TA125', sector: 'Financial Services', quantity: 10, costBasis: 40 }),
+      ],
+      { AAPL: 110, 'LUMI.TA': 45 },
+      [],
+      now
+    );
+
+    const lumi = summary.positions.find(position => position.ticker === 'LUMI')!;
+    expect(lumi.currency).toBe('ILS');
+    expect(lumi.fxAvailable).toBe(false);
+    expect(lumi.averageCost).toBe(40);
+    expect(summary.totalMarketValue).toBe(110);
+    expect(summary.exposureByMarket).toEqual([{ key: 'SP500', marketValue: 110, weight: 1 }]);
+  });
+
+  it('should keep a dual-listed company held in New York and Tel Aviv as two priced positions', () => {
+    const summary = calculatePortfolioSummary(
+      [
+        lot({ id: 'a', ticker: 'TEVA', quantity: 10, costBasis: 15 }),
+        lot({ id: 'b', ticker: 'TEVA', market: 'TA125', quantity: 10, costBasis: 55 }),
+      ],
+      { TEVA: 17, 'TEVA.TA': 62 },
+      [],
+      now,
+      14,
+      { USD: 1, ILS: 0.27 }
+    );
+
+    expect(summary.positions.map(position => [position.market, position.currency, position.price])).toEqual([
+      ['SP500', 'USD', 17],
+      ['TA125', 'ILS', 62],
+    ]);
+    expect(summary.totalMarketValue).toBeCloseTo(170 + 620 * 0.27);
+  });
+
+  it('should flag held positions reporting inside the window', () => {
+    const summary = calculatePortfolioSummary(
+      [
+        lot({ id: 'a', quantity: 3, costBasis: 100 }),
+        lot({ id: 'b', ticker: 'MSFT', quantity: 1, costBasis: 100 }),
+      ],
+      { AAPL: 100, MSFT: 100 },
+      [
+        earnings('AAPL', '2025-01-30T21:00:00Z'),
+        earnings('AAPL', '2025-01-20T21:00:00Z'),
+        earnings('MSFT', '2025-03-01T21:00:00Z'),
+        earnings('NVDA', '2025-01-18T21:00:00Z'),
+      ],
+      now,
+      14
+    );
+
+    expect(summary.earningsAtRisk.events).toHaveLength(1);
+    expect(summary.earningsAtRisk.events[0].ticker).toBe('AAPL');
+    expect(summary.earningsAtRisk.events[0].expectedDate).toEqual(new Date('2025-01-20T21:00:00Z'));
+    expect(summary.earningsAtRisk.marketValue).toBe(300);
+    expect(summary.earningsAtRisk.weight).toBe(0.75);
+  });
+});
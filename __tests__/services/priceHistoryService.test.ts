@@ -0,0 +1,22 @@
+import { isPriceRange, trimToSessions } from '@/lib/services/priceHistoryService';
+
+describe('PriceHistoryService', () => {
+  it('should accept only supported ranges', () => {
+    expect(isPriceRange('1M')).toBe(true);
+    expect(isPriceRange('3M')).toBe(false);
+    expect(isPriceRange('toString')).toBe(false);
+  });
+
+  it('should keep only the most recent sessions of intraday bars', () => {
+    const bar = (iso: string) => ({ timestamp: new Date(iso), open: 1, high: 1, low: 1, close: 1, volume: 1 });
+    const bars = [
+      bar('2025-01-08T15:00:00Z'),
+      bar('2025-01-10T14:30:00Z'),
+      bar('2025-01-10T20:00:00Z'),
+      bar('2025-01-13T14:30:00Z'),
+    ];
+
+    expect(trimToSessions(bars, 1)).toEqual([bars[3]]);
+    expect(trimToSessions(bars, 2)).toEqual(bars.slice(1));
+  });
+});
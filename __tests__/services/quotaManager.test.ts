@@ -0,0 +1,95 @@
+import { adminDb } from '@/lib/firebase-admin';
+import {
+  QuotaExceededError,
+  RateLimitError,
+  TokenBucket,
+  createQuotaManager,
+  parseRetryAfter,
+  type ProviderQuota
+} from '@/lib/services/quotaManager';
+
+describe('QuotaManager', () => {
+  const writes: any[] = [];
+  let stored: Record<string, any>;
+
+  const quota: ProviderQuota = { requestsPerSecond: 100, burst: 10, dailyCallLimit: 3, costPerCall: 0.001, costPer1kTokens: 0.002 };
+  const quotas = { serper: quota, polygon: quota, yahoo: quota, openai: quota };
+
+  beforeEach(() => {
+    writes.length = 0;
+    stored = {};
+    jest.mocked(adminDb.collection).mockImplementation(() => ({
+      doc: (id: string) => ({
+        get: async () => ({ exists: !!stored[id], data: () => stored[id] }),
+        set: async (data: any) => { writes.push(data); },
+      }),
+    }) as any);
+  });
+
+  it('should make callers wait once the bucket is empty', () => {
+    const bucket = new TokenBucket(2, 2, 0);
+
+    expect(bucket.reserve(0)).toBe(0);
+    expect(bucket.reserve(0)).toBe(0);
+    expect(bucket.reserve(0)).toBe(500);
+    expect(bucket.reserve(0)).toBe(1000);
+    // Refilled at 2 tokens/s, the queue has drained
+    expect(bucket.reserve(2000)).toBe(0);
+  });
+
+  it('should parse Retry-After seconds and dates', () => {
+    const now = new Date('2026-03-02T14:00:00Z');
+
+    expect(parseRetryAfter('3', now)).toBe(3000);
+    expect(parseRetryAfter('Mon, 02 Mar 2026 14:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+  });
+
+  it('should record calls, tokens and cost per provider', async () => {
+    const manager = createQuotaManager(quotas);
+
+    const result = await manager.call('openai', async () => ({ usage: { total_tokens: 1500 } }), r => r.usage.total_tokens);
+
+    expect(result.usage.total_tokens).toBe(1500);
+    expect(writes).toHaveLength(1);
+    expect(writes[0].providers.openai).toEqual({
+      calls: expect.anything(),
+      tokens: expect.anything(),
+      cost: expect.anything()
+    });
+    expect(writes[0].openaiCalls).toBeDefined();
+  });
+
+  it('should refuse calls once the daily budget is used up', async () => {
+    stored[new Date().toISOString().split('T')[0]] = { providers: { serper: { calls: 2 } } };
+    const manager = createQuotaManager(quotas);
+    const operation = jest.fn(async () => 'ok');
+
+    await expect(manager.call('serper', operation)).resolves.toBe('ok');
+    await expect(manager.call('serper', operation)).rejects.toBeInstanceOf(QuotaExceededError);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry 429 responses and give up after the retries run out', async () => {
+    const manager = createQuotaManager({ ...quotas, polygon: { ...quota, dailyCallLimit: 100 } });
+    const flaky = jest.fn()
+      .mockRejectedValueOnce(new RateLimitError('polygon', 0))
+      .mockResolvedValueOnce('ok');
+
+    await expect(manager.call('polygon', flaky)).resolves.toBe('ok');
+    expect(flaky).toHaveBeenCalledTimes(2);
+
+    const limited = jest.fn().mockRejectedValue(new RateLimitError('polygon', 0));
+    await expect(manager.call('polygon', limited)).rejects.toBeInstanceOf(RateLimitError);
+    expect(limited).toHaveBeenCalledTimes(4);
+  });
+
+  it('should not retry other errors', async () => {
+    const manager = createQuotaManager(quotas);
+    const failing = jest.fn().mockRejectedValue(new Error('HTTP error! status: 500'));
+
+    await expect(manager.call('serper', failing)).rejects.toThrow('status: 500');
+    expect(failing).toHaveBeenCalledTimes(1);
+  });
+});
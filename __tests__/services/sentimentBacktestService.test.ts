@@ -0,0 +1,67 @@
+import {
+  isSentimentHit,
+  calculateHorizonOutcomes,
+  calculateCalibrationStats
+} from '@/lib/services/sentimentBacktestService';
+import type { DailyBar } from '@/lib/services/earningsSurpriseService';
+
+describe('SentimentBacktestService', () => {
+  describe('isSentimentHit', () => {
+    it('should match direction for positive and negative calls', () => {
+      expect(isSentimentHit('positive', 0.01)).toBe(true);
+      expect(isSentimentHit('positive', -0.01)).toBe(false);
+      expect(isSentimentHit('negative', -0.01)).toBe(true);
+    });
+
+    it('should require a small move for neutral calls', () => {
+      expect(isSentimentHit('neutral', 0.015)).toBe(true);
+      expect(isSentimentHit('neutral', -0.05)).toBe(false);
+    });
+  });
+
+  describe('calculateHorizonOutcomes', () => {
+    const makeBars = (closes: number[]): DailyBar[] =>
+      closes.map((close, i) => ({ timestamp: new Date(Date.UTC(2025, 0, 27 + i, 5)), close }));
+
+    it('should measure excess return from the close before the reaction session', () => {
+      // Report after the close on Jan 28, reaction on Jan 29
+      const stock = makeBars([100, 100, 110, 108, 106, 104, 112]);
+      const benchmark = makeBars([50, 50, 51, 51, 51, 51, 52]);
+
+      const outcomes = calculateHorizonOutcomes(
+        stock, benchmark, new Date('2025-01-28T21:00:00Z'), 'after_market', 'positive', [1, 5, 20]
+      );
+
+      expect(outcomes['1'].stockReturn).toBeCloseTo(0.1);
+      expect(outcomes['1'].excessReturn).toBeCloseTo(0.08);
+      expect(outcomes['1'].hit).toBe(true);
+      expect(outcomes['5'].excessReturn).toBeCloseTo(0.08);
+      expect(outcomes['20']).toBeUndefined();
+    });
+  });
+
+  describe('calculateCalibrationStats', () => {
+    const outcome = (hit: boolean) => ({ stockReturn: 0, benchmarkReturn: 0, excessReturn: hit ? 0.01 : -0.01, hit });
+
+    it('should bucket hit rates by confidence and compute the Brier score', () => {
+      const stats = calculateCalibrationStats([
+        { sentiment: 'positive', confidence: 0.9, horizons: { '1': outcome(true) } },
+        { sentiment: 'positive', confidence: 0.95, horizons: { '1': outcome(false) } },
+        { sentiment: 'negative', confidence: 0.55, horizons: { '1': outcome(true) } },
+        { sentiment: 'neutral', confidence: 0.7, horizons: {} },
+      ], [1]);
+
+      const horizon = stats.horizons['1'];
+      expect(stats.totalSignals).toBe(4);
+      expect(horizon.sampleSize).toBe(3);
+      expect(horizon.hitRate).toBeCloseTo(2 / 3);
+      // (0.1^2 + 0.95^2 + 0.45^2) / 3
+      expect(horizon.brierScore).toBeCloseTo((0.01 + 0.9025 + 0.2025) / 3);
+
+      const topBucket = horizon.buckets.find(bucket => bucket.label === '90-100%')!;
+      expect(topBucket.count).toBe(2);
+      expect(topBucket.hitRate).toBe(0.5);
+      expect(horizon.bySentiment.negative).toEqual({ count: 1, hitRate: 1 });
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import {
+  parseWatchlistFile,
+  validateWatchlistImport,
+  buildWatchlistExportRows,
+  formatWatchlistExport
+} from '@/lib/services/watchlistTransferService';
+import type { EarningsEvent, SentimentSignal, WatchlistCompany } from '@/types';
+
+describe('WatchlistTransferService', () => {
+  const now = new Date('2025-01-15T12:00:00Z');
+
+  const company = (ticker: string, overrides: Partial<WatchlistCompany> = {}): WatchlistCompany => ({
+    ticker,
+    companyName: ticker,
+    market: 'SP500',
+    sector: 'Technology',
+    addedAt: new Date('2025-01-02T00:00:00Z'),
+    ...overrides,
+  });
+
+  describe('parseWatchlistFile', () => {
+    it('should map CSV header aliases and quoted fields', () => {
+      const { rows } = parseWatchlistFile('Symbol,Name,Notes\nAAPL,"Apple, Inc.",core\n\nmsft,,"says ""hold"""\n', 'csv');
+
+      expect(rows).toEqual([
+        { row: 2, ticker: 'AAPL', companyName: 'Apple, Inc.', notes: 'core' },
+        { row: 4, ticker: 'msft', notes: 'says "hold"' },
+      ]);
+    });
+
+    it('should read headerless CSV as ticker,name,sector,notes', () => {
+      const { rows } = parseWatchlistFile('NVDA,NVIDIA,Technology\n', 'csv');
+      expect(rows).toEqual([{ row: 1, ticker: 'NVDA', companyName: 'NVIDIA', sector: 'Technology' }]);
+    });
+
+    it('should accept JSON arrays and exported watchlists', () => {
+      expect(parseWatchlistFile('["AAPL", {"symbol": "MSFT", "name": "Microsoft"}, 5]', 'json')).toEqual({
+        rows: [
+          { row: 1, ticker: 'AAPL' },
+          { row: 2, ticker: 'MSFT', companyName: 'Microsoft', sector: undefined, notes: undefined },
+        ],
+        invalid: [{ row: 3, reason: 'Entry must be a ticker string or an object' }],
+      });
+      expect(parseWatchlistFile('{"name": "Tech", "companies": [{"ticker": "AAPL"}]}', 'json').rows).toHaveLength(1);
+      expect(parseWatchlistFile('{not json', 'json').invalid[0].reason).toMatch(/^Invalid JSON/);
+    });
+  });
+
+  describe('validateWatchlistImport', () => {
+    it('should report unknown symbols, duplicates and invalid rows', () => {
+      const report = validateWatchlistImport(
+        [
+          { row: 1, ticker: 'aapl', notes: 'core' },
+          { row: 2, ticker: 'AAPL' },
+          { row: 3, ticker: 'MSFT' },
+          { row: 4, ticker: 'ZZZZ' },
+          { row: 5, ticker: '' },
+          { row: 6, ticker: 'LUMI' },
+        ],
+        [company('MSFT')],
+        now
+      );
+
+      expect(report.companies.map(item => item.ticker)).toEqual(['AAPL', 'LUMI']);
+      expect(report.companies[0]).toMatchObject({ companyName: 'Apple Inc.', market: 'SP500', notes: 'core', addedAt: now });
+      expect(report.companies[1].market).toBe('TA125');
+      expect(report.companies[1]).not.toHaveProperty('notes');
+      expect(report.duplicates.map(row => row.row)).toEqual([2, 3]);
+      expect(report.unknown.map(row => row.ticker)).toEqual(['ZZZZ']);
+      expect(report.invalid).toEqual([{ row: 5, reason: 'Missing ticker' }]);
+    });
+
+    it('should look a ticker up only on the list its market column names', () => {
+      const { rows } = parseWatchlistFile('ticker,exchange\nTEVA,TASE\nLUMI,NYSE\nAAPL,LSE\n', 'csv');
+      const report = validateWatchlistImport(rows, [], now);
+
+      expect(report.companies).toEqual([expect.objectContaining({ ticker: 'TEVA', market: 'TA125' })]);
+      expect(report.unknown.map(row => row.ticker)).toEqual(['LUMI']);
+      expect(report.invalid).toEqual([{ row: 4, reason: 'Unknown market "LSE" (expected SP500 or TA125)' }]);
+    });
+  });
+
+  describe('export', () => {
+    it('should pick the next earnings date, latest signal and price per company', () => {
+      const events = [
+        { ticker: 'AAPL', expectedDate: new Date('2024-10-31T20:00:00Z') },
+        { ticker: 'AAPL', expectedDate: new Date('2025-04-30T20:00:00Z') },
+        { ticker: 'AAPL', expectedDate: new Date('2025-01-30T21:00:00Z') },
+        { ticker: 'LUMI', expectedDate: new Date('2024-11-20T05:00:00Z') },
+      ] as EarningsEvent[];
+      const signals = [
+        { ticker: 'AAPL', sentiment: 'negative', sentimentScore: -0.4, createdAt: new Date('2025-01-10') },
+        { ticker: 'AAPL', sentiment: 'positive', sentimentScore: 0.6, createdAt: new Date('2025-01-14') },
+      ] as SentimentSignal[];
+
+      const rows = buildWatchlistExportRows(
+        [company('AAPL', { notes: 'core, long' }), company('LUMI', { market: 'TA125', sector: 'Financial Services' })],
+        events,
+        signals,
+        { AAPL: 230.5 },
+        now
+      );
+
+      expect(rows[0]).toMatchObject({ earningsDate: '2025-01-30', price: 230.5, currency: 'USD', sentiment: 'positive', sentimentScore: 0.6 });
+      expect(rows[1]).toMatchObject({ earningsDate: '2024-11-20', price: null, currency: 'ILS', sentiment: '', sentimentScore: null });
+
+      const csv = formatWatchlistExport('Tech', rows, 'csv', now).split('\n');
+      expect(csv[0]).toBe('ticker,companyName,market,sector,notes,addedAt,earningsDate,price,currency,sentiment,sentimentScore');
+      expect(csv[1]).toBe('AAPL,AAPL,SP500,Technology,"core, long",2025-01-02,2025-01-30,230.5,USD,positive,0.6');
+      expect(csv[2]).toBe('LUMI,LUMI,TA125,Financial Services,,2025-01-02,2024-11-20,,ILS,,');
+    });
+
+    it('should guard formula cells and round-trip multi-line notes through the CSV importer', () => {
+      const notes = '=HYPERLINK("http://evil")\nsecond line';
+      const rows = buildWatchlistExportRows([company('AAPL', { notes }), company('MSFT', { notes: '-5% stop' })], [], [], {}, now);
+      const csv = formatWatchlistExport('Tech', rows, 'csv', now);
+
+      expect(csv).toContain(',"\'=HYPERLINK(""http://evil"")\nsecond line",');
+      expect(csv).toContain(",'-5% stop,");
+      expect(parseWatchlistFile(csv, 'csv').rows).toEqual([
+        expect.objectContaining({ row: 2, ticker: 'AAPL', notes }),
+        expect.objectContaining({ row: 4, ticker: 'MSFT', notes: '-5% stop' }),
+      ]);
+    });
+
+    it('should round-trip exported JSON through the importer', () => {
+      const rows = buildWatchlistExportRows([company('AAPL', { notes: 'core' })], [], [], {}, now);
+      const json = formatWatchlistExport('Tech', rows, 'json', now);
+
+      const report = validateWatchlistImport(parseWatchlistFile(json, 'json').rows, [], now);
+      expect(report.companies).toEqual([company('AAPL', { notes: 'core', addedAt: now })]);
+    });
+  });
+});
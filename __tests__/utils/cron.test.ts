@@ -0,0 +1,52 @@
+import { getNextCronRun, isValidCronExpression, parseCronExpression } from '@/lib/utils/cron';
+
+describe('cron', () => {
+  const NY = 'America/New_York';
+
+  it('should parse lists, ranges, steps and names', () => {
+    const schedule = parseCronExpression('0,30 8-18/2 * JAN-MAR MON-FRI');
+
+    expect([...schedule.minutes]).toEqual([0, 30]);
+    expect([...schedule.hours]).toEqual([8, 10, 12, 14, 16, 18]);
+    expect([...schedule.months]).toEqual([1, 2, 3]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(parseCronExpression('0 0 * * 7').daysOfWeek.has(0)).toBe(true);
+  });
+
+  it('should reject malformed expressions', () => {
+    expect(isValidCronExpression('* * * *')).toBe(false);
+    expect(isValidCronExpression('60 * * * *')).toBe(false);
+    expect(isValidCronExpression('*/0 * * * *')).toBe(false);
+    expect(isValidCronExpression('0 9 * * FUNDAY')).toBe(false);
+    expect(() => parseCronExpression('0 25 * * *')).toThrow('out of range for hour');
+  });
+
+  it('should find the next run in Eastern time', () => {
+    // Friday 2026-03-06 17:00 EST = 22:00 UTC
+    const after = new Date('2026-03-06T22:00:00Z');
+
+    // Weekdays at 16:30 ET: next is Monday
+    expect(getNextCronRun('30 16 * * 1-5', after, NY).toISOString()).toBe('2026-03-09T20:30:00.000Z');
+    // Every 15 minutes
+    expect(getNextCronRun('*/15 * * * *', after, NY).toISOString()).toBe('2026-03-06T22:15:00.000Z');
+  });
+
+  it('should follow daylight saving changes', () => {
+    // US clocks spring forward on 2026-03-08: 07:00 ET is 12:00 UTC before and 11:00 UTC after
+    const before = getNextCronRun('0 7 * * *', new Date('2026-03-07T00:00:00Z'), NY);
+    const after = getNextCronRun('0 7 * * *', new Date('2026-03-08T00:00:00Z'), NY);
+
+    expect(before.toISOString()).toBe('2026-03-07T12:00:00.000Z');
+    expect(after.toISOString()).toBe('2026-03-08T11:00:00.000Z');
+  });
+
+  it('should match either restricted day of month or day of week', () => {
+    // 1st of the month or Mondays; after Tuesday 2026-03-03 the next is Monday the 9th
+    const next = getNextCronRun('0 12 1 * MON', new Date('2026-03-03T18:00:00Z'), 'UTC');
+    expect(next.toISOString()).toBe('2026-03-09T12:00:00.000Z');
+  });
+
+  it('should throw for schedules that never fire', () => {
+    expect(() => getNextCronRun('0 0 30 2 *', new Date('2026-01-01T00:00:00Z'), 'UTC')).toThrow('never fires');
+  });
+});
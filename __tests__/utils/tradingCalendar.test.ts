@@ -0,0 +1,102 @@
+import {
+  addTradingDays,
+  classifyReportTime,
+  countTradingDays,
+  getNextSessionOpen,
+  getNYSEHolidays,
+  getReactionTradingDay,
+  getSessionClose,
+  getTradingSession,
+  isMarketOpen,
+  isTradingDay,
+  previousTradingDay
+} from '@/lib/utils/tradingCalendar';
+
+describe('tradingCalendar', () => {
+  it('should trade TASE Sunday to Thursday before the 2026 change', () => {
+    // Sunday Dec 29 2024 and Friday Jan 3 2025
+    expect(isTradingDay('TASE', new Date('2024-12-29T10:00:00Z'))).toBe(true);
+    expect(isTradingDay('TASE', new Date('2025-01-03T10:00:00Z'))).toBe(false);
+    expect(getTradingSession('TASE', new Date('2024-12-29T10:00:00Z'))).toEqual({ open: '09:59', close: '15:50' });
+  });
+
+  it('should trade TASE Monday to Friday from January 2026', () => {
+    // Sunday Jan 11 and Friday Jan 16 2026
+    expect(isTradingDay('TASE', new Date('2026-01-11T10:00:00Z'))).toBe(false);
+    expect(getTradingSession('TASE', new Date('2026-01-16T10:00:00Z'))).toEqual({ open: '09:59', close: '13:50' });
+  });
+
+  it('should check the session in the exchange time zone', () => {
+    // 08:30 UTC is 10:30 in Tel Aviv and 03:30 in New York in winter
+    const instant = new Date('2026-01-13T08:30:00Z');
+    expect(isMarketOpen('TASE', instant)).toBe(true);
+    expect(isMarketOpen('NYSE', instant)).toBe(false);
+    expect(isMarketOpen('NYSE', new Date('2026-01-13T15:00:00Z'))).toBe(true);
+  });
+
+  it('should resolve the local date before picking the session', () => {
+    // Friday 23:30 in New York is already Saturday in Tel Aviv
+    const instant = new Date('2026-01-17T04:30:00Z');
+    expect(isTradingDay('NYSE', instant)).toBe(true);
+    expect(isTradingDay('TASE', instant)).toBe(false);
+  });
+
+  describe('NYSE holidays', () => {
+    it('should derive the 2025 holiday schedule', () => {
+      expect(Array.from(getNYSEHolidays(2025)).sort()).toEqual([
+        '2025-01-01', '2025-01-20', '2025-02-17', '2025-04-18', '2025-05-26',
+        '2025-06-19', '2025-07-04', '2025-09-01', '2025-11-27', '2025-12-25',
+      ]);
+    });
+
+    it('should observe weekend holidays on the nearest weekday except New Year on a Saturday', () => {
+      // July 4 2026 is a Saturday, Christmas 2022 a Sunday, New Year 2022 a Saturday
+      expect(getNYSEHolidays(2026).has('2026-07-03')).toBe(true);
+      expect(getNYSEHolidays(2022).has('2022-12-26')).toBe(true);
+      expect(getNYSEHolidays(2021).has('2021-12-31')).toBe(false);
+    });
+
+    it('should close early around Independence Day, Thanksgiving and Christmas', () => {
+      expect(getTradingSession('NYSE', '2025-07-03')).toEqual({ open: '09:30', close: '13:00', earlyClose: true });
+      expect(getTradingSession('NYSE', '2025-11-28')?.close).toBe('13:00');
+      expect(getTradingSession('NYSE', '2025-12-24')?.close).toBe('13:00');
+      expect(getTradingSession('NYSE', '2025-12-23')?.close).toBe('16:00');
+    });
+
+    it('should honour special closures', () => {
+      expect(isTradingDay('NYSE', '2025-01-09')).toBe(false);
+    });
+  });
+
+  describe('trading-day arithmetic', () => {
+    it('should skip weekends and holidays', () => {
+      // Good Friday 2025 is April 18
+      expect(previousTradingDay('NYSE', '2025-04-21')).toBe('2025-04-17');
+      expect(addTradingDays('NYSE', '2025-04-17', 1)).toBe('2025-04-21');
+      expect(addTradingDays('NYSE', '2025-04-19', 1)).toBe('2025-04-21');
+      expect(addTradingDays('NYSE', '2025-04-21', -3)).toBe('2025-04-15');
+      expect(countTradingDays('NYSE', '2025-04-17', '2025-04-25')).toBe(5);
+    });
+
+    it('should find the next session open across a holiday weekend', () => {
+      // Thursday April 17 2025 after the close; Good Friday is closed
+      expect(getNextSessionOpen('NYSE', new Date('2025-04-17T21:00:00Z')).toISOString()).toBe('2025-04-21T13:30:00.000Z');
+      expect(getNextSessionOpen('NYSE', new Date('2025-01-06T12:00:00Z')).toISOString()).toBe('2025-01-06T14:30:00.000Z');
+      expect(getSessionClose('NYSE', '2025-11-28')?.toISOString()).toBe('2025-11-28T18:00:00.000Z');
+    });
+
+    it('should classify report times against the session', () => {
+      expect(classifyReportTime('NYSE', new Date('2025-01-28T12:00:00Z'))).toBe('before_market');
+      expect(classifyReportTime('NYSE', new Date('2025-01-28T16:00:00Z'))).toBe('during_market');
+      expect(classifyReportTime('NYSE', new Date('2025-01-28T21:05:00Z'))).toBe('after_market');
+      // Early close: 14:00 ET is after the bell on the day after Thanksgiving
+      expect(classifyReportTime('NYSE', new Date('2025-11-28T19:00:00Z'))).toBe('after_market');
+    });
+
+    it('should move reactions to the next session after the close or on holidays', () => {
+      expect(getReactionTradingDay('NYSE', '2025-01-28', 'before_market')).toBe('2025-01-28');
+      expect(getReactionTradingDay('NYSE', '2025-01-28', 'after_market')).toBe('2025-01-29');
+      expect(getReactionTradingDay('NYSE', '2025-04-18', 'before_market')).toBe('2025-04-21');
+    });
+  });
+});
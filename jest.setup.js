@@ -35,5 +35,8 @@ jest.mock('./src/lib/firebase-admin', () => ({
     FieldValue: {
       increment: jest.fn()
     }
+  },
+  adminAuth: {
+    verifyIdToken: jest.fn()
   }
 }));
\ No newline at end of file
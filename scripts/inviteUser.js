@@ -0,0 +1,65 @@
+#!/usr/bin/env node
+
+/**
+ * Invite User Script
+ * Adds an email to the sign-in allowlist (user_invites); use it to bootstrap the first admin.
+ *
+ * Usage: node scripts/inviteUser.js <email> [user|admin]
+ */
+
+const admin = require('firebase-admin');
+const path = require('path');
+
+// Initialize Firebase Admin
+const serviceAccountPath = path.join(__dirname, '../firebase-service-account.json');
+
+if (!admin.apps.length) {
+  admin.initializeApp({
+    credential: admin.credential.cert(require(serviceAccountPath))
+  });
+}
+
+const db = admin.firestore();
+
+async function main() {
+  const email = (process.argv[2] || '').trim().toLowerCase();
+  const role = process.argv[3] || 'user';
+
+  if (!email || !email.includes('@') || !['user', 'admin'].includes(role)) {
+    console.log('Usage: node scripts/inviteUser.js <email> [user|admin]');
+    process.exit(1);
+  }
+
+  try {
+    const inviteRef = db.collection('user_invites').doc(email);
+    const existing = await inviteRef.get();
+
+    await inviteRef.set({
+      email,
+      role,
+      status: 'active',
+      invitedBy: 'script',
+      invitedAt: existing.exists ? existing.data().invitedAt : new Date(),
+      revokedAt: admin.firestore.FieldValue.delete(),
+      revokedBy: admin.firestore.FieldValue.delete()
+    }, { merge: true });
+
+    // Accounts that signed in before the invite existed get the role straight away
+    const users = await db.collection('users').where('email', '==', email).get();
+    for (const userDoc of users.docs) {
+      await userDoc.ref.update({ role });
+    }
+
+    console.log(`✅ Invited ${email} as ${role}`);
+    if (!users.empty) {
+      console.log(`👤 Updated role on ${users.size} existing account(s)`);
+    }
+
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Error inviting user:', error);
+    process.exit(1);
+  }
+}
+
+main();
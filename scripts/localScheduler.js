@@ -0,0 +1,45 @@
+#!/usr/bin/env node
+
+/**
+ * Local Scheduler
+ * Stand-in for Cloud Scheduler during development: calls the scheduler tick endpoint every minute.
+ *
+ * Usage: API_KEY=... node scripts/localScheduler.js [baseUrl]
+ */
+
+const baseUrl = process.argv[2] || process.env.SCHEDULER_BASE_URL || 'http://localhost:3000';
+const apiKey = process.env.API_KEY;
+
+if (!apiKey) {
+  console.error('❌ API_KEY must be set (the same value the app uses for scheduled jobs)');
+  process.exit(1);
+}
+
+async function tick() {
+  try {
+    const response = await fetch(`${baseUrl}/api/scheduler/tick`, {
+      method: 'POST',
+      headers: { 'x-api-key': apiKey }
+    });
+    const result = await response.json();
+
+    if (!response.ok) {
+      console.error(`❌ Tick failed (${response.status}): ${result.error || result.message}`);
+      return;
+    }
+
+    const time = new Date().toLocaleTimeString();
+    if (result.ran.length === 0) {
+      console.log(`[${time}] Nothing due`);
+    }
+    result.ran.forEach(run => {
+      console.log(`[${time}] ${run.status === 'success' ? '✅' : '❌'} ${run.jobId}: ${run.message}`);
+    });
+  } catch (error) {
+    console.error('❌ Tick request failed:', error.message);
+  }
+}
+
+console.log(`⏰ Ticking ${baseUrl}/api/scheduler/tick every minute (Ctrl+C to stop)`);
+tick();
+setInterval(tick, 60 * 1000);
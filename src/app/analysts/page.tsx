@@ -6,6 +6,7 @@ import ProtectedRoute from '@/components/ProtectedRoute';
 import Navbar from '@/components/Navbar';
 import CacheStatusIndicator from '@/components/cache/CacheStatusIndicator';
 import { cachedFetch, CACHE_KEYS } from '@/lib/cache/browserCache';
+import { toDate } from '@/lib/utils/firestoreValues';
 
 interface AnalystProfile {
   id: string;
@@ -25,6 +26,12 @@ interface AnalystProfile {
     score_trend: 'up' | 'down' | 'stable';
     specialization: string;
   };
+  window_stats: Record<'d30' | 'd90' | 'd365', {
+    calls: number;
+    win_rate: number;
+    avg_alpha: number;
+    information_ratio: number | null;
+  }>;
   rank: number;
   rank_change: number;
   tier: {
@@ -53,7 +60,7 @@ export default function AnalystsPage() {
   const [analysts, setAnalysts] = useState<AnalystProfile[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
-  const [orderBy, setOrderBy] = useState<'score' | 'accuracy' | 'total_recommendations' | 'recent_performance'>('score');
+  const [orderBy, setOrderBy] = useState<'score' | 'accuracy' | 'total_recommendations' | 'recent_performance' | 'alpha' | 'information_ratio'>('score');
   const [selectedSector, setSelectedSector] = useState<string>('');
 
   const loadAnalysts = async () => {
@@ -97,7 +104,7 @@ export default function AnalystsPage() {
 
   const formatDate = (date: any) => {
     if (!date) return 'N/A';
-    const d = date.toDate ? date.toDate() : new Date(date);
+    const d = toDate(date);
     return d.toLocaleDateString('en-US', { 
       year: 'numeric', 
       month: 'short' 
@@ -182,7 +189,9 @@ export default function AnalystsPage() {
                   <option value="score">Elo Score</option>
                   <option value="accuracy">Accuracy Rate</option>
                   <option value="total_recommendations">Total Recommendations</option>
-                  <option value="recent_performance">Recent Performance</option>
+                  <option value="recent_performance">Win Rate (30d)</option>
+                  <option value="alpha">Avg Alpha (90d)</option>
+                  <option value="information_ratio">Information Ratio (1y)</option>
                 </select>
               </div>
               <div className="flex-1">
@@ -291,6 +300,20 @@ export default function AnalystsPage() {
                       {analyst.performance_metrics.avg_return}
                     </span>
                   </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-400">Win 30d / 90d / 1y:</span>
+                    <span className="font-medium text-gray-900 dark:text-white">
+                      {(['d30', 'd90', 'd365'] as const)
+                        .map(window => analyst.window_stats[window].calls > 0 ? `${analyst.window_stats[window].win_rate}%` : '—')
+                        .join(' / ')}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-400">Info Ratio (1y):</span>
+                    <span className="font-medium text-gray-900 dark:text-white">
+                      {analyst.window_stats.d365.information_ratio !== null ? analyst.window_stats.d365.information_ratio.toFixed(2) : '—'}
+                    </span>
+                  </div>
                   <div className="flex justify-between">
                     <span className="text-gray-600 dark:text-gray-400">Streak:</span>
                     <span className="font-medium text-gray-900 dark:text-white">
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
+import { createAnalystMigration } from '@/lib/analysts/analystMigration';
+
+/**
+ * Fold analyst_credibility and legacy analysts_enhanced records into canonical analysts.
+ * Dry run unless the body sets { "dryRun": false }.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.response) return auth.response;
+
+    const body = await request.json().catch(() => ({}));
+    const dryRun = body.dryRun !== false;
+
+    const report = await createAnalystMigration().run(dryRun);
+    console.log(`🔀 ${auth.principal.email} ran the analyst migration${dryRun ? ' (dry run)' : ''}`);
+
+    return NextResponse.json({
+      success: true,
+      report,
+      message: dryRun
+        ? 'Dry run complete; nothing was written'
+        : `Migrated ${report.analysts} analysts`
+    });
+  } catch (error) {
+    console.error('Error migrating analysts:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to migrate analysts',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
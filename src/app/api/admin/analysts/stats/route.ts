@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
+import { createAnalystStatsMaterializer } from '@/lib/analysts/analystStats';
+import { ANALYSTS_COLLECTION } from '@/lib/analysts/enhancedAnalystTracker';
+
+/**
+ * Rebuild every analyst's rolling-window stats from past evaluations. Run after the analyst migration.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.response) return auth.response;
+
+    const result = await createAnalystStatsMaterializer().backfill(ANALYSTS_COLLECTION);
+    console.log(`📊 ${auth.principal.email} backfilled analyst stats`);
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      message: `Rebuilt stats for ${result.analysts} analysts from ${result.calls} evaluated calls`
+    });
+  } catch (error) {
+    console.error('Error backfilling analyst stats:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to backfill analyst stats',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
 import { adminDb } from '@/lib/firebase-admin';
 
 /**
@@ -7,6 +8,9 @@ import { adminDb } from '@/lib/firebase-admin';
  */
 export async function POST(request: NextRequest) {
   try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.response) return auth.response;
+
     const { action } = await request.json();
     
     if (action !== 'clear_all') {
@@ -87,7 +91,10 @@ export async function POST(request: NextRequest) {
   }
 }
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const auth = await authorizeRequest(request, 'admin');
+  if (auth.response) return auth.response;
+
   return NextResponse.json({
     message: 'Database clearing endpoint. Use POST with action: "clear_all" to clear all collections.',
     collections: [
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
+import { createInviteService, isValidEmail, normalizeEmail } from '@/lib/services/inviteService';
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.response) return auth.response;
+
+    const service = createInviteService();
+    const users = await service.listInvitedUsers();
+
+    return NextResponse.json({
+      success: true,
+      users,
+      count: users.length
+    });
+  } catch (error) {
+    console.error('Error listing invites:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to list invites',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Invite an email, restore a revoked invite or change a user's role
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.response) return auth.response;
+
+    const { email, role = 'user' } = await request.json();
+
+    if (typeof email !== 'string' || !isValidEmail(email)) {
+      return NextResponse.json({
+        success: false,
+        error: 'A valid email is required'
+      }, { status: 400 });
+    }
+
+    if (role !== 'user' && role !== 'admin') {
+      return NextResponse.json({
+        success: false,
+        error: 'Role must be user or admin'
+      }, { status: 400 });
+    }
+
+    if (normalizeEmail(email) === auth.principal.email && role !== 'admin') {
+      return NextResponse.json({
+        success: false,
+        error: 'You cannot remove your own admin role'
+      }, { status: 400 });
+    }
+
+    const service = createInviteService();
+    const invite = await service.inviteUser(email, role, auth.principal.email);
+
+    return NextResponse.json({
+      success: true,
+      message: `${invite.email} can now sign in`,
+      invite
+    });
+  } catch (error) {
+    console.error('Error inviting user:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to invite user',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.response) return auth.response;
+
+    const email = request.nextUrl.searchParams.get('email');
+
+    if (!email) {
+      return NextResponse.json({
+        success: false,
+        error: 'Email is required'
+      }, { status: 400 });
+    }
+
+    if (normalizeEmail(email) === auth.principal.email) {
+      return NextResponse.json({
+        success: false,
+        error: 'You cannot revoke your own access'
+      }, { status: 400 });
+    }
+
+    const service = createInviteService();
+    const revoked = await service.revokeInvite(email, auth.principal.email);
+
+    if (!revoked) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invite not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Access revoked for ${normalizeEmail(email)}`
+    });
+  } catch (error) {
+    console.error('Error revoking invite:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to revoke invite',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
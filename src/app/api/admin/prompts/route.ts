@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
+import { PROMPTS, PROMPT_IDS, getActivePromptVersion, type PromptId } from '@/lib/llm/prompts';
+import { evaluatePromptVersions, loadPromptEvalCases } from '@/lib/llm/promptEvaluation';
+
+/**
+ * Registered prompt versions and the one in use for each prompt
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.response) return auth.response;
+
+    const prompts = PROMPT_IDS.map(promptId => ({
+      promptId,
+      activeVersion: getActivePromptVersion(promptId),
+      versions: Object.values(PROMPTS[promptId].versions).map(({ version, description }) => ({ version, description }))
+    }));
+
+    return NextResponse.json({
+      success: true,
+      prompts
+    });
+  } catch (error) {
+    console.error('Error loading prompt registry:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load prompt registry',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Replay the saved evaluation cases against two prompt versions
+ * Body: { promptId, versionA, versionB, limit? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.response) return auth.response;
+
+    const { promptId, versionA, versionB, limit } = await request.json();
+
+    if (!PROMPT_IDS.includes(promptId)) {
+      return NextResponse.json({
+        success: false,
+        error: `promptId must be one of: ${PROMPT_IDS.join(', ')}`
+      }, { status: 400 });
+    }
+
+    const versions = PROMPTS[promptId as PromptId].versions;
+    if (!versions[versionA] || !versions[versionB] || versionA === versionB) {
+      return NextResponse.json({
+        success: false,
+        error: `versionA and versionB must be two different versions of ${promptId}: ${Object.keys(versions).join(', ')}`
+      }, { status: 400 });
+    }
+
+    const cases = await loadPromptEvalCases(promptId as PromptId);
+    const selected = typeof limit === 'number' && limit > 0 ? cases.slice(0, limit) : cases;
+
+    console.log(`🧪 ${auth.principal.email} is evaluating ${promptId} ${versionA} vs ${versionB} on ${selected.length} cases`);
+    const report = await evaluatePromptVersions(promptId as PromptId, versionA, versionB, selected);
+
+    return NextResponse.json({
+      success: true,
+      report
+    });
+  } catch (error) {
+    console.error('Error evaluating prompts:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to evaluate prompts',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
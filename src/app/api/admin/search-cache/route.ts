@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
+import { SEARCH_QUERY_TYPES, searchCache } from '@/lib/cache/searchCache';
+import type { SearchQueryType } from '@/types';
+
+/**
+ * Search cache hit/miss counters and entry counts per query type
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.response) return auth.response;
+
+    const stats = await searchCache.getStats();
+
+    return NextResponse.json({
+      success: true,
+      stats
+    });
+  } catch (error) {
+    console.error('Error loading search cache stats:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load search cache stats',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Purge cached search responses, optionally only one query type (?type=analyst)
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.response) return auth.response;
+
+    const type = request.nextUrl.searchParams.get('type');
+    if (type && !SEARCH_QUERY_TYPES.includes(type as SearchQueryType)) {
+      return NextResponse.json({
+        success: false,
+        error: `Type must be one of: ${SEARCH_QUERY_TYPES.join(', ')}`
+      }, { status: 400 });
+    }
+
+    const removed = await searchCache.purge((type as SearchQueryType) || undefined);
+    console.log(`🧹 ${auth.principal.email} purged ${removed} ${type || 'cached'} search responses`);
+
+    return NextResponse.json({
+      success: true,
+      removed,
+      message: `Purged ${removed} cached ${type ? `${type} ` : ''}search responses`
+    });
+  } catch (error) {
+    console.error('Error purging search cache:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to purge search cache',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
+import { quotaManager } from '@/lib/services/quotaManager';
+
+const DEFAULT_DAYS = 14;
+const MAX_DAYS = 90;
+
+/**
+ * API calls and cost per provider per day, with today's budgets
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.response) return auth.response;
+
+    const requested = parseInt(request.nextUrl.searchParams.get('days') || '', 10);
+    const days = Math.min(Math.max(isNaN(requested) ? DEFAULT_DAYS : requested, 1), MAX_DAYS);
+
+    const [usage, quotas] = await Promise.all([
+      quotaManager.getUsageHistory(days),
+      quotaManager.getQuotaStatus()
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      days,
+      usage,
+      quotas,
+      totalCost: usage.reduce((sum, day) => sum + day.totalCost, 0)
+    });
+  } catch (error) {
+    console.error('Error loading API usage:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load API usage',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
+import { createAgentJobQueue } from '@/lib/agents/jobQueue';
+
+/**
+ * Progress of one update run with per-ticker job status
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  try {
+    const auth = await authorizeRequest(request, 'user');
+    if (auth.response) return auth.response;
+
+    const { runId } = await params;
+    const progress = await createAgentJobQueue().getRunProgress(runId);
+
+    if (!progress) {
+      return NextResponse.json({
+        success: false,
+        error: 'Update run not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      progress
+    });
+  } catch (error) {
+    console.error('Error getting agent update run:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to get update run',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
+import { createAgentOrchestrator, DEFAULT_WORKER_BUDGET_MS } from '@/lib/agents/orchestrator';
+import { createAgentJobQueue } from '@/lib/agents/jobQueue';
+
+const MAX_WORKER_BUDGET_MS = 5 * 60 * 1000;
+
+/**
+ * Recent update runs; ?active=true returns the progress of the latest unfinished run (or null)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'user');
+    if (auth.response) return auth.response;
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '10') || 10, 50);
+    const queue = createAgentJobQueue();
+    const runs = await queue.listRuns(limit);
+
+    if (searchParams.get('active') === 'true') {
+      const active = runs.find(run => run.status === 'queued' || run.status === 'running');
+      return NextResponse.json({
+        success: true,
+        progress: active ? await queue.getRunProgress(active.id) : null
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      runs,
+      count: runs.length
+    });
+  } catch (error) {
+    console.error('Error listing agent update runs:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to list update runs',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Queue worker: processes queued jobs (optionally of one run) for up to timeBudgetMs.
+ * Called by Cloud Scheduler and by the Settings update button while it follows a run.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'scheduled');
+    if (auth.response) return auth.response;
+
+    const { runId, timeBudgetMs } = await request.json().catch(() => ({}));
+    const budget = typeof timeBudgetMs === 'number'
+      ? Math.min(Math.max(timeBudgetMs, 1000), MAX_WORKER_BUDGET_MS)
+      : DEFAULT_WORKER_BUDGET_MS;
+
+    const orchestrator = createAgentOrchestrator();
+    const result = await orchestrator.processQueuedJobs({
+      runId: typeof runId === 'string' ? runId : undefined,
+      timeBudgetMs: budget
+    });
+
+    return NextResponse.json({
+      success: true,
+      result,
+      message: `Processed ${result.processed} jobs: ${result.succeeded} succeeded, ${result.retried} retrying, ${result.failed} failed`
+    });
+  } catch (error) {
+    console.error('Error processing agent update queue:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to process update queue',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
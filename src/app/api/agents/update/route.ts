@@ -1,14 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
 import { createAgentOrchestrator } from '@/lib/agents/orchestrator';
 
 export async function POST(request: NextRequest) {
   try {
-    // This endpoint is accessible to authenticated users
-    // API key authentication is only for external/admin access
-    const apiKey = request.headers.get('x-api-key');
-    
-    // Skip API key requirement for user-facing requests in production
-    // Users authenticate through Firebase Auth, not API keys
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.response) return auth.response;
 
     const body = await request.json();
     const { 
@@ -20,34 +17,27 @@ export async function POST(request: NextRequest) {
     } = body;
 
     const orchestrator = createAgentOrchestrator();
-    let result;
+    const requestedBy = auth.principal.email || auth.principal.uid;
+    let run;
 
+    // Runs are queued; POST /api/agents/jobs drains them and GET /api/agents/jobs/[runId] reports progress
     switch (type) {
       case 'full':
         // Full update cycle for all active tickers
-        result = await orchestrator.runFullUpdateCycle(maxTickers);
+        run = await orchestrator.runFullUpdateCycle(maxTickers, requestedBy);
         break;
         
       case 'smart':
         // Smart update cycle (only stale data)
-        result = await orchestrator.runSmartUpdateCycle(maxTickers, maxAgeHours);
+        run = await orchestrator.runSmartUpdateCycle(maxTickers, maxAgeHours, requestedBy);
         break;
         
       case 'ticker':
         // Update specific ticker(s)
         if (ticker) {
-          const updateResult = await orchestrator.updateTicker(ticker);
-          result = {
-            totalProcessed: 1,
-            successCount: updateResult.success ? 1 : 0,
-            errorCount: updateResult.success ? 0 : 1,
-            results: [updateResult],
-            duration: 0,
-            startTime: new Date(),
-            endTime: new Date()
-          };
+          run = await orchestrator.enqueueUpdate('ticker', [ticker], requestedBy);
         } else if (tickers && Array.isArray(tickers)) {
-          result = await orchestrator.updateTickersBatch(tickers);
+          run = await orchestrator.enqueueUpdate('ticker', tickers, requestedBy);
         } else {
           return NextResponse.json(
             { error: 'ticker or tickers array is required for type "ticker"' },
@@ -66,15 +56,15 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       type,
-      result,
-      message: `${type} update completed: ${result.successCount}/${result.totalProcessed} successful`
-    });
+      run,
+      message: `${type} update queued: ${run.tickers.length} tickers`
+    }, { status: 202 });
 
   } catch (error) {
     console.error('Error in agents update API:', error);
     return NextResponse.json(
       { 
-        error: 'Failed to run agent updates',
+        error: 'Failed to queue agent updates',
         message: error instanceof Error ? error.message : 'Unknown error'
       },
       { status: 500 }
@@ -84,6 +74,9 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
+    const auth = await authorizeRequest(request, 'user');
+    if (auth.response) return auth.response;
+
     const { searchParams } = new URL(request.url);
     const action = searchParams.get('action') || 'status';
 
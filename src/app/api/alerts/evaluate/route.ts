@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
+import { createAlertEngine } from '@/lib/alerts/alertEngine';
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'scheduled');
+    if (auth.response) return auth.response;
+
+    console.log('Running alert rule evaluation...');
+    const startTime = Date.now();
+
+    const engine = createAlertEngine();
+    const result = await engine.runEvaluation(new Date());
+
+    return NextResponse.json({
+      success: true,
+      message: `Alert evaluation completed: ${result.alertsSent} sent, ${result.alertsFailed} failed, ${result.duplicatesSkipped} duplicates skipped`,
+      ...result,
+      duration_ms: Date.now() - startTime,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error in alert evaluation API:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to evaluate alert rules',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
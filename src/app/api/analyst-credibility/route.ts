@@ -1,17 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { adminDb } from '@/lib/firebase-admin';
-import { AnalystCredibilityTracker, AnalystCredibility } from '@/lib/credibility/analystCredibility';
+import { authorizeRequest } from '@/lib/serverAuth';
+import { EnhancedAnalystTracker } from '@/lib/analysts/enhancedAnalystTracker';
+import { AnalystCredibilityTracker } from '@/lib/credibility/analystCredibility';
+
+const tracker = new EnhancedAnalystTracker();
 
 export async function GET(request: NextRequest) {
   try {
+    const auth = await authorizeRequest(request, 'user');
+    if (auth.response) return auth.response;
+
     const { searchParams } = new URL(request.url);
     const analystId = searchParams.get('analyst_id');
     const ticker = searchParams.get('ticker');
     
     if (analystId) {
       // Get specific analyst credibility
-      const doc = await adminDb.collection('analyst_credibility').doc(analystId).get();
-      if (!doc.exists) {
+      const analyst = await tracker.findAnalyst(analystId);
+      if (!analyst) {
         return NextResponse.json({ 
           success: false, 
           error: 'Analyst not found' 
@@ -20,22 +26,14 @@ export async function GET(request: NextRequest) {
       
       return NextResponse.json({
         success: true,
-        analyst: doc.data()
+        analyst: AnalystCredibilityTracker.toCredibility(analyst)
       });
     }
     
     if (ticker) {
       // Get all analysts covering a specific ticker
-      const snapshot = await adminDb
-        .collection('analyst_credibility')
-        .where('covered_tickers', 'array-contains', ticker)
-        .orderBy('credibility_score', 'desc')
-        .get();
-      
-      const analysts = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      }));
+      const analysts = (await tracker.getAnalystsCoveringTicker(ticker))
+        .map(analyst => AnalystCredibilityTracker.toCredibility(analyst));
       
       return NextResponse.json({
         success: true,
@@ -45,16 +43,8 @@ export async function GET(request: NextRequest) {
     }
     
     // Get top analysts overall
-    const snapshot = await adminDb
-      .collection('analyst_credibility')
-      .orderBy('credibility_score', 'desc')
-      .limit(50)
-      .get();
-    
-    const topAnalysts = snapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    }));
+    const topAnalysts = (await tracker.getTopAnalysts(50))
+      .map(analyst => AnalystCredibilityTracker.toCredibility(analyst));
     
     return NextResponse.json({
       success: true,
@@ -72,12 +62,20 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.response) return auth.response;
+
     const body = await request.json();
     const { action } = body;
     
     switch (action) {
       case 'update_performance':
-        return await updateAnalystPerformance(body);
+        // Scores only move when the evaluator scores a recorded recommendation
+        return NextResponse.json({
+          success: false,
+          error: 'update_performance has been retired',
+          message: 'Record calls through /api/recommendations; the evaluator updates analyst scores'
+        }, { status: 400 });
       case 'calculate_weighted_consensus':
         return await calculateWeightedConsensus(body);
       case 'initialize_analyst':
@@ -97,89 +95,6 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function updateAnalystPerformance(data: {
-  analyst_id: string;
-  prediction: {
-    type: 'rating' | 'price_target' | 'eps';
-    predicted_value: any;
-    actual_value: any;
-    ticker: string;
-    date: string;
-  };
-}) {
-  const { analyst_id, prediction } = data;
-  
-  // Get current analyst data
-  const analystRef = adminDb.collection('analyst_credibility').doc(analyst_id);
-  const analystDoc = await analystRef.get();
-  
-  let analystData: Partial<AnalystCredibility>;
-  
-  if (analystDoc.exists) {
-    analystData = analystDoc.data() as AnalystCredibility;
-  } else {
-    // Initialize new analyst
-    analystData = {
-      analyst_id,
-      analyst_name: `Analyst_${analyst_id}`,
-      firm: 'Unknown',
-      credibility_score: 0.5,
-      track_record: {
-        total_predictions: 0,
-        accurate_predictions: 0,
-        accuracy_rate: 0.5,
-        last_updated: new Date()
-      },
-      specializations: [],
-      historical_performance: {
-        rating_accuracy: 0.5,
-        price_target_accuracy: 0.5,
-        timing_accuracy: 0.5,
-        eps_accuracy: 0.5
-      },
-      recent_performance: {
-        last_30_days: 0.5,
-        last_90_days: 0.5,
-        last_year: 0.5
-      },
-      weight_multiplier: 1.0
-    };
-  }
-  
-  // Update performance based on prediction
-  const performanceUpdate = AnalystCredibilityTracker.updateAnalystPerformance(analyst_id, {
-    ...prediction,
-    date: new Date(prediction.date)
-  });
-  
-  // Merge updates
-  if (performanceUpdate.track_record && analystData.track_record) {
-    const currentTotal = analystData.track_record.total_predictions || 0;
-    const currentAccurate = analystData.track_record.accurate_predictions || 0;
-    
-    analystData.track_record = {
-      total_predictions: currentTotal + 1,
-      accurate_predictions: currentAccurate + performanceUpdate.track_record.accurate_predictions,
-      accuracy_rate: (currentAccurate + performanceUpdate.track_record.accurate_predictions) / (currentTotal + 1),
-      last_updated: new Date()
-    };
-  }
-  
-  // Recalculate credibility score
-  const credibilityCalc = AnalystCredibilityTracker.calculateCredibilityScore(analystData);
-  analystData.credibility_score = credibilityCalc.final_score;
-  
-  // Save to database
-  await analystRef.set(analystData, { merge: true });
-  
-  return NextResponse.json({
-    success: true,
-    analyst_id,
-    updated_credibility: credibilityCalc,
-    message: 'Analyst performance updated successfully'
-  });
-}
-
 async function calculateWeightedConsensus(data: {
   ticker: string;
   ratings: Array<{
@@ -191,16 +106,15 @@ async function calculateWeightedConsensus(data: {
 }) {
   const { ticker, ratings } = data;
   
-  // Fetch credibility scores for all analysts
-  const analystIds = ratings.map(r => r.analyst_id);
-  const analystDocs = await Promise.all(
-    analystIds.map(id => adminDb.collection('analyst_credibility').doc(id).get())
+  // Fetch canonical scores for all analysts
+  const analysts = await Promise.all(
+    ratings.map(r => tracker.findAnalyst(r.analyst_id))
   );
   
   const ratingsWithCredibility = ratings.map((rating, index) => {
-    const analystDoc = analystDocs[index];
-    const credibility = analystDoc.exists 
-      ? analystDoc.data()?.credibility_score || 0.5 
+    const analyst = analysts[index];
+    const credibility = analyst 
+      ? AnalystCredibilityTracker.credibilityFromScore(analyst.score) 
       : 0.5;
     
     return {
@@ -227,44 +141,25 @@ async function calculateWeightedConsensus(data: {
 }
 
 async function initializeAnalyst(data: {
-  analyst_id: string;
   analyst_name: string;
   firm: string;
   specializations?: string[];
 }) {
-  const { analyst_id, analyst_name, firm, specializations = [] } = data;
-  
-  const analystData: AnalystCredibility = {
-    analyst_id,
-    analyst_name,
-    firm,
-    credibility_score: 0.5,
-    track_record: {
-      total_predictions: 0,
-      accurate_predictions: 0,
-      accuracy_rate: 0.5,
-      last_updated: new Date()
-    },
-    specializations,
-    historical_performance: {
-      rating_accuracy: 0.5,
-      price_target_accuracy: 0.5,
-      timing_accuracy: 0.5,
-      eps_accuracy: 0.5
-    },
-    recent_performance: {
-      last_30_days: 0.5,
-      last_90_days: 0.5,
-      last_year: 0.5
-    },
-    weight_multiplier: 1.0
-  };
+  const { analyst_name, firm, specializations = [] } = data;
+
+  if (!analyst_name || !firm) {
+    return NextResponse.json({
+      success: false,
+      error: 'analyst_name and firm are required'
+    }, { status: 400 });
+  }
   
-  await adminDb.collection('analyst_credibility').doc(analyst_id).set(analystData);
+  const analystId = await tracker.createAnalyst({ name: analyst_name, firm, specializations });
+  const analyst = await tracker.findAnalyst(analystId);
   
   return NextResponse.json({
     success: true,
     message: 'Analyst initialized successfully',
-    analyst: analystData
+    analyst: analyst && AnalystCredibilityTracker.toCredibility(analyst)
   });
-}
\ No newline at end of file
+}
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
 import { adminDb } from '@/lib/firebase-admin';
 import { AnalystCredibilityTracker } from '@/lib/credibility/analystCredibility';
-import { EnhancedAnalystTracker } from '@/lib/analysts/enhancedAnalystTracker';
+import { ANALYSTS_COLLECTION, EnhancedAnalystTracker } from '@/lib/analysts/enhancedAnalystTracker';
 import { createCacheAwareResponse, extractFirestoreCacheMetadata } from '@/lib/cache/cacheAwareResponse';
 import { createAnalystSearchService } from '@/lib/services/analystSearchService';
 
@@ -12,6 +13,9 @@ import { createAnalystSearchService } from '@/lib/services/analystSearchService'
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = await authorizeRequest(request, 'user');
+    if (auth.response) return auth.response;
+
     let body;
     try {
       body = await request.json();
@@ -179,7 +183,7 @@ async function batchGetConsensus(tickers: string[]): Promise<{
             console.error(`Error getting enhanced consensus for ${ticker}:`, enhancedError);
           }
           
-          // Fallback to legacy credibility system
+          // Credibility view of the same canonical analyst scores
           try {
             const credibilityResult = await calculateCredibilityWeightedConsensus(ticker, consensusData);
             if (credibilityResult) {
@@ -267,7 +271,7 @@ async function calculateCredibilityWeightedConsensus(ticker: string, consensusDa
   try {
     // Get all analysts covering this ticker
     const analystSnapshot = await adminDb
-      .collection('analyst_credibility')
+      .collection(ANALYSTS_COLLECTION)
       .where('covered_tickers', 'array-contains', ticker)
       .get();
     
@@ -328,7 +332,9 @@ function generateMockAnalystRatings(ticker: string, analystDocs: any[]): Array<{
     
     mockRatings.push({
       rating,
-      credibility: analystData.credibility_score || (0.5 + Math.random() * 0.4), // 0.5-0.9
+      credibility: analystData.score !== undefined
+        ? AnalystCredibilityTracker.credibilityFromScore(analystData.score)
+        : 0.5 + Math.random() * 0.4, // 0.5-0.9
       analyst_id: analyst?.id || `mock_analyst_${i}`
     });
   }
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
 import { EnhancedAnalystTracker } from '@/lib/analysts/enhancedAnalystTracker';
 
 const tracker = new EnhancedAnalystTracker();
@@ -8,6 +9,9 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await authorizeRequest(request, 'user');
+    if (auth.response) return auth.response;
+
     const { id: analystId } = await params;
     
     const profile = await tracker.getAnalystProfile(analystId);
@@ -1,15 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { EnhancedAnalystTracker, Analyst } from '@/lib/analysts/enhancedAnalystTracker';
+import { authorizeRequest } from '@/lib/serverAuth';
+import { EnhancedAnalystTracker, type AnalystOrderField } from '@/lib/analysts/enhancedAnalystTracker';
+
+const ORDER_FIELDS: AnalystOrderField[] = ['score', 'lifetime_calls', 'accuracy_rate', 'updated_at'];
 
 const tracker = new EnhancedAnalystTracker();
 
 export async function GET(request: NextRequest) {
   try {
+    const auth = await authorizeRequest(request, 'user');
+    if (auth.response) return auth.response;
+
     const { searchParams } = new URL(request.url);
     const limit = parseInt(searchParams.get('limit') || '50');
-    const orderBy = (searchParams.get('orderBy') || 'score') as 'score' | 'lifetime_calls';
+    const orderBy = (searchParams.get('orderBy') || 'score') as AnalystOrderField;
+    const sector = searchParams.get('sector') || undefined;
+
+    if (!ORDER_FIELDS.includes(orderBy)) {
+      return NextResponse.json({
+        success: false,
+        error: `orderBy must be one of: ${ORDER_FIELDS.join(', ')}`
+      }, { status: 400 });
+    }
     
-    const analysts = await tracker.getTopAnalysts(limit, orderBy);
+    const analysts = await tracker.getTopAnalysts(limit, orderBy, sector);
     
     return NextResponse.json({
       success: true,
@@ -27,6 +41,9 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.response) return auth.response;
+
     const body = await request.json();
     const { action } = body;
     
@@ -67,8 +84,7 @@ async function createAnalyst(data: {
     const analystId = await tracker.createAnalyst({
       name,
       firm,
-      score: score || 50,
-      lifetime_calls: 0,
+      score,
       specializations: specializations || []
     });
     
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
 import { migrateAnalystsFromConsensus } from '@/lib/utils/migrateAnalysts';
 
 /**
@@ -7,6 +8,9 @@ import { migrateAnalystsFromConsensus } from '@/lib/utils/migrateAnalysts';
  */
 export async function POST(request: NextRequest) {
   try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.response) return auth.response;
+
     console.log('🔄 Starting analyst migration from consensus data...');
     
     await migrateAnalystsFromConsensus();
@@ -1,17 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
 import { adminDb } from '@/lib/firebase-admin';
 import { createCacheAwareResponse, extractFirestoreCacheMetadata } from '@/lib/cache/cacheAwareResponse';
+import { ANALYSTS_COLLECTION } from '@/lib/analysts/enhancedAnalystTracker';
+import { STATS_WINDOWS, type StatsWindow, type WindowStats } from '@/lib/analysts/analystStats';
 import type { Query, CollectionReference, DocumentData } from 'firebase-admin/firestore';
 
 /**
  * GET /api/analysts - Get analyst leaderboard and rankings
  * Query params:
- * - orderBy: 'score' | 'accuracy' | 'total_recommendations' | 'recent_performance' (default: 'score')
+ * - orderBy: 'score' | 'accuracy' | 'total_recommendations' | 'recent_performance' | 'alpha' | 'information_ratio' (default: 'score')
  * - limit: number (default: 50)
  * - sector: string (optional filter)
  */
 export async function GET(request: NextRequest) {
   try {
+    const auth = await authorizeRequest(request, 'user');
+    if (auth.response) return auth.response;
+
     const { searchParams } = new URL(request.url);
     const orderBy = searchParams.get('orderBy') || 'score';
     const limit = parseInt(searchParams.get('limit') || '50');
@@ -19,31 +25,24 @@ export async function GET(request: NextRequest) {
     
     console.log(`Getting analyst rankings - orderBy: ${orderBy}, limit: ${limit}, sector: ${sector}`);
     
-    // Get enhanced analysts from new system
-    let query: Query<DocumentData> = adminDb.collection('analysts_enhanced');
+    // Read the canonical analyst records
+    let query: Query<DocumentData> = adminDb.collection(ANALYSTS_COLLECTION);
     
     // Apply sector filter if specified
     if (sector) {
-      query = query.where('sectors', 'array-contains', sector);
+      query = query.where('specializations', 'array-contains', sector);
     }
     
-    // Apply ordering
-    switch (orderBy) {
-      case 'score':
-        query = query.orderBy('current_score', 'desc');
-        break;
-      case 'accuracy':
-        query = query.orderBy('accuracy_rate', 'desc');
-        break;
-      case 'total_recommendations':
-        query = query.orderBy('total_recommendations', 'desc');
-        break;
-      case 'recent_performance':
-        query = query.orderBy('recent_performance.last_30_days.accuracy', 'desc');
-        break;
-      default:
-        query = query.orderBy('current_score', 'desc');
-    }
+    // Apply ordering; the windowed fields are materialized by the evaluator
+    const orderFields: Record<string, string> = {
+      score: 'score',
+      accuracy: 'accuracy_rate',
+      total_recommendations: 'lifetime_calls',
+      recent_performance: 'stats.d30.win_rate',
+      alpha: 'stats.d90.avg_alpha',
+      information_ratio: 'stats.d365.information_ratio'
+    };
+    query = query.orderBy(orderFields[orderBy] || 'score', 'desc');
     
     const snapshot = await query.limit(limit).get();
     const allDocs = snapshot.docs;
@@ -58,16 +57,17 @@ export async function GET(request: NextRequest) {
         id: doc.id,
         name: data.name || 'Unknown Analyst',
         firm: data.firm || 'Independent',
-        current_score: Math.round(data.current_score || 50),
+        current_score: Math.round(data.score ?? 50),
         accuracy_rate: Math.round((data.accuracy_rate || 0) * 100),
-        total_recommendations: data.total_recommendations || 0,
-        sectors: data.sectors || [],
-        recent_recommendations: data.recent_performance?.last_30_days?.recommendations || 0,
+        total_recommendations: data.lifetime_calls || 0,
+        sectors: data.specializations || [],
+        recent_recommendations: data.stats?.d30?.calls || 0,
         performance_metrics: performanceMetrics,
-        last_updated: data.last_updated,
+        window_stats: summarizeWindows(data.stats),
+        last_updated: data.updated_at,
         joined_date: data.created_at,
         avatar: generateAvatarUrl(data.name || 'Unknown', data.firm || 'Independent'),
-        tier: getAnalystTier(data.current_score || 50)
+        tier: getAnalystTier(data.score ?? 50)
       };
     });
     
@@ -110,21 +110,34 @@ export async function GET(request: NextRequest) {
  * Calculate performance metrics for an analyst
  */
 function calculatePerformanceMetrics(analystData: any) {
-  const score = analystData.current_score || 50;
   const accuracy = analystData.accuracy_rate || 0;
-  const totalRecs = analystData.total_recommendations || 0;
   
   return {
     win_rate: Math.round(accuracy * 100),
-    avg_return: analystData.average_return ? `${(analystData.average_return * 100).toFixed(1)}%` : 'N/A',
+    avg_return: analystData.lifetime_calls ? `${((analystData.avg_alpha || 0) * 100).toFixed(1)}%` : 'N/A',
     best_pick: analystData.best_recommendation || 'N/A',
     worst_pick: analystData.worst_recommendation || 'N/A',
     streak: analystData.current_streak || 0,
     score_trend: calculateScoreTrend(analystData.score_history || []),
-    specialization: getTopSector(analystData.sectors || [])
+    specialization: getTopSector(analystData.specializations || [], analystData.stats?.d365?.sectors)
   };
 }
 
+/**
+ * Leaderboard numbers for each rolling window, in percent like the other metrics
+ */
+function summarizeWindows(stats?: Record<StatsWindow, WindowStats>) {
+  return Object.fromEntries((Object.keys(STATS_WINDOWS) as StatsWindow[]).map(window => {
+    const windowStats = stats?.[window];
+    return [window, {
+      calls: windowStats?.calls || 0,
+      win_rate: Math.round((windowStats?.win_rate || 0) * 100),
+      avg_alpha: Math.round((windowStats?.avg_alpha || 0) * 1000) / 10,
+      information_ratio: windowStats?.information_ratio ?? null
+    }];
+  }));
+}
+
 /**
  * Get analyst tier based on score
  */
@@ -149,11 +162,13 @@ function calculateScoreTrend(scoreHistory: number[]): 'up' | 'down' | 'stable' {
 }
 
 /**
- * Get top sector for specialization
+ * Get top sector for specialization: the sector with the most calls in the last year, else the first listed
  */
-function getTopSector(sectors: string[]): string {
+function getTopSector(sectors: string[], sectorStats?: WindowStats['sectors']): string {
+  const [busiest] = Object.entries(sectorStats || {}).sort(([, a], [, b]) => b.calls - a.calls);
+  if (busiest) return busiest[0];
   if (sectors.length === 0) return 'General';
-  return sectors[0]; // Simplified - in reality would count recommendations per sector
+  return sectors[0];
 }
 
 /**
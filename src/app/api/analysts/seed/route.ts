@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
 import { seedRealAnalysts, clearAnalysts } from '@/lib/utils/seedAnalysts';
 
 /**
@@ -8,6 +9,9 @@ import { seedRealAnalysts, clearAnalysts } from '@/lib/utils/seedAnalysts';
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.response) return auth.response;
+
     console.log('🌱 Seeding real analyst data via API...');
     
     await seedRealAnalysts();
@@ -33,6 +37,9 @@ export async function POST(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.response) return auth.response;
+
     console.log('🧹 Clearing analyst data via API...');
     
     await clearAnalysts();
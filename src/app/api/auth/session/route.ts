@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
+import { createInviteService } from '@/lib/services/inviteService';
+
+/**
+ * Called by the client after every sign-in: checks the invite and records the login
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'user');
+    if (auth.response) return auth.response;
+
+    if (auth.principal.role === 'service') {
+      return NextResponse.json({
+        success: false,
+        error: 'Sessions are only recorded for signed-in users'
+      }, { status: 400 });
+    }
+
+    const { displayName, photoURL } = await request.json().catch(() => ({}));
+
+    const service = createInviteService();
+    const role = await service.registerSignIn({
+      uid: auth.principal.uid,
+      email: auth.principal.email,
+      displayName: typeof displayName === 'string' ? displayName : undefined,
+      photoURL: typeof photoURL === 'string' ? photoURL : undefined,
+    });
+
+    if (!role) {
+      return NextResponse.json({
+        success: false,
+        error: 'Access restricted. This email is not authorized.'
+      }, { status: 403 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      role
+    });
+  } catch (error) {
+    console.error('Error recording sign-in:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to record sign-in',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
+import { createConsensusHistoryService, DEFAULT_HISTORY_DAYS } from '@/lib/services/consensusHistoryService';
+
+const MAX_HISTORY_DAYS = 365;
+
+/**
+ * Daily consensus snapshots for a ticker with upgrades/downgrades and earnings dates (?days=90)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ ticker: string }> }
+) {
+  try {
+    const auth = await authorizeRequest(request, 'user');
+    if (auth.response) return auth.response;
+
+    const { ticker } = await params;
+    const days = parseInt(request.nextUrl.searchParams.get('days') || String(DEFAULT_HISTORY_DAYS));
+
+    if (isNaN(days) || days < 1 || days > MAX_HISTORY_DAYS) {
+      return NextResponse.json({
+        success: false,
+        error: `Days must be between 1 and ${MAX_HISTORY_DAYS}`
+      }, { status: 400 });
+    }
+
+    const history = await createConsensusHistoryService().getHistory(ticker.toUpperCase(), days);
+
+    return NextResponse.json({
+      success: true,
+      ...history
+    });
+  } catch (error) {
+    console.error('Error fetching consensus history:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch consensus history',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
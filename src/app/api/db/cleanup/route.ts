@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
 import { removeDuplicateTickers, getDuplicateStats } from '@/lib/utils/dbCleanup';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.response) return auth.response;
+
     console.log('Getting duplicate statistics...');
     
     const stats = await getDuplicateStats();
@@ -23,6 +27,9 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.response) return auth.response;
+
     const body = await request.json();
     const { action } = body;
 
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
 import { createEarningsAgent } from '@/lib/agents/earningsAgent';
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.response) return auth.response;
+
     // This endpoint is accessible to authenticated users
     const body = await request.json();
     const { 
@@ -12,7 +16,8 @@ export async function POST(request: NextRequest) {
       tickers,
       useWebSearch = true,
       updateDatabase = true,
-      limit = 3 // Number of S&P 500 companies to fetch (production limit)
+      limit = 3, // Number of S&P 500 companies to fetch (production limit)
+      ta125Limit = limit // Number of TA-125 companies to fetch
     } = body;
 
     const earningsAgent = createEarningsAgent();
@@ -21,12 +26,12 @@ export async function POST(request: NextRequest) {
     switch (action) {
       case 'fetch':
         // Just fetch earnings calendar data without updating database
-        result = await earningsAgent.fetchEarningsCalendar(startDate, endDate, useWebSearch, limit);
+        result = await earningsAgent.fetchEarningsCalendar(startDate, endDate, useWebSearch, limit, ta125Limit);
         break;
         
       case 'update':
         // Fetch and update database with real earnings data from S&P 500 companies
-        const updateResult = await earningsAgent.updateDatabaseWithRealEarnings(startDate, endDate, limit);
+        const updateResult = await earningsAgent.updateDatabaseWithRealEarnings(startDate, endDate, limit, ta125Limit);
         result = {
           ...updateResult,
           message: `Updated database: ${updateResult.created} created, ${updateResult.updated} updated, ${updateResult.errors} errors`
@@ -83,6 +88,10 @@ export async function GET(request: NextRequest) {
     const startDate = searchParams.get('startDate');
     const endDate = searchParams.get('endDate');
 
+    // Previews run the same web searches as an update
+    const auth = await authorizeRequest(request, action === 'status' ? 'user' : 'admin');
+    if (auth.response) return auth.response;
+
     const earningsAgent = createEarningsAgent();
 
     switch (action) {
@@ -113,6 +122,7 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({
           success: true,
           preview: {
+            ta125Results: previewData.ta125.length,
             polygonResults: previewData.polygon.length,
             webResults: previewData.webSearch.length,
             combinedResults: previewData.combined.length,
@@ -1,17 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
 import { adminDb } from '@/lib/firebase-admin';
 import { createEarningsProvider, normalizeEarningsEvent } from '@/lib/services/earningsService';
+import { toOptionalDate } from '@/lib/utils/firestoreValues';
 import type { EarningsEvent } from '@/types';
 
 export async function POST(request: NextRequest) {
   try {
-    // This endpoint is accessible to all authenticated users
-    // API key authentication is only for external/admin access
-    const authHeader = request.headers.get('authorization');
-    const apiKey = request.headers.get('x-api-key');
-    
-    // Skip API key requirement for user-facing requests in production
-    // Users authenticate through Firebase Auth, not API keys
+    const auth = await authorizeRequest(request, 'scheduled');
+    if (auth.response) return auth.response;
 
     const { startDate, endDate, forceRefresh } = await request.json();
 
@@ -89,6 +86,9 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
+    const auth = await authorizeRequest(request, 'user');
+    if (auth.response) return auth.response;
+
     const { searchParams } = new URL(request.url);
     const startDate = searchParams.get('startDate');
     const endDate = searchParams.get('endDate');
@@ -114,9 +114,9 @@ export async function GET(request: NextRequest) {
       return {
         id: doc.id,
         ...data,
-        expectedDate: data.expectedDate?.toDate ? data.expectedDate.toDate() : data.expectedDate,
-        createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : data.createdAt,
-        updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : data.updatedAt,
+        expectedDate: toOptionalDate(data.expectedDate),
+        createdAt: toOptionalDate(data.createdAt),
+        updatedAt: toOptionalDate(data.updatedAt),
       };
     });
 
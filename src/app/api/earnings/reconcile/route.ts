@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
+import { createEarningsSurpriseService } from '@/lib/services/earningsSurpriseService';
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'scheduled');
+    if (auth.response) return auth.response;
+
+    console.log('Reconciling reported earnings...');
+    const startTime = Date.now();
+
+    const service = createEarningsSurpriseService();
+    const result = await service.reconcilePastEarnings(new Date());
+
+    return NextResponse.json({
+      success: true,
+      message: `Earnings reconciliation completed: ${result.reconciled} reconciled, ${result.pending} pending, ${result.errors.length} errors`,
+      ...result,
+      duration_ms: Date.now() - startTime,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error in earnings reconciliation API:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to reconcile earnings',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
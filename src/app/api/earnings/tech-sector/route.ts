@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
 import { createEarningsAgent } from '@/lib/agents/earningsAgent';
 import { adminDb } from '@/lib/firebase-admin';
 
@@ -78,6 +79,9 @@ async function cleanupDuplicateTickers() {
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.response) return auth.response;
+
     const body = await request.json();
     const { 
       action = 'fetch-tech-sector',
@@ -137,6 +141,9 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
+    const auth = await authorizeRequest(request, 'user');
+    if (auth.response) return auth.response;
+
     const { searchParams } = new URL(request.url);
     const action = searchParams.get('action') || 'status';
 
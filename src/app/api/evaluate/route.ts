@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
 import { EnhancedAnalystTracker } from '@/lib/analysts/enhancedAnalystTracker';
 
 const tracker = new EnhancedAnalystTracker();
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = await authorizeRequest(request, 'scheduled');
+    if (auth.response) return auth.response;
+
     const body = await request.json();
     const { action, force = false } = body;
     
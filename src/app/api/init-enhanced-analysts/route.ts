@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
 import { initializeEnhancedAnalysts } from '@/scripts/initializeEnhancedAnalysts';
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.response) return auth.response;
+
     console.log('Initializing enhanced analyst tracking system...');
     
     const result = await initializeEnhancedAnalysts();
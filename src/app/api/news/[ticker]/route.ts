@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
+import { createNewsService } from '@/lib/services/newsService';
+
+/**
+ * Stored news for a ticker: summary, themes and de-duplicated articles with sentiment.
+ * `news` is null until the agents have fetched news for the ticker.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ ticker: string }> }
+) {
+  try {
+    const auth = await authorizeRequest(request, 'user');
+    if (auth.response) return auth.response;
+
+    const { ticker } = await params;
+    const service = createNewsService();
+    const news = await service.getStockNews(ticker.toUpperCase());
+
+    return NextResponse.json({
+      success: true,
+      news
+    });
+  } catch (error) {
+    console.error('Error fetching stock news:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch stock news',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest, canActAsUser, forbiddenUserResponse } from '@/lib/serverAuth';
+import { createPortfolioService, DEFAULT_EARNINGS_WINDOW_DAYS } from '@/lib/services/portfolioService';
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'user');
+    if (auth.response) return auth.response;
+
+    const { searchParams } = request.nextUrl;
+    const userId = searchParams.get('userId');
+    const days = parseInt(searchParams.get('days') || '') || DEFAULT_EARNINGS_WINDOW_DAYS;
+
+    if (!userId) {
+      return NextResponse.json({
+        success: false,
+        error: 'User ID is required'
+      }, { status: 400 });
+    }
+
+    if (!canActAsUser(auth.principal, userId)) {
+      return forbiddenUserResponse();
+    }
+
+    if (days < 1 || days > 90) {
+      return NextResponse.json({
+        success: false,
+        error: 'Days must be between 1 and 90'
+      }, { status: 400 });
+    }
+
+    const service = createPortfolioService();
+    const summary = await service.getPortfolioSummary(userId, days);
+
+    return NextResponse.json({
+      success: true,
+      ...summary
+    });
+  } catch (error) {
+    console.error('Error fetching portfolio summary:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch portfolio summary',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
+import { createPriceHistoryService, isPriceRange } from '@/lib/services/priceHistoryService';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ ticker: string }> }
+) {
+  try {
+    const auth = await authorizeRequest(request, 'user');
+    if (auth.response) return auth.response;
+
+    const { ticker } = await params;
+    const range = request.nextUrl.searchParams.get('range') || '1M';
+    const market = request.nextUrl.searchParams.get('market') || undefined;
+
+    if (!isPriceRange(range)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Range must be one of 1D, 5D, 1M, 6M, 1Y'
+      }, { status: 400 });
+    }
+
+    if (market !== undefined && market !== 'SP500' && market !== 'TA125') {
+      return NextResponse.json({
+        success: false,
+        error: 'Market must be SP500 or TA125'
+      }, { status: 400 });
+    }
+
+    const service = createPriceHistoryService();
+    const history = await service.getPriceHistory(ticker.toUpperCase(), range, market);
+
+    return NextResponse.json({
+      success: true,
+      ...history
+    });
+  } catch (error) {
+    console.error('Error fetching price history:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch price history',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
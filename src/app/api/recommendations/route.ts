@@ -1,13 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest, satisfiesPolicy } from '@/lib/serverAuth';
 import { EnhancedAnalystTracker } from '@/lib/analysts/enhancedAnalystTracker';
 
 const tracker = new EnhancedAnalystTracker();
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = await authorizeRequest(request, 'user');
+    if (auth.response) return auth.response;
+
     const body = await request.json();
     const { action } = body;
-    
+
+    // Recording a call closes and scores the analyst's earlier one and notifies every watcher of the ticker
+    if (action === 'record_recommendation' && !satisfiesPolicy(auth.principal, 'scheduled')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions'
+      }, { status: 403 });
+    }
+
     switch (action) {
       case 'record_recommendation':
         return await recordRecommendation(body);
@@ -73,6 +85,14 @@ async function recordRecommendation(data: {
     });
   } catch (error) {
     console.error('Error recording recommendation:', error);
+    
+    if (error instanceof Error && error.message.includes('not found')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Analyst not found'
+      }, { status: 404 });
+    }
+    
     return NextResponse.json({
       success: false,
       error: 'Failed to record recommendation'
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
+import { createScheduler } from '@/lib/scheduler/scheduler';
+
+type RouteContext = { params: Promise<{ jobId: string }> };
+
+const notFound = () => NextResponse.json({
+  success: false,
+  error: 'Scheduled job not found'
+}, { status: 404 });
+
+/**
+ * Run history of one job
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.response) return auth.response;
+
+    const { jobId } = await params;
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20') || 20, 100);
+
+    const scheduler = createScheduler();
+    const job = (await scheduler.listJobs()).find(candidate => candidate.id === jobId);
+    if (!job) {
+      return notFound();
+    }
+
+    return NextResponse.json({
+      success: true,
+      job,
+      runs: await scheduler.getRunHistory(jobId, limit)
+    });
+  } catch (error) {
+    console.error('Error getting scheduled job:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to get scheduled job',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Change the cron expression or enable/disable a job
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.response) return auth.response;
+
+    const { jobId } = await params;
+    const { enabled, cron } = await request.json();
+
+    if ((enabled !== undefined && typeof enabled !== 'boolean') || (cron !== undefined && typeof cron !== 'string')) {
+      return NextResponse.json({
+        success: false,
+        error: 'enabled must be a boolean and cron a string'
+      }, { status: 400 });
+    }
+
+    let job;
+    try {
+      job = await createScheduler().updateJob(jobId, { enabled, cron });
+    } catch (validationError) {
+      return NextResponse.json({
+        success: false,
+        error: validationError instanceof Error ? validationError.message : 'Invalid cron expression'
+      }, { status: 400 });
+    }
+
+    if (!job) {
+      return notFound();
+    }
+
+    return NextResponse.json({
+      success: true,
+      job,
+      message: `${job.name} ${job.enabled ? 'enabled' : 'disabled'}`
+    });
+  } catch (error) {
+    console.error('Error updating scheduled job:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update scheduled job',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Run a job now, outside its schedule
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.response) return auth.response;
+
+    const { jobId } = await params;
+    const scheduler = createScheduler();
+
+    if (!(await scheduler.listJobs()).some(candidate => candidate.id === jobId)) {
+      return notFound();
+    }
+
+    const run = await scheduler.runNow(jobId, auth.principal.email || auth.principal.uid);
+    if (!run) {
+      return NextResponse.json({
+        success: false,
+        error: 'Job is already running'
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: run.status === 'success',
+      run,
+      message: run.message
+    });
+  } catch (error) {
+    console.error('Error running scheduled job:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to run scheduled job',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
+import { createScheduler } from '@/lib/scheduler/scheduler';
+
+/**
+ * Scheduled jobs with their schedule and last run
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.response) return auth.response;
+
+    const jobs = await createScheduler().listJobs();
+
+    return NextResponse.json({
+      success: true,
+      jobs
+    });
+  } catch (error) {
+    console.error('Error listing scheduled jobs:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to list scheduled jobs',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
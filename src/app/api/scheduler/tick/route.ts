@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
+import { createScheduler } from '@/lib/scheduler/scheduler';
+
+/**
+ * Scheduler tick: runs every job that is due. Point Cloud Scheduler (every minute)
+ * or scripts/localScheduler.js at it.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'scheduled');
+    if (auth.response) return auth.response;
+
+    const startTime = Date.now();
+    const result = await createScheduler().tick(new Date());
+    const failed = result.ran.filter(run => run.status === 'failed').length;
+
+    return NextResponse.json({
+      success: true,
+      message: `Scheduler tick ran ${result.ran.length} jobs (${failed} failed), ${result.skipped.length} already running`,
+      ...result,
+      duration_ms: Date.now() - startTime,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error in scheduler tick:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Scheduler tick failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -1,20 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
 import { 
   createSentimentService, 
   createSentimentFromEarnings,
   type SentimentAnalysisInput 
 } from '@/lib/services/sentimentService';
+import { QuotaExceededError } from '@/lib/services/quotaManager';
 import { adminDb } from '@/lib/firebase-admin';
 import type { EarningsEvent, Watchlist } from '@/types';
 
 export async function POST(request: NextRequest) {
   try {
-    // This endpoint is accessible to authenticated users
-    // API key authentication is only for external/admin access
-    const apiKey = request.headers.get('x-api-key');
-    
-    // Skip API key requirement for user-facing requests in production
-    // Users authenticate through Firebase Auth, not API keys
+    const auth = await authorizeRequest(request, 'scheduled');
+    if (auth.response) return auth.response;
 
     const body = await request.json();
     const { userId, tickers, forceRefresh } = body;
@@ -84,10 +82,6 @@ export async function POST(request: NextRequest) {
           success: true,
           signal,
         });
-
-        // Add delay between API calls to respect rate limits
-        await new Promise(resolve => setTimeout(resolve, 1500));
-        
       } catch (error) {
         console.error(`Error analyzing ${earnings.ticker}:`, error);
         results.push({
@@ -95,6 +89,11 @@ export async function POST(request: NextRequest) {
           success: false,
           error: error instanceof Error ? error.message : 'Unknown error',
         });
+
+        // The rest would fail the same way
+        if (error instanceof QuotaExceededError) {
+          break;
+        }
       }
     }
 
@@ -125,12 +124,8 @@ export async function POST(request: NextRequest) {
 // Single company sentiment analysis
 export async function PUT(request: NextRequest) {
   try {
-    // This endpoint is accessible to authenticated users
-    // API key authentication is only for external/admin access
-    const apiKey = request.headers.get('x-api-key');
-    
-    // Skip API key requirement for user-facing requests in production
-    // Users authenticate through Firebase Auth, not API keys
+    const auth = await authorizeRequest(request, 'scheduled');
+    if (auth.response) return auth.response;
 
     const body = await request.json();
     const { 
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/serverAuth';
+import { createSentimentBacktestService } from '@/lib/services/sentimentBacktestService';
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'scheduled');
+    if (auth.response) return auth.response;
+
+    console.log('Running sentiment signal back-test...');
+    const startTime = Date.now();
+
+    const service = createSentimentBacktestService();
+    const result = await service.runBacktest(new Date());
+
+    return NextResponse.json({
+      success: true,
+      message: `Sentiment back-test completed: ${result.evaluated} evaluated, ${result.completed} completed, ${result.skipped} skipped, ${result.errors.length} errors`,
+      ...result,
+      duration_ms: Date.now() - startTime,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error in sentiment back-test API:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to back-test sentiment signals',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
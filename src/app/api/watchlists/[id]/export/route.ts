@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest, canActAsUser, forbiddenUserResponse } from '@/lib/serverAuth';
+import { createWatchlistTransferService, isWatchlistFileFormat } from '@/lib/services/watchlistTransferService';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorizeRequest(request, 'user');
+    if (auth.response) return auth.response;
+
+    const { id } = await params;
+    const { searchParams } = request.nextUrl;
+    const userId = searchParams.get('userId');
+    const format = searchParams.get('format') || 'csv';
+
+    if (!userId) {
+      return NextResponse.json({
+        success: false,
+        error: 'User ID is required'
+      }, { status: 400 });
+    }
+
+    if (!canActAsUser(auth.principal, userId)) {
+      return forbiddenUserResponse();
+    }
+
+    if (!isWatchlistFileFormat(format)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Format must be csv or json'
+      }, { status: 400 });
+    }
+
+    const service = createWatchlistTransferService();
+    const exported = await service.exportWatchlist(id, userId, format);
+
+    if (!exported) {
+      return NextResponse.json({
+        success: false,
+        error: 'Watchlist not found'
+      }, { status: 404 });
+    }
+
+    const slug = exported.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'watchlist';
+    return new NextResponse(exported.content, {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${slug}-${new Date().toISOString().split('T')[0]}.${format}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting watchlist:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to export watchlist',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest, canActAsUser, forbiddenUserResponse } from '@/lib/serverAuth';
+import { createWatchlistTransferService, isWatchlistFileFormat } from '@/lib/services/watchlistTransferService';
+
+// Roughly 500 rows with names and notes
+const MAX_CONTENT_LENGTH = 200_000;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorizeRequest(request, 'user');
+    if (auth.response) return auth.response;
+
+    const { id } = await params;
+    const { userId, content, format = 'csv', dryRun = false } = await request.json();
+
+    if (!userId) {
+      return NextResponse.json({
+        success: false,
+        error: 'User ID is required'
+      }, { status: 400 });
+    }
+
+    if (!canActAsUser(auth.principal, userId)) {
+      return forbiddenUserResponse();
+    }
+
+    if (!isWatchlistFileFormat(format)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Format must be csv or json'
+      }, { status: 400 });
+    }
+
+    if (typeof content !== 'string' || !content.trim()) {
+      return NextResponse.json({
+        success: false,
+        error: 'File content is required'
+      }, { status: 400 });
+    }
+
+    if (content.length > MAX_CONTENT_LENGTH) {
+      return NextResponse.json({
+        success: false,
+        error: 'File is too large'
+      }, { status: 413 });
+    }
+
+    const service = createWatchlistTransferService();
+    const report = await service.importWatchlist(id, userId, content, format, Boolean(dryRun));
+
+    if (!report) {
+      return NextResponse.json({
+        success: false,
+        error: 'Watchlist not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      dryRun: Boolean(dryRun),
+      imported: dryRun ? 0 : report.companies.length,
+      ...report
+    });
+  } catch (error) {
+    console.error('Error importing watchlist:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to import watchlist',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
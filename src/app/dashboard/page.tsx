@@ -7,6 +7,7 @@ import Navbar from '@/components/Navbar';
 import EarningsFilter, { FilterOptions } from '@/components/dashboard/EarningsFilter';
 import EnhancedEarningsGrid from '@/components/dashboard/EnhancedEarningsGrid';
 import InteractiveWatchlistSummary from '@/components/dashboard/InteractiveWatchlistSummary';
+import WatchlistTransferModal from '@/components/dashboard/WatchlistTransferModal';
 import OnboardingTour from '@/components/ui/OnboardingTour';
 import CacheStatusIndicator from '@/components/cache/CacheStatusIndicator';
 import {
@@ -33,6 +34,7 @@ export default function DashboardPage() {
   });
   const [highlightedTicker, setHighlightedTicker] = useState<string | null>(null);
   const [showOnboarding, setShowOnboarding] = useState(false);
+  const [showTransfer, setShowTransfer] = useState(false);
 
   // Check if user is new or tour is requested via URL
   useEffect(() => {
@@ -151,6 +153,35 @@ export default function DashboardPage() {
     }
   };
 
+  const handleOpenTransfer = async () => {
+    try {
+      // Imports need a target list, so make sure the Default one exists
+      if (watchlists.length === 0) {
+        const now = new Date();
+        const watchlistId = await createWatchlist({
+          userId: user!.uid,
+          name: 'Default',
+          companies: [],
+          createdAt: now,
+          updatedAt: now,
+        });
+        setWatchlists([{ id: watchlistId, userId: user!.uid, name: 'Default', companies: [], createdAt: now, updatedAt: now }]);
+      }
+      setShowTransfer(true);
+    } catch (err: any) {
+      console.error('Error preparing watchlist import:', err);
+      setError('Failed to open watchlist import.');
+    }
+  };
+
+  const handleWatchlistImported = async () => {
+    try {
+      setWatchlists(await getUserWatchlists(user!.uid));
+    } catch (err: any) {
+      console.error('Error reloading watchlists:', err);
+    }
+  };
+
   const handleCompleteTour = () => {
     setShowOnboarding(false);
     localStorage.setItem('hasSeenOnboardingTour', 'true');
@@ -243,6 +274,7 @@ export default function DashboardPage() {
                   watchlists={watchlists}
                   onTickerHighlight={setHighlightedTicker}
                   onRemoveFromWatchlist={handleRemoveFromWatchlist}
+                  onOpenTransfer={handleOpenTransfer}
                 />
               </div>
             </div>
@@ -261,6 +293,14 @@ export default function DashboardPage() {
           </div>
         </div>
         
+        <WatchlistTransferModal
+          isOpen={showTransfer}
+          onClose={() => setShowTransfer(false)}
+          onImported={handleWatchlistImported}
+          watchlists={watchlists}
+          userId={user?.uid || ''}
+        />
+
         {/* Onboarding Tour */}
         <OnboardingTour
           isVisible={showOnboarding}
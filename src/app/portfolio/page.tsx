@@ -0,0 +1,362 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/components/AuthProvider';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import Navbar from '@/components/Navbar';
+import AddLotModal from '@/components/portfolio/AddLotModal';
+import SellLotModal from '@/components/portfolio/SellLotModal';
+import {
+  getUserPortfolioLots,
+  createPortfolioLot,
+  deletePortfolioLot,
+  sellPortfolioLot
+} from '@/lib/firestore';
+import { formatPrice, getMarketCurrency } from '@/lib/utils/currency';
+import { format } from 'date-fns';
+import { authFetch } from '@/lib/apiClient';
+import type { PortfolioLot, PortfolioSummary, PortfolioExposure } from '@/types';
+
+const EARNINGS_WINDOWS = [7, 14, 30];
+
+const formatCurrency = (value: number) => formatPrice(value, 'USD');
+
+const formatSigned = (value: number) => `${value >= 0 ? '+' : ''}${formatCurrency(value)}`;
+
+const pnlColor = (value: number) =>
+  value >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400';
+
+function ExposureBars({ title, exposure }: { title: string; exposure: PortfolioExposure[] }) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">{title}</h2>
+      {exposure.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No open positions</p>
+      ) : (
+        <div className="space-y-3">
+          {exposure.map(item => (
+            <div key={item.key} className="flex items-center space-x-4 text-sm">
+              <span className="w-28 truncate text-gray-600 dark:text-gray-400">{item.key}</span>
+              <div className="flex-1 h-3 bg-gray-100 dark:bg-gray-700 rounded">
+                <div className="h-3 rounded bg-indigo-500" style={{ width: `${item.weight * 100}%` }} />
+              </div>
+              <span className="w-14 text-right text-gray-700 dark:text-gray-300">
+                {(item.weight * 100).toFixed(1)}%
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function PortfolioPage() {
+  const { user } = useAuth();
+  const [lots, setLots] = useState<PortfolioLot[]>([]);
+  const [summary, setSummary] = useState<PortfolioSummary | null>(null);
+  const [days, setDays] = useState(14);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [sellingLot, setSellingLot] = useState<PortfolioLot | null>(null);
+
+  const loadPortfolio = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setError('');
+      const [userLots, response] = await Promise.all([
+        getUserPortfolioLots(user.uid),
+        authFetch(`/api/portfolio?userId=${encodeURIComponent(user.uid)}&days=${days}`),
+      ]);
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to load portfolio summary');
+      }
+
+      setLots(userLots);
+      setSummary(data);
+    } catch (err: any) {
+      console.error('Error loading portfolio:', err);
+      setError('Failed to load portfolio. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, days]);
+
+  useEffect(() => {
+    loadPortfolio();
+  }, [loadPortfolio]);
+
+  const handleCreateLot = async (lot: Omit<PortfolioLot, 'id' | 'createdAt' | 'updatedAt'>) => {
+    try {
+      await createPortfolioLot(lot);
+      await loadPortfolio();
+    } catch (err: any) {
+      console.error('Error creating lot:', err);
+      setError('Failed to add lot. Please try again.');
+    }
+  };
+
+  const handleSellLot = async (lot: PortfolioLot, quantity: number, sellPrice: number, sellDate: Date) => {
+    try {
+      await sellPortfolioLot(lot, quantity, sellPrice, sellDate);
+      await loadPortfolio();
+    } catch (err: any) {
+      console.error('Error selling lot:', err);
+      setError('Failed to record sale. Please try again.');
+    }
+  };
+
+  const handleDeleteLot = async (lot: PortfolioLot) => {
+    if (!confirm(`Delete this ${lot.ticker} lot? This cannot be undone.`)) return;
+
+    try {
+      await deletePortfolioLot(lot.id);
+      await loadPortfolio();
+    } catch (err: any) {
+      console.error('Error deleting lot:', err);
+      setError('Failed to delete lot. Please try again.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <ProtectedRoute>
+        <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+          <Navbar />
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-gray-900 dark:border-white"></div>
+          </div>
+        </div>
+      </ProtectedRoute>
+    );
+  }
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+        <Navbar />
+
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="flex items-center justify-between mb-8">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+                Portfolio
+              </h1>
+              <p className="mt-2 text-gray-600 dark:text-gray-400">
+                Positions, P&amp;L and exposure to upcoming earnings
+              </p>
+            </div>
+            <button
+              onClick={() => setShowAddModal(true)}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700"
+            >
+              Add Lot
+            </button>
+          </div>
+
+          {error && (
+            <div className="mb-6 p-4 bg-red-100 border border-red-400 text-red-700 rounded dark:bg-red-900 dark:border-red-700 dark:text-red-100">
+              {error}
+            </div>
+          )}
+
+          {summary && (
+            <>
+              {/* Summary */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+                <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+                  <div className="text-sm text-gray-500 dark:text-gray-400">Market value</div>
+                  <div className="text-2xl font-bold text-gray-900 dark:text-white">{formatCurrency(summary.totalMarketValue)}</div>
+                </div>
+                <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+                  <div className="text-sm text-gray-500 dark:text-gray-400">Cost basis</div>
+                  <div className="text-2xl font-bold text-gray-900 dark:text-white">{formatCurrency(summary.totalCostBasis)}</div>
+                </div>
+                <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+                  <div className="text-sm text-gray-500 dark:text-gray-400">Unrealized P&amp;L</div>
+                  <div className={`text-2xl font-bold ${pnlColor(summary.unrealizedPnL)}`}>
+                    {formatSigned(summary.unrealizedPnL)}
+                  </div>
+                  <div className={`text-xs ${pnlColor(summary.unrealizedPnL)}`}>
+                    {summary.unrealizedPnLPercent >= 0 ? '+' : ''}{summary.unrealizedPnLPercent.toFixed(2)}%
+                  </div>
+                </div>
+                <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+                  <div className="text-sm text-gray-500 dark:text-gray-400">Realized P&amp;L</div>
+                  <div className={`text-2xl font-bold ${pnlColor(summary.realizedPnL)}`}>
+                    {formatSigned(summary.realizedPnL)}
+                  </div>
+                </div>
+              </div>
+
+              {/* Positions */}
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow mb-8 overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-700">
+                    <tr>
+                      {['Ticker', 'Quantity', 'Avg. cost', 'Price', 'Market value', 'Unrealized P&L'].map(header => (
+                        <th key={header} className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                          {header}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {summary.positions.length === 0 ? (
+                      <tr>
+                        <td colSpan={6} className="px-6 py-8 text-center text-gray-500 dark:text-gray-400">
+                          No open positions. Add a lot to start tracking P&amp;L.
+                        </td>
+                      </tr>
+                    ) : summary.positions.map(position => (
+                      <tr key={position.ticker}>
+                        <td className="px-6 py-4">
+                          <div className="font-medium text-gray-900 dark:text-white">{position.ticker}</div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400">{position.companyName}</div>
+                        </td>
+                        <td className="px-6 py-4 text-gray-700 dark:text-gray-300">{position.quantity}</td>
+                        <td className="px-6 py-4 text-gray-700 dark:text-gray-300">{formatPrice(position.averageCost, position.currency)}</td>
+                        <td className="px-6 py-4 text-gray-700 dark:text-gray-300">
+                          {position.priceAvailable && position.price !== undefined ? (
+                            formatPrice(position.price, position.currency)
+                          ) : (
+                            <span className="text-xs text-yellow-600 dark:text-yellow-400" title="No live price available">
+                              Valued at cost
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-gray-700 dark:text-gray-300">
+                          {position.fxAvailable ? formatCurrency(position.marketValue) : (
+                            <>
+                              {formatPrice(position.marketValue, position.currency)}
+                              <div className="text-xs text-yellow-600 dark:text-yellow-400">No exchange rate, not in totals</div>
+                            </>
+                          )}
+                        </td>
+                        <td className={`px-6 py-4 font-medium ${pnlColor(position.unrealizedPnL)}`}>
+                          {position.fxAvailable ? formatSigned(position.unrealizedPnL) : formatPrice(position.unrealizedPnL, position.currency)}
+                          <span className="ml-1 text-xs">
+                            ({position.unrealizedPnLPercent >= 0 ? '+' : ''}{position.unrealizedPnLPercent.toFixed(1)}%)
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Exposure */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-8">
+                <ExposureBars title="Exposure by Sector" exposure={summary.exposureBySector} />
+                <ExposureBars title="Exposure by Market" exposure={summary.exposureByMarket} />
+              </div>
+
+              {/* Earnings at risk */}
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-8">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                    Earnings at Risk
+                  </h2>
+                  <select
+                    value={days}
+                    onChange={(e) => setDays(parseInt(e.target.value))}
+                    className="px-3 py-1 border border-gray-300 rounded-md text-sm dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                  >
+                    {EARNINGS_WINDOWS.map(window => (
+                      <option key={window} value={window}>Next {window} days</option>
+                    ))}
+                  </select>
+                </div>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                  {formatCurrency(summary.earningsAtRisk.marketValue)} ({(summary.earningsAtRisk.weight * 100).toFixed(1)}% of the portfolio) reports in the next {summary.earningsAtRisk.days} days
+                </p>
+                {summary.earningsAtRisk.events.length > 0 && (
+                  <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {summary.earningsAtRisk.events.map(event => (
+                      <li key={event.ticker} className="py-2 flex items-center justify-between text-sm">
+                        <span>
+                          <span className="font-medium text-gray-900 dark:text-white">{event.ticker}</span>
+                          <span className="ml-2 text-gray-500 dark:text-gray-400">
+                            {format(new Date(event.expectedDate), 'MMM dd')}
+                            {event.expectedTime ? ` (${event.expectedTime})` : ''}
+                          </span>
+                        </span>
+                        <span className="text-gray-700 dark:text-gray-300">
+                          {formatCurrency(event.marketValue)} · {(event.weight * 100).toFixed(1)}%
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+
+          {/* Lots */}
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Lots</h2>
+            {lots.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No lots recorded yet</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {lots.map(lot => (
+                  <li key={lot.id} className="py-3 flex items-center justify-between text-sm">
+                    <div>
+                      <span className="font-medium text-gray-900 dark:text-white">{lot.ticker}</span>
+                      <span className="ml-2 text-gray-600 dark:text-gray-400">
+                        {lot.quantity} @ {formatPrice(lot.costBasis, getMarketCurrency(lot.market))} on {format(new Date(lot.buyDate), 'MMM dd, yyyy')}
+                      </span>
+                      {lot.status === 'closed' && lot.sellPrice !== undefined && (
+                        <span className={`ml-2 ${pnlColor(lot.sellPrice - lot.costBasis)}`}>
+                          sold @ {formatPrice(lot.sellPrice, getMarketCurrency(lot.market))}
+                          {lot.sellDate && ` on ${format(new Date(lot.sellDate), 'MMM dd, yyyy')}`}
+                        </span>
+                      )}
+                      {lot.notes && (
+                        <div className="text-xs text-gray-500 dark:text-gray-400">{lot.notes}</div>
+                      )}
+                    </div>
+                    <div className="flex space-x-3">
+                      {lot.status === 'open' && (
+                        <button
+                          onClick={() => setSellingLot(lot)}
+                          className="text-indigo-600 hover:text-indigo-800 dark:text-indigo-400"
+                        >
+                          Sell
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleDeleteLot(lot)}
+                        className="text-red-600 hover:text-red-800 dark:text-red-400"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        {user && (
+          <AddLotModal
+            isOpen={showAddModal}
+            onClose={() => setShowAddModal(false)}
+            onCreate={handleCreateLot}
+            userId={user.uid}
+          />
+        )}
+        <SellLotModal
+          lot={sellingLot}
+          onClose={() => setSellingLot(null)}
+          onSell={handleSellLot}
+        />
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -7,9 +7,13 @@ import Navbar from '@/components/Navbar';
 import FullSystemUpdateButton from '@/components/dashboard/FullSystemUpdateButton';
 import OnboardingTour from '@/components/ui/OnboardingTour';
 import NotificationSettings from '@/components/settings/NotificationSettings';
+import UserAccessSettings from '@/components/settings/UserAccessSettings';
+import ScheduledJobsSettings from '@/components/settings/ScheduledJobsSettings';
+import ApiUsageSettings from '@/components/settings/ApiUsageSettings';
+import SearchCacheSettings from '@/components/settings/SearchCacheSettings';
 
 export default function SettingsPage() {
-  const { user } = useAuth();
+  const { user, role } = useAuth();
   const [showOnboarding, setShowOnboarding] = useState(false);
 
   const handleStartTour = () => {
@@ -52,27 +56,75 @@ export default function SettingsPage() {
           {/* Settings Sections */}
           <div className="space-y-6">
             
-            {/* System Management */}
-            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
-              <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
-                System Management
-              </h2>
-              <p className="text-gray-600 dark:text-gray-400 mb-6">
-                Update earnings data and manage system-wide operations
-              </p>
+            {/* System Management (the update endpoints are admin-only) */}
+            {role === 'admin' && (
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+                  System Management
+                </h2>
+                <p className="text-gray-600 dark:text-gray-400 mb-6">
+                  Update earnings data and manage system-wide operations
+                </p>
               
-              <div className="flex flex-col sm:flex-row gap-4">
-                <FullSystemUpdateButton 
-                  onUpdateComplete={() => {
-                    console.log('System update completed from settings');
-                  }}
-                />
-                <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
-                  <span className="mr-2">ℹ️</span>
-                  Updates all earnings data, analyst ratings, and market information
+                <div className="flex flex-col sm:flex-row gap-4">
+                  <FullSystemUpdateButton 
+                    onUpdateComplete={() => {
+                      console.log('System update completed from settings');
+                    }}
+                  />
+                  <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+                    <span className="mr-2">ℹ️</span>
+                    Updates all earnings data, analyst ratings, and market information
+                  </div>
                 </div>
               </div>
-            </div>
+            )}
+
+            {/* Scheduled Jobs */}
+            {role === 'admin' && (
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+                  Scheduled Jobs
+                </h2>
+                <p className="text-gray-600 dark:text-gray-400 mb-6">
+                  Recurring updates, evaluations and summary emails
+                </p>
+
+                <ScheduledJobsSettings />
+              </div>
+            )}
+
+            {/* API Usage */}
+            {role === 'admin' && (
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+                  API Usage
+                </h2>
+                <p className="text-gray-600 dark:text-gray-400 mb-6">
+                  Calls and estimated cost per provider per day against the daily budgets
+                </p>
+
+                <ApiUsageSettings />
+
+                <div className="mt-8 pt-6 border-t border-gray-200 dark:border-gray-700">
+                  <SearchCacheSettings />
+                </div>
+              </div>
+            )}
+
+            {/* User Access */}
+            {role === 'admin' && (
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+                  User Access
+                </h2>
+                <p className="text-gray-600 dark:text-gray-400 mb-6">
+                  Invite people by email, change their role or revoke access
+                </p>
+
+                <UserAccessSettings />
+              </div>
+            )}
 
             {/* Notifications */}
             <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
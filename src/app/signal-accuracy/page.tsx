@@ -0,0 +1,198 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/components/AuthProvider';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import Navbar from '@/components/Navbar';
+import { getSentimentCalibration } from '@/lib/firestore';
+import { format } from 'date-fns';
+import type { SentimentCalibrationStats } from '@/types';
+
+const HORIZON_LABELS: Record<string, string> = {
+  '1': '1 day',
+  '5': '5 days',
+  '20': '20 days',
+};
+
+export default function SignalAccuracyPage() {
+  const { user } = useAuth();
+  const [stats, setStats] = useState<SentimentCalibrationStats | null>(null);
+  const [horizon, setHorizon] = useState('5');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadStats = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+      setStats(await getSentimentCalibration());
+    } catch (err: any) {
+      console.error('Error loading calibration stats:', err);
+      setError('Failed to load signal accuracy. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) {
+      loadStats();
+    }
+  }, [user, loadStats]);
+
+  const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+  const getHitRateColor = (hitRate: number, avgConfidence: number) => {
+    // Well calibrated buckets land within 10 points of their average confidence
+    if (Math.abs(hitRate - avgConfidence) <= 0.1) return 'bg-green-500';
+    return hitRate < avgConfidence ? 'bg-red-500' : 'bg-yellow-500';
+  };
+
+  const current = stats?.horizons[horizon];
+
+  if (loading) {
+    return (
+      <ProtectedRoute>
+        <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+          <Navbar />
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-gray-900 dark:border-white"></div>
+          </div>
+        </div>
+      </ProtectedRoute>
+    );
+  }
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+        <Navbar />
+
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+              Signal Accuracy
+            </h1>
+            <p className="mt-2 text-gray-600 dark:text-gray-400">
+              How AI sentiment signals performed against the sector benchmark after earnings
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-6 p-4 bg-red-100 border border-red-400 text-red-700 rounded dark:bg-red-900 dark:border-red-700 dark:text-red-100">
+              {error}
+            </div>
+          )}
+
+          {!stats || !current ? (
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-8 text-center">
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+                No back-test results yet
+              </h3>
+              <p className="text-gray-500 dark:text-gray-400">
+                Signals are evaluated once their earnings have been reported and price data is available.
+              </p>
+            </div>
+          ) : (
+            <>
+              {/* Horizon Tabs */}
+              <div className="border-b border-gray-200 dark:border-gray-700 mb-6 flex items-center justify-between">
+                <nav className="flex space-x-8" aria-label="Tabs">
+                  {Object.keys(stats.horizons).map((key) => (
+                    <button
+                      key={key}
+                      onClick={() => setHorizon(key)}
+                      className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                        horizon === key
+                          ? 'border-indigo-500 text-indigo-600 dark:text-indigo-400'
+                          : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-gray-400 dark:hover:text-gray-300'
+                      }`}
+                    >
+                      {HORIZON_LABELS[key] || `${key} days`}
+                    </button>
+                  ))}
+                </nav>
+                <span className="text-sm text-gray-500 dark:text-gray-400">
+                  Updated {format(new Date(stats.updatedAt), 'MMM dd, yyyy HH:mm')}
+                </span>
+              </div>
+
+              {/* Summary */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+                <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+                  <div className="text-sm text-gray-500 dark:text-gray-400">Signals evaluated</div>
+                  <div className="text-2xl font-bold text-gray-900 dark:text-white">{current.sampleSize}</div>
+                </div>
+                <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+                  <div className="text-sm text-gray-500 dark:text-gray-400">Hit rate</div>
+                  <div className="text-2xl font-bold text-gray-900 dark:text-white">{formatPercent(current.hitRate)}</div>
+                </div>
+                <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+                  <div className="text-sm text-gray-500 dark:text-gray-400">Brier score</div>
+                  <div className="text-2xl font-bold text-gray-900 dark:text-white">{current.brierScore.toFixed(3)}</div>
+                  <div className="text-xs text-gray-400 dark:text-gray-500">Lower is better, 0.25 is a coin flip</div>
+                </div>
+                <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+                  <div className="text-sm text-gray-500 dark:text-gray-400">Avg. excess return</div>
+                  <div className={`text-2xl font-bold ${current.avgExcessReturn >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                    {current.avgExcessReturn >= 0 ? '+' : ''}{(current.avgExcessReturn * 100).toFixed(1)}%
+                  </div>
+                </div>
+              </div>
+
+              {/* Calibration by confidence */}
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-8">
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+                  Hit Rate by Confidence
+                </h2>
+                <div className="space-y-3">
+                  {current.buckets.map(bucket => (
+                    <div key={bucket.label} className="flex items-center space-x-4 text-sm">
+                      <span className="w-20 text-gray-600 dark:text-gray-400">{bucket.label}</span>
+                      <div className="flex-1 h-4 bg-gray-100 dark:bg-gray-700 rounded relative">
+                        {bucket.count > 0 && (
+                          <div
+                            className={`h-4 rounded ${getHitRateColor(bucket.hitRate, bucket.avgConfidence)}`}
+                            style={{ width: `${bucket.hitRate * 100}%` }}
+                          />
+                        )}
+                      </div>
+                      <span className="w-40 text-right text-gray-700 dark:text-gray-300">
+                        {bucket.count > 0
+                          ? `${formatPercent(bucket.hitRate)} hit (${bucket.hits}/${bucket.count})`
+                          : 'No signals'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+                  A calibrated model&apos;s hit rate matches its stated confidence. Green buckets are within 10 points, red ones are overconfident.
+                </p>
+              </div>
+
+              {/* By sentiment */}
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+                  Hit Rate by Sentiment
+                </h2>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {(['positive', 'neutral', 'negative'] as const).map(sentiment => (
+                    <div key={sentiment} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+                      <div className="text-sm font-medium text-gray-900 dark:text-white capitalize">{sentiment}</div>
+                      <div className="text-2xl font-bold text-gray-900 dark:text-white">
+                        {current.bySentiment[sentiment].count > 0 ? formatPercent(current.bySentiment[sentiment].hitRate) : '—'}
+                      </div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {current.bySentiment[sentiment].count} signals
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
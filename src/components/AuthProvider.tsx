@@ -3,14 +3,19 @@
 import { createContext, useContext, useEffect, useState } from 'react';
 import { User } from 'firebase/auth';
 import { onAuthStateChange } from '@/lib/auth';
+import { getUserById } from '@/lib/firestore';
+import type { UserRole } from '@/types';
 
 interface AuthContextType {
   user: User | null;
+  // Only used to hide admin controls; the API enforces roles itself
+  role: UserRole;
   loading: boolean;
 }
 
 const AuthContext = createContext<AuthContextType>({
   user: null,
+  role: 'user',
   loading: true,
 });
 
@@ -24,11 +29,23 @@ export const useAuth = () => {
 
 export default function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
+  const [role, setRole] = useState<UserRole>('user');
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    const unsubscribe = onAuthStateChange((user) => {
+    const unsubscribe = onAuthStateChange(async (user) => {
       setUser(user);
+      if (user) {
+        try {
+          const appUser = await getUserById(user.uid);
+          setRole(appUser?.role === 'admin' ? 'admin' : 'user');
+        } catch (error) {
+          console.error('Error loading user role:', error);
+          setRole('user');
+        }
+      } else {
+        setRole('user');
+      }
       setLoading(false);
     });
 
@@ -36,7 +53,7 @@ export default function AuthProvider({ children }: { children: React.ReactNode }
   }, []);
 
   return (
-    <AuthContext.Provider value={{ user, loading }}>
+    <AuthContext.Provider value={{ user, role, loading }}>
       {children}
     </AuthContext.Provider>
   );
@@ -52,6 +52,18 @@ export default function Navbar() {
               >
                 History
               </Link>
+              <Link
+                href="/signal-accuracy"
+                className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300 px-3 py-2 text-sm font-medium"
+              >
+                Signal Accuracy
+              </Link>
+              <Link
+                href="/portfolio"
+                className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300 px-3 py-2 text-sm font-medium"
+              >
+                Portfolio
+              </Link>
               <Link
                 href="/alerts"
                 className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300 px-3 py-2 text-sm font-medium"
@@ -33,6 +33,14 @@ export default function AlertRuleCard({ rule, onUpdate, onDelete }: AlertRuleCar
         return 'AI sentiment analysis available';
       case 'high_confidence':
         return `High confidence signal (>${condition.parameters?.threshold || 80}%)`;
+      case 'price_above':
+        return `${condition.parameters?.ticker} price above $${condition.parameters?.price}`;
+      case 'price_below':
+        return `${condition.parameters?.ticker} price below $${condition.parameters?.price}`;
+      case 'percent_change_day':
+        return `${condition.parameters?.ticker || 'Watchlist'} moves ${condition.parameters?.percent}% in a day${condition.parameters?.direction && condition.parameters.direction !== 'any' ? ` (${condition.parameters.direction})` : ''}`;
+      case 'gap_at_open':
+        return `${condition.parameters?.ticker || 'Watchlist'} gaps ${condition.parameters?.percent}% at open${condition.parameters?.direction && condition.parameters.direction !== 'any' ? ` (${condition.parameters.direction})` : ''}`;
       default:
         return condition.type;
     }
@@ -140,6 +148,11 @@ export default function AlertRuleCard({ rule, onUpdate, onDelete }: AlertRuleCar
               {getConditionDescription(condition)}
             </div>
           ))}
+          {rule.cooldownMinutes !== undefined && (
+            <div className="text-xs text-gray-500 dark:text-gray-400 ml-4">
+              Cooldown: {rule.cooldownMinutes} min
+            </div>
+          )}
         </div>
       </div>
 
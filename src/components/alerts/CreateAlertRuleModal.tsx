@@ -3,6 +3,16 @@
 import { useState } from 'react';
 import { AlertRule, AlertCondition, AlertAction } from '@/types';
 
+const PRICE_CONDITION_TYPES = ['price_above', 'price_below', 'percent_change_day', 'gap_at_open'];
+
+const DEFAULT_PARAMETERS: Record<string, Record<string, any>> = {
+  high_confidence: { threshold: 0.8 },
+  price_above: { ticker: '', price: 0 },
+  price_below: { ticker: '', price: 0 },
+  percent_change_day: { percent: 3, direction: 'any' },
+  gap_at_open: { percent: 2, direction: 'any' },
+};
+
 interface CreateAlertRuleModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -20,11 +30,18 @@ export default function CreateAlertRuleModal({
   const [conditions, setConditions] = useState<AlertCondition[]>([]);
   const [actions, setActions] = useState<AlertAction[]>([]);
   const [isActive, setIsActive] = useState(true);
+  const [cooldownMinutes, setCooldownMinutes] = useState(60);
+
+  const hasPriceConditions = conditions.some(c => PRICE_CONDITION_TYPES.includes(c.type));
+  const hasInvalidLevel = conditions.some(c =>
+    (c.type === 'price_above' || c.type === 'price_below') &&
+    (!c.parameters.ticker || !(c.parameters.price > 0))
+  );
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!name.trim() || conditions.length === 0 || actions.length === 0) {
+    if (!name.trim() || conditions.length === 0 || actions.length === 0 || hasInvalidLevel) {
       return;
     }
 
@@ -34,6 +51,7 @@ export default function CreateAlertRuleModal({
       conditions,
       actions,
       isActive,
+      ...(hasPriceConditions && { cooldownMinutes }),
     });
 
     // Reset form
@@ -41,13 +59,14 @@ export default function CreateAlertRuleModal({
     setConditions([]);
     setActions([]);
     setIsActive(true);
+    setCooldownMinutes(60);
     onClose();
   };
 
   const addCondition = (type: string) => {
     const newCondition: AlertCondition = {
       type: type as any,
-      parameters: type === 'high_confidence' ? { threshold: 0.8 } : {},
+      parameters: { ...(DEFAULT_PARAMETERS[type] || {}) },
     };
     setConditions([...conditions, newCondition]);
   };
@@ -69,11 +88,72 @@ export default function CreateAlertRuleModal({
   };
 
   const updateConditionThreshold = (index: number, threshold: number) => {
+    updateConditionParameter(index, 'threshold', threshold);
+  };
+
+  const updateConditionParameter = (index: number, key: string, value: any) => {
     const updatedConditions = [...conditions];
-    updatedConditions[index].parameters = { threshold };
+    updatedConditions[index] = {
+      ...updatedConditions[index],
+      parameters: { ...updatedConditions[index].parameters, [key]: value },
+    };
     setConditions(updatedConditions);
   };
 
+  const renderPriceInputs = (condition: AlertCondition, index: number) => {
+    const inputClass = 'px-1 py-0 text-xs border border-gray-300 rounded dark:bg-gray-600 dark:border-gray-500 dark:text-white';
+    const isLevel = condition.type === 'price_above' || condition.type === 'price_below';
+
+    return (
+      <div className="flex flex-wrap items-center gap-1">
+        <span>
+          {condition.type === 'price_above' && 'Price above $'}
+          {condition.type === 'price_below' && 'Price below $'}
+          {condition.type === 'percent_change_day' && 'Daily move ≥'}
+          {condition.type === 'gap_at_open' && 'Gap at open ≥'}
+        </span>
+        {isLevel ? (
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={condition.parameters?.price || ''}
+            onChange={(e) => updateConditionParameter(index, 'price', parseFloat(e.target.value) || 0)}
+            className={`w-20 ${inputClass}`}
+          />
+        ) : (
+          <>
+            <input
+              type="number"
+              min="0"
+              step="0.5"
+              value={condition.parameters?.percent ?? ''}
+              onChange={(e) => updateConditionParameter(index, 'percent', parseFloat(e.target.value) || 0)}
+              className={`w-14 ${inputClass}`}
+            />
+            <span>%</span>
+            <select
+              value={condition.parameters?.direction || 'any'}
+              onChange={(e) => updateConditionParameter(index, 'direction', e.target.value)}
+              className={inputClass}
+            >
+              <option value="any">either way</option>
+              <option value="up">up</option>
+              <option value="down">down</option>
+            </select>
+          </>
+        )}
+        <input
+          type="text"
+          placeholder={isLevel ? 'Ticker' : 'All watchlist'}
+          value={condition.parameters?.ticker || ''}
+          onChange={(e) => updateConditionParameter(index, 'ticker', e.target.value.toUpperCase().trim())}
+          className={`w-24 ${inputClass}`}
+        />
+      </div>
+    );
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -136,6 +216,7 @@ export default function CreateAlertRuleModal({
                             />
                           </div>
                         )}
+                        {PRICE_CONDITION_TYPES.includes(condition.type) && renderPriceInputs(condition, index)}
                       </span>
                     </div>
                     <button
@@ -171,8 +252,58 @@ export default function CreateAlertRuleModal({
                   High Confidence
                 </button>
               </div>
+              <div className="flex flex-wrap gap-2 mt-2">
+                <button
+                  type="button"
+                  onClick={() => addCondition('price_above')}
+                  className="px-3 py-1 text-xs bg-purple-100 text-purple-800 rounded hover:bg-purple-200 dark:bg-purple-900 dark:text-purple-200"
+                >
+                  Price Above
+                </button>
+                <button
+                  type="button"
+                  onClick={() => addCondition('price_below')}
+                  className="px-3 py-1 text-xs bg-purple-100 text-purple-800 rounded hover:bg-purple-200 dark:bg-purple-900 dark:text-purple-200"
+                >
+                  Price Below
+                </button>
+                <button
+                  type="button"
+                  onClick={() => addCondition('percent_change_day')}
+                  className="px-3 py-1 text-xs bg-purple-100 text-purple-800 rounded hover:bg-purple-200 dark:bg-purple-900 dark:text-purple-200"
+                >
+                  Daily % Move
+                </button>
+                <button
+                  type="button"
+                  onClick={() => addCondition('gap_at_open')}
+                  className="px-3 py-1 text-xs bg-purple-100 text-purple-800 rounded hover:bg-purple-200 dark:bg-purple-900 dark:text-purple-200"
+                >
+                  Gap at Open
+                </button>
+              </div>
             </div>
 
+            {/* Cooldown */}
+            {hasPriceConditions && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Cooldown (minutes)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="5"
+                  value={cooldownMinutes}
+                  onChange={(e) => setCooldownMinutes(parseInt(e.target.value) || 0)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Price level alerts fire once per crossing and not again within this period.
+                </p>
+              </div>
+            )}
+
             {/* Actions */}
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -239,7 +370,7 @@ export default function CreateAlertRuleModal({
               </button>
               <button
                 type="submit"
-                disabled={!name.trim() || conditions.length === 0 || actions.length === 0}
+                disabled={!name.trim() || conditions.length === 0 || actions.length === 0 || hasInvalidLevel}
                 className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 Create Rule
@@ -1,7 +1,10 @@
 'use client';
 
 import { useState } from 'react';
-import { Analyst } from '@/lib/analysts/enhancedAnalystTracker';
+import { Analyst, PriceTargetAccuracy } from '@/lib/analysts/enhancedAnalystTracker';
+import type { AnalystStats, StatsWindow } from '@/lib/analysts/analystStats';
+
+const WINDOW_LABELS: Record<StatsWindow, string> = { d30: '30 days', d90: '90 days', d365: '1 year' };
 
 interface AnalystProfileCardProps {
   analyst: Analyst;
@@ -10,6 +13,8 @@ interface AnalystProfileCardProps {
     avgAlpha: number;
     callsByAction: Record<string, number>;
     outcomesByAction: Record<string, Record<string, number>>;
+    priceTargetAccuracy?: PriceTargetAccuracy | null;
+    windows?: AnalystStats | null;
   };
 }
 
@@ -157,6 +162,96 @@ export default function AnalystProfileCard({ analyst, performance }: AnalystProf
         </div>
       </div>
 
+      {/* Price Target Accuracy */}
+      {performance.priceTargetAccuracy && (
+        <div className="mb-6">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">
+            🎯 Price Targets
+          </h3>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+            <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+              <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">Hit Rate</div>
+              <div className="text-xl font-semibold text-gray-900 dark:text-white">
+                {formatPercentage(performance.priceTargetAccuracy.hitRate)}
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                {performance.priceTargetAccuracy.evaluated} targets
+                {performance.priceTargetAccuracy.avgDaysToHit !== null && `, ~${Math.round(performance.priceTargetAccuracy.avgDaysToHit)}d to hit`}
+              </div>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+              <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">Accuracy</div>
+              <div className="text-xl font-semibold text-gray-900 dark:text-white">
+                {formatPercentage(performance.priceTargetAccuracy.accuracy)}
+              </div>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+              <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">Avg Error</div>
+              <div className="text-xl font-semibold text-gray-900 dark:text-white">
+                {formatPercentage(performance.priceTargetAccuracy.avgAbsError)}
+              </div>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+              <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">Avg Excursion</div>
+              <div className="text-sm font-medium">
+                <span className="text-green-600 dark:text-green-400">+{formatPercentage(performance.priceTargetAccuracy.avgMaxFavorableExcursion)}</span>
+                {' / '}
+                <span className="text-red-600 dark:text-red-400">-{formatPercentage(performance.priceTargetAccuracy.avgMaxAdverseExcursion)}</span>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Rolling Windows */}
+      {performance.windows && performance.windows.d365.calls > 0 && (
+        <div className="mb-6">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">
+            📅 Rolling Performance
+          </h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="py-1 font-medium">Window</th>
+                <th className="py-1 font-medium text-right">Calls</th>
+                <th className="py-1 font-medium text-right">Win Rate</th>
+                <th className="py-1 font-medium text-right">Avg Alpha</th>
+                <th className="py-1 font-medium text-right">Info Ratio</th>
+              </tr>
+            </thead>
+            <tbody className="text-gray-900 dark:text-white">
+              {(Object.keys(WINDOW_LABELS) as StatsWindow[]).map(window => {
+                const stats = performance.windows![window];
+                return (
+                  <tr key={window} className="border-t border-gray-100 dark:border-gray-700">
+                    <td className="py-1">{WINDOW_LABELS[window]}</td>
+                    <td className="py-1 text-right">{stats.calls}</td>
+                    <td className="py-1 text-right">{stats.calls > 0 ? formatPercentage(stats.win_rate) : '—'}</td>
+                    <td className={`py-1 text-right ${
+                      stats.avg_alpha > 0 ? 'text-green-600 dark:text-green-400' :
+                      stats.avg_alpha < 0 ? 'text-red-600 dark:text-red-400' : ''
+                    }`}>
+                      {stats.calls > 0 ? `${stats.avg_alpha > 0 ? '+' : ''}${formatPercentage(stats.avg_alpha)}` : '—'}
+                    </td>
+                    <td className="py-1 text-right">{stats.information_ratio !== null ? stats.information_ratio.toFixed(2) : '—'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div className="mt-3 flex flex-wrap gap-2">
+            {Object.entries(performance.windows.d365.sectors)
+              .sort(([, a], [, b]) => b.calls - a.calls)
+              .map(([sector, stats]) => (
+                <span key={sector} className="inline-flex items-center px-2 py-1 rounded text-xs bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300">
+                  {sector}: {formatPercentage(stats.win_rate)} of {stats.calls}
+                </span>
+              ))}
+          </div>
+        </div>
+      )}
+
       {/* Footer */}
       <div className="text-xs text-gray-500 dark:text-gray-400 text-center pt-4 border-t border-gray-200 dark:border-gray-700">
         Last updated: {new Date(analyst.updated_at).toLocaleString()}
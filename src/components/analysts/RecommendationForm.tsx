@@ -1,6 +1,7 @@
 'use client';
 
 import { useState } from 'react';
+import { authFetch } from '@/lib/apiClient';
 
 interface RecommendationFormProps {
   analysts: Array<{ id: string; name: string; firm: string }>;
@@ -43,7 +44,7 @@ export default function RecommendationForm({ analysts, onRecommendationAdded }:
     setMessage('');
 
     try {
-      const response = await fetch('/api/recommendations', {
+      const response = await authFetch('/api/recommendations', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -166,6 +166,13 @@ export default function RecommendationsTable({ recommendations, evaluations }: R
                   
                   <td className="py-3 px-4 text-gray-900 dark:text-white">
                     {rec.target_price ? formatPrice(rec.target_price) : '-'}
+                    {evaluation?.price_target && (
+                      <div className={`text-xs ${evaluation.price_target.hit ? 'text-green-600 dark:text-green-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                        {evaluation.price_target.hit
+                          ? `🎯 Hit in ${evaluation.price_target.days_to_hit}d`
+                          : `Missed by ${(Math.abs(evaluation.price_target.error) * 100).toFixed(2)}%`}
+                      </div>
+                    )}
                   </td>
                   
                   <td className="py-3 px-4 text-gray-900 dark:text-white">
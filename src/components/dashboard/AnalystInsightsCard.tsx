@@ -2,6 +2,8 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { cachedFetch, CACHE_KEYS, analystCache } from '@/lib/cache/browserCache';
+import { authFetch } from '@/lib/apiClient';
+import ConsensusHistoryChart from './ConsensusHistoryChart';
 
 interface AnalystInsightsCardProps {
   ticker: string;
@@ -57,7 +59,7 @@ export default function AnalystInsightsCard({ ticker, companyName }: AnalystInsi
       console.log(`❌ Cache miss for ${ticker} - fetching from API`);
       
       // If not cached, make API request
-      const response = await fetch('/api/analyst-insights/batch', {
+      const response = await authFetch('/api/analyst-insights/batch', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ tickers: [ticker], action: 'get' })
@@ -265,6 +267,14 @@ export default function AnalystInsightsCard({ ticker, companyName }: AnalystInsi
             </div>
           )}
 
+          {/* Consensus History */}
+          <div>
+            <h5 className="text-xs font-semibold text-gray-700 dark:text-gray-300 mb-2">
+              Consensus History (90 days)
+            </h5>
+            <ConsensusHistoryChart ticker={ticker} />
+          </div>
+
           {/* Financial Metrics */}
           <div>
             <h5 className="text-xs font-semibold text-gray-700 dark:text-gray-300 mb-2">
@@ -4,6 +4,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { cachedFetch, CACHE_KEYS, analystCache, invalidateCache } from '@/lib/cache/browserCache';
 import EarningsCard from './EarningsCard';
 import { EarningsEvent } from '@/types';
+import { authFetch } from '@/lib/apiClient';
 
 interface CachedEarningsGridProps {
   onAddToWatchlist?: (ticker: string) => void;
@@ -51,7 +52,7 @@ export default function CachedEarningsGrid({
 
       // Fetch fresh data from API
       console.log('Fetching fresh earnings data');
-      const response = await fetch('/api/earnings/tech-sector', {
+      const response = await authFetch('/api/earnings/tech-sector', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ action: 'get-earnings' })
@@ -0,0 +1,207 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { cachedFetch, CACHE_KEYS } from '@/lib/cache/browserCache';
+import type { ConsensusAction, ConsensusSnapshot, EarningsConsensusShift, RatingChangeEvent } from '@/types';
+
+interface ConsensusHistoryChartProps {
+  ticker: string;
+  days?: number;
+  className?: string;
+}
+
+const ACTION_COLORS: Record<ConsensusAction, string> = {
+  BUY: '#10B981',
+  HOLD: '#9CA3AF',
+  SELL: '#EF4444',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upgrades and downgrades this close before a report count toward its run-up
+const RUN_UP_DAYS = 28;
+
+const formatDay = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const parseSnapshotDay = (snapshot: ConsensusSnapshot) => new Date(`${snapshot.date}T12:00:00Z`).getTime();
+
+export default function ConsensusHistoryChart({ ticker, days = 90, className = '' }: ConsensusHistoryChartProps) {
+  const [snapshots, setSnapshots] = useState<ConsensusSnapshot[]>([]);
+  const [ratingChanges, setRatingChanges] = useState<RatingChangeEvent[]>([]);
+  const [earnings, setEarnings] = useState<EarningsConsensusShift[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        setLoading(true);
+
+        const data = await cachedFetch<any>(`/api/consensus/${encodeURIComponent(ticker)}?days=${days}`, {
+          cacheKey: CACHE_KEYS.CONSENSUS_HISTORY(ticker, days),
+          ttl: 5 * 60 * 1000
+        });
+
+        if (!data.success) {
+          throw new Error(data.error || 'Failed to load consensus history');
+        }
+
+        setSnapshots(data.snapshots);
+        setRatingChanges(data.ratingChanges.map((change: any) => ({ ...change, date: new Date(change.date) })));
+        setEarnings(data.earnings.map((report: any) => ({ ...report, date: new Date(report.date) })));
+        setError(false);
+      } catch (err) {
+        console.error('Error loading consensus history:', err);
+        setError(true);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [ticker, days]);
+
+  if (loading) {
+    return (
+      <div className={`h-16 bg-gray-200 dark:bg-gray-600 rounded animate-pulse ${className}`}></div>
+    );
+  }
+
+  if (error || (snapshots.length === 0 && ratingChanges.length === 0)) {
+    return (
+      <div className={`text-xs text-gray-500 dark:text-gray-400 ${className}`}>
+        {error ? 'Consensus history unavailable' : 'No consensus history yet'}
+      </div>
+    );
+  }
+
+  // Time axis runs from the start of the window to today, or to the next report if it is later
+  const now = Date.now();
+  const start = now - days * DAY_MS;
+  const end = Math.max(now, ...earnings.map(report => report.date.getTime()));
+
+  const width = 200;
+  const height = 60;
+  const padding = 4;
+  const markerBand = 8; // room above the bars for upgrade/downgrade markers
+
+  const xAt = (timestamp: number) => padding + ((timestamp - start) / (end - start || 1)) * (width - 2 * padding);
+  const barWidth = Math.max(1, (width - 2 * padding) / ((end - start) / DAY_MS) - 0.5);
+  const barTop = markerBand;
+  const barHeight = height - padding - barTop;
+
+  const runUp = (report: EarningsConsensusShift) => ratingChanges.filter(change =>
+    change.date.getTime() < report.date.getTime() &&
+    change.date.getTime() >= report.date.getTime() - RUN_UP_DAYS * DAY_MS
+  );
+
+  return (
+    <div className={className}>
+      <svg
+        width={width}
+        height={height}
+        className="w-full h-16"
+        viewBox={`0 0 ${width} ${height}`}
+        preserveAspectRatio="none"
+      >
+        {/* Weighted BUY/HOLD/SELL share per day, BUY at the bottom */}
+        {snapshots.map(snapshot => {
+          const total = snapshot.weights.BUY + snapshot.weights.HOLD + snapshot.weights.SELL || 1;
+          let y = barTop + barHeight;
+          return (
+            <g key={snapshot.date}>
+              <title>
+                {`${snapshot.date}: ${snapshot.consensus} (${Math.round(snapshot.confidence * 100)}%), ${snapshot.participants} analysts`}
+              </title>
+              {(['BUY', 'HOLD', 'SELL'] as ConsensusAction[]).map(action => {
+                const segment = (snapshot.weights[action] / total) * barHeight;
+                y -= segment;
+                return segment > 0 ? (
+                  <rect
+                    key={action}
+                    x={xAt(parseSnapshotDay(snapshot)) - barWidth / 2}
+                    y={y}
+                    width={barWidth}
+                    height={segment}
+                    fill={ACTION_COLORS[action]}
+                    fillOpacity="0.8"
+                  />
+                ) : null;
+              })}
+            </g>
+          );
+        })}
+
+        {/* Earnings dates */}
+        {earnings.map(report => (
+          <line
+            key={report.date.toISOString()}
+            x1={xAt(report.date.getTime())}
+            x2={xAt(report.date.getTime())}
+            y1={0}
+            y2={height}
+            stroke="#6366F1"
+            strokeWidth="1"
+            strokeDasharray="2,2"
+          >
+            <title>{`${report.label || 'Earnings'} ${formatDay(report.date)}`}</title>
+          </line>
+        ))}
+
+        {/* Upgrades point up, downgrades point down */}
+        {ratingChanges.map((change, i) => {
+          const x = xAt(change.date.getTime());
+          const points = change.direction === 'upgrade'
+            ? `${x - 2.5},${markerBand - 1} ${x + 2.5},${markerBand - 1} ${x},1`
+            : `${x - 2.5},1 ${x + 2.5},1 ${x},${markerBand - 1}`;
+          return (
+            <polygon key={`change-${i}`} points={points} fill={change.direction === 'upgrade' ? ACTION_COLORS.BUY : ACTION_COLORS.SELL}>
+              <title>
+                {`${formatDay(change.date)}: ${change.analystName || 'Analyst'} ${change.direction}d ${change.from} → ${change.to}`}
+              </title>
+            </polygon>
+          );
+        })}
+      </svg>
+
+      <div className="flex justify-between text-xs text-gray-400 dark:text-gray-600 mt-1">
+        <span>{formatDay(new Date(start))}</span>
+        <span className="flex items-center space-x-2">
+          <span style={{ color: ACTION_COLORS.BUY }}>■ buy</span>
+          <span style={{ color: ACTION_COLORS.HOLD }}>■ hold</span>
+          <span style={{ color: ACTION_COLORS.SELL }}>■ sell</span>
+          {earnings.length > 0 && <span className="text-indigo-500">┊ earnings</span>}
+        </span>
+        <span>{formatDay(new Date(end))}</span>
+      </div>
+
+      {/* Consensus going into each report */}
+      {earnings.length > 0 && (
+        <ul className="mt-2 space-y-1 text-xs text-gray-600 dark:text-gray-400">
+          {earnings.map(report => {
+            const changes = runUp(report);
+            const upgrades = changes.filter(change => change.direction === 'upgrade').length;
+            const downgrades = changes.length - upgrades;
+            return (
+              <li key={report.date.toISOString()} className="flex justify-between">
+                <span>{report.label || 'Earnings'} ({formatDay(report.date)})</span>
+                <span className="font-medium text-gray-900 dark:text-white">
+                  {report.before && report.latest
+                    ? report.before.consensus === report.latest.consensus
+                      ? `${report.latest.consensus} held`
+                      : `${report.before.consensus} → ${report.latest.consensus}`
+                    : report.latest?.consensus || '—'}
+                  {changes.length > 0 && (
+                    <span className="ml-1 font-normal">
+                      ({upgrades > 0 && `▲${upgrades}`}{upgrades > 0 && downgrades > 0 && ' '}{downgrades > 0 && `▼${downgrades}`})
+                    </span>
+                  )}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState } from 'react';
+import { authFetch } from '@/lib/apiClient';
 
 interface EarningsCalendarUpdateButtonProps {
   onUpdateComplete?: () => void;
@@ -18,7 +19,7 @@ export default function EarningsCalendarUpdateButton({
     setMessage('');
 
     try {
-      const response = await fetch('/api/earnings/calendar', {
+      const response = await authFetch('/api/earnings/calendar', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -60,7 +61,7 @@ export default function EarningsCalendarUpdateButton({
 
   const handlePreview = async () => {
     try {
-      const response = await fetch('/api/earnings/calendar?action=preview');
+      const response = await authFetch('/api/earnings/calendar?action=preview');
       
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
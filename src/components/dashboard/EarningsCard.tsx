@@ -6,7 +6,10 @@ import { format } from 'date-fns';
 import AnalystInsightsCard from './AnalystInsightsCard';
 import StockAnalysisButton from './StockAnalysisButton';
 import StockPriceChart from './StockPriceChart';
+import NewsHeadlines from './NewsHeadlines';
 import { analystCache, CACHE_KEYS } from '@/lib/cache/browserCache';
+import { getExchangeForMarket, getTradingSession } from '@/lib/utils/tradingCalendar';
+import { authFetch } from '@/lib/apiClient';
 
 interface EarningsCardProps {
   event: EarningsEvent;
@@ -22,6 +25,7 @@ export default function EarningsCard({
   onRemoveFromWatchlist,
 }: EarningsCardProps) {
   const [showAnalystInsights, setShowAnalystInsights] = useState(false);
+  const [showNews, setShowNews] = useState(false);
   const [analystRating, setAnalystRating] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [mounted, setMounted] = useState(false);
@@ -49,7 +53,7 @@ export default function EarningsCard({
       console.log(`❌ Cache miss for rating ${event.ticker} - fetching from API`);
       
       // If not cached, make API request
-      const response = await fetch(`/api/analyst-insights/batch`, {
+      const response = await authFetch(`/api/analyst-insights/batch`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ tickers: [event.ticker], action: 'get' }),
@@ -118,19 +122,40 @@ export default function EarningsCard({
     }
   };
 
+  const exchange = getExchangeForMarket(event.market);
+
   const formatTime = (time: string) => {
+    // TA-125 reports are timed against the Tel Aviv session
+    const suffix = exchange === 'TASE' ? ' (TASE)' : '';
     switch (time) {
       case 'before_market':
-        return 'Before Market';
+        return `Before Market${suffix}`;
       case 'after_market':
-        return 'After Market';
+        return `After Market${suffix}`;
       case 'during_market':
-        return 'During Market';
+        return `During Market${suffix}`;
       default:
         return time;
     }
   };
 
+  const session = getTradingSession(exchange, format(new Date(event.expectedDate), 'yyyy-MM-dd'));
+  const sessionLabel = session
+    ? `${exchange} session ${session.open}–${session.close} local time${session.earlyClose ? ' (early close)' : ''}`
+    : `${exchange} closed on this day`;
+
+  // Where the date came from and how it has moved, shown as the badge tooltip
+  const dateChanges = event.dateChanges || [];
+  const lastDateChange = dateChanges[dateChanges.length - 1];
+  const dateProvenance = [
+    ...(event.dateCandidates || []).map(candidate =>
+      `${candidate.source}: ${format(new Date(candidate.date), 'MMM dd')}${candidate.confirmed ? ' (confirmed)' : ''}, ${Math.round(candidate.confidence * 100)}%`
+    ),
+    ...dateChanges.map(change =>
+      `Moved ${format(new Date(change.from), 'MMM dd')} → ${format(new Date(change.to), 'MMM dd')} on ${format(new Date(change.changedAt), 'MMM dd')} (${change.source})`
+    ),
+  ].join('\n');
+
   const handleWatchlistToggle = () => {
     if (isWatchlisted) {
       onRemoveFromWatchlist?.(event.ticker);
@@ -140,7 +165,7 @@ export default function EarningsCard({
   };
 
   return (
-    <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 sm:p-6 hover:shadow-lg transition-shadow min-w-0 flex flex-col ${showAnalystInsights ? 'h-auto' : 'h-auto min-h-[380px] sm:h-[420px]'}`}>
+    <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 sm:p-6 hover:shadow-lg transition-shadow min-w-0 flex flex-col ${showAnalystInsights || showNews ? 'h-auto' : 'h-auto min-h-[380px] sm:h-[420px]'}`}>
       {/* Header Section */}
       <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start gap-3 mb-4">
         <div className="flex-1 min-w-0 overflow-hidden">
@@ -196,10 +221,32 @@ export default function EarningsCard({
           <p className="text-sm font-medium text-gray-900 dark:text-white">
             {mounted ? format(new Date(event.expectedDate), 'MMM dd, yyyy') : 'Loading...'}
           </p>
+          {mounted && (event.dateConfirmed || event.confidence !== undefined || lastDateChange) && (
+            <div className="flex flex-wrap gap-1 mt-1" title={dateProvenance || undefined}>
+              {event.dateConfirmed ? (
+                <span className="inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
+                  ✓ Confirmed
+                </span>
+              ) : event.confidence !== undefined && (
+                <span className={`inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium ${
+                  event.confidence >= 0.6
+                    ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200'
+                    : 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
+                }`}>
+                  Est. {Math.round(event.confidence * 100)}%
+                </span>
+              )}
+              {lastDateChange && (
+                <span className="inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200">
+                  Moved from {format(new Date(lastDateChange.from), 'MMM dd')}
+                </span>
+              )}
+            </div>
+          )}
         </div>
         <div className="min-w-0 overflow-hidden">
           <p className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-1">Time</p>
-          <p className="text-sm font-medium text-gray-900 dark:text-white">
+          <p className="text-sm font-medium text-gray-900 dark:text-white" title={sessionLabel}>
             {formatTime(event.expectedTime)}
           </p>
         </div>
@@ -219,7 +266,7 @@ export default function EarningsCard({
 
       {/* Stock Price Chart Section */}
       <div className="border-t border-gray-200 dark:border-gray-700 pt-4 mt-4 flex-shrink-0">
-        <StockPriceChart ticker={event.ticker} />
+        <StockPriceChart ticker={event.ticker} market={event.market} />
       </div>
 
       {event.analystEstimate && (
@@ -247,8 +294,27 @@ export default function EarningsCard({
         </div>
       )}
 
+      {/* Latest News - loaded when opened */}
+      <div className="border-t border-gray-200 dark:border-gray-700 pt-3 mt-auto">
+        <button
+          onClick={() => setShowNews(!showNews)}
+          className="w-full flex items-center justify-between px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700/50 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <span className="flex items-center">
+            <span className="mr-2">📰</span>
+            Latest News
+          </span>
+          <span className={`transform transition-transform duration-200 ${showNews ? 'rotate-180' : ''}`}>▾</span>
+        </button>
+        {showNews && (
+          <div className="px-3 pt-2 pb-1">
+            <NewsHeadlines ticker={event.ticker} />
+          </div>
+        )}
+      </div>
+
       {/* Analyst Insights Toggle - Always at bottom */}
-      <div className="border-t border-gray-200 dark:border-gray-700 pt-3 mt-auto" data-tour="insights">
+      <div className="border-t border-gray-200 dark:border-gray-700 pt-3 mt-3" data-tour="insights">
         <button
           onClick={() => setShowAnalystInsights(!showAnalystInsights)}
           className="w-full flex items-center justify-between p-3 sm:p-4 text-sm sm:text-base font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors min-h-[52px] touch-manipulation focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
@@ -5,6 +5,7 @@ import { EarningsEvent, SentimentSignal, WatchlistCompany } from '@/types';
 import EarningsCard from './EarningsCard';
 import { FilterOptions } from './EarningsFilter';
 import { analystCache } from '@/lib/cache/browserCache';
+import { authFetch } from '@/lib/apiClient';
 
 interface EarningsGridProps {
   events: EarningsEvent[];
@@ -53,7 +54,7 @@ export default function EarningsGrid({
           const batchTickers = tickers.slice(i, i + batchSize);
           
           try {
-            const batchResponse = await fetch('/api/analyst-insights/batch', {
+            const batchResponse = await authFetch('/api/analyst-insights/batch', {
               method: 'POST',
               headers: { 'Content-Type': 'application/json' },
               body: JSON.stringify({ tickers: batchTickers, action: 'get' }),
@@ -5,6 +5,7 @@ import { EarningsEvent } from '@/types';
 import { format } from 'date-fns';
 import StockAnalysisButton from './StockAnalysisButton';
 import { analystCache, CACHE_KEYS } from '@/lib/cache/browserCache';
+import { authFetch } from '@/lib/apiClient';
 
 interface EarningsListViewProps {
   events: EarningsEvent[];
@@ -68,7 +69,7 @@ export default function EarningsListView({
           }
           
           // If not cached, make API request
-          const response = await fetch(`/api/analyst-insights/batch`, {
+          const response = await authFetch(`/api/analyst-insights/batch`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ tickers: [event.ticker], action: 'get' }),
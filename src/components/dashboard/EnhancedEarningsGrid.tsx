@@ -7,6 +7,7 @@ import EarningsCard from './EarningsCard';
 import EarningsListView from './EarningsListView';
 import EarningsGridControls, { SortOption, ViewMode } from './EarningsGridControls';
 import { analystCache } from '@/lib/cache/browserCache';
+import { authFetch } from '@/lib/apiClient';
 
 interface EnhancedEarningsGridProps {
   events: EarningsEvent[];
@@ -59,7 +60,7 @@ export default function EnhancedEarningsGrid({
           const batchTickers = tickers.slice(i, i + batchSize);
           
           try {
-            const batchResponse = await fetch('/api/analyst-insights/batch', {
+            const batchResponse = await authFetch('/api/analyst-insights/batch', {
               method: 'POST',
               headers: { 'Content-Type': 'application/json' },
               body: JSON.stringify({ tickers: batchTickers, action: 'get' }),
@@ -1,6 +1,28 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import { authFetch } from '@/lib/apiClient';
+import { createAgentClient } from '@/lib/clients/agentClient';
+import type { AgentUpdateRunProgress } from '@/types';
+
+// Tickers refreshed (news + financials) after the tech sector update
+const AGENT_UPDATE_TICKERS = 25;
+
+function describeProgress(progress: AgentUpdateRunProgress): string {
+  const finished = progress.counts.done + progress.counts.failed;
+  const details = [
+    progress.counts.failed > 0 ? `${progress.counts.failed} failed` : '',
+    progress.retrying > 0 ? `${progress.retrying} retrying` : ''
+  ].filter(Boolean).join(', ');
+
+  return `Updating news and financials: ${finished}/${progress.jobs.length} tickers${details ? ` (${details})` : ''}...`;
+}
+
+function describeFinishedRun(finished: AgentUpdateRunProgress): string {
+  const failed = finished.jobs.filter(job => job.status === 'failed').map(job => job.ticker);
+  return `Updated news and financials for ${finished.run.successCount}/${finished.jobs.length} tickers` +
+    (failed.length > 0 ? ` (failed: ${failed.join(', ')})` : '');
+}
 
 interface FullSystemUpdateButtonProps {
   onUpdateComplete?: () => void;
@@ -13,6 +35,55 @@ export default function FullSystemUpdateButton({
   const [currentStep, setCurrentStep] = useState('');
   const [message, setMessage] = useState('');
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+  const [progress, setProgress] = useState<AgentUpdateRunProgress | null>(null);
+
+  const followAgentRun = async (runId: string): Promise<AgentUpdateRunProgress> => {
+    const finished = await createAgentClient().followRun(runId, current => {
+      setProgress(current);
+      setCurrentStep(describeProgress(current));
+    });
+    setProgress(null);
+    return finished;
+  };
+
+  // Resume following a run that was still going when the page was left
+  useEffect(() => {
+    let cancelled = false;
+
+    const resumeActiveRun = async () => {
+      try {
+        const client = createAgentClient();
+        const active = await client.getActiveRun();
+        if (!active || cancelled) return;
+
+        setIsUpdating(true);
+        setProgress(active);
+        setCurrentStep(describeProgress(active));
+        const finished = await client.followRun(active.run.id, current => {
+          if (cancelled) return;
+          setProgress(current);
+          setCurrentStep(describeProgress(current));
+        });
+        if (cancelled) return;
+
+        setProgress(null);
+        setMessage(`✅ ${describeFinishedRun(finished)}.`);
+        setLastUpdate(new Date());
+      } catch (error) {
+        console.error('Error resuming agent update run:', error);
+      } finally {
+        if (!cancelled) {
+          setIsUpdating(false);
+          setCurrentStep('');
+        }
+      }
+    };
+
+    resumeActiveRun();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
   const handleFullSystemUpdate = async () => {
     setIsUpdating(true);
@@ -26,7 +97,7 @@ export default function FullSystemUpdateButton({
       const timeoutId = setTimeout(() => controller.abort(), 600000); // 10 minutes
       
       try {
-        const techSectorResponse = await fetch('/api/earnings/tech-sector', {
+        const techSectorResponse = await authFetch('/api/earnings/tech-sector', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -46,7 +117,15 @@ export default function FullSystemUpdateButton({
         const techSectorData = await techSectorResponse.json();
         console.log('Tech sector update completed:', techSectorData);
 
-        setMessage(`✅ Tech sector update completed! Found ${techSectorData.result.summary.totalTechCompanies} tech companies, ${techSectorData.result.summary.companiesWithUpcomingEarnings} with upcoming earnings in next 60 days.`);
+        const techSummary = `Found ${techSectorData.result.summary.totalTechCompanies} tech companies, ${techSectorData.result.summary.companiesWithUpcomingEarnings} with upcoming earnings in next 60 days.`;
+
+        // News and financials run as a queued job; follow it instead of holding one long request
+        setCurrentStep('Queueing news and financials updates...');
+        const client = createAgentClient();
+        const { run } = await client.runFullUpdate(AGENT_UPDATE_TICKERS);
+        const finished = run.tickers.length > 0 ? await followAgentRun(run.id) : null;
+
+        setMessage(`✅ Tech sector update completed! ${techSummary}${finished ? ` ${describeFinishedRun(finished)}.` : ''}`);
         setLastUpdate(new Date());
       } catch (fetchError: any) {
         clearTimeout(timeoutId);
@@ -94,6 +173,15 @@ export default function FullSystemUpdateButton({
           {currentStep}
         </div>
       )}
+
+      {progress && progress.jobs.length > 0 && (
+        <div className="w-full max-w-xs h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-blue-600 transition-all"
+            style={{ width: `${((progress.counts.done + progress.counts.failed) / progress.jobs.length) * 100}%` }}
+          />
+        </div>
+      )}
       
       {message && (
         <div className={`text-xs ${message.startsWith('✅') ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
@@ -8,12 +8,14 @@ interface InteractiveWatchlistSummaryProps {
   watchlists: Watchlist[];
   onTickerHighlight: (ticker: string | null) => void;
   onRemoveFromWatchlist: (ticker: string) => void;
+  onOpenTransfer?: () => void;
 }
 
 export default function InteractiveWatchlistSummary({ 
   watchlists, 
   onTickerHighlight, 
-  onRemoveFromWatchlist 
+  onRemoveFromWatchlist,
+  onOpenTransfer
 }: InteractiveWatchlistSummaryProps) {
   const [hoveredTicker, setHoveredTicker] = useState<string | null>(null);
   const [expandedSummary, setExpandedSummary] = useState(false);
@@ -58,6 +60,15 @@ export default function InteractiveWatchlistSummary({
           Your Watchlist
         </h3>
         <div className="flex items-center space-x-2">
+          {onOpenTransfer && (
+            <button
+              onClick={onOpenTransfer}
+              className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+              title="Import or export watchlists as CSV/JSON"
+            >
+              Import / Export
+            </button>
+          )}
           <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
             {watchlistedTickers.length}
           </span>
@@ -0,0 +1,112 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { cachedFetch, CACHE_KEYS } from '@/lib/cache/browserCache';
+import type { NewsSentiment, StockNews } from '@/types';
+
+interface NewsHeadlinesProps {
+  ticker: string;
+  maxArticles?: number;
+}
+
+const SENTIMENT_STYLES: Record<NewsSentiment, { dot: string; label: string }> = {
+  positive: { dot: 'bg-green-500', label: 'Positive' },
+  neutral: { dot: 'bg-gray-400', label: 'Neutral' },
+  negative: { dot: 'bg-red-500', label: 'Negative' },
+};
+
+export default function NewsHeadlines({ ticker, maxArticles = 5 }: NewsHeadlinesProps) {
+  const [news, setNews] = useState<StockNews | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    const loadNews = async () => {
+      try {
+        setLoading(true);
+        const data = await cachedFetch<any>(`/api/news/${encodeURIComponent(ticker)}`, {
+          cacheKey: CACHE_KEYS.STOCK_NEWS(ticker),
+          ttl: 10 * 60 * 1000
+        });
+
+        if (!data.success) {
+          throw new Error(data.error || 'Failed to load news');
+        }
+        setNews(data.news);
+        setError(false);
+      } catch (err) {
+        console.error(`Error loading news for ${ticker}:`, err);
+        setError(true);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadNews();
+  }, [ticker]);
+
+  if (loading) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Loading news...</p>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">News is unavailable right now.</p>;
+  }
+
+  if (!news || news.articles.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">No news yet. It appears after the next agent update.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {news.summary && (
+        <p className="text-sm text-gray-700 dark:text-gray-300">
+          {news.sentiment && (
+            <span className={`inline-block w-2 h-2 rounded-full mr-2 ${SENTIMENT_STYLES[news.sentiment].dot}`} title={`${SENTIMENT_STYLES[news.sentiment].label} news sentiment`}></span>
+          )}
+          {news.summary}
+        </p>
+      )}
+
+      {news.themes.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {news.themes.map(theme => (
+            <span key={theme} className="px-2 py-0.5 rounded-full text-xs bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300">
+              {theme}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <ul className="space-y-2">
+        {news.articles.slice(0, maxArticles).map(article => (
+          <li key={article.id} className="flex items-start gap-2 min-w-0">
+            <span
+              className={`mt-1.5 inline-block w-2 h-2 rounded-full flex-shrink-0 ${article.sentiment ? SENTIMENT_STYLES[article.sentiment].dot : 'bg-gray-200 dark:bg-gray-600'}`}
+              title={article.sentiment ? SENTIMENT_STYLES[article.sentiment].label : 'Not scored'}
+            ></span>
+            <div className="min-w-0">
+              {article.url ? (
+                <a
+                  href={article.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-sm font-medium text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400 line-clamp-2"
+                >
+                  {article.title}
+                </a>
+              ) : (
+                <span className="text-sm font-medium text-gray-900 dark:text-white line-clamp-2">{article.title}</span>
+              )}
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {article.source}
+                {article.publishedAt && ` · ${formatDistanceToNow(new Date(article.publishedAt), { addSuffix: true })}`}
+              </p>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,57 +1,73 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { cachedFetch, CACHE_KEYS } from '@/lib/cache/browserCache';
+import { formatPrice } from '@/lib/utils/currency';
+import type { PriceRange, PriceChartMarker, MarketCurrency } from '@/types';
 
 interface StockPriceChartProps {
   ticker: string;
+  market?: 'SP500' | 'TA125';
   className?: string;
 }
 
 interface PricePoint {
-  date: string;
+  timestamp: number;
   price: number;
-  change: number;
 }
 
-export default function StockPriceChart({ ticker, className = '' }: StockPriceChartProps) {
+interface ChartMarker extends Omit<PriceChartMarker, 'date'> {
+  timestamp: number;
+}
+
+const RANGES: PriceRange[] = ['1D', '5D', '1M', '6M', '1Y'];
+
+const RANGE_LABELS: Record<PriceRange, string> = {
+  '1D': 'Today',
+  '5D': '5-day trend',
+  '1M': '30-day trend',
+  '6M': '6-month trend',
+  '1Y': '1-year trend',
+};
+
+const MARKER_COLORS: Record<string, string> = {
+  BUY: '#10B981',
+  HOLD: '#9CA3AF',
+  SELL: '#EF4444',
+};
+
+export default function StockPriceChart({ ticker, market, className = '' }: StockPriceChartProps) {
+  const [range, setRange] = useState<PriceRange>('1M');
   const [priceData, setPriceData] = useState<PricePoint[]>([]);
+  const [markers, setMarkers] = useState<ChartMarker[]>([]);
+  const [currency, setCurrency] = useState<MarketCurrency>('USD');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(false);
 
   useEffect(() => {
-    // Simulate fetching stock price data
-    // In a real app, this would fetch from a financial data API
-    const generateMockData = () => {
-      const data: PricePoint[] = [];
-      const basePrice = Math.random() * 200 + 50; // Random price between 50-250
-      let currentPrice = basePrice;
-      
-      for (let i = 29; i >= 0; i--) {
-        const date = new Date();
-        date.setDate(date.getDate() - i);
-        
-        // Random walk with slight upward bias
-        const change = (Math.random() - 0.48) * 0.05; // Slight upward bias
-        currentPrice = currentPrice * (1 + change);
-        
-        data.push({
-          date: date.toISOString().split('T')[0],
-          price: currentPrice,
-          change: change * 100
-        });
-      }
-      
-      return data;
-    };
-
     const loadData = async () => {
       try {
         setLoading(true);
-        // Simulate API delay
-        await new Promise(resolve => setTimeout(resolve, 300 + Math.random() * 500));
-        
-        const data = generateMockData();
-        setPriceData(data);
+
+        const marketParam = market ? `&market=${market}` : '';
+        const data = await cachedFetch<any>(`/api/prices/${encodeURIComponent(ticker)}?range=${range}${marketParam}`, {
+          cacheKey: CACHE_KEYS.PRICE_HISTORY(ticker, range, market),
+          ttl: 5 * 60 * 1000
+        });
+
+        if (!data.success) {
+          throw new Error(data.error || 'Failed to load price history');
+        }
+
+        setPriceData(data.bars.map((bar: any) => ({
+          timestamp: new Date(bar.timestamp).getTime(),
+          price: bar.close
+        })));
+        setMarkers(data.markers.map((marker: any) => ({
+          ...marker,
+          timestamp: new Date(marker.date).getTime()
+        })));
+        setCurrency(data.currency || 'USD');
         setError(false);
       } catch (err) {
         console.error('Error loading price data:', err);
@@ -62,7 +78,25 @@ export default function StockPriceChart({ ticker, className = '' }: StockPriceCh
     };
 
     loadData();
-  }, [ticker]);
+  }, [ticker, market, range]);
+
+  const rangeSelector = (
+    <div className="flex space-x-1">
+      {RANGES.map(option => (
+        <button
+          key={option}
+          onClick={() => setRange(option)}
+          className={`px-1.5 py-0.5 rounded text-xs font-medium ${
+            range === option
+              ? 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900 dark:text-indigo-200'
+              : 'text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300'
+          }`}
+        >
+          {option}
+        </button>
+      ))}
+    </div>
+  );
 
   if (loading) {
     return (
@@ -80,9 +114,12 @@ export default function StockPriceChart({ ticker, className = '' }: StockPriceCh
 
   if (error || priceData.length === 0) {
     return (
-      <div className={`flex items-center justify-center h-16 ${className}`}>
-        <div className="text-gray-400 dark:text-gray-600 text-sm">
-          📈 Chart unavailable
+      <div className={className}>
+        <div className="flex justify-end mb-2">{rangeSelector}</div>
+        <div className="flex items-center justify-center h-16">
+          <div className="text-gray-400 dark:text-gray-600 text-sm">
+            📈 Chart unavailable
+          </div>
         </div>
       </div>
     );
@@ -100,32 +137,44 @@ export default function StockPriceChart({ ticker, className = '' }: StockPriceCh
   const width = 200;
   const height = 60;
   const padding = 4;
-  
-  const points = priceData.map((point, index) => {
-    const x = (index / (priceData.length - 1)) * (width - 2 * padding) + padding;
-    const y = height - padding - ((point.price - minPrice) / (priceRange || 1)) * (height - 2 * padding);
-    return `${x},${y}`;
-  }).join(' ');
+
+  const xAt = (index: number) => priceData.length > 1
+    ? (index / (priceData.length - 1)) * (width - 2 * padding) + padding
+    : width / 2;
+  const yAt = (price: number) => height - padding - ((price - minPrice) / (priceRange || 1)) * (height - 2 * padding);
+
+  const points = priceData.map((point, index) => `${xAt(index)},${yAt(point.price)}`).join(' ');
+
+  // Place each marker on the first bar at or after its timestamp
+  const placedMarkers = markers
+    .map(marker => {
+      const index = priceData.findIndex(point => point.timestamp >= marker.timestamp);
+      return index === -1 ? null : { ...marker, index };
+    })
+    .filter(Boolean) as Array<ChartMarker & { index: number }>;
 
   return (
     <div className={`${className}`}>
       <div className="flex items-center justify-between mb-2">
         <div className="text-xs text-gray-500 dark:text-gray-400">
-          30-day trend
+          {RANGE_LABELS[range]}
         </div>
-        <div className={`text-xs font-medium ${
-          isPositive 
-            ? 'text-green-600 dark:text-green-400' 
-            : 'text-red-600 dark:text-red-400'
-        }`}>
-          {isPositive ? '+' : ''}{totalChange.toFixed(1)}%
+        <div className="flex items-center space-x-2">
+          {rangeSelector}
+          <div className={`text-xs font-medium ${
+            isPositive
+              ? 'text-green-600 dark:text-green-400'
+              : 'text-red-600 dark:text-red-400'
+          }`}>
+            {isPositive ? '+' : ''}{totalChange.toFixed(1)}%
+          </div>
         </div>
       </div>
-      
+
       <div className="relative">
-        <svg 
-          width={width} 
-          height={height} 
+        <svg
+          width={width}
+          height={height}
           className="w-full h-16"
           viewBox={`0 0 ${width} ${height}`}
           preserveAspectRatio="none"
@@ -133,18 +182,38 @@ export default function StockPriceChart({ ticker, className = '' }: StockPriceCh
           {/* Grid lines */}
           <defs>
             <pattern id="grid" width="20" height="15" patternUnits="userSpaceOnUse">
-              <path 
-                d="M 20 0 L 0 0 0 15" 
-                fill="none" 
-                stroke="currentColor" 
-                strokeWidth="0.5" 
+              <path
+                d="M 20 0 L 0 0 0 15"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="0.5"
                 opacity="0.1"
                 className="text-gray-400 dark:text-gray-600"
               />
             </pattern>
           </defs>
           <rect width="100%" height="100%" fill="url(#grid)" />
-          
+
+          {/* Earnings markers */}
+          {placedMarkers.filter(marker => marker.type === 'earnings').map((marker, i) => (
+            <line
+              key={`earnings-${i}`}
+              x1={xAt(marker.index)}
+              x2={xAt(marker.index)}
+              y1={0}
+              y2={height}
+              stroke="#6366F1"
+              strokeWidth="1"
+              strokeDasharray="2,2"
+            >
+              <title>
+                {marker.label}
+                {marker.epsSurprisePercent !== undefined &&
+                  ` (EPS ${marker.epsSurprisePercent >= 0 ? '+' : ''}${marker.epsSurprisePercent.toFixed(1)}%)`}
+              </title>
+            </line>
+          ))}
+
           {/* Price line */}
           <polyline
             fill="none"
@@ -153,38 +222,63 @@ export default function StockPriceChart({ ticker, className = '' }: StockPriceCh
             points={points}
             className="drop-shadow-sm"
           />
-          
+
           {/* Fill area under line */}
           <polygon
             fill={isPositive ? '#10B981' : '#EF4444'}
             fillOpacity="0.1"
             points={`${padding},${height - padding} ${points} ${width - padding},${height - padding}`}
           />
-          
+
+          {/* Analyst recommendation markers */}
+          {placedMarkers.filter(marker => marker.type === 'recommendation').map((marker, i) => (
+            <circle
+              key={`rec-${i}`}
+              cx={xAt(marker.index)}
+              cy={yAt(priceData[marker.index].price)}
+              r="2.5"
+              fill={MARKER_COLORS[marker.action || 'HOLD']}
+              stroke="white"
+              strokeWidth="0.75"
+            >
+              <title>{marker.label}</title>
+            </circle>
+          ))}
+
           {/* Current price dot */}
           {priceData.length > 0 && (
             <circle
-              cx={(width - 2 * padding) + padding}
-              cy={height - padding - ((currentPrice - minPrice) / (priceRange || 1)) * (height - 2 * padding)}
+              cx={xAt(priceData.length - 1)}
+              cy={yAt(currentPrice)}
               r="2"
               fill={isPositive ? '#10B981' : '#EF4444'}
               className="drop-shadow-sm"
             />
           )}
         </svg>
-        
+
         {/* Price labels */}
         <div className="flex justify-between text-xs text-gray-400 dark:text-gray-600 mt-1">
-          <span>${firstPrice.toFixed(2)}</span>
+          <span>{formatPrice(firstPrice, currency)}</span>
+          {placedMarkers.length > 0 && (
+            <span className="flex items-center space-x-2">
+              {placedMarkers.some(marker => marker.type === 'earnings') && (
+                <span className="text-indigo-500">┊ earnings</span>
+              )}
+              {placedMarkers.some(marker => marker.type === 'recommendation') && (
+                <span>● analyst calls</span>
+              )}
+            </span>
+          )}
           <span className={`font-medium ${
-            isPositive 
-              ? 'text-green-600 dark:text-green-400' 
+            isPositive
+              ? 'text-green-600 dark:text-green-400'
               : 'text-red-600 dark:text-red-400'
           }`}>
-            ${currentPrice.toFixed(2)}
+            {formatPrice(currentPrice, currency)}
           </span>
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
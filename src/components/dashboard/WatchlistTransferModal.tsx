@@ -0,0 +1,261 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { authFetch } from '@/lib/apiClient';
+import type { Watchlist, WatchlistFileFormat, WatchlistImportReport } from '@/types';
+
+interface WatchlistTransferModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+  watchlists: Watchlist[];
+  userId: string;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+export default function WatchlistTransferModal({ isOpen, onClose, onImported, watchlists, userId }: WatchlistTransferModalProps) {
+  const [watchlistId, setWatchlistId] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [content, setContent] = useState('');
+  const [format, setFormat] = useState<WatchlistFileFormat>('csv');
+  const [report, setReport] = useState<WatchlistImportReport | null>(null);
+  const [imported, setImported] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setWatchlistId(current => current || watchlists[0]?.id || '');
+    }
+  }, [isOpen, watchlists]);
+
+  if (!isOpen) return null;
+
+  const resetImport = () => {
+    setFileName('');
+    setContent('');
+    setReport(null);
+    setImported(null);
+    setError(null);
+  };
+
+  const handleClose = () => {
+    resetImport();
+    onClose();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    resetImport();
+    if (!file) return;
+
+    setFileName(file.name);
+    setFormat(file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv');
+    setContent(await file.text());
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    if (!watchlistId || !content) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await authFetch(`/api/watchlists/${watchlistId}/import`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, content, format, dryRun }),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Import failed');
+      }
+
+      setReport(result);
+      if (!dryRun) {
+        setImported(result.imported);
+        onImported();
+      }
+    } catch (err) {
+      console.error('Error importing watchlist:', err);
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExport = async (exportFormat: WatchlistFileFormat) => {
+    if (!watchlistId) return;
+
+    setError(null);
+    try {
+      // Plain links can't carry the ID token, so download through fetch
+      const response = await authFetch(
+        `/api/watchlists/${watchlistId}/export?userId=${encodeURIComponent(userId)}&format=${exportFormat}`
+      );
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || `Export failed (${response.status})`);
+      }
+
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || `watchlist.${exportFormat}`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error exporting watchlist:', err);
+      setError(err instanceof Error ? err.message : 'Export failed');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-[28rem] max-w-full shadow-lg rounded-md bg-white dark:bg-gray-800">
+        <div className="mt-3">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+              Import / Export Watchlist
+            </h3>
+            <button
+              onClick={handleClose}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path>
+              </svg>
+            </button>
+          </div>
+
+          <div className="space-y-4">
+            <div>
+              <label className={labelClass}>Watchlist</label>
+              <select
+                value={watchlistId}
+                onChange={(e) => {
+                  setWatchlistId(e.target.value);
+                  setReport(null);
+                  setImported(null);
+                }}
+                className={inputClass}
+              >
+                {watchlists.map(watchlist => (
+                  <option key={watchlist.id} value={watchlist.id}>
+                    {watchlist.name} ({watchlist.companies.length})
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className={labelClass}>Export</label>
+              <div className="flex space-x-3">
+                <button
+                  type="button"
+                  onClick={() => handleExport('csv')}
+                  disabled={!watchlistId}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 disabled:opacity-50 dark:bg-gray-600 dark:text-gray-300 dark:border-gray-500 dark:hover:bg-gray-500"
+                >
+                  Download CSV
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleExport('json')}
+                  disabled={!watchlistId}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 disabled:opacity-50 dark:bg-gray-600 dark:text-gray-300 dark:border-gray-500 dark:hover:bg-gray-500"
+                >
+                  Download JSON
+                </button>
+              </div>
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Includes each company&apos;s next earnings date, latest price and sentiment.
+              </p>
+            </div>
+
+            <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+              <label className={labelClass}>Import</label>
+              <input
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={handleFileChange}
+                className="block w-full text-sm text-gray-700 dark:text-gray-300"
+              />
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                CSV with columns ticker, name, sector, notes (header optional) or a JSON array.
+                Only S&P 500 and TA-125 tickers are accepted.
+              </p>
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded text-sm dark:bg-red-900 dark:border-red-700 dark:text-red-100">
+                {error}
+              </div>
+            )}
+
+            {report && (
+              <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-md text-sm space-y-1">
+                <div className="text-gray-900 dark:text-white">
+                  {imported !== null
+                    ? `Imported ${imported} ${imported === 1 ? 'company' : 'companies'}`
+                    : `${report.companies.length} ready to import`}
+                  {report.companies.length > 0 && imported === null && (
+                    <span className="text-gray-500 dark:text-gray-400">: {report.companies.map(company => company.ticker).join(', ')}</span>
+                  )}
+                </div>
+                {report.unknown.length > 0 && (
+                  <div className="text-yellow-700 dark:text-yellow-300">
+                    Unknown: {report.unknown.map(row => row.ticker).join(', ')}
+                  </div>
+                )}
+                {report.duplicates.length > 0 && (
+                  <div className="text-gray-600 dark:text-gray-300">
+                    Already on the list or repeated: {report.duplicates.map(row => row.ticker).join(', ')}
+                  </div>
+                )}
+                {report.invalid.map(item => (
+                  <div key={`${item.row}-${item.reason}`} className="text-red-600 dark:text-red-400">
+                    {item.row > 0 ? `Row ${item.row}: ` : ''}{item.reason}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-2">
+              <button
+                type="button"
+                onClick={handleClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 dark:bg-gray-600 dark:text-gray-300 dark:border-gray-500 dark:hover:bg-gray-500"
+              >
+                Close
+              </button>
+              {report && imported === null ? (
+                <button
+                  type="button"
+                  onClick={() => runImport(false)}
+                  disabled={loading || report.companies.length === 0}
+                  className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {loading ? 'Importing...' : `Import ${report.companies.length}`}
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => runImport(true)}
+                  disabled={loading || !content || !watchlistId || imported !== null}
+                  className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {loading ? 'Checking...' : `Check ${fileName || 'file'}`}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
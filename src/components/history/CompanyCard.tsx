@@ -40,6 +40,39 @@ export default function CompanyCard({ company }: CompanyCardProps) {
     }
   };
 
+  const formatPercent = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+  const getSurpriseColor = (surprisePercent?: number) => {
+    if (surprisePercent === undefined) return 'text-gray-600 bg-gray-100 dark:text-gray-300 dark:bg-gray-700';
+    return surprisePercent >= 0
+      ? 'text-green-600 bg-green-100 dark:text-green-400 dark:bg-green-900'
+      : 'text-red-600 bg-red-100 dark:text-red-400 dark:bg-red-900';
+  };
+
+  const latestSurprise = company.events
+    .filter(event => event.type === 'earnings_release' && event.data.actualEps !== undefined)
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())[0];
+
+  const renderEarningsRelease = (data: Record<string, any>) => (
+    <div className="mt-1 flex flex-wrap items-center gap-3 text-sm text-gray-600 dark:text-gray-400">
+      {data.quarter && <span>{data.quarter} {data.fiscalYear}</span>}
+      <span>
+        EPS: ${data.actualEps.toFixed(2)}
+        {data.estimatedEps !== undefined && ` vs $${data.estimatedEps.toFixed(2)} est.`}
+      </span>
+      {data.epsSurprisePercent !== undefined && (
+        <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${getSurpriseColor(data.epsSurprisePercent)}`}>
+          {data.epsSurprisePercent >= 0 ? 'Beat' : 'Miss'} {formatPercent(data.epsSurprisePercent)}
+        </span>
+      )}
+      {data.priceReactionPercent !== undefined && (
+        <span className={data.priceReactionPercent >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+          Price reaction: {formatPercent(data.priceReactionPercent)}
+        </span>
+      )}
+    </div>
+  );
+
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden">
       <div className="p-6 border-b border-gray-200 dark:border-gray-700">
@@ -53,6 +86,14 @@ export default function CompanyCard({ company }: CompanyCardProps) {
           <div className="text-right text-sm text-gray-500 dark:text-gray-400">
             <p>Last updated: {format(new Date(company.updatedAt), 'MMM dd, yyyy')}</p>
             <p>{company.insights.length} insights • {company.events.length} events</p>
+            {latestSurprise?.data.epsSurprisePercent !== undefined && (
+              <p className="mt-1">
+                Last report:{' '}
+                <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${getSurpriseColor(latestSurprise.data.epsSurprisePercent)}`}>
+                  EPS {formatPercent(latestSurprise.data.epsSurprisePercent)}
+                </span>
+              </p>
+            )}
           </div>
         </div>
       </div>
@@ -164,7 +205,9 @@ export default function CompanyCard({ company }: CompanyCardProps) {
                         {format(new Date(event.date), 'MMM dd, yyyy HH:mm')}
                       </span>
                     </div>
-                    {Object.keys(event.data).length > 0 && (
+                    {event.type === 'earnings_release' && event.data.actualEps !== undefined ? (
+                      renderEarningsRelease(event.data)
+                    ) : Object.keys(event.data).length > 0 && (
                       <div className="mt-1 text-sm text-gray-600 dark:text-gray-400">
                         {Object.entries(event.data).map(([key, value]) => (
                           <span key={key} className="mr-4">
@@ -0,0 +1,206 @@
+'use client';
+
+import { useState } from 'react';
+import { getMarketForTicker } from '@/lib/utils/ta125Tickers';
+import type { PortfolioLot } from '@/types';
+
+interface AddLotModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCreate: (lot: Omit<PortfolioLot, 'id' | 'createdAt' | 'updatedAt'>) => void;
+  userId: string;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+export default function AddLotModal({ isOpen, onClose, onCreate, userId }: AddLotModalProps) {
+  const [ticker, setTicker] = useState('');
+  const [companyName, setCompanyName] = useState('');
+  const [market, setMarket] = useState<PortfolioLot['market']>('SP500');
+  const [sector, setSector] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [costBasis, setCostBasis] = useState('');
+  const [buyDate, setBuyDate] = useState(new Date().toISOString().split('T')[0]);
+  const [notes, setNotes] = useState('');
+
+  const parsedQuantity = parseFloat(quantity);
+  const parsedCost = parseFloat(costBasis);
+  const isValid = ticker.trim() && parsedQuantity > 0 && parsedCost > 0 && buyDate;
+
+  const resetForm = () => {
+    setTicker('');
+    setCompanyName('');
+    setMarket('SP500');
+    setSector('');
+    setQuantity('');
+    setCostBasis('');
+    setBuyDate(new Date().toISOString().split('T')[0]);
+    setNotes('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    const normalizedTicker = ticker.trim().toUpperCase();
+    onCreate({
+      userId,
+      ticker: normalizedTicker,
+      companyName: companyName.trim() || normalizedTicker,
+      market,
+      sector: sector.trim() || 'Unknown',
+      quantity: parsedQuantity,
+      costBasis: parsedCost,
+      buyDate: new Date(`${buyDate}T00:00:00`),
+      status: 'open',
+      // Firestore rejects undefined fields
+      ...(notes.trim() && { notes: notes.trim() }),
+    });
+
+    resetForm();
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white dark:bg-gray-800">
+        <div className="mt-3">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+              Add Lot
+            </h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path>
+              </svg>
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>Ticker</label>
+                <input
+                  type="text"
+                  value={ticker}
+                  onChange={(e) => {
+                    setTicker(e.target.value);
+                    setMarket(getMarketForTicker(e.target.value.trim()));
+                  }}
+                  className={inputClass}
+                  placeholder="AAPL"
+                  required
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Market</label>
+                <select
+                  value={market}
+                  onChange={(e) => setMarket(e.target.value as PortfolioLot['market'])}
+                  className={inputClass}
+                >
+                  <option value="SP500">S&P 500</option>
+                  <option value="TA125">TA-125</option>
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClass}>Company Name</label>
+              <input
+                type="text"
+                value={companyName}
+                onChange={(e) => setCompanyName(e.target.value)}
+                className={inputClass}
+                placeholder="Apple Inc."
+              />
+            </div>
+
+            <div>
+              <label className={labelClass}>Sector</label>
+              <input
+                type="text"
+                value={sector}
+                onChange={(e) => setSector(e.target.value)}
+                className={inputClass}
+                placeholder="Technology"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>Quantity</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Cost per Share ({market === 'TA125' ? '₪' : '$'})</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={costBasis}
+                  onChange={(e) => setCostBasis(e.target.value)}
+                  className={inputClass}
+                  required
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClass}>Buy Date</label>
+              <input
+                type="date"
+                value={buyDate}
+                onChange={(e) => setBuyDate(e.target.value)}
+                className={inputClass}
+                required
+              />
+            </div>
+
+            <div>
+              <label className={labelClass}>Notes</label>
+              <input
+                type="text"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                className={inputClass}
+                placeholder="Optional"
+              />
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 dark:bg-gray-600 dark:text-gray-300 dark:border-gray-500 dark:hover:bg-gray-500"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!isValid}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Add Lot
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
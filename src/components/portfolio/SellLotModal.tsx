@@ -0,0 +1,126 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { formatPrice, getMarketCurrency } from '@/lib/utils/currency';
+import type { PortfolioLot } from '@/types';
+
+interface SellLotModalProps {
+  lot: PortfolioLot | null;
+  onClose: () => void;
+  onSell: (lot: PortfolioLot, quantity: number, sellPrice: number, sellDate: Date) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+export default function SellLotModal({ lot, onClose, onSell }: SellLotModalProps) {
+  const [quantity, setQuantity] = useState('');
+  const [sellPrice, setSellPrice] = useState('');
+  const [sellDate, setSellDate] = useState(new Date().toISOString().split('T')[0]);
+
+  useEffect(() => {
+    if (lot) {
+      setQuantity(String(lot.quantity));
+      setSellPrice('');
+      setSellDate(new Date().toISOString().split('T')[0]);
+    }
+  }, [lot]);
+
+  if (!lot) return null;
+
+  const parsedQuantity = parseFloat(quantity);
+  const parsedPrice = parseFloat(sellPrice);
+  const isValid = parsedQuantity > 0 && parsedQuantity <= lot.quantity && parsedPrice > 0 && sellDate;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    onSell(lot, parsedQuantity, parsedPrice, new Date(`${sellDate}T00:00:00`));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white dark:bg-gray-800">
+        <div className="mt-3">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+              Sell {lot.ticker}
+            </h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path>
+              </svg>
+            </button>
+          </div>
+
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            {lot.quantity} shares bought at {formatPrice(lot.costBasis, getMarketCurrency(lot.market))}. Selling part of the lot keeps the rest open.
+          </p>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>Quantity</label>
+                <input
+                  type="number"
+                  min="0"
+                  max={lot.quantity}
+                  step="any"
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Sell Price ({lot.market === 'TA125' ? '₪' : '$'})</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={sellPrice}
+                  onChange={(e) => setSellPrice(e.target.value)}
+                  className={inputClass}
+                  required
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClass}>Sell Date</label>
+              <input
+                type="date"
+                value={sellDate}
+                onChange={(e) => setSellDate(e.target.value)}
+                className={inputClass}
+                required
+              />
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 dark:bg-gray-600 dark:text-gray-300 dark:border-gray-500 dark:hover:bg-gray-500"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!isValid}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Sell
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
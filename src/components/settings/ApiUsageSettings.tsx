@@ -0,0 +1,151 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format, parseISO } from 'date-fns';
+import { authFetch } from '@/lib/apiClient';
+import type { ApiProvider, ProviderQuotaStatus, ProviderUsageDay } from '@/types';
+
+const PROVIDER_LABELS: Record<ApiProvider, string> = {
+  serper: 'Serper',
+  polygon: 'Polygon',
+  yahoo: 'Yahoo Finance (unofficial)',
+  openai: 'OpenAI',
+};
+
+const PROVIDERS = Object.keys(PROVIDER_LABELS) as ApiProvider[];
+
+const formatCost = (cost: number) => `$${cost.toFixed(cost > 0 && cost < 1 ? 3 : 2)}`;
+
+const barClass = (percent: number) =>
+  percent >= 90 ? 'bg-red-500' : percent >= 70 ? 'bg-yellow-500' : 'bg-green-500';
+
+export default function ApiUsageSettings() {
+  const [days, setDays] = useState(14);
+  const [usage, setUsage] = useState<ProviderUsageDay[]>([]);
+  const [quotas, setQuotas] = useState<ProviderQuotaStatus[]>([]);
+  const [totalCost, setTotalCost] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadUsage = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await authFetch(`/api/admin/usage?days=${days}`);
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to load API usage');
+      }
+      setUsage(result.usage);
+      setQuotas(result.quotas);
+      setTotalCost(result.totalCost);
+      setError(null);
+    } catch (err) {
+      console.error('Error loading API usage:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load API usage');
+    } finally {
+      setLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  if (loading && usage.length === 0) {
+    return (
+      <div className="flex justify-center py-6">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded text-sm dark:bg-red-900 dark:border-red-700 dark:text-red-100">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        {quotas.map(quota => {
+          const percent = quota.dailyCallLimit > 0 ? Math.min(100, (quota.callsToday / quota.dailyCallLimit) * 100) : 0;
+          return (
+            <div key={quota.provider} className="rounded-md border border-gray-200 dark:border-gray-700 p-3">
+              <div className="flex items-baseline justify-between">
+                <span className="font-medium text-gray-900 dark:text-white">{PROVIDER_LABELS[quota.provider]}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">{quota.requestsPerSecond}/s</span>
+              </div>
+              <div className="mt-2 h-2 w-full rounded-full bg-gray-200 dark:bg-gray-700">
+                <div className={`h-2 rounded-full ${barClass(percent)}`} style={{ width: `${percent}%` }}></div>
+              </div>
+              <div className="mt-1 flex justify-between text-xs text-gray-600 dark:text-gray-300">
+                <span>{quota.callsToday.toLocaleString()} / {quota.dailyCallLimit.toLocaleString()} calls today</span>
+                <span>{formatCost(quota.costToday)}</span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-sm text-gray-600 dark:text-gray-400">
+            {formatCost(totalCost)} over the last {days} days
+          </span>
+          <select
+            value={days}
+            onChange={(e) => setDays(parseInt(e.target.value, 10))}
+            className="text-sm px-2 py-1 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          >
+            <option value={7}>7 days</option>
+            <option value={14}>14 days</option>
+            <option value={30}>30 days</option>
+          </select>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            <thead>
+              <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                <th className="py-2 pr-4">Date</th>
+                {PROVIDERS.map(provider => (
+                  <th key={provider} className="py-2 pr-4 text-right">{PROVIDER_LABELS[provider]}</th>
+                ))}
+                <th className="py-2 text-right">Cost</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {usage.map(day => (
+                <tr key={day.date}>
+                  <td className="py-2 pr-4 text-gray-900 dark:text-white whitespace-nowrap">
+                    {format(parseISO(day.date), 'EEE, MMM d')}
+                  </td>
+                  {PROVIDERS.map(provider => {
+                    const providerUsage = day.providers[provider];
+                    return (
+                      <td key={provider} className="py-2 pr-4 text-right text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                        {providerUsage.calls.toLocaleString()}
+                        <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">{formatCost(providerUsage.cost)}</span>
+                        {providerUsage.rateLimited > 0 && (
+                          <span className="ml-1 text-xs text-yellow-600 dark:text-yellow-400" title="429 responses">
+                            ({providerUsage.rateLimited} throttled)
+                          </span>
+                        )}
+                      </td>
+                    );
+                  })}
+                  <td className="py-2 text-right font-medium text-gray-900 dark:text-white">{formatCost(day.totalCost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Days are UTC. Costs are estimates from per-call and per-token pricing.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { authFetch } from '@/lib/apiClient';
+import type { ScheduledJob, ScheduledJobRun } from '@/types';
+
+const formatTime = (value?: Date | string) => (value ? format(new Date(value), 'MMM d, HH:mm') : '—');
+
+const statusClass = (status?: string) =>
+  status === 'success'
+    ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+    : status === 'failed'
+      ? 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+      : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300';
+
+export default function ScheduledJobsSettings() {
+  const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyJobId, setBusyJobId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ jobId: string; cron: string } | null>(null);
+  const [historyJobId, setHistoryJobId] = useState<string | null>(null);
+  const [historyRuns, setHistoryRuns] = useState<ScheduledJobRun[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const response = await authFetch('/api/scheduler/jobs');
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to load scheduled jobs');
+      }
+      setJobs(result.jobs);
+    } catch (err) {
+      console.error('Error loading scheduled jobs:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load scheduled jobs');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  const toggleHistory = async (jobId: string) => {
+    if (historyJobId === jobId) {
+      setHistoryJobId(null);
+      return;
+    }
+
+    setHistoryJobId(jobId);
+    setHistoryRuns([]);
+    try {
+      const response = await authFetch(`/api/scheduler/jobs/${jobId}`);
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to load run history');
+      }
+      setHistoryRuns(result.runs);
+    } catch (err) {
+      console.error('Error loading run history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load run history');
+    }
+  };
+
+  const updateJob = async (jobId: string, updates: { enabled?: boolean; cron?: string }) => {
+    setBusyJobId(jobId);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await authFetch(`/api/scheduler/jobs/${jobId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update job');
+      }
+      setEditing(null);
+      await loadJobs();
+    } catch (err) {
+      console.error('Error updating scheduled job:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update job');
+    } finally {
+      setBusyJobId(null);
+    }
+  };
+
+  const runNow = async (job: ScheduledJob) => {
+    setBusyJobId(job.id);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await authFetch(`/api/scheduler/jobs/${job.id}`, { method: 'POST' });
+      const result = await response.json();
+      if (result.run) {
+        setMessage(`${job.name}: ${result.message}`);
+      } else {
+        throw new Error(result.error || 'Failed to run job');
+      }
+      await loadJobs();
+    } catch (err) {
+      console.error('Error running scheduled job:', err);
+      setError(err instanceof Error ? err.message : 'Failed to run job');
+    } finally {
+      setBusyJobId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-6">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {message && (
+        <div className="p-3 bg-green-100 border border-green-400 text-green-700 rounded text-sm dark:bg-green-900 dark:border-green-700 dark:text-green-100">
+          {message}
+        </div>
+      )}
+      {error && (
+        <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded text-sm dark:bg-red-900 dark:border-red-700 dark:text-red-100">
+          {error}
+        </div>
+      )}
+
+      <div className="divide-y divide-gray-200 dark:divide-gray-700">
+        {jobs.map(job => (
+          <div key={job.id} className="py-4">
+            <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900 dark:text-white">{job.name}</span>
+                  {job.lastStatus && (
+                    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${statusClass(job.lastStatus)}`}>
+                      {job.lastStatus}
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-500 dark:text-gray-400">{job.description}</p>
+
+                {editing?.jobId === job.id ? (
+                  <form
+                    className="mt-2 flex items-center gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      updateJob(job.id, { cron: editing.cron });
+                    }}
+                  >
+                    <input
+                      value={editing.cron}
+                      onChange={(e) => setEditing({ jobId: job.id, cron: e.target.value })}
+                      className="px-2 py-1 font-mono text-sm border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                    />
+                    <button type="submit" disabled={busyJobId === job.id} className="text-sm text-indigo-600 hover:text-indigo-800 dark:text-indigo-400">
+                      Save
+                    </button>
+                    <button type="button" onClick={() => setEditing(null)} className="text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400">
+                      Cancel
+                    </button>
+                  </form>
+                ) : (
+                  <div className="mt-1 text-xs text-gray-500 dark:text-gray-400 space-x-3">
+                    <button
+                      type="button"
+                      onClick={() => setEditing({ jobId: job.id, cron: job.cron })}
+                      className="font-mono text-gray-700 dark:text-gray-300 hover:underline"
+                      title={`Edit schedule (${job.timeZone})`}
+                    >
+                      {job.cron}
+                    </button>
+                    <span>Next: {job.enabled ? formatTime(job.nextRunAt) : 'disabled'}</span>
+                    <span>Last: {formatTime(job.lastRunAt)}{job.lastDurationMs !== undefined ? ` (${Math.round(job.lastDurationMs / 1000)}s)` : ''}</span>
+                  </div>
+                )}
+
+                {job.lastMessage && (
+                  <p className="mt-1 text-xs text-gray-600 dark:text-gray-300 truncate" title={job.lastMessage}>
+                    {job.lastMessage}
+                  </p>
+                )}
+              </div>
+
+              <div className="flex items-center gap-3 shrink-0">
+                <label className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={job.enabled}
+                    disabled={busyJobId === job.id}
+                    onChange={(e) => updateJob(job.id, { enabled: e.target.checked })}
+                    className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  Enabled
+                </label>
+                <button
+                  type="button"
+                  onClick={() => runNow(job)}
+                  disabled={busyJobId !== null}
+                  className="px-3 py-1 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 disabled:opacity-50 dark:bg-gray-600 dark:text-gray-300 dark:border-gray-500 dark:hover:bg-gray-500"
+                >
+                  {busyJobId === job.id ? 'Running...' : 'Run now'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => toggleHistory(job.id)}
+                  className="text-sm text-indigo-600 hover:text-indigo-800 dark:text-indigo-400"
+                >
+                  History
+                </button>
+              </div>
+            </div>
+
+            {historyJobId === job.id && (
+              <div className="mt-3 rounded-md bg-gray-50 dark:bg-gray-700 p-3">
+                {historyRuns.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No recent runs.</p>
+                ) : (
+                  <ul className="space-y-1 text-xs">
+                    {historyRuns.map(run => (
+                      <li key={run.id} className="flex gap-3">
+                        <span className="text-gray-500 dark:text-gray-400 whitespace-nowrap">{formatTime(run.startedAt)}</span>
+                        <span className={`px-1.5 rounded ${statusClass(run.status)}`}>{run.status}</span>
+                        <span className="text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                          {run.trigger === 'manual' ? run.triggeredBy : 'scheduled'}
+                        </span>
+                        <span className="text-gray-700 dark:text-gray-300 truncate" title={run.message}>{run.message}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Schedules are cron expressions in US Eastern time. Jobs only run when the scheduler tick endpoint is called.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { authFetch } from '@/lib/apiClient';
+import type { SearchCacheStats, SearchQueryType } from '@/types';
+
+const QUERY_TYPE_LABELS: Record<SearchQueryType, string> = {
+  news: 'News',
+  analyst: 'Analyst',
+  earnings: 'Earnings dates',
+  general: 'Other',
+};
+
+const QUERY_TYPES = Object.keys(QUERY_TYPE_LABELS) as SearchQueryType[];
+
+const formatRate = (hits: number, misses: number) =>
+  hits + misses > 0 ? `${Math.round((hits / (hits + misses)) * 100)}%` : '—';
+
+const formatTtl = (minutes: number) => (minutes >= 60 ? `${minutes / 60}h` : `${minutes}m`);
+
+export default function SearchCacheSettings() {
+  const [stats, setStats] = useState<SearchCacheStats | null>(null);
+  const [purging, setPurging] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStats = useCallback(async () => {
+    try {
+      const response = await authFetch('/api/admin/search-cache');
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to load search cache stats');
+      }
+      setStats(result.stats);
+    } catch (err) {
+      console.error('Error loading search cache stats:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load search cache stats');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  const handlePurge = async (queryType?: SearchQueryType) => {
+    const label = queryType ? QUERY_TYPE_LABELS[queryType].toLowerCase() : 'all';
+    if (!confirm(`Purge ${label} cached search results? The next searches will hit Serper again.`)) return;
+
+    setPurging(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await authFetch(`/api/admin/search-cache${queryType ? `?type=${queryType}` : ''}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to purge search cache');
+      }
+      setMessage(result.message);
+      await loadStats();
+    } catch (err) {
+      console.error('Error purging search cache:', err);
+      setError(err instanceof Error ? err.message : 'Failed to purge search cache');
+    } finally {
+      setPurging(false);
+    }
+  };
+
+  if (!stats) {
+    return error ? (
+      <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded text-sm dark:bg-red-900 dark:border-red-700 dark:text-red-100">
+        {error}
+      </div>
+    ) : null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white">Search Cache</h3>
+        <button
+          type="button"
+          onClick={() => handlePurge()}
+          disabled={purging || stats.entries === 0}
+          className="px-3 py-1 text-sm font-medium text-red-700 bg-red-50 border border-red-200 rounded-md hover:bg-red-100 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-red-900/30 dark:text-red-300 dark:border-red-800"
+        >
+          {purging ? 'Purging...' : 'Purge all'}
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        {stats.entries.toLocaleString()} cached responses ({stats.backend}) · {stats.hits.toLocaleString()} hits, {stats.misses.toLocaleString()} misses · {formatRate(stats.hits, stats.misses)} hit rate
+      </p>
+
+      {message && (
+        <div className="p-3 bg-green-100 border border-green-400 text-green-700 rounded text-sm dark:bg-green-900 dark:border-green-700 dark:text-green-100">
+          {message}
+        </div>
+      )}
+      {error && (
+        <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded text-sm dark:bg-red-900 dark:border-red-700 dark:text-red-100">
+          {error}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+          <thead>
+            <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+              <th className="py-2 pr-4">Query type</th>
+              <th className="py-2 pr-4 text-right">TTL</th>
+              <th className="py-2 pr-4 text-right">Entries</th>
+              <th className="py-2 pr-4 text-right">Hits</th>
+              <th className="py-2 pr-4 text-right">Misses</th>
+              <th className="py-2 pr-4 text-right">Hit rate</th>
+              <th className="py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {QUERY_TYPES.map(type => {
+              const typeStats = stats.byType[type];
+              return (
+                <tr key={type}>
+                  <td className="py-2 pr-4 text-gray-900 dark:text-white">{QUERY_TYPE_LABELS[type]}</td>
+                  <td className="py-2 pr-4 text-right text-gray-600 dark:text-gray-400">{formatTtl(typeStats.ttlMinutes)}</td>
+                  <td className="py-2 pr-4 text-right text-gray-700 dark:text-gray-300">{typeStats.entries.toLocaleString()}</td>
+                  <td className="py-2 pr-4 text-right text-gray-700 dark:text-gray-300">{typeStats.hits.toLocaleString()}</td>
+                  <td className="py-2 pr-4 text-right text-gray-700 dark:text-gray-300">{typeStats.misses.toLocaleString()}</td>
+                  <td className="py-2 pr-4 text-right text-gray-700 dark:text-gray-300">{formatRate(typeStats.hits, typeStats.misses)}</td>
+                  <td className="py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => handlePurge(type)}
+                      disabled={purging || typeStats.entries === 0}
+                      className="text-red-600 hover:text-red-800 dark:text-red-400 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Purge
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { useAuth } from '../AuthProvider';
+import { authFetch } from '@/lib/apiClient';
+import type { InvitedUser, UserRole } from '@/types';
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white';
+
+export default function UserAccessSettings() {
+  const { user } = useAuth();
+  const [users, setUsers] = useState<InvitedUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<UserRole>('user');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadUsers = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await authFetch('/api/admin/invites');
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to load users');
+      }
+      setUsers(result.users);
+    } catch (err) {
+      console.error('Error loading invites:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load users');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  const submitInvite = async (inviteEmail: string, inviteRole: UserRole) => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await authFetch('/api/admin/invites', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: inviteEmail, role: inviteRole }),
+      });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to invite user');
+      }
+      setMessage(result.message);
+      await loadUsers();
+      return true;
+    } catch (err) {
+      console.error('Error inviting user:', err);
+      setError(err instanceof Error ? err.message : 'Failed to invite user');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    if (await submitInvite(email.trim(), role)) {
+      setEmail('');
+      setRole('user');
+    }
+  };
+
+  const handleRevoke = async (invitedUser: InvitedUser) => {
+    if (!confirm(`Revoke access for ${invitedUser.email}? They will be signed out.`)) return;
+
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await authFetch(`/api/admin/invites?email=${encodeURIComponent(invitedUser.email)}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to revoke access');
+      }
+      setMessage(result.message);
+      await loadUsers();
+    } catch (err) {
+      console.error('Error revoking invite:', err);
+      setError(err instanceof Error ? err.message : 'Failed to revoke access');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const isSelf = (invitedUser: InvitedUser) => invitedUser.email === user?.email?.toLowerCase();
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-3">
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="teammate@example.com"
+          className={`${inputClass} flex-1`}
+          required
+        />
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value as UserRole)}
+          className={inputClass}
+        >
+          <option value="user">User</option>
+          <option value="admin">Admin</option>
+        </select>
+        <button
+          type="submit"
+          disabled={saving || !email.trim()}
+          className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Invite
+        </button>
+      </form>
+
+      {message && (
+        <div className="p-3 bg-green-100 border border-green-400 text-green-700 rounded text-sm dark:bg-green-900 dark:border-green-700 dark:text-green-100">
+          {message}
+        </div>
+      )}
+      {error && (
+        <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded text-sm dark:bg-red-900 dark:border-red-700 dark:text-red-100">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : users.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No invites yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            <thead>
+              <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                <th className="py-2 pr-4">Email</th>
+                <th className="py-2 pr-4">Role</th>
+                <th className="py-2 pr-4">Status</th>
+                <th className="py-2 pr-4">Last Login</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {users.map(invitedUser => (
+                <tr key={invitedUser.email}>
+                  <td className="py-2 pr-4 text-gray-900 dark:text-white">
+                    {invitedUser.email}
+                    {invitedUser.displayName && (
+                      <div className="text-xs text-gray-500 dark:text-gray-400">{invitedUser.displayName}</div>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4">
+                    <select
+                      value={invitedUser.role}
+                      onChange={(e) => submitInvite(invitedUser.email, e.target.value as UserRole)}
+                      disabled={saving || invitedUser.status !== 'active' || isSelf(invitedUser)}
+                      className="text-sm bg-transparent text-gray-700 dark:text-gray-300 disabled:opacity-60"
+                    >
+                      <option value="user">User</option>
+                      <option value="admin">Admin</option>
+                    </select>
+                  </td>
+                  <td className="py-2 pr-4">
+                    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                      invitedUser.status === 'active'
+                        ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+                        : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300'
+                    }`}>
+                      {invitedUser.status === 'active' ? (invitedUser.acceptedAt ? 'Active' : 'Invited') : 'Revoked'}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-4 text-gray-600 dark:text-gray-400">
+                    {invitedUser.lastLogin ? format(new Date(invitedUser.lastLogin), 'MMM d, yyyy HH:mm') : 'Never'}
+                  </td>
+                  <td className="py-2 text-right">
+                    {invitedUser.status === 'active' ? (
+                      <button
+                        onClick={() => handleRevoke(invitedUser)}
+                        disabled={saving || isSelf(invitedUser)}
+                        className="text-red-600 hover:text-red-800 dark:text-red-400 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Revoke
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => submitInvite(invitedUser.email, invitedUser.role)}
+                        disabled={saving}
+                        className="text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 disabled:opacity-50"
+                      >
+                        Restore
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,34 +1,39 @@
-import { createPolygonTool } from "../tools/polygonTool";
+import { createMarketDataProvider, type MarketDataProvider } from "../marketData/marketDataProvider";
 import { createSerperTool, formatEarningsCalendarQuery, parseEarningsCalendarResults } from "../tools/serperTool";
 import { createSP500EarningsManager, getSP500Companies, getTopSP500Companies, DateQuarterUtils } from "../utils/sp500Tickers";
-import { adminDb } from "../firebase-admin";
-import type { EarningsEvent } from "@/types";
+import { getCuratedTA125Companies, getMarketForTicker, isCuratedTA125Ticker } from "../utils/ta125Tickers";
+import { createEarningsDateService, reconcileEarningsDate, type EarningsDateService } from "../services/earningsDateService";
+import type { EarningsDateCandidate, EarningsEvent } from "@/types";
 
 /**
  * Earnings Calendar Agent
  * Combines Polygon.io and web search to fetch real earnings dates
  */
 export class EarningsAgent {
-  private polygonTool: any;
+  private marketData: MarketDataProvider;
   private serperTool: any;
   private sp500Manager: any;
+  private earningsDates: EarningsDateService;
   
   constructor() {
-    this.polygonTool = createPolygonTool();
+    this.marketData = createMarketDataProvider();
     this.serperTool = createSerperTool();
     this.sp500Manager = createSP500EarningsManager();
+    this.earningsDates = createEarningsDateService();
   }
 
   /**
-   * Fetch comprehensive earnings calendar from multiple sources using S&P 500 companies
+   * Fetch comprehensive earnings calendar from multiple sources using S&P 500 and TA-125 companies
    */
   async fetchEarningsCalendar(
     startDate?: string,
     endDate?: string,
     useWebSearch: boolean = true,
-    limit: number = 50
+    limit: number = 50,
+    ta125Limit: number = limit
   ): Promise<{
     sp500: Array<any>;
+    ta125: Array<any>;
     polygon: Array<any>;
     webSearch: Array<any>;
     combined: Array<{
@@ -38,13 +43,17 @@ export class EarningsAgent {
       expectedTime: 'before_market' | 'after_market' | 'during_market';
       fiscalPeriod: string;
       fiscalYear: number;
-      source: 'sp500' | 'polygon' | 'web' | 'combined';
+      market: 'SP500' | 'TA125';
+      sector?: string;
+      source: 'sp500' | 'ta125' | 'polygon' | 'web' | 'combined';
       confidence: number;
+      confirmed: boolean;
+      candidates: EarningsDateCandidate[];
     }>;
     totalFound: number;
   }> {
     try {
-      console.log(`Fetching earnings calendar for ${limit} S&P 500 companies...`);
+      console.log(`Fetching earnings calendar for ${limit} S&P 500 and ${ta125Limit} TA-125 companies...`);
 
       // Fetch real earnings dates from S&P 500 companies
       console.log('Fetching S&P 500 earnings calendar...');
@@ -61,13 +70,37 @@ export class EarningsAgent {
           fiscalYear: company.nextEarningsDate!.getFullYear(),
           reportTime: this.determineReportTime(company.ticker),
           confidence: company.confidence,
+          confirmed: company.confirmed === true,
+          market: 'SP500' as const,
+          sector: company.sector,
+          industry: company.industry
+        }));
+
+      // Polygon does not cover the Tel Aviv exchange, so TA-125 dates come from web search only
+      console.log('Fetching TA-125 earnings calendar...');
+      const ta125Results = ta125Limit > 0
+        ? await this.sp500Manager.fetchEarningsCalendarForTA125(ta125Limit)
+        : [];
+
+      const formattedTA125Results = ta125Results
+        .filter((company: any) => company.nextEarningsDate)
+        .map((company: any) => ({
+          ticker: company.ticker,
+          companyName: company.companyName,
+          reportDate: company.nextEarningsDate!,
+          fiscalPeriod: company.quarterlyPattern || 'Q4',
+          fiscalYear: company.nextEarningsDate!.getFullYear(),
+          reportTime: this.determineReportTime(company.ticker),
+          confidence: company.confidence,
+          confirmed: company.confirmed === true,
+          market: 'TA125' as const,
           sector: company.sector,
           industry: company.industry
         }));
 
       // Fetch from Polygon for top companies as backup
       console.log('Fetching backup data from Polygon...');
-      const polygonResults = await this.polygonTool.getEarningsCalendar();
+      const polygonResults = await this.marketData.getEarningsCalendar();
       
       let webResults: Array<any> = [];
       
@@ -81,12 +114,12 @@ export class EarningsAgent {
           try {
             const companyName = getTopSP500Companies().find(c => c.ticker === ticker)?.companyName || ticker;
             const query = DateQuarterUtils.buildDynamicEarningsQuery(ticker, companyName);
-            const searchResponse = await this.serperTool.search(query);
-            const tickerResults = parseEarningsCalendarResults(searchResponse);
+            const searchResponse = await this.serperTool.search(query, 'earnings');
+            // Results of a search for one company are about that company, whatever symbol the snippet starts with
+            const tickerResults = parseEarningsCalendarResults(searchResponse)
+              .filter(result => result.date)
+              .map(result => ({ ...result, ticker, companyName }));
             webResults.push(...tickerResults);
-            
-            // Rate limiting
-            await new Promise(resolve => setTimeout(resolve, 1000));
           } catch (error) {
             console.warn(`Web search failed for ${ticker}:`, error);
           }
@@ -94,12 +127,17 @@ export class EarningsAgent {
       }
 
       // Combine all results with S&P 500 data prioritized
-      const combined = this.combineEarningsDataWithSP500(formattedSP500Results, polygonResults.results, webResults);
+      const combined = this.combineEarningsDataWithSP500(
+        [...formattedSP500Results, ...formattedTA125Results],
+        polygonResults.results,
+        webResults
+      );
 
-      console.log(`Earnings calendar fetch completed: ${formattedSP500Results.length} S&P 500, ${polygonResults.results.length} Polygon, ${webResults.length} web results`);
+      console.log(`Earnings calendar fetch completed: ${formattedSP500Results.length} S&P 500, ${formattedTA125Results.length} TA-125, ${polygonResults.results.length} Polygon, ${webResults.length} web results`);
 
       return {
         sp500: formattedSP500Results,
+        ta125: formattedTA125Results,
         polygon: polygonResults.results,
         webSearch: webResults,
         combined,
@@ -123,21 +161,28 @@ export class EarningsAgent {
     fiscalYear: number;
     source: 'polygon' | 'web';
     confidence: number;
+    confirmed: boolean;
   }>> {
     try {
       console.log(`Fetching earnings for specific tickers: ${tickers.join(', ')}`);
       
       // Get upcoming earnings from Polygon for specific tickers
-      const polygonResults = await this.polygonTool.getUpcomingEarnings(tickers);
+      const polygonResults = await this.marketData.getUpcomingEarnings(tickers);
       
       // Enhance with web search for each ticker
       const enhancedResults = [];
       
       for (const result of polygonResults) {
         enhancedResults.push({
-          ...result,
+          ticker: result.ticker,
+          companyName: result.companyName,
+          expectedDate: result.reportDate,
+          expectedTime: result.reportTime,
+          fiscalPeriod: result.fiscalPeriod,
+          fiscalYear: result.fiscalYear,
           source: 'polygon' as const,
-          confidence: 0.9 // High confidence for Polygon data
+          confidence: 0.9, // High confidence for Polygon data
+          confirmed: false
         });
       }
 
@@ -150,8 +195,9 @@ export class EarningsAgent {
         
         for (const ticker of missingTickers) {
           try {
-            const searchQuery = `${ticker} earnings date 2025 when next earnings call`;
-            const searchResponse = await this.serperTool.search(searchQuery);
+            const exchange = isCuratedTA125Ticker(ticker) ? ' TASE' : '';
+            const searchQuery = `${ticker}${exchange} earnings date 2025 when next earnings call`;
+            const searchResponse = await this.serperTool.search(searchQuery, 'earnings');
             const webResults = parseEarningsCalendarResults(searchResponse);
             
             const tickerResult = webResults.find(r => r.ticker === ticker);
@@ -164,12 +210,10 @@ export class EarningsAgent {
                 fiscalPeriod: 'Q1', // Default assumption
                 fiscalYear: new Date().getFullYear(),
                 source: 'web' as const,
-                confidence: 0.6 // Lower confidence for web data
+                confidence: 0.6, // Lower confidence for web data
+                confirmed: tickerResult.confirmed
               });
             }
-            
-            // Rate limiting
-            await new Promise(resolve => setTimeout(resolve, 1000));
           } catch (error) {
             console.error(`Error searching for ${ticker}:`, error);
           }
@@ -189,7 +233,8 @@ export class EarningsAgent {
   async updateDatabaseWithRealEarnings(
     startDate?: string,
     endDate?: string,
-    limit: number = 50
+    limit: number = 50,
+    ta125Limit: number = limit
   ): Promise<{
     updated: number;
     created: number;
@@ -201,9 +246,9 @@ export class EarningsAgent {
     }>;
   }> {
     try {
-      console.log(`Updating database with real earnings data for ${limit} S&P 500 companies...`);
+      console.log(`Updating database with real earnings data for ${limit} S&P 500 and ${ta125Limit} TA-125 companies...`);
       
-      const earningsData = await this.fetchEarningsCalendar(startDate, endDate, true, limit);
+      const earningsData = await this.fetchEarningsCalendar(startDate, endDate, true, limit, ta125Limit);
       
       const results = [];
       let updated = 0;
@@ -212,70 +257,36 @@ export class EarningsAgent {
 
       for (const earnings of earningsData.combined) {
         try {
-          // Check if earnings event already exists (simplified to avoid index requirement)
-          const existingQuery = adminDb.collection('earnings_events')
-            .where('ticker', '==', earnings.ticker);
-          
-          const existingSnapshot = await existingQuery.get();
-          
-          if (!existingSnapshot.empty) {
-            // Update the most recent existing record for this ticker (strict duplicate prevention)
-            const mostRecentDoc = existingSnapshot.docs.reduce((latest, current) => {
-              const latestDate = latest.data().updatedAt?.toDate() || latest.data().createdAt?.toDate() || new Date(0);
-              const currentDate = current.data().updatedAt?.toDate() || current.data().createdAt?.toDate() || new Date(0);
-              return currentDate > latestDate ? current : latest;
-            });
-            
-            // Build update object, filtering out undefined values
-            const updateData: any = {
+          // The stored candidates from other sources are merged in before the date is reconciled
+          const { action, reconciled } = await this.earningsDates.applyDateCandidates({
+            ticker: earnings.ticker,
+            candidates: earnings.candidates,
+            fields: {
               companyName: earnings.companyName || earnings.ticker, // Fallback to ticker
-              expectedDate: earnings.expectedDate,
+              expectedTime: earnings.expectedTime || 'after_market',
               quarter: earnings.fiscalPeriod || 'Q4', // Default to Q4
               fiscalYear: earnings.fiscalYear || new Date().getFullYear(),
-              dataSource: earnings.source || 'unknown',
-              confidence: earnings.confidence || 0.5,
-              updatedAt: new Date()
-            };
-            
-            // Only add expectedTime if it's defined
-            if (earnings.expectedTime) {
-              updateData.expectedTime = earnings.expectedTime;
-            } else {
-              updateData.expectedTime = 'after_market'; // Default value
+              market: earnings.market,
+              ...(earnings.sector && { sector: earnings.sector })
+            },
+            defaults: {
+              sector: 'Unknown' // Will be updated by other agents
             }
-            
-            await mostRecentDoc.ref.update(updateData);
-            
+          });
+          
+          if (action === 'updated') {
             updated++;
             results.push({
               ticker: earnings.ticker,
               action: 'updated' as const,
-              message: `Updated existing earnings record with ${earnings.source} data`
+              message: `Updated existing earnings record with ${reconciled?.source} data`
             });
-          } else {
-            // Create new record with proper defaults
-            const newRecordData = {
-              ticker: earnings.ticker,
-              companyName: earnings.companyName || earnings.ticker,
-              expectedDate: earnings.expectedDate,
-              expectedTime: earnings.expectedTime || 'after_market',
-              market: this.guessMarket(earnings.ticker),
-              sector: 'Unknown', // Will be updated by other agents
-              quarter: earnings.fiscalPeriod || 'Q4',
-              fiscalYear: earnings.fiscalYear || new Date().getFullYear(),
-              dataSource: earnings.source || 'unknown',
-              confidence: earnings.confidence || 0.5,
-              createdAt: new Date(),
-              updatedAt: new Date()
-            };
-            
-            await adminDb.collection('earnings_events').add(newRecordData);
-            
+          } else if (action === 'created') {
             created++;
             results.push({
               ticker: earnings.ticker,
               action: 'created' as const,
-              message: `Created new earnings record from ${earnings.source} data`
+              message: `Created new earnings record from ${reconciled?.source} data`
             });
           }
         } catch (error) {
@@ -310,72 +321,97 @@ export class EarningsAgent {
     // Most companies report after market close
     // Some known before-market reporters: JPM, WFC, GS, etc.
     const beforeMarketTickers = ['JPM', 'WFC', 'GS', 'BAC', 'C'];
-    return beforeMarketTickers.includes(ticker) ? 'before_market' : 'after_market';
+    if (beforeMarketTickers.includes(ticker)) {
+      return 'before_market';
+    }
+
+    // Tel Aviv-only companies usually publish before the TASE open; dual listings follow US hours
+    if (isCuratedTA125Ticker(ticker) && !getCuratedTA125Companies().find(c => c.ticker === ticker)?.dualListed) {
+      return 'before_market';
+    }
+
+    return 'after_market';
   }
 
   /**
-   * Combine earnings data with S&P 500 prioritization
+   * Collect every source's date per ticker and reconcile them, keeping S&P 500 / TA-125 company details
    */
   private combineEarningsDataWithSP500(sp500Results: Array<any>, polygonResults: Array<any>, webResults: Array<any>): Array<any> {
-    const combined = new Map();
+    const fetchedAt = new Date();
+    const combined = new Map<string, any>();
+
+    const addCandidate = (ticker: string, details: () => any, candidate: Omit<EarningsDateCandidate, 'fetchedAt'>) => {
+      if (isNaN(candidate.date.getTime())) {
+        return;
+      }
+      if (!combined.has(ticker)) {
+        combined.set(ticker, { ...details(), candidates: [] });
+      }
+      combined.get(ticker).candidates.push({ ...candidate, fetchedAt });
+    };
     
-    // Start with S&P 500 results (highest priority)
+    // Start with S&P 500 and TA-125 results so their company details are kept
     sp500Results.forEach(result => {
-      const key = `${result.ticker}-${result.reportDate.toISOString().split('T')[0]}`;
-      combined.set(key, {
+      addCandidate(result.ticker, () => ({
         ticker: result.ticker,
         companyName: result.companyName,
-        expectedDate: result.reportDate,
         expectedTime: result.reportTime || 'after_market',
         fiscalPeriod: result.fiscalPeriod || 'Q4',
-        fiscalYear: result.fiscalYear || new Date().getFullYear(),
-        source: 'sp500',
-        confidence: result.confidence || 0.8,
+        market: result.market || 'SP500',
         sector: result.sector,
         industry: result.industry
+      }), {
+        source: result.market === 'TA125' ? 'ta125' : 'sp500',
+        date: result.reportDate,
+        confidence: result.confidence || 0.8,
+        confirmed: result.confirmed === true
       });
     });
     
-    // Add Polygon results (medium priority, don't overwrite S&P 500)
+    // Polygon's calendar is projected, never announced
     polygonResults.forEach(result => {
-      const key = `${result.ticker}-${result.reportDate.toISOString().split('T')[0]}`;
-      
-      if (!combined.has(key)) {
-        combined.set(key, {
-          ticker: result.ticker,
-          companyName: result.companyName || result.ticker,
-          expectedDate: result.reportDate,
-          expectedTime: result.reportTime || 'after_market',
-          fiscalPeriod: result.fiscalPeriod || 'Q4',
-          fiscalYear: result.fiscalYear || new Date().getFullYear(),
-          source: 'polygon',
-          confidence: 0.9
-        });
-      }
+      addCandidate(result.ticker, () => ({
+        ticker: result.ticker,
+        companyName: result.companyName || result.ticker,
+        expectedTime: result.reportTime || 'after_market',
+        fiscalPeriod: result.fiscalPeriod || 'Q4',
+        market: this.guessMarket(result.ticker)
+      }), {
+        source: 'polygon',
+        date: result.reportDate,
+        confidence: 0.9,
+        confirmed: false
+      });
     });
     
-    // Add web results (lowest priority)
     webResults.forEach(result => {
       if (result.ticker && result.date) {
-        const parsedDate = this.parseDate(result.date);
-        const key = `${result.ticker}-${parsedDate.toISOString().split('T')[0]}`;
-        
-        if (!combined.has(key)) {
-          combined.set(key, {
-            ticker: result.ticker,
-            companyName: result.companyName || result.ticker,
-            expectedDate: parsedDate,
-            expectedTime: 'after_market',
-            fiscalPeriod: 'Q4',
-            fiscalYear: parsedDate.getFullYear(),
-            source: 'web',
-            confidence: 0.6
-          });
-        }
+        addCandidate(result.ticker, () => ({
+          ticker: result.ticker,
+          companyName: result.companyName || result.ticker,
+          expectedTime: 'after_market',
+          fiscalPeriod: 'Q4',
+          market: this.guessMarket(result.ticker)
+        }), {
+          source: 'web',
+          date: this.parseDate(result.date),
+          confidence: 0.6,
+          confirmed: result.confirmed === true
+        });
       }
     });
     
-    return Array.from(combined.values());
+    return Array.from(combined.values()).map(entry => {
+      const reconciled = reconcileEarningsDate(entry.candidates, fetchedAt)!;
+      return {
+        ...entry,
+        expectedDate: reconciled.date,
+        fiscalYear: reconciled.date.getFullYear(),
+        source: reconciled.source,
+        confidence: reconciled.confidence,
+        confirmed: reconciled.confirmed
+      };
+    });
   }
 
   /**
@@ -450,11 +486,10 @@ export class EarningsAgent {
   }
 
   /**
-   * Guess market based on ticker (simple heuristic)
+   * Guess market based on ticker, using the curated TA-125 list
    */
   private guessMarket(ticker: string): 'SP500' | 'TA125' {
-    // Very basic heuristic - in reality you'd want a proper mapping
-    return 'SP500'; // Default to S&P 500
+    return getMarketForTicker(ticker);
   }
 
   /**
@@ -533,51 +568,34 @@ export class EarningsAgent {
             continue;
           }
 
-          // Prepare earnings event data first
-          const earningsEvent = {
+          const { action } = await this.earningsDates.applyDateCandidates({
             ticker: company.ticker,
-            companyName: company.companyName,
-            expectedDate: company.nextEarningsDate,
-            expectedTime: this.determineReportTime(company.ticker),
-            market: 'SP500' as const,
-            sector: company.sector,
-            quarter: company.quarterlyPattern || this.guessQuarter(company.nextEarningsDate),
-            fiscalYear: company.nextEarningsDate.getFullYear(),
-            confidence: company.confidence,
-            dataSource: 'sp500_tech_filtered',
-            needsAnalysis: company.needsAnalysis,
-            daysUntilEarnings: company.daysUntilEarnings,
-            updatedAt: new Date(),
-          };
-
-          // Strict duplicate prevention: check for any existing records with same ticker
-          const existingQuery = adminDb.collection('earnings_events')
-            .where('ticker', '==', company.ticker);
-          
-          const existing = await existingQuery.get();
-          
-          if (!existing.empty) {
-            // Ticker already exists - update the most recent record instead of creating duplicates
-            const mostRecentDoc = existing.docs.reduce((latest, current) => {
-              const latestDate = latest.data().updatedAt?.toDate() || latest.data().createdAt?.toDate() || new Date(0);
-              const currentDate = current.data().updatedAt?.toDate() || current.data().createdAt?.toDate() || new Date(0);
-              return currentDate > latestDate ? current : latest;
-            });
-            
-            // Always update existing record to prevent any duplicates
-            await adminDb.collection('earnings_events').doc(mostRecentDoc.id).update(earningsEvent);
+            candidates: [{
+              source: 'sp500',
+              date: company.nextEarningsDate,
+              confidence: company.confidence,
+              confirmed: company.confirmed === true,
+              fetchedAt: new Date()
+            }],
+            fields: {
+              companyName: company.companyName,
+              expectedTime: this.determineReportTime(company.ticker),
+              market: 'SP500' as const,
+              sector: company.sector,
+              quarter: company.quarterlyPattern || this.guessQuarter(company.nextEarningsDate),
+              fiscalYear: company.nextEarningsDate.getFullYear(),
+              needsAnalysis: company.needsAnalysis,
+              daysUntilEarnings: company.daysUntilEarnings
+            }
+          });
+
+          if (action === 'updated') {
             updated++;
             console.log(`Updated existing earnings event for ${company.ticker} (strict duplicate prevention)`);
-            continue;
+          } else if (action === 'created') {
+            created++;
+            console.log(`Created new earnings event for ${company.ticker}`);
           }
-
-          // Create new earnings event (only reached if no existing ticker found)
-          await adminDb.collection('earnings_events').add({
-            ...earningsEvent,
-            createdAt: new Date(),
-          });
-          created++;
-          console.log(`Created new earnings event for ${company.ticker}`);
         } catch (error) {
           console.error(`Error processing ${company.ticker}:`, error);
           errors++;
@@ -0,0 +1,444 @@
+import { randomUUID } from "crypto";
+import { FieldValue } from "firebase-admin/firestore";
+import { adminDb } from "../firebase-admin";
+import { toDate, withoutUndefined } from "../utils/firestoreValues";
+import type {
+  AgentJobStatus,
+  AgentUpdateJob,
+  AgentUpdateResult,
+  AgentUpdateRun,
+  AgentUpdateRunProgress,
+  AgentUpdateType,
+  BatchUpdateResult
+} from "@/types";
+
+export const AGENT_RUNS_COLLECTION = 'agent_update_runs';
+export const AGENT_JOBS_COLLECTION = 'agent_update_jobs';
+
+export const MAX_JOB_ATTEMPTS = 3;
+export const RETRY_BASE_DELAY_MS = 30 * 1000;
+export const JOB_LEASE_MS = 2 * 60 * 1000;
+
+// Firestore batches are capped at 500 writes
+const BATCH_SIZE = 400;
+
+/**
+ * Backoff before the next attempt: 30s, 1m, 2m, ...
+ */
+export function retryDelayMs(attempts: number): number {
+  return RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1);
+}
+
+const isLeaseExpired = (job: AgentUpdateJob, now: Date): boolean =>
+  !job.leaseExpiresAt || job.leaseExpiresAt.getTime() <= now.getTime();
+
+/**
+ * Queued jobs are claimable once their backoff has passed; running jobs once their lease
+ * expires (the worker that held them died or timed out) while attempts remain
+ */
+export function isJobClaimable(job: AgentUpdateJob, now: Date): boolean {
+  if (job.status === 'queued') {
+    return job.availableAt.getTime() <= now.getTime();
+  }
+  if (job.status === 'running') {
+    return isLeaseExpired(job, now) && job.attempts < job.maxAttempts;
+  }
+  return false;
+}
+
+/**
+ * A running job whose lease expired on its last attempt: every worker that took it died or timed out
+ */
+export function isJobAbandoned(job: AgentUpdateJob, now: Date): boolean {
+  return job.status === 'running' && isLeaseExpired(job, now) && job.attempts >= job.maxAttempts;
+}
+
+export function summarizeJobs(jobs: AgentUpdateJob[]): Pick<AgentUpdateRunProgress, 'counts' | 'retrying'> {
+  const counts: Record<AgentJobStatus, number> = { queued: 0, running: 0, done: 0, failed: 0 };
+  jobs.forEach(job => counts[job.status]++);
+
+  return {
+    counts,
+    retrying: jobs.filter(job => job.status === 'queued' && job.attempts > 0).length
+  };
+}
+
+/**
+ * Shape a finished run like the old synchronous batch result (used for agent_metrics)
+ */
+export function buildBatchResult(run: AgentUpdateRun, jobs: AgentUpdateJob[]): BatchUpdateResult {
+  const results: AgentUpdateResult[] = jobs.map(job => job.result || {
+    ticker: job.ticker,
+    success: false,
+    error: job.lastError,
+    newsUpdated: false,
+    financialsUpdated: false,
+    lastUpdated: job.updatedAt
+  });
+  const startTime = run.startedAt || run.createdAt;
+  const endTime = run.completedAt || new Date();
+
+  return {
+    totalProcessed: results.length,
+    successCount: results.filter(result => result.success).length,
+    errorCount: results.filter(result => !result.success).length,
+    results,
+    duration: endTime.getTime() - startTime.getTime(),
+    startTime,
+    endTime
+  };
+}
+
+function toJob(id: string, data: FirebaseFirestore.DocumentData): AgentUpdateJob {
+  return {
+    ...data,
+    id,
+    availableAt: toDate(data.availableAt),
+    leaseExpiresAt: data.leaseExpiresAt ? toDate(data.leaseExpiresAt) : undefined,
+    result: data.result ? { ...data.result, lastUpdated: toDate(data.result.lastUpdated) } : undefined,
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt)
+  } as AgentUpdateJob;
+}
+
+function toRun(id: string, data: FirebaseFirestore.DocumentData): AgentUpdateRun {
+  return {
+    ...data,
+    id,
+    createdAt: toDate(data.createdAt),
+    startedAt: data.startedAt ? toDate(data.startedAt) : undefined,
+    completedAt: data.completedAt ? toDate(data.completedAt) : undefined
+  } as AgentUpdateRun;
+}
+
+/**
+ * Agent Job Queue
+ * Firestore-backed queue of per-ticker update jobs, grouped into runs
+ */
+export class AgentJobQueue {
+  /**
+   * Create a run with one queued job per ticker
+   */
+  async createRun(
+    type: AgentUpdateType,
+    tickers: string[],
+    requestedBy: string,
+    now: Date = new Date()
+  ): Promise<AgentUpdateRun> {
+    const uniqueTickers = [...new Set(tickers.map(ticker => ticker.trim().toUpperCase()).filter(Boolean))];
+    const runRef = adminDb.collection(AGENT_RUNS_COLLECTION).doc();
+
+    const run: AgentUpdateRun = {
+      id: runRef.id,
+      type,
+      status: uniqueTickers.length > 0 ? 'queued' : 'completed',
+      tickers: uniqueTickers,
+      requestedBy,
+      successCount: 0,
+      errorCount: 0,
+      createdAt: now,
+      ...(uniqueTickers.length === 0 && { completedAt: now })
+    };
+
+    await runRef.set(run);
+
+    for (let i = 0; i < uniqueTickers.length; i += BATCH_SIZE) {
+      const batch = adminDb.batch();
+      uniqueTickers.slice(i, i + BATCH_SIZE).forEach(ticker => {
+        const jobRef = adminDb.collection(AGENT_JOBS_COLLECTION).doc(`${run.id}_${ticker}`);
+        batch.set(jobRef, {
+          runId: run.id,
+          ticker,
+          status: 'queued',
+          attempts: 0,
+          maxAttempts: MAX_JOB_ATTEMPTS,
+          availableAt: now,
+          createdAt: now,
+          updatedAt: now
+        });
+      });
+      await batch.commit();
+    }
+
+    console.log(`📥 Queued ${type} update run ${run.id} with ${uniqueTickers.length} tickers`);
+    return run;
+  }
+
+  /**
+   * Claim the next available job (optionally within one run) and lease it to the caller
+   */
+  async claimNextJob(runId?: string, now: Date = new Date()): Promise<AgentUpdateJob | null> {
+    let query = adminDb.collection(AGENT_JOBS_COLLECTION).where('status', 'in', ['queued', 'running']);
+    if (runId) {
+      query = query.where('runId', '==', runId);
+    }
+
+    // Oldest first, so a large backlog can't starve the jobs that have waited longest
+    const snapshot = await query.orderBy('availableAt').limit(100).get();
+    const candidates = snapshot.docs
+      .map(doc => toJob(doc.id, doc.data()))
+      .filter(job => isJobClaimable(job, now));
+
+    for (const candidate of candidates) {
+      const jobRef = adminDb.collection(AGENT_JOBS_COLLECTION).doc(candidate.id);
+
+      // Another worker may have claimed it since the query
+      const claimed = await adminDb.runTransaction(async transaction => {
+        const doc = await transaction.get(jobRef);
+        const data = doc.data();
+        if (!doc.exists || !data) {
+          return null;
+        }
+
+        const job = toJob(doc.id, data);
+        if (!isJobClaimable(job, now)) {
+          return null;
+        }
+
+        const leased: AgentUpdateJob = {
+          ...job,
+          status: 'running',
+          attempts: job.attempts + 1,
+          leaseExpiresAt: new Date(now.getTime() + JOB_LEASE_MS),
+          leaseOwner: randomUUID(),
+          updatedAt: now
+        };
+        transaction.update(jobRef, {
+          status: leased.status,
+          attempts: leased.attempts,
+          leaseExpiresAt: leased.leaseExpiresAt,
+          leaseOwner: leased.leaseOwner,
+          updatedAt: now
+        });
+        return leased;
+      });
+
+      if (claimed) {
+        await this.markRunStarted(claimed.runId, now);
+        return claimed;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Push the lease out while the worker is still busy with the job, so a slow update isn't
+   * handed to a second worker. Returns false if the job has moved on (finished or re-leased).
+   */
+  async renewLease(job: AgentUpdateJob, now: Date = new Date()): Promise<boolean> {
+    return this.updateLeasedJob(job, { leaseExpiresAt: new Date(now.getTime() + JOB_LEASE_MS), updatedAt: now });
+  }
+
+  /**
+   * Fail abandoned jobs (optionally within one run) instead of retrying them forever.
+   * Returns the runs they belong to so the caller can close them.
+   */
+  async failAbandonedJobs(runId?: string, now: Date = new Date()): Promise<string[]> {
+    let query = adminDb.collection(AGENT_JOBS_COLLECTION).where('status', '==', 'running');
+    if (runId) {
+      query = query.where('runId', '==', runId);
+    }
+
+    const snapshot = await query.limit(100).get();
+    const abandoned = snapshot.docs
+      .map(doc => toJob(doc.id, doc.data()))
+      .filter(job => isJobAbandoned(job, now));
+
+    const runIds = new Set<string>();
+    for (const candidate of abandoned) {
+      const jobRef = adminDb.collection(AGENT_JOBS_COLLECTION).doc(candidate.id);
+
+      const failed = await adminDb.runTransaction(async transaction => {
+        const doc = await transaction.get(jobRef);
+        const data = doc.data();
+        if (!doc.exists || !data) {
+          return false;
+        }
+
+        const job = toJob(doc.id, data);
+        if (!isJobAbandoned(job, now)) {
+          return false;
+        }
+
+        transaction.update(jobRef, {
+          status: 'failed',
+          lastError: job.lastError || `Worker stopped responding on all ${job.attempts} attempts`,
+          leaseExpiresAt: FieldValue.delete(),
+          updatedAt: now
+        });
+        return true;
+      });
+
+      if (failed) {
+        console.warn(`⚠️ Gave up on ${candidate.ticker} in run ${candidate.runId} after ${candidate.attempts} expired leases`);
+        runIds.add(candidate.runId);
+      }
+    }
+
+    return [...runIds];
+  }
+
+  /**
+   * Mark the job done. Returns false, writing nothing, if the lease expired and the job was
+   * handed to another worker meanwhile.
+   */
+  async completeJob(job: AgentUpdateJob, result: AgentUpdateResult, now: Date = new Date()): Promise<boolean> {
+    const completed = await this.updateLeasedJob(job, {
+      status: 'done',
+      result: withoutUndefined(result),
+      lastError: FieldValue.delete(),
+      leaseExpiresAt: FieldValue.delete(),
+      leaseOwner: FieldValue.delete(),
+      updatedAt: now
+    });
+
+    if (!completed) {
+      console.warn(`⚠️ Lost the lease on ${job.ticker} in run ${job.runId}; its result was dropped`);
+    }
+    return completed;
+  }
+
+  /**
+   * Requeue with backoff, or mark failed once the attempts are used up. Returns null, writing
+   * nothing, if the lease expired and the job was handed to another worker meanwhile.
+   */
+  async failJob(job: AgentUpdateJob, error: string, now: Date = new Date()): Promise<AgentJobStatus | null> {
+    const exhausted = job.attempts >= job.maxAttempts;
+
+    const failed = await this.updateLeasedJob(job, {
+      status: exhausted ? 'failed' : 'queued',
+      lastError: error,
+      leaseExpiresAt: FieldValue.delete(),
+      leaseOwner: FieldValue.delete(),
+      ...(!exhausted && { availableAt: new Date(now.getTime() + retryDelayMs(job.attempts)) }),
+      updatedAt: now
+    });
+
+    if (!failed) {
+      console.warn(`⚠️ Lost the lease on ${job.ticker} in run ${job.runId}; its failure was dropped`);
+      return null;
+    }
+    return exhausted ? 'failed' : 'queued';
+  }
+
+  async getRun(runId: string): Promise<AgentUpdateRun | null> {
+    const doc = await adminDb.collection(AGENT_RUNS_COLLECTION).doc(runId).get();
+    const data = doc.data();
+    return doc.exists && data ? toRun(doc.id, data) : null;
+  }
+
+  async getJobs(runId: string): Promise<AgentUpdateJob[]> {
+    const snapshot = await adminDb.collection(AGENT_JOBS_COLLECTION).where('runId', '==', runId).get();
+    return snapshot.docs
+      .map(doc => toJob(doc.id, doc.data()))
+      .sort((a, b) => a.ticker.localeCompare(b.ticker));
+  }
+
+  async getRunProgress(runId: string): Promise<AgentUpdateRunProgress | null> {
+    const [run, jobs] = await Promise.all([this.getRun(runId), this.getJobs(runId)]);
+    if (!run) {
+      return null;
+    }
+
+    return { run, jobs, ...summarizeJobs(jobs) };
+  }
+
+  /**
+   * Most recent runs, newest first
+   */
+  async listRuns(limitCount: number = 10): Promise<AgentUpdateRun[]> {
+    const snapshot = await adminDb.collection(AGENT_RUNS_COLLECTION)
+      .orderBy('createdAt', 'desc')
+      .limit(limitCount)
+      .get();
+
+    return snapshot.docs.map(doc => toRun(doc.id, doc.data()));
+  }
+
+  /**
+   * Close the run once every job is done or failed. Returns the finished run and its jobs
+   * to the caller that closed it, or null if the run is still in progress or already closed.
+   */
+  async finalizeRunIfComplete(
+    runId: string,
+    now: Date = new Date()
+  ): Promise<{ run: AgentUpdateRun; jobs: AgentUpdateJob[] } | null> {
+    const jobs = await this.getJobs(runId);
+    if (jobs.some(job => job.status === 'queued' || job.status === 'running')) {
+      return null;
+    }
+
+    const successCount = jobs.filter(job => job.status === 'done').length;
+    const errorCount = jobs.length - successCount;
+    const runRef = adminDb.collection(AGENT_RUNS_COLLECTION).doc(runId);
+
+    const run = await adminDb.runTransaction(async transaction => {
+      const doc = await transaction.get(runRef);
+      const data = doc.data();
+      if (!doc.exists || !data) {
+        return null;
+      }
+
+      const current = toRun(doc.id, data);
+      if (current.status === 'completed' || current.status === 'failed') {
+        return null;
+      }
+
+      const finished: AgentUpdateRun = {
+        ...current,
+        status: successCount === 0 && errorCount > 0 ? 'failed' : 'completed',
+        successCount,
+        errorCount,
+        completedAt: now
+      };
+      transaction.update(runRef, {
+        status: finished.status,
+        successCount,
+        errorCount,
+        completedAt: now
+      });
+      return finished;
+    });
+
+    if (!run) {
+      return null;
+    }
+
+    console.log(`🏁 Update run ${runId} ${run.status}: ${successCount} succeeded, ${errorCount} failed`);
+    return { run, jobs };
+  }
+
+  /**
+   * Apply the update only while this worker's claim still holds the job's lease
+   */
+  private async updateLeasedJob(job: AgentUpdateJob, update: FirebaseFirestore.UpdateData<FirebaseFirestore.DocumentData>): Promise<boolean> {
+    const jobRef = adminDb.collection(AGENT_JOBS_COLLECTION).doc(job.id);
+
+    return adminDb.runTransaction(async transaction => {
+      const doc = await transaction.get(jobRef);
+      const data = doc.data();
+      if (!doc.exists || !data || data.status !== 'running' || data.leaseOwner !== job.leaseOwner) {
+        return false;
+      }
+
+      transaction.update(jobRef, update);
+      return true;
+    });
+  }
+
+  private async markRunStarted(runId: string, now: Date): Promise<void> {
+    const runRef = adminDb.collection(AGENT_RUNS_COLLECTION).doc(runId);
+    const doc = await runRef.get();
+    if (doc.exists && doc.data()?.status === 'queued') {
+      await runRef.update({ status: 'running', startedAt: now });
+    }
+  }
+}
+
+/**
+ * Create a new AgentJobQueue instance
+ */
+export function createAgentJobQueue(): AgentJobQueue {
+  return new AgentJobQueue();
+}
@@ -1,9 +1,28 @@
 import { createSearchAgent } from "./searchAgent";
 import { createPolygonAgent } from "./polygonAgent";
 import { createEarningsAgent } from "./earningsAgent";
+import { createAgentJobQueue, buildBatchResult, JOB_LEASE_MS, type AgentJobQueue } from "./jobQueue";
+import { createEarningsDateService, type EarningsDateService } from "../services/earningsDateService";
 import { adminDb } from "../firebase-admin";
 import { FieldValue } from "firebase-admin/firestore";
-import type { AgentUpdateResult, BatchUpdateResult } from "@/types";
+import type { AgentUpdateResult, AgentUpdateRun, AgentUpdateType, BatchUpdateResult } from "@/types";
+
+// Stay well inside a serverless request timeout; the next call picks up where this one stopped
+export const DEFAULT_WORKER_BUDGET_MS = 45 * 1000;
+
+export interface ProcessQueueOptions {
+  runId?: string;
+  timeBudgetMs?: number;
+  maxJobs?: number;
+}
+
+export interface ProcessQueueResult {
+  processed: number;
+  succeeded: number;
+  failed: number;
+  retried: number;
+  completedRuns: string[];
+}
 
 /**
  * Agent Orchestrator
@@ -13,11 +32,15 @@ export class AgentOrchestrator {
   private searchAgent: any;
   private polygonAgent: any;
   private earningsAgent: any;
+  private jobQueue: AgentJobQueue;
+  private earningsDates: EarningsDateService;
 
   constructor() {
     this.searchAgent = createSearchAgent();
     this.polygonAgent = createPolygonAgent();
     this.earningsAgent = createEarningsAgent();
+    this.jobQueue = createAgentJobQueue();
+    this.earningsDates = createEarningsDateService();
   }
 
   /**
@@ -109,8 +132,7 @@ export class AgentOrchestrator {
   private async updateTickerNews(ticker: string): Promise<void> {
     const newsData = await this.searchAgent.searchForTicker(ticker);
     await this.searchAgent.updateTickerNews(ticker, {
-      news: newsData.news,
-      summary: newsData.summary,
+      articles: newsData.articles,
       lastUpdated: newsData.lastUpdated
     });
   }
@@ -150,9 +172,6 @@ export class AgentOrchestrator {
       try {
         const result = await this.updateTicker(ticker);
         results.push(result);
-
-        // Add delay between tickers to respect rate limits
-        await new Promise(resolve => setTimeout(resolve, 2000)); // 2 second delay
       } catch (error) {
         console.error(`Batch update error for ${ticker}:`, error);
         results.push({
@@ -186,9 +205,9 @@ export class AgentOrchestrator {
   }
 
   /**
-   * Run full update cycle for all active tickers
+   * Queue a full update cycle for all active tickers; processQueuedJobs does the work
    */
-  async runFullUpdateCycle(limitCount: number = 10): Promise<BatchUpdateResult> {
+  async runFullUpdateCycle(limitCount: number = 10, requestedBy: string = 'system'): Promise<AgentUpdateRun> {
     try {
       console.log('Starting full update cycle');
       
@@ -196,31 +215,88 @@ export class AgentOrchestrator {
       
       if (tickers.length === 0) {
         console.log('No active tickers found');
-        return {
-          totalProcessed: 0,
-          successCount: 0,
-          errorCount: 0,
-          results: [],
-          duration: 0,
-          startTime: new Date(),
-          endTime: new Date()
-        };
+      } else {
+        console.log(`Found ${tickers.length} active tickers: ${tickers.join(', ')}`);
       }
-
-      console.log(`Found ${tickers.length} active tickers: ${tickers.join(', ')}`);
-      
-      const result = await this.updateTickersBatch(tickers);
       
-      // Log update cycle to usage metrics
-      await this.logUpdateCycle(result);
-      
-      return result;
+      return await this.enqueueUpdate('full', tickers, requestedBy);
     } catch (error) {
       console.error('Error running full update cycle:', error);
       throw error;
     }
   }
 
+  /**
+   * Queue an update run for the given tickers
+   */
+  async enqueueUpdate(type: AgentUpdateType, tickers: string[], requestedBy: string = 'system'): Promise<AgentUpdateRun> {
+    return this.jobQueue.createRun(type, tickers, requestedBy);
+  }
+
+  /**
+   * Drain queued jobs until the queue is empty or the time budget runs out.
+   * Failed tickers are retried with backoff; runs whose jobs are all finished are closed and logged.
+   */
+  async processQueuedJobs(options: ProcessQueueOptions = {}): Promise<ProcessQueueResult> {
+    const { runId, timeBudgetMs = DEFAULT_WORKER_BUDGET_MS, maxJobs = Infinity } = options;
+    const deadline = Date.now() + timeBudgetMs;
+    const touchedRuns = new Set<string>(runId ? [runId] : []);
+    const summary: ProcessQueueResult = { processed: 0, succeeded: 0, failed: 0, retried: 0, completedRuns: [] };
+
+    for (const id of await this.jobQueue.failAbandonedJobs(runId)) {
+      touchedRuns.add(id);
+    }
+
+    while (summary.processed < maxJobs && Date.now() < deadline) {
+      const job = await this.jobQueue.claimNextJob(runId);
+      if (!job) {
+        break;
+      }
+
+      touchedRuns.add(job.runId);
+      summary.processed++;
+
+      // Hold the lease for as long as the update takes
+      const heartbeat = setInterval(() => {
+        this.jobQueue.renewLease(job).catch(error => console.warn(`Could not renew lease for ${job.ticker}:`, error));
+      }, JOB_LEASE_MS / 2);
+
+      try {
+        const result = await this.updateTicker(job.ticker);
+
+        // A job whose lease was lost belongs to the worker that re-claimed it, so it isn't counted here
+        if (result.success) {
+          if (await this.jobQueue.completeJob(job, result)) {
+            summary.succeeded++;
+          }
+        } else {
+          const status = await this.jobQueue.failJob(job, result.error || 'Update failed');
+          if (status === 'failed') {
+            summary.failed++;
+          } else if (status === 'queued') {
+            summary.retried++;
+          }
+        }
+      } catch (error) {
+        // The lease expires and another worker picks the job up again
+        console.error(`Queue worker error for ${job.ticker}:`, error);
+      } finally {
+        clearInterval(heartbeat);
+      }
+    }
+
+    for (const id of touchedRuns) {
+      const finished = await this.jobQueue.finalizeRunIfComplete(id);
+      if (finished) {
+        summary.completedRuns.push(id);
+        await this.logUpdateCycle(buildBatchResult(finished.run, finished.jobs));
+      }
+    }
+
+    console.log(`Queue worker processed ${summary.processed} jobs: ${summary.succeeded} succeeded, ${summary.retried} retrying, ${summary.failed} failed`);
+    return summary;
+  }
+
   /**
    * Log update cycle metrics
    */
@@ -295,9 +371,13 @@ export class AgentOrchestrator {
   }
 
   /**
-   * Run smart update cycle (only updates stale data)
+   * Queue a smart update cycle (only stale data)
    */
-  async runSmartUpdateCycle(maxTickers: number = 10, maxAgeHours: number = 4): Promise<BatchUpdateResult> {
+  async runSmartUpdateCycle(
+    maxTickers: number = 10,
+    maxAgeHours: number = 4,
+    requestedBy: string = 'system'
+  ): Promise<AgentUpdateRun> {
     try {
       console.log('Starting smart update cycle');
       
@@ -305,20 +385,11 @@ export class AgentOrchestrator {
       
       if (tickers.length === 0) {
         console.log('No tickers need updating');
-        return {
-          totalProcessed: 0,
-          successCount: 0,
-          errorCount: 0,
-          results: [],
-          duration: 0,
-          startTime: new Date(),
-          endTime: new Date()
-        };
+      } else {
+        console.log(`Smart update will process ${tickers.length} tickers: ${tickers.join(', ')}`);
       }
-
-      console.log(`Smart update will process ${tickers.length} tickers: ${tickers.join(', ')}`);
       
-      return await this.updateTickersBatch(tickers);
+      return await this.enqueueUpdate('smart', tickers, requestedBy);
     } catch (error) {
       console.error('Error running smart update cycle:', error);
       throw error;
@@ -400,40 +471,26 @@ export class AgentOrchestrator {
       // Update the database with the refreshed data
       for (const result of results) {
         try {
-          // Look for existing earnings events for this ticker
-          const existingQuery = adminDb.collection('earnings_events')
-            .where('ticker', '==', result.ticker);
-          
-          const snapshot = await existingQuery.get();
-          
-          if (snapshot.empty) {
-            // Create new earnings event
-            await adminDb.collection('earnings_events').add({
-              ticker: result.ticker,
-              companyName: result.companyName,
-              expectedDate: result.expectedDate,
+          await this.earningsDates.applyDateCandidates({
+            ticker: result.ticker,
+            candidates: [{
+              source: result.source,
+              date: result.expectedDate,
+              confidence: result.confidence,
+              confirmed: result.confirmed,
+              fetchedAt: new Date()
+            }],
+            fields: {
               expectedTime: result.expectedTime,
+              fiscalYear: result.fiscalYear
+            },
+            defaults: {
+              companyName: result.companyName,
               market: 'SP500', // Default
               sector: 'Unknown',
-              quarter: result.fiscalPeriod,
-              fiscalYear: result.fiscalYear,
-              dataSource: result.source,
-              confidence: result.confidence,
-              createdAt: new Date(),
-              updatedAt: new Date()
-            });
-          } else {
-            // Update existing
-            const doc = snapshot.docs[0];
-            await doc.ref.update({
-              expectedDate: result.expectedDate,
-              expectedTime: result.expectedTime,
-              fiscalYear: result.fiscalYear,
-              dataSource: result.source,
-              confidence: result.confidence,
-              updatedAt: new Date()
-            });
-          }
+              quarter: result.fiscalPeriod
+            }
+          });
         } catch (error) {
           console.error(`Error updating earnings for ${result.ticker}:`, error);
         }
@@ -1,4 +1,4 @@
-import { createPolygonTool } from "../tools/polygonTool";
+import { createMarketDataProvider, type MarketDataProvider } from "../marketData/marketDataProvider";
 import { adminDb } from "../firebase-admin";
 
 /**
@@ -6,10 +6,10 @@ import { adminDb } from "../firebase-admin";
  * Fetches structured financial data using Polygon.io API
  */
 export class PolygonAgent {
-  private polygonTool: any;
+  private marketData: MarketDataProvider;
   
   constructor() {
-    this.polygonTool = createPolygonTool();
+    this.marketData = createMarketDataProvider();
   }
 
   /**
@@ -46,7 +46,7 @@ export class PolygonAgent {
       console.log(`Fetching financial data for ${ticker}`);
       
       // Get stock data from Polygon
-      const stockData = await this.polygonTool.getStockData(ticker);
+      const stockData = await this.marketData.getStockData(ticker);
       
       // Create a simple technical analysis
       const change = stockData.change >= 0 ? 'positive' : 'negative';
@@ -120,9 +120,6 @@ export class PolygonAgent {
       try {
         const result = await this.getFinancialData(ticker);
         results.push(result);
-        
-        // Add delay to respect API rate limits
-        await new Promise(resolve => setTimeout(resolve, 200)); // Polygon allows 5 requests per second
       } catch (error) {
         console.error(`Error processing ticker ${ticker}:`, error);
         results.push({
@@ -1,5 +1,7 @@
-import { createSerperTool, formatStockNewsQuery, parseSerperResults } from "../tools/serperTool";
+import { createSerperTool, formatStockNewsQuery, parseSerperNewsArticles, type ParsedNewsArticle } from "../tools/serperTool";
+import { createNewsService, type NewsService } from "../services/newsService";
 import { adminDb } from "../firebase-admin";
+import type { StockNews } from "@/types";
 
 /**
  * Web Search Agent
@@ -7,35 +9,30 @@ import { adminDb } from "../firebase-admin";
  */
 export class SearchAgent {
   private serperTool: any;
+  private newsService: NewsService;
   
   constructor() {
     this.serperTool = createSerperTool();
+    this.newsService = createNewsService();
   }
 
   /**
-   * Search for news and updates for a specific ticker
+   * Search for news articles about a specific ticker
    */
   async searchForTicker(ticker: string): Promise<{
     ticker: string;
-    news: string[];
-    summary: string;
+    articles: ParsedNewsArticle[];
     lastUpdated: Date;
   }> {
     try {
       const query = formatStockNewsQuery(ticker);
-      const searchResults = await this.serperTool.search(query);
-      
-      // Parse the search results
-      const newsItems = parseSerperResults(searchResults);
-      
-      // Create a simple summary based on the news items
-      const summary = `Recent news summary for ${ticker}: Found ${newsItems.length} relevant news items covering earnings, market updates, and analyst reports.`;
+      const searchResults = await this.serperTool.searchNews(query);
+      const now = new Date();
 
       return {
         ticker,
-        news: newsItems,
-        summary,
-        lastUpdated: new Date(),
+        articles: parseSerperNewsArticles(searchResults, now),
+        lastUpdated: now,
       };
     } catch (error) {
       console.error(`Error searching for ticker ${ticker}:`, error);
@@ -48,8 +45,7 @@ export class SearchAgent {
    */
   async searchForTickers(tickers: string[]): Promise<Array<{
     ticker: string;
-    news: string[];
-    summary: string;
+    articles: ParsedNewsArticle[];
     lastUpdated: Date;
     success: boolean;
     error?: string;
@@ -61,15 +57,11 @@ export class SearchAgent {
         console.log(`Searching for news: ${ticker}`);
         const result = await this.searchForTicker(ticker);
         results.push({ ...result, success: true });
-        
-        // Add delay to respect rate limits
-        await new Promise(resolve => setTimeout(resolve, 1000));
       } catch (error) {
         console.error(`Error searching for ${ticker}:`, error);
         results.push({
           ticker,
-          news: [],
-          summary: '',
+          articles: [],
           lastUpdated: new Date(),
           success: false,
           error: error instanceof Error ? error.message : 'Unknown error'
@@ -81,42 +73,29 @@ export class SearchAgent {
   }
 
   /**
-   * Update database with news data for a ticker
+   * Merge the articles into stock_news (summary, themes, per-article sentiment)
+   * and copy the headlines and summary onto the ticker's earnings events
    */
   async updateTickerNews(ticker: string, newsData: {
-    news: string[];
-    summary: string;
+    articles: ParsedNewsArticle[];
     lastUpdated: Date;
-  }): Promise<void> {
+  }): Promise<StockNews> {
     try {
-      // Update the earnings_events collection with news data
-      const earningsQuery = adminDb.collection('earnings_events')
-        .where('ticker', '==', ticker);
-      
-      const snapshot = await earningsQuery.get();
-      
-      const updatePromises = snapshot.docs.map(doc => {
-        return doc.ref.update({
-          news: newsData.news,
-          newsSummary: newsData.summary,
-          newsLastUpdated: newsData.lastUpdated,
-          updatedAt: new Date()
-        });
-      });
-      
-      await Promise.all(updatePromises);
+      const stockNews = await this.newsService.refreshStockNews(ticker, newsData.articles, newsData.lastUpdated);
+
+      const snapshot = await adminDb.collection('earnings_events')
+        .where('ticker', '==', ticker)
+        .get();
       
-      // Also create/update a dedicated news collection
-      const newsDoc = adminDb.collection('stock_news').doc(ticker);
-      await newsDoc.set({
-        ticker,
-        news: newsData.news,
-        summary: newsData.summary,
-        lastUpdated: newsData.lastUpdated,
+      await Promise.all(snapshot.docs.map(doc => doc.ref.update({
+        news: stockNews.news,
+        newsSummary: stockNews.summary,
+        newsLastUpdated: newsData.lastUpdated,
         updatedAt: new Date()
-      }, { merge: true });
+      })));
       
       console.log(`Updated news data for ${ticker}`);
+      return stockNews;
     } catch (error) {
       console.error(`Error updating news for ${ticker}:`, error);
       throw error;
@@ -0,0 +1,698 @@
+import { adminDb } from "../firebase-admin";
+import { FieldValue } from "firebase-admin/firestore";
+import { getMessaging } from "firebase-admin/messaging";
+import { format } from "date-fns";
+import { emailService } from "../services/emailService";
+import { createMarketPriceSource, type MarketPriceSource, type TickerSnapshot } from "../marketData/marketDataProvider";
+import { getMarketForTicker } from "../utils/ta125Tickers";
+import { formatPrice, getMarketCurrency } from "../utils/currency";
+import { RATING_CHANGES_COLLECTION } from "../analysts/enhancedAnalystTracker";
+import { toDate } from "../utils/firestoreValues";
+import type {
+  AlertRule,
+  AlertCondition,
+  AlertAction,
+  AlertHistory,
+  EarningsEvent,
+  RatingChangeEvent,
+  SentimentSignal,
+  User,
+} from "@/types";
+
+const DEFAULT_DAYS_AHEAD = 7;
+const DEFAULT_CONFIDENCE_THRESHOLD = 0.8;
+const MAX_LOOKAHEAD_DAYS = 30;
+const DEFAULT_COOLDOWN_MINUTES = 60;
+
+// alert_history entries for analyst upgrades/downgrades are not tied to a user's rule
+export const RATING_CHANGE_RULE_ID = 'analyst-rating-change';
+
+const LEVEL_CONDITIONS: AlertCondition['type'][] = ['price_above', 'price_below'];
+const PRICE_CONDITIONS: AlertCondition['type'][] = [...LEVEL_CONDITIONS, 'percent_change_day', 'gap_at_open'];
+
+export type { TickerSnapshot };
+
+/**
+ * Everything a rule's conditions can be matched against for one ticker
+ */
+export interface AlertContext {
+  ticker: string;
+  now: Date;
+  earningsEvent?: EarningsEvent;
+  signal?: SentimentSignal;
+  snapshot?: TickerSnapshot;
+}
+
+export interface AlertEvaluationResult {
+  rulesEvaluated: number;
+  alertsSent: number;
+  alertsFailed: number;
+  duplicatesSkipped: number;
+  errors: string[];
+  results: Array<{
+    ruleId: string;
+    userId: string;
+    ticker: string;
+    status: AlertHistory['status'];
+    message: string;
+  }>;
+}
+
+export const usesPriceConditions = (conditions: AlertCondition[]): boolean =>
+  conditions.some(c => PRICE_CONDITIONS.includes(c.type));
+
+export const usesLevelConditions = (conditions: AlertCondition[]): boolean =>
+  conditions.some(c => LEVEL_CONDITIONS.includes(c.type));
+
+/**
+ * Percentage gap between today's open and the previous close
+ */
+export function calculateGapPercent(snapshot: TickerSnapshot): number {
+  if (!snapshot.previousClose || !snapshot.open) return 0;
+  return (snapshot.open - snapshot.previousClose) / snapshot.previousClose * 100;
+}
+
+const exceedsMove = (move: number, percent: number, direction: 'up' | 'down' | 'any' = 'any'): boolean => {
+  if (direction === 'up') return move >= percent;
+  if (direction === 'down') return move <= -percent;
+  return Math.abs(move) >= percent;
+};
+
+/**
+ * Check a single condition against the ticker context
+ */
+export function evaluateCondition(condition: AlertCondition, context: AlertContext): boolean {
+  const parameters = condition.parameters || {};
+
+  // Price conditions can be scoped to one ticker
+  if (PRICE_CONDITIONS.includes(condition.type) && parameters.ticker && parameters.ticker !== context.ticker) {
+    return false;
+  }
+
+  switch (condition.type) {
+    case 'watchlist_earnings': {
+      if (!context.earningsEvent) return false;
+      const daysAhead = parameters.daysAhead ?? DEFAULT_DAYS_AHEAD;
+      const expectedDate = new Date(context.earningsEvent.expectedDate);
+      const windowEnd = context.now.getTime() + daysAhead * 24 * 60 * 60 * 1000;
+      return expectedDate.getTime() >= context.now.getTime() && expectedDate.getTime() <= windowEnd;
+    }
+
+    case 'sentiment_available':
+      return !!context.signal && new Date(context.signal.expiresAt) > context.now;
+
+    case 'high_confidence': {
+      if (!context.signal) return false;
+      const threshold = parameters.threshold ?? DEFAULT_CONFIDENCE_THRESHOLD;
+      return context.signal.confidence >= threshold;
+    }
+
+    case 'price_above':
+      return !!context.snapshot && typeof parameters.price === 'number' &&
+        context.snapshot.price > 0 && context.snapshot.price >= parameters.price;
+
+    case 'price_below':
+      return !!context.snapshot && typeof parameters.price === 'number' &&
+        context.snapshot.price > 0 && context.snapshot.price <= parameters.price;
+
+    case 'percent_change_day':
+      return !!context.snapshot && typeof parameters.percent === 'number' &&
+        exceedsMove(context.snapshot.changePercent, parameters.percent, parameters.direction);
+
+    case 'gap_at_open':
+      return !!context.snapshot && typeof parameters.percent === 'number' &&
+        exceedsMove(calculateGapPercent(context.snapshot), parameters.percent, parameters.direction);
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * A rule matches only when every one of its conditions matches
+ */
+export function evaluateConditions(conditions: AlertCondition[], context: AlertContext): boolean {
+  if (!conditions || conditions.length === 0) return false;
+  return conditions.every(condition => evaluateCondition(condition, context));
+}
+
+/**
+ * Build the de-duplication key for the event/signal that satisfied a rule.
+ * Earnings-based rules fire once per earnings event, sentiment-only rules once per signal,
+ * daily move rules once per day and price-level rules once per crossing.
+ */
+export function buildEventKey(conditions: AlertCondition[], context: AlertContext): string | null {
+  if (usesLevelConditions(conditions)) {
+    return `crossing-${context.now.getTime()}`;
+  }
+  if (usesPriceConditions(conditions)) {
+    return `move-${context.now.toISOString().split('T')[0]}`;
+  }
+
+  const usesEarnings = conditions.some(c => c.type === 'watchlist_earnings');
+
+  if (usesEarnings && context.earningsEvent) {
+    return `earnings-${context.earningsEvent.id}`;
+  }
+  if (context.signal) {
+    return `signal-${context.signal.id}`;
+  }
+  if (context.earningsEvent) {
+    return `earnings-${context.earningsEvent.id}`;
+  }
+  return null;
+}
+
+/**
+ * Human readable alert body used for both email and push
+ */
+export function buildAlertMessage(context: AlertContext): string {
+  const parts: string[] = [];
+
+  if (context.earningsEvent) {
+    const event = context.earningsEvent;
+    parts.push(
+      `${event.ticker} reports ${event.quarter} earnings on ${format(new Date(event.expectedDate), 'MMM dd, yyyy')} (${event.expectedTime.replace('_', ' ')}).`
+    );
+  }
+
+  if (context.snapshot) {
+    const snapshot = context.snapshot;
+    const sign = snapshot.changePercent >= 0 ? '+' : '';
+    const price = formatPrice(snapshot.price, getMarketCurrency(getMarketForTicker(context.ticker)));
+    parts.push(
+      `${context.ticker} is trading at ${price} (${sign}${snapshot.changePercent.toFixed(2)}% today, gap ${calculateGapPercent(snapshot).toFixed(2)}% at open).`
+    );
+  }
+
+  if (context.signal) {
+    const signal = context.signal;
+    parts.push(
+      `AI sentiment: ${signal.sentiment.toUpperCase()} (${Math.round(signal.confidence * 100)}% confidence) - ${signal.reasoning}`
+    );
+  }
+
+  return parts.length > 0 ? parts.join(' ') : `Alert triggered for ${context.ticker}.`;
+}
+
+/**
+ * Push body for an analyst changing their call on a watched ticker
+ */
+export function buildRatingChangeMessage(change: RatingChangeEvent): string {
+  return `${change.analystName || 'An analyst'} ${change.direction}d ${change.ticker} from ${change.from} to ${change.to}.`;
+}
+
+/**
+ * Alert Rule Engine
+ * Evaluates active alert rules against earnings events, sentiment signals and
+ * price snapshots for each user's watchlist and dispatches the configured actions
+ */
+export class AlertEngine {
+  private priceSources: Partial<Record<'SP500' | 'TA125', MarketPriceSource>> = {};
+
+  /**
+   * Evaluate all active rules and dispatch alerts for new matches
+   */
+  async runEvaluation(now: Date = new Date()): Promise<AlertEvaluationResult> {
+    const result: AlertEvaluationResult = {
+      rulesEvaluated: 0,
+      alertsSent: 0,
+      alertsFailed: 0,
+      duplicatesSkipped: 0,
+      errors: [],
+      results: [],
+    };
+
+    const rulesSnapshot = await adminDb.collection('alert_rules')
+      .where('isActive', '==', true)
+      .get();
+
+    const rules = rulesSnapshot.docs.map(doc => ({ ...doc.data(), id: doc.id } as AlertRule));
+    console.log(`Evaluating ${rules.length} active alert rules`);
+
+    if (rules.length === 0) {
+      return result;
+    }
+
+    const [earningsByTicker, signalsByTicker] = await Promise.all([
+      this.loadUpcomingEarnings(now),
+      this.loadActiveSignals(now),
+    ]);
+
+    const users = new Map<string, User | null>();
+    const watchlistTickers = new Map<string, string[]>();
+    const snapshots = new Map<string, TickerSnapshot | null>();
+
+    for (const rule of rules) {
+      try {
+        if (!users.has(rule.userId)) {
+          users.set(rule.userId, await this.getUser(rule.userId));
+          watchlistTickers.set(rule.userId, await this.getWatchlistTickers(rule.userId));
+        }
+
+        const user = users.get(rule.userId);
+        if (!user) {
+          console.warn(`Skipping alert rule ${rule.id}: user ${rule.userId} not found`);
+          continue;
+        }
+
+        result.rulesEvaluated++;
+
+        const needsPrices = usesPriceConditions(rule.conditions);
+        const ruleTickers = new Set(watchlistTickers.get(rule.userId) || []);
+        rule.conditions
+          .filter(c => PRICE_CONDITIONS.includes(c.type) && c.parameters?.ticker)
+          .forEach(c => ruleTickers.add(c.parameters.ticker));
+
+        for (const ticker of ruleTickers) {
+          const context: AlertContext = {
+            ticker,
+            now,
+            earningsEvent: earningsByTicker.get(ticker),
+            signal: signalsByTicker.get(ticker),
+            snapshot: needsPrices ? (await this.getSnapshot(ticker, snapshots)) ?? undefined : undefined,
+          };
+
+          const matched = evaluateConditions(rule.conditions, context) && this.isMarketEnabled(user, context);
+
+          if (usesLevelConditions(rule.conditions)) {
+            // Level alerts fire on the crossing, then re-arm once the price moves back
+            if (!(await this.checkCrossing(rule, ticker, matched, now))) continue;
+          } else if (!matched) {
+            continue;
+          }
+
+          const eventKey = buildEventKey(rule.conditions, context);
+          if (!eventKey) continue;
+
+          const outcome = await this.fireAlert(rule, user, context, eventKey);
+          if (outcome === 'duplicate') {
+            result.duplicatesSkipped++;
+            continue;
+          }
+          if (!outcome) continue;
+
+          if (outcome.status === 'sent' && usesLevelConditions(rule.conditions)) {
+            await this.markCrossingFired(rule, ticker, now);
+          }
+
+          if (outcome.status === 'sent') {
+            result.alertsSent++;
+          } else {
+            result.alertsFailed++;
+          }
+
+          result.results.push({
+            ruleId: rule.id,
+            userId: rule.userId,
+            ticker,
+            status: outcome.status,
+            message: outcome.message,
+          });
+        }
+      } catch (error) {
+        const errorMsg = `Failed to evaluate alert rule ${rule.id}: ${error instanceof Error ? error.message : error}`;
+        console.error(errorMsg);
+        result.errors.push(errorMsg);
+      }
+    }
+
+    if (result.alertsSent > 0) {
+      await this.incrementAlertsSent(now, result.alertsSent);
+    }
+
+    console.log(`Alert evaluation completed: ${result.alertsSent} sent, ${result.alertsFailed} failed, ${result.duplicatesSkipped} duplicates skipped`);
+    return result;
+  }
+
+  /**
+   * Push the analyst upgrades and downgrades recorded since the last run to users with the ticker
+   * on a watchlist, then mark them sent
+   */
+  async notifyPendingRatingChanges(now: Date = new Date()): Promise<{
+    changes: number;
+    notified: number;
+    failed: number;
+    errors: string[];
+  }> {
+    const result = { changes: 0, notified: 0, failed: 0, errors: [] as string[] };
+
+    const pending = await adminDb.collection(RATING_CHANGES_COLLECTION)
+      .where('notificationStatus', '==', 'pending')
+      .get();
+    if (pending.empty) {
+      return result;
+    }
+
+    const watchers = await this.loadWatchersByTicker();
+    const users = new Map<string, User | null>();
+
+    for (const doc of pending.docs) {
+      const data = doc.data();
+      const change = { ...data, date: toDate(data.date) } as RatingChangeEvent;
+
+      try {
+        const outcome = await this.notifyRatingChange(change, doc.id, watchers.get(change.ticker) || [], users);
+        await doc.ref.update({ notificationStatus: 'sent', notified: outcome.notified, notifiedAt: now });
+
+        result.changes++;
+        result.notified += outcome.notified;
+        result.failed += outcome.failed;
+      } catch (error) {
+        const errorMsg = `Failed to notify ${change.ticker} rating change ${doc.id}: ${error instanceof Error ? error.message : error}`;
+        console.error(errorMsg);
+        result.errors.push(errorMsg);
+      }
+    }
+
+    if (result.notified > 0) {
+      await this.incrementAlertsSent(now, result.notified);
+    }
+
+    console.log(`Rating changes: ${result.changes} processed, ${result.notified} pushes sent, ${result.failed} failed`);
+    return result;
+  }
+
+  /**
+   * Push one change to its watchers; each user is notified at most once per change
+   */
+  private async notifyRatingChange(
+    change: RatingChangeEvent,
+    changeId: string,
+    userIds: string[],
+    users: Map<string, User | null>
+  ): Promise<{ notified: number; failed: number }> {
+    const outcome = { notified: 0, failed: 0 };
+    const eventKey = `rating_${changeId}`;
+    const title = `Analyst ${change.direction}`;
+    const message = buildRatingChangeMessage(change);
+
+    for (const userId of userIds) {
+      if (!users.has(userId)) {
+        users.set(userId, await this.getUser(userId));
+      }
+      const user = users.get(userId);
+      if (!user || !this.isActionEnabled({ type: 'push_notification', parameters: {} }, user)) {
+        continue;
+      }
+
+      const historyRef = adminDb.collection('alert_history').doc(`${RATING_CHANGE_RULE_ID}_${userId}_${eventKey}`);
+      const existing = await historyRef.get();
+      if (existing.exists && existing.data()?.status === 'sent') {
+        continue;
+      }
+
+      let error: string | undefined;
+      try {
+        if (!(await this.sendPushNotification(user, change.ticker, title, message))) {
+          error = 'push: delivery failed';
+        }
+      } catch (pushError) {
+        error = `push: ${pushError instanceof Error ? pushError.message : 'Unknown error'}`;
+      }
+
+      const alert: Omit<AlertHistory, 'id'> = {
+        userId,
+        ruleId: RATING_CHANGE_RULE_ID,
+        ticker: change.ticker,
+        type: `analyst_${change.direction}`,
+        message,
+        sentAt: new Date(),
+        status: error ? 'failed' : 'sent',
+        eventKey,
+        channels: error ? [] : ['push_notification'],
+        ...(error && { error }),
+      };
+      await historyRef.set(alert);
+
+      if (error) {
+        outcome.failed++;
+      } else {
+        outcome.notified++;
+      }
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Dispatch a rule's actions for one match and record it in alert_history.
+   * Returns 'duplicate' if this rule already fired for the same event.
+   */
+  private async fireAlert(
+    rule: AlertRule,
+    user: User,
+    context: AlertContext,
+    eventKey: string
+  ): Promise<{ status: AlertHistory['status']; message: string } | 'duplicate' | null> {
+    const historyRef = adminDb.collection('alert_history')
+      .doc(`${rule.id}_${context.ticker}_${eventKey}`.replace(/\//g, '-'));
+
+    const existing = await historyRef.get();
+    if (existing.exists && existing.data()?.status === 'sent') {
+      return 'duplicate';
+    }
+
+    const actions = rule.actions.filter(action => this.isActionEnabled(action, user));
+    if (actions.length === 0) {
+      return null;
+    }
+
+    const message = buildAlertMessage(context);
+    const channels: AlertAction['type'][] = [];
+    const errors: string[] = [];
+
+    for (const action of actions) {
+      try {
+        const delivered = action.type === 'email'
+          ? await emailService.sendAlertEmail(user.email, context.ticker, rule.name, message)
+          : await this.sendPushNotification(user, context.ticker, rule.name, message);
+
+        if (delivered) {
+          channels.push(action.type);
+        } else {
+          errors.push(`${action.type}: delivery failed`);
+        }
+      } catch (error) {
+        errors.push(`${action.type}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    const status: AlertHistory['status'] = channels.length > 0 ? 'sent' : 'failed';
+    const alert: Omit<AlertHistory, 'id'> = {
+      userId: rule.userId,
+      ruleId: rule.id,
+      ticker: context.ticker,
+      type: rule.conditions.map(c => c.type).join('+'),
+      message,
+      sentAt: new Date(),
+      status,
+      eventKey,
+      channels,
+      ...(errors.length > 0 && { error: errors.join('; ') }),
+    };
+
+    await historyRef.set(alert);
+    return { status, message };
+  }
+
+  /**
+   * Decide whether a price-level rule should fire for this poll.
+   * Fires only on the transition from unmatched to matched, and never twice within the rule's cooldown.
+   */
+  private async checkCrossing(rule: AlertRule, ticker: string, matched: boolean, now: Date): Promise<boolean> {
+    const stateRef = adminDb.collection('alert_rule_state').doc(`${rule.id}_${ticker}`);
+    const stateDoc = await stateRef.get();
+    const state = stateDoc.exists ? stateDoc.data() : undefined;
+
+    if (!matched) {
+      if (state?.matched) {
+        await stateRef.set({ matched: false, updatedAt: now }, { merge: true });
+      }
+      return false;
+    }
+
+    if (state?.matched) {
+      return false; // Still on the same side of the level
+    }
+
+    const cooldownMs = (rule.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES) * 60 * 1000;
+    const lastFiredAt = state?.lastFiredAt ? toDate(state.lastFiredAt) : null;
+    if (lastFiredAt && now.getTime() - lastFiredAt.getTime() < cooldownMs) {
+      // Consume this crossing without alerting
+      await stateRef.set({ matched: true, updatedAt: now }, { merge: true });
+      return false;
+    }
+
+    return true;
+  }
+
+  private async markCrossingFired(rule: AlertRule, ticker: string, now: Date): Promise<void> {
+    await adminDb.collection('alert_rule_state').doc(`${rule.id}_${ticker}`).set({
+      ruleId: rule.id,
+      ticker,
+      matched: true,
+      lastFiredAt: now,
+      updatedAt: now,
+    }, { merge: true });
+  }
+
+  private async getSnapshot(ticker: string, cache: Map<string, TickerSnapshot | null>): Promise<TickerSnapshot | null> {
+    if (cache.has(ticker)) {
+      return cache.get(ticker)!;
+    }
+
+    let snapshot: TickerSnapshot | null = null;
+    try {
+      // Tel Aviv listings are quoted in shekels from the TA-125 price source, not the US feed
+      const market = getMarketForTicker(ticker);
+      if (!this.priceSources[market]) {
+        this.priceSources[market] = createMarketPriceSource(market);
+      }
+      snapshot = await this.priceSources[market]!.getSnapshotTicker(ticker);
+    } catch (error) {
+      console.warn(`No price snapshot for ${ticker}:`, error instanceof Error ? error.message : error);
+    }
+
+    cache.set(ticker, snapshot);
+    return snapshot;
+  }
+
+  private async sendPushNotification(user: User, ticker: string, title: string, message: string): Promise<boolean> {
+    if (!user.fcmToken) {
+      return false;
+    }
+
+    await getMessaging().send({
+      token: user.fcmToken,
+      notification: {
+        title: `${title}: ${ticker}`,
+        body: message,
+      },
+      data: {
+        ticker,
+        url: '/alerts',
+      },
+    });
+    return true;
+  }
+
+  private isActionEnabled(action: AlertAction, user: User): boolean {
+    if (action.type === 'email') {
+      return user.preferences?.emailNotifications !== false && !!user.email;
+    }
+    return user.preferences?.pushNotifications !== false && !!user.fcmToken;
+  }
+
+  private isMarketEnabled(user: User, context: AlertContext): boolean {
+    const enabledMarkets = user.preferences?.alertSettings?.enabledMarkets;
+    if (!context.earningsEvent || !enabledMarkets || enabledMarkets.length === 0) {
+      return true;
+    }
+    return enabledMarkets.includes(context.earningsEvent.market);
+  }
+
+  private async getUser(userId: string): Promise<User | null> {
+    const userDoc = await adminDb.collection('users').doc(userId).get();
+    return userDoc.exists ? { ...userDoc.data(), id: userDoc.id } as User : null;
+  }
+
+  private async getWatchlistTickers(userId: string): Promise<string[]> {
+    const watchlistsSnapshot = await adminDb.collection('watchlists')
+      .where('userId', '==', userId)
+      .get();
+
+    const tickers = watchlistsSnapshot.docs
+      .flatMap(doc => doc.data().companies || [])
+      .map((company: any) => company.ticker);
+
+    return [...new Set(tickers)];
+  }
+
+  /**
+   * Users watching each ticker, from one pass over all watchlists
+   */
+  private async loadWatchersByTicker(): Promise<Map<string, string[]>> {
+    // Companies are stored as objects, so watchlists can't be queried by ticker
+    const watchlistsSnapshot = await adminDb.collection('watchlists').get();
+
+    const watchers = new Map<string, Set<string>>();
+    watchlistsSnapshot.docs.forEach(doc => {
+      const { userId, companies = [] } = doc.data();
+      companies.forEach((company: any) => {
+        watchers.set(company.ticker, (watchers.get(company.ticker) || new Set<string>()).add(userId));
+      });
+    });
+
+    return new Map(Array.from(watchers, ([ticker, userIds]) => [ticker, Array.from(userIds)]));
+  }
+
+  /**
+   * Load the next earnings event per ticker within the lookahead window
+   */
+  private async loadUpcomingEarnings(now: Date): Promise<Map<string, EarningsEvent>> {
+    const windowEnd = new Date(now.getTime() + MAX_LOOKAHEAD_DAYS * 24 * 60 * 60 * 1000);
+    const snapshot = await adminDb.collection('earnings_events')
+      .where('expectedDate', '>=', now)
+      .where('expectedDate', '<=', windowEnd)
+      .orderBy('expectedDate', 'asc')
+      .get();
+
+    const byTicker = new Map<string, EarningsEvent>();
+    snapshot.docs.forEach(doc => {
+      const data = doc.data();
+      if (!data.ticker || byTicker.has(data.ticker)) return;
+      byTicker.set(data.ticker, {
+        ...data,
+        id: doc.id,
+        expectedDate: toDate(data.expectedDate),
+      } as EarningsEvent);
+    });
+    return byTicker;
+  }
+
+  /**
+   * Load the most recent unexpired sentiment signal per ticker
+   */
+  private async loadActiveSignals(now: Date): Promise<Map<string, SentimentSignal>> {
+    const snapshot = await adminDb.collection('signals_latest')
+      .where('expiresAt', '>', now)
+      .get();
+
+    const byTicker = new Map<string, SentimentSignal>();
+    snapshot.docs.forEach(doc => {
+      const data = doc.data();
+      const signal = {
+        ...data,
+        id: doc.id,
+        createdAt: toDate(data.createdAt),
+        expiresAt: toDate(data.expiresAt),
+      } as SentimentSignal;
+
+      const current = byTicker.get(signal.ticker);
+      if (!current || signal.createdAt > current.createdAt) {
+        byTicker.set(signal.ticker, signal);
+      }
+    });
+    return byTicker;
+  }
+
+  private async incrementAlertsSent(now: Date, count: number): Promise<void> {
+    try {
+      const today = now.toISOString().split('T')[0];
+      await adminDb.collection('usage_metrics').doc(today).set({
+        date: today,
+        alertsSent: FieldValue.increment(count),
+      }, { merge: true });
+    } catch (error) {
+      console.error('Error updating alert usage metrics:', error);
+    }
+  }
+}
+
+/**
+ * Create a new AlertEngine instance
+ */
+export function createAlertEngine(): AlertEngine {
+  return new AlertEngine();
+}
@@ -0,0 +1,210 @@
+import { adminDb } from '@/lib/firebase-admin';
+import { LEGACY_CREDIBILITY_COLLECTION, type LegacyAnalystCredibility } from '@/lib/credibility/analystCredibility';
+import { toDate } from '@/lib/utils/firestoreValues';
+import { ANALYST_STATS_COLLECTION, materializeStats, mergeBuckets } from './analystStats';
+import { ANALYSTS_COLLECTION, EnhancedAnalystTracker, type NewAnalyst } from './enhancedAnalystTracker';
+
+const RECOMMENDATIONS_COLLECTION = 'analyst_recommendations_enhanced';
+
+export interface AnalystMigrationReport {
+  dryRun: boolean;
+  analysts: number; // canonical analysts after the migration
+  duplicatesMerged: number; // analysts_enhanced docs folded into another doc for the same analyst
+  credibilityFolded: number; // analyst_credibility records folded in (not counting ones an earlier run already folded)
+  recommendationsRepointed: number;
+}
+
+interface MigrationEntry {
+  docId?: string; // analysts_enhanced doc
+  credibilityRef?: FirebaseFirestore.DocumentReference; // analyst_credibility doc
+  record: NewAnalyst;
+}
+
+const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+
+const union = (lists: Array<string[] | undefined>): string[] => Array.from(new Set(lists.flatMap(list => list || [])));
+
+/**
+ * Same person at the same firm, ignoring case and punctuation
+ */
+export function analystKey(name: string, firm: string): string {
+  const clean = (value: string) => (value || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  return `${clean(name)}|${clean(firm)}`;
+}
+
+/**
+ * Canonical fields from an analysts_enhanced doc in either of its shapes: tracker records
+ * (score, lifetime_calls, specializations) or seeded profiles (current_score, total_recommendations, sectors)
+ */
+export function fromEnhancedRecord(data: Record<string, any>): NewAnalyst {
+  const lifetimeCalls = data.lifetime_calls ?? data.total_recommendations ?? 0;
+  const accuracyRate = data.accuracy_rate ?? 0;
+  const updatedAt = data.updated_at ?? data.last_updated;
+
+  return {
+    name: data.name || 'Unknown Analyst',
+    firm: data.firm || 'Independent',
+    score: data.score ?? data.current_score,
+    lifetime_calls: lifetimeCalls,
+    correct_calls: data.correct_calls ?? Math.round(accuracyRate * lifetimeCalls),
+    accuracy_rate: accuracyRate,
+    avg_alpha: data.avg_alpha ?? data.average_return,
+    current_streak: data.current_streak,
+    score_history: data.score_history,
+    covered_tickers: data.covered_tickers,
+    specializations: data.specializations ?? data.sectors,
+    created_at: data.created_at ? toDate(data.created_at) : undefined,
+    updated_at: updatedAt ? toDate(updatedAt) : undefined,
+    ...(data.legacy_ids && { legacy_ids: data.legacy_ids }),
+    ...(data.stats && { stats: data.stats })
+  };
+}
+
+/**
+ * Canonical fields from an analyst_credibility record; its 0-1 credibility becomes the 0-100 score
+ */
+export function fromCredibilityRecord(data: LegacyAnalystCredibility): NewAnalyst {
+  const track = data.track_record;
+
+  return {
+    name: data.analyst_name || 'Unknown Analyst',
+    firm: data.firm || 'Independent',
+    score: Math.round((data.credibility_score ?? 0.5) * 100),
+    lifetime_calls: track?.total_predictions ?? 0,
+    correct_calls: track?.accurate_predictions ?? 0,
+    accuracy_rate: track?.total_predictions ? track.accuracy_rate : 0,
+    covered_tickers: data.covered_tickers,
+    specializations: data.specializations,
+    updated_at: track?.last_updated ? toDate(track.last_updated) : undefined
+  };
+}
+
+/**
+ * Fold several records of one analyst together. Calls add up and the score and rates are weighted by
+ * each record's calls; the most active record supplies the streak and score history.
+ */
+export function mergeAnalystRecords(records: NewAnalyst[]): NewAnalyst {
+  const built = records.map(record => EnhancedAnalystTracker.buildAnalyst(record));
+  const calls = sum(built.map(analyst => analyst.lifetime_calls));
+  const weightOf = (analyst: { lifetime_calls: number }) => (calls > 0 ? analyst.lifetime_calls / calls : 1 / built.length);
+  const weighted = (value: (analyst: typeof built[number]) => number) => sum(built.map(analyst => value(analyst) * weightOf(analyst)));
+  const lead = built.reduce((best, analyst) => (analyst.lifetime_calls > best.lifetime_calls ? analyst : best));
+  const legacyIds = union(built.map(analyst => analyst.legacy_ids));
+
+  return {
+    name: lead.name,
+    firm: lead.firm,
+    score: Math.round(weighted(analyst => analyst.score) * 10) / 10,
+    lifetime_calls: calls,
+    correct_calls: sum(built.map(analyst => analyst.correct_calls)),
+    accuracy_rate: weighted(analyst => analyst.accuracy_rate),
+    avg_alpha: weighted(analyst => analyst.avg_alpha),
+    current_streak: lead.current_streak,
+    score_history: lead.score_history,
+    covered_tickers: union(built.map(analyst => analyst.covered_tickers)),
+    specializations: union(built.map(analyst => analyst.specializations)),
+    created_at: new Date(Math.min(...built.map(analyst => analyst.created_at.getTime()))),
+    updated_at: new Date(Math.max(...built.map(analyst => analyst.updated_at.getTime()))),
+    ...(legacyIds.length > 0 && { legacy_ids: legacyIds }),
+    ...(lead.stats && { stats: lead.stats })
+  };
+}
+
+/**
+ * Analyst Migration
+ * Rewrites every analysts_enhanced doc into the canonical shape, merges duplicate docs for the same
+ * analyst (repointing their recommendations) and folds the analyst_credibility collection in
+ */
+export class AnalystMigration {
+  async run(dryRun: boolean = true): Promise<AnalystMigrationReport> {
+    const analysts = adminDb.collection(ANALYSTS_COLLECTION);
+    const analystStats = adminDb.collection(ANALYST_STATS_COLLECTION);
+    const now = new Date();
+    const [enhancedSnapshot, credibilitySnapshot] = await Promise.all([
+      analysts.get(),
+      adminDb.collection(LEGACY_CREDIBILITY_COLLECTION).get()
+    ]);
+
+    const groups = new Map<string, MigrationEntry[]>();
+    const addRecord = (record: NewAnalyst, docId?: string, credibilityRef?: FirebaseFirestore.DocumentReference) => {
+      const key = analystKey(record.name, record.firm);
+      groups.set(key, [...(groups.get(key) || []), { docId, credibilityRef, record }]);
+    };
+
+    enhancedSnapshot.docs.forEach(doc => addRecord(fromEnhancedRecord(doc.data()), doc.id));
+    credibilitySnapshot.docs.forEach(doc => addRecord({
+      ...fromCredibilityRecord(doc.data() as LegacyAnalystCredibility),
+      legacy_ids: [`${LEGACY_CREDIBILITY_COLLECTION}/${doc.id}`]
+    }, undefined, doc.ref));
+
+    const report: AnalystMigrationReport = {
+      dryRun,
+      analysts: groups.size,
+      duplicatesMerged: 0,
+      credibilityFolded: 0,
+      recommendationsRepointed: 0
+    };
+
+    for (const groupEntries of groups.values()) {
+      // A credibility record already listed on an analyst doc was folded by an earlier, interrupted run
+      const foldedIds = new Set(groupEntries.flatMap(entry => (entry.docId && entry.record.legacy_ids) || []));
+      const entries = groupEntries.filter(entry => entry.docId || !foldedIds.has(entry.record.legacy_ids![0]));
+      const staleCredibility = groupEntries.filter(entry => !entries.includes(entry));
+      report.credibilityFolded += entries.filter(entry => entry.credibilityRef).length;
+
+      const analyst = EnhancedAnalystTracker.buildAnalyst(mergeAnalystRecords(entries.map(entry => entry.record)));
+
+      // The doc with the most calls keeps its id so existing links keep working
+      const [target, ...duplicates] = entries
+        .filter(entry => entry.docId)
+        .sort((a, b) => (b.record.lifetime_calls || 0) - (a.record.lifetime_calls || 0))
+        .map(entry => entry.docId!);
+      const targetRef = target ? analysts.doc(target) : analysts.doc();
+
+      for (const duplicate of duplicates) {
+        const recommendations = await adminDb.collection(RECOMMENDATIONS_COLLECTION)
+          .where('analyst_id', '==', duplicate)
+          .get();
+        report.recommendationsRepointed += recommendations.size;
+        report.duplicatesMerged++;
+
+        if (!dryRun) {
+          // Repointing is safe to repeat; the duplicate doc itself goes in the group's batch below
+          for (const rec of recommendations.docs) {
+            await rec.ref.update({ analyst_id: targetRef.id });
+          }
+        }
+      }
+
+      if (!dryRun) {
+        // One batch per group, so a rerun never finds a record that was folded but not removed
+        const batch = adminDb.batch();
+
+        // The duplicates' closed calls move into the surviving analyst's rolling-window buckets
+        if (target && duplicates.length > 0) {
+          const statsDocs = await Promise.all([target, ...duplicates].map(id => analystStats.doc(id).get()));
+          const buckets = mergeBuckets(statsDocs.map(doc => (doc.exists && doc.data()?.buckets) || {}));
+          analyst.stats = materializeStats(buckets, now);
+          batch.set(analystStats.doc(target), { analyst_id: target, buckets, as_of: now });
+          duplicates.forEach(duplicate => batch.delete(analystStats.doc(duplicate)));
+        }
+
+        // set() rather than merge so the old field names go away
+        batch.set(targetRef, analyst);
+        duplicates.forEach(duplicate => batch.delete(analysts.doc(duplicate)));
+        [...entries, ...staleCredibility].forEach(entry => entry.credibilityRef && batch.delete(entry.credibilityRef));
+        await batch.commit();
+      }
+    }
+
+    console.log(`🔀 Analyst migration${dryRun ? ' (dry run)' : ''}: ${report.analysts} analysts, ${report.duplicatesMerged} duplicates merged, ${report.credibilityFolded} credibility records folded, ${report.recommendationsRepointed} recommendations repointed`);
+    return report;
+  }
+}
+
+/**
+ * Create a new AnalystMigration instance
+ */
+export function createAnalystMigration(): AnalystMigration {
+  return new AnalystMigration();
+}
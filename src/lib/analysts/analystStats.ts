@@ -0,0 +1,338 @@
+import { adminDb } from '@/lib/firebase-admin';
+import { getSP500Companies } from '@/lib/utils/sp500Tickers';
+import { getCuratedTA125Companies } from '@/lib/utils/ta125Tickers';
+import { toDate, toOptionalDate } from '@/lib/utils/firestoreValues';
+import type { AnalystEvaluation, AnalystRecommendation } from './enhancedAnalystTracker';
+
+export const ANALYST_STATS_COLLECTION = 'analyst_stats';
+
+export const STATS_WINDOWS = { d30: 30, d90: 90, d365: 365 } as const;
+
+export type StatsWindow = keyof typeof STATS_WINDOWS;
+
+type Action = AnalystRecommendation['action'];
+
+// The information ratio of one or two calls is noise
+const MIN_CALLS_FOR_INFORMATION_RATIO = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const OLDEST_WINDOW_DAYS = Math.max(...Object.values(STATS_WINDOWS));
+
+// Firestore batches are capped at 500 writes; each analyst takes two
+const BACKFILL_BATCH_SIZE = 200;
+
+/**
+ * Sums for the calls closed on one day. Windows are rebuilt from these, so a call drops out of a
+ * window when its day does, without re-reading any evaluations.
+ */
+export interface StatsBucket {
+  calls: number;
+  wins: number;
+  alpha_sum: number;
+  alpha_sq_sum: number;
+  by_action: Partial<Record<Action, number>>;
+  by_sector: Record<string, { calls: number; wins: number; alpha_sum: number }>;
+}
+
+export interface SectorStats {
+  calls: number;
+  win_rate: number;
+  avg_alpha: number;
+}
+
+export interface WindowStats {
+  calls: number;
+  win_rate: number;
+  avg_alpha: number;
+  information_ratio: number | null; // mean alpha over its standard deviation; null below the minimum calls
+  calls_by_action: Record<Action, number>;
+  sectors: Record<string, SectorStats>;
+}
+
+export type AnalystStats = Record<StatsWindow, WindowStats> & { as_of: Date };
+
+export interface ClosedCall {
+  action: Action;
+  outcome: AnalystEvaluation['outcome'];
+  alpha: number;
+  sector: string;
+  closed_at: Date;
+}
+
+const dayKey = (date: Date): string => date.toISOString().split('T')[0];
+
+/**
+ * Sector of a call: the one given when it was recorded, else the ticker's index sector
+ */
+export function resolveSector(ticker: string, sector?: string): string {
+  if (sector) {
+    return sector;
+  }
+  const company = [...getSP500Companies(), ...getCuratedTA125Companies()].find(c => c.ticker === ticker);
+  return company?.sector || 'Other';
+}
+
+/**
+ * Add a closed call to its day's bucket and drop days older than the longest window
+ */
+export function addClosedCall(
+  buckets: Record<string, StatsBucket>,
+  call: ClosedCall,
+  now: Date = new Date()
+): Record<string, StatsBucket> {
+  const key = dayKey(call.closed_at);
+  const bucket = buckets[key] || { calls: 0, wins: 0, alpha_sum: 0, alpha_sq_sum: 0, by_action: {}, by_sector: {} };
+  const win = call.outcome === 'CORRECT' ? 1 : 0;
+  const sector = bucket.by_sector[call.sector] || { calls: 0, wins: 0, alpha_sum: 0 };
+
+  return pruneBuckets({
+    ...buckets,
+    [key]: {
+      calls: bucket.calls + 1,
+      wins: bucket.wins + win,
+      alpha_sum: bucket.alpha_sum + call.alpha,
+      alpha_sq_sum: bucket.alpha_sq_sum + call.alpha * call.alpha,
+      by_action: { ...bucket.by_action, [call.action]: (bucket.by_action[call.action] || 0) + 1 },
+      by_sector: {
+        ...bucket.by_sector,
+        [call.sector]: { calls: sector.calls + 1, wins: sector.wins + win, alpha_sum: sector.alpha_sum + call.alpha }
+      }
+    }
+  }, now);
+}
+
+/**
+ * Day-by-day sum of several analysts' buckets, for when their records are merged into one
+ */
+export function mergeBuckets(bucketSets: Array<Record<string, StatsBucket>>): Record<string, StatsBucket> {
+  const merged: Record<string, StatsBucket> = {};
+
+  for (const buckets of bucketSets) {
+    for (const [key, bucket] of Object.entries(buckets)) {
+      const into = merged[key] || { calls: 0, wins: 0, alpha_sum: 0, alpha_sq_sum: 0, by_action: {}, by_sector: {} };
+      const byAction = { ...into.by_action };
+      for (const [action, count] of Object.entries(bucket.by_action)) {
+        byAction[action as Action] = (byAction[action as Action] || 0) + (count || 0);
+      }
+      const bySector = { ...into.by_sector };
+      for (const [sector, totals] of Object.entries(bucket.by_sector)) {
+        const running = bySector[sector] || { calls: 0, wins: 0, alpha_sum: 0 };
+        bySector[sector] = {
+          calls: running.calls + totals.calls,
+          wins: running.wins + totals.wins,
+          alpha_sum: running.alpha_sum + totals.alpha_sum
+        };
+      }
+
+      merged[key] = {
+        calls: into.calls + bucket.calls,
+        wins: into.wins + bucket.wins,
+        alpha_sum: into.alpha_sum + bucket.alpha_sum,
+        alpha_sq_sum: into.alpha_sq_sum + bucket.alpha_sq_sum,
+        by_action: byAction,
+        by_sector: bySector
+      };
+    }
+  }
+
+  return merged;
+}
+
+export function pruneBuckets(buckets: Record<string, StatsBucket>, now: Date = new Date()): Record<string, StatsBucket> {
+  const oldest = dayKey(new Date(now.getTime() - OLDEST_WINDOW_DAYS * DAY_MS));
+  return Object.fromEntries(Object.entries(buckets).filter(([key]) => key >= oldest));
+}
+
+/**
+ * Stats over the calls closed in the last `days` days
+ */
+export function summarizeWindow(buckets: Record<string, StatsBucket>, days: number, now: Date = new Date()): WindowStats {
+  const since = dayKey(new Date(now.getTime() - days * DAY_MS));
+  const inWindow = Object.entries(buckets).filter(([key]) => key >= since).map(([, bucket]) => bucket);
+
+  const calls = inWindow.reduce((sum, bucket) => sum + bucket.calls, 0);
+  const wins = inWindow.reduce((sum, bucket) => sum + bucket.wins, 0);
+  const alphaSum = inWindow.reduce((sum, bucket) => sum + bucket.alpha_sum, 0);
+  const alphaSqSum = inWindow.reduce((sum, bucket) => sum + bucket.alpha_sq_sum, 0);
+
+  const callsByAction: Record<Action, number> = { BUY: 0, HOLD: 0, SELL: 0 };
+  const sectorTotals: Record<string, { calls: number; wins: number; alpha_sum: number }> = {};
+  for (const bucket of inWindow) {
+    for (const [action, count] of Object.entries(bucket.by_action)) {
+      callsByAction[action as Action] += count || 0;
+    }
+    for (const [sector, totals] of Object.entries(bucket.by_sector)) {
+      const running = sectorTotals[sector] || { calls: 0, wins: 0, alpha_sum: 0 };
+      sectorTotals[sector] = {
+        calls: running.calls + totals.calls,
+        wins: running.wins + totals.wins,
+        alpha_sum: running.alpha_sum + totals.alpha_sum
+      };
+    }
+  }
+
+  const meanAlpha = calls > 0 ? alphaSum / calls : 0;
+  // Sample standard deviation from the running sums
+  const variance = calls > 1 ? Math.max(0, (alphaSqSum - calls * meanAlpha * meanAlpha) / (calls - 1)) : 0;
+  const stdAlpha = Math.sqrt(variance);
+
+  return {
+    calls,
+    win_rate: calls > 0 ? wins / calls : 0,
+    avg_alpha: meanAlpha,
+    information_ratio: calls >= MIN_CALLS_FOR_INFORMATION_RATIO && stdAlpha > 0 ? meanAlpha / stdAlpha : null,
+    calls_by_action: callsByAction,
+    sectors: Object.fromEntries(Object.entries(sectorTotals).map(([sector, totals]) => [sector, {
+      calls: totals.calls,
+      win_rate: totals.wins / totals.calls,
+      avg_alpha: totals.alpha_sum / totals.calls
+    }]))
+  };
+}
+
+export function materializeStats(buckets: Record<string, StatsBucket>, now: Date = new Date()): AnalystStats {
+  return {
+    d30: summarizeWindow(buckets, STATS_WINDOWS.d30, now),
+    d90: summarizeWindow(buckets, STATS_WINDOWS.d90, now),
+    d365: summarizeWindow(buckets, STATS_WINDOWS.d365, now),
+    as_of: now
+  };
+}
+
+/**
+ * Analyst Stats Materializer
+ * Keeps day buckets of closed calls per analyst in analyst_stats and the rolling-window summary on the
+ * analyst record, where the leaderboard can sort by it
+ */
+export class AnalystStatsMaterializer {
+  /**
+   * Buckets and summary after the analyst's newly closed calls, read inside the caller's transaction.
+   * The caller writes both there with the evaluations, so concurrent evaluations can't overwrite each
+   * other's buckets and a call is never counted twice.
+   */
+  async prepareClosedCalls(
+    transaction: FirebaseFirestore.Transaction,
+    analystId: string,
+    calls: ClosedCall[],
+    now: Date = new Date()
+  ): Promise<{
+    ref: FirebaseFirestore.DocumentReference;
+    buckets: Record<string, StatsBucket>;
+    stats: AnalystStats;
+  }> {
+    const ref = adminDb.collection(ANALYST_STATS_COLLECTION).doc(analystId);
+    const doc = await transaction.get(ref);
+    const buckets = calls.reduce(
+      (current, call) => addClosedCall(current, call, now),
+      (doc.exists && doc.data()?.buckets) || {}
+    );
+
+    return { ref, buckets, stats: materializeStats(buckets, now) };
+  }
+
+  /**
+   * Re-summarize analysts whose summary predates today, so calls age out of the windows even when
+   * an analyst has nothing new closing
+   */
+  async refreshStale(analystsCollection: string, now: Date = new Date()): Promise<number> {
+    const snapshot = await adminDb.collection(ANALYST_STATS_COLLECTION).get();
+    const today = dayKey(now);
+    const isFresh = (data?: FirebaseFirestore.DocumentData): boolean => {
+      const asOf = toOptionalDate(data?.as_of);
+      return !!asOf && dayKey(asOf) === today;
+    };
+    let refreshed = 0;
+
+    for (const candidate of snapshot.docs) {
+      if (isFresh(candidate.data())) {
+        continue;
+      }
+
+      try {
+        // Re-read in a transaction so a call evaluated since the scan isn't pruned away
+        const updated = await adminDb.runTransaction(async transaction => {
+          const doc = await transaction.get(candidate.ref);
+          const data = doc.data();
+          if (!data || isFresh(data)) {
+            return false;
+          }
+
+          const buckets = pruneBuckets(data.buckets || {}, now);
+          transaction.set(doc.ref, { analyst_id: doc.id, buckets, as_of: now });
+          transaction.update(adminDb.collection(analystsCollection).doc(doc.id), { stats: materializeStats(buckets, now) });
+          return true;
+        });
+
+        if (updated) {
+          refreshed++;
+        }
+      } catch (error) {
+        // The analyst may have been merged away by the migration
+        console.error(`Failed to refresh stats for analyst ${candidate.id}:`, error);
+      }
+    }
+
+    if (refreshed > 0) {
+      console.log(`📊 Refreshed rolling stats for ${refreshed} analysts`);
+    }
+    return refreshed;
+  }
+
+  /**
+   * Rebuild every analyst's day buckets from the evaluations of the last year. Analysts without a
+   * closed call get zeroed stats, so windowed sorts (which skip docs missing the field) still list them.
+   * Safe to re-run: buckets are replaced, not added to.
+   */
+  async backfill(
+    analystsCollection: string,
+    now: Date = new Date()
+  ): Promise<{ analysts: number; calls: number }> {
+    const since = new Date(now.getTime() - OLDEST_WINDOW_DAYS * DAY_MS);
+    const [analystsSnapshot, recommendationsSnapshot, evaluationsSnapshot] = await Promise.all([
+      adminDb.collection(analystsCollection).get(),
+      adminDb.collection('analyst_recommendations_enhanced').where('status', '==', 'CLOSED').get(),
+      adminDb.collection('analyst_evaluations_enhanced').where('t1', '>=', since).get()
+    ]);
+
+    const recommendations = new Map(recommendationsSnapshot.docs.map(doc => [doc.id, doc.data()]));
+    const bucketsByAnalyst = new Map<string, Record<string, StatsBucket>>();
+    let calls = 0;
+
+    for (const doc of evaluationsSnapshot.docs) {
+      const evaluation = doc.data();
+      const rec = recommendations.get(evaluation.recommendation_id);
+      if (!rec) continue;
+
+      bucketsByAnalyst.set(rec.analyst_id, addClosedCall(bucketsByAnalyst.get(rec.analyst_id) || {}, {
+        action: rec.action,
+        outcome: evaluation.outcome,
+        alpha: evaluation.alpha,
+        sector: resolveSector(rec.ticker, rec.sector),
+        closed_at: toDate(evaluation.t1)
+      }, now));
+      calls++;
+    }
+
+    const analystDocs = analystsSnapshot.docs;
+    for (let i = 0; i < analystDocs.length; i += BACKFILL_BATCH_SIZE) {
+      const batch = adminDb.batch();
+      analystDocs.slice(i, i + BACKFILL_BATCH_SIZE).forEach(doc => {
+        const buckets = bucketsByAnalyst.get(doc.id) || {};
+        batch.set(adminDb.collection(ANALYST_STATS_COLLECTION).doc(doc.id), { analyst_id: doc.id, buckets, as_of: now });
+        batch.update(doc.ref, { stats: materializeStats(buckets, now) });
+      });
+      await batch.commit();
+    }
+
+    console.log(`📊 Backfilled rolling stats for ${analystDocs.length} analysts from ${calls} evaluated calls`);
+    return { analysts: analystDocs.length, calls };
+  }
+}
+
+/**
+ * Create a new AnalystStatsMaterializer instance
+ */
+export function createAnalystStatsMaterializer(): AnalystStatsMaterializer {
+  return new AnalystStatsMaterializer();
+}
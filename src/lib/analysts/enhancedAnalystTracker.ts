@@ -1,18 +1,61 @@
+import { FieldValue } from 'firebase-admin/firestore';
 import { adminDb } from '@/lib/firebase-admin';
-import { createPolygonTool } from '@/lib/tools/polygonTool';
+import { LEGACY_CREDIBILITY_COLLECTION } from '@/lib/credibility/analystCredibility';
+import { toDate, toOptionalDate } from '@/lib/utils/firestoreValues';
+import {
+  createAnalystStatsMaterializer,
+  materializeStats,
+  resolveSector,
+  type AnalystStats,
+  type AnalystStatsMaterializer
+} from './analystStats';
+import { createMarketPriceSource, type MarketPriceSource } from '@/lib/marketData/marketDataProvider';
+import type { AggregateBar } from '@/lib/marketData/types';
+import { getMarketForTicker } from '@/lib/utils/ta125Tickers';
+import {
+  addCalendarDays,
+  addTradingDays,
+  getExchangeForMarket,
+  getSessionClose,
+  getTradingDateKey,
+  isTradingDay,
+  nextTradingDay,
+  tradingDayOnOrBefore
+} from '@/lib/utils/tradingCalendar';
+import type { RatingChangeEvent } from '@/types';
 
+export const ANALYSTS_COLLECTION = 'analysts_enhanced';
+
+export const RATING_CHANGES_COLLECTION = 'analyst_rating_changes';
+
+/**
+ * The one analyst record. `score` is the only credibility measure; it is moved by the evaluator alone
+ * and every other view (credibility weights, leaderboard, consensus) is derived from it.
+ */
 export interface Analyst {
   id: string;
   name: string;
   firm: string;
   score: number; // 0-100, starts at 50
-  lifetime_calls: number;
+  lifetime_calls: number; // evaluated calls
+  correct_calls: number;
+  accuracy_rate: number; // correct_calls / lifetime_calls
+  avg_alpha: number; // mean alpha over evaluated calls
+  current_streak: number; // consecutive CORRECT (positive) or INCORRECT (negative) calls
+  score_history: number[]; // score after each evaluation, newest last
+  covered_tickers: string[];
   created_at: Date;
   updated_at: Date;
-  specializations?: string[];
+  specializations?: string[]; // sectors
   tier?: 'TOP_TIER' | 'RISING' | 'NEW';
+  legacy_ids?: string[]; // '{collection}/{id}' of records folded in by the migration
+  stats?: AnalystStats; // 30/90/365-day windows, rebuilt whenever a call closes
 }
 
+export type NewAnalyst = Pick<Analyst, 'name' | 'firm'> & Partial<Omit<Analyst, 'id' | 'name' | 'firm' | 'tier'>>;
+
+export type AnalystOrderField = 'score' | 'lifetime_calls' | 'accuracy_rate' | 'updated_at';
+
 export interface AnalystRecommendation {
   id: string;
   analyst_id: string;
@@ -22,10 +65,12 @@ export interface AnalystRecommendation {
   horizon_days: number; // default 30
   target_price?: number;
   note?: string;
+  sector?: string;
   t0: Date; // recommendation timestamp
   p0: number; // price at t0
   benchmark: string; // default 'SPY'
   status: 'OPEN' | 'CLOSED';
+  superseded_by?: string; // the analyst's next call on the ticker, which closed this one early
   created_at: Date;
 }
 
@@ -40,19 +85,164 @@ export interface AnalystEvaluation {
   alpha: number; // abs_return - bench_return
   outcome: 'CORRECT' | 'NEUTRAL' | 'INCORRECT';
   score_delta: number;
+  price_target?: PriceTargetEvaluation; // only for recommendations with a target
   created_at: Date;
 }
 
+export interface PriceTargetEvaluation {
+  target_price: number;
+  hit: boolean; // traded through the target within the horizon
+  hit_date: Date | null; // session the target was first reached
+  days_to_hit: number | null; // calendar days from t0
+  max_favorable_excursion: number; // furthest move toward the target, as a fraction of p0
+  max_adverse_excursion: number; // furthest move away from the target, as a fraction of p0
+  error: number; // (p1 - target) / p0
+  score: number; // 0-1: 1 when hit, otherwise the share of the way from p0 to the target at t1
+}
+
+export interface PriceTargetAccuracy {
+  evaluated: number;
+  hitRate: number;
+  avgDaysToHit: number | null;
+  avgAbsError: number;
+  avgMaxFavorableExcursion: number;
+  avgMaxAdverseExcursion: number;
+  accuracy: number; // mean score
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const clamp01 = (value: number): number => Math.max(0, Math.min(1, value));
+
+const average = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const ACTION_RANK: Record<AnalystRecommendation['action'], number> = { SELL: 0, HOLD: 1, BUY: 2 };
+
+/**
+ * Direction of an analyst's change of call on a ticker; null when the call is unchanged
+ */
+export function ratingChangeDirection(
+  from: AnalystRecommendation['action'],
+  to: AnalystRecommendation['action']
+): 'upgrade' | 'downgrade' | null {
+  if (ACTION_RANK[to] === ACTION_RANK[from]) {
+    return null;
+  }
+  return ACTION_RANK[to] > ACTION_RANK[from] ? 'upgrade' : 'downgrade';
+}
+
+/**
+ * Score a price target against the daily bars between the call and the evaluation.
+ * A target above p0 is reached when a session's high trades through it; a target below p0 when its low does.
+ */
+export function evaluatePriceTarget(
+  rec: Pick<AnalystRecommendation, 't0' | 'p0' | 'target_price'>,
+  bars: AggregateBar[],
+  p1: number
+): PriceTargetEvaluation | null {
+  const target = rec.target_price;
+  if (!target || target <= 0 || !rec.p0) {
+    return null;
+  }
+
+  const upside = target >= rec.p0;
+  const hitBar = bars.find(bar => (upside ? bar.high >= target : bar.low <= target));
+  const highs = [...bars.map(bar => bar.high), p1];
+  const lows = [...bars.map(bar => bar.low), p1];
+  const rise = Math.max(0, (Math.max(...highs) - rec.p0) / rec.p0);
+  const fall = Math.max(0, (rec.p0 - Math.min(...lows)) / rec.p0);
+  const progress = target === rec.p0 ? 1 : (p1 - rec.p0) / (target - rec.p0);
+
+  return {
+    target_price: target,
+    hit: !!hitBar,
+    hit_date: hitBar ? hitBar.timestamp : null,
+    days_to_hit: hitBar ? Math.max(0, Math.ceil((hitBar.timestamp.getTime() - rec.t0.getTime()) / DAY_MS)) : null,
+    max_favorable_excursion: upside ? rise : fall,
+    max_adverse_excursion: upside ? fall : rise,
+    error: (p1 - target) / rec.p0,
+    score: hitBar ? 1 : clamp01(progress)
+  };
+}
+
+/**
+ * Aggregate price target evaluations into the profile's price target accuracy component
+ */
+export function summarizePriceTargets(evaluations: AnalystEvaluation[]): PriceTargetAccuracy | null {
+  const targets = evaluations
+    .map(evaluation => evaluation.price_target)
+    .filter((target): target is PriceTargetEvaluation => !!target);
+
+  if (targets.length === 0) {
+    return null;
+  }
+
+  const hits = targets.filter(target => target.hit);
+
+  return {
+    evaluated: targets.length,
+    hitRate: hits.length / targets.length,
+    avgDaysToHit: hits.length > 0 ? average(hits.map(target => target.days_to_hit ?? 0)) : null,
+    avgAbsError: average(targets.map(target => Math.abs(target.error))),
+    avgMaxFavorableExcursion: average(targets.map(target => target.max_favorable_excursion)),
+    avgMaxAdverseExcursion: average(targets.map(target => target.max_adverse_excursion)),
+    accuracy: average(targets.map(target => target.score))
+  };
+}
+
+function toRecommendation(doc: FirebaseFirestore.DocumentSnapshot): AnalystRecommendation {
+  const data = doc.data()!;
+  return { id: doc.id, ...data, t0: toDate(data.t0) } as AnalystRecommendation;
+}
+
+function toAnalyst(doc: FirebaseFirestore.DocumentSnapshot): Analyst {
+  const data = doc.data()!;
+  return {
+    id: doc.id,
+    ...data,
+    created_at: toDate(data.created_at),
+    updated_at: toDate(data.updated_at),
+    ...(data.stats && { stats: { ...data.stats, as_of: toDate(data.stats.as_of) } })
+  } as Analyst;
+}
+
+/**
+ * A call priced at its close, scored inside the transaction that closes it
+ */
+interface PricedCall {
+  rec: AnalystRecommendation;
+  t1: Date;
+  p1: number;
+  benchReturn: number;
+  absReturn: number;
+  alpha: number;
+  outcome: AnalystEvaluation['outcome'];
+  priceTarget: PriceTargetEvaluation | null;
+  K: number; // score weight
+}
+
+interface CallToClose {
+  rec: AnalystRecommendation;
+  priced: PricedCall | null; // closed unscored when null
+  supersededBy?: string;
+}
+
+interface ScoredCall {
+  priced: PricedCall;
+  scoreDelta: number;
+}
+
 export interface BenchmarkMapping {
   sector: string;
   etf: string;
 }
 
 export class EnhancedAnalystTracker {
-  private polygonTool: any;
+  private priceSources: Partial<Record<'SP500' | 'TA125', MarketPriceSource>> = {};
+  private statsMaterializer: AnalystStatsMaterializer;
   
   // Sector to ETF mapping
-  private static SECTOR_BENCHMARKS: Record<string, string> = {
+  static readonly SECTOR_BENCHMARKS: Record<string, string> = {
     'Technology': 'XLK',
     'Consumer Discretionary': 'XLY', 
     'Financials': 'XLF',
@@ -76,6 +266,8 @@ export class EnhancedAnalystTracker {
       HOLD_LOWER: -0.01 // -1% for Hold lower bound
     },
     DEFAULT_HORIZON_DAYS: 30,
+    DEFAULT_SCORE: 50,
+    SCORE_HISTORY_LENGTH: 20,
     BENCHMARK_DEFAULT: 'SPY',
     FRESHNESS_DECAY_DAYS: 180,
     TIER_THRESHOLDS: {
@@ -86,30 +278,59 @@ export class EnhancedAnalystTracker {
   };
 
   constructor() {
-    this.polygonTool = createPolygonTool();
+    this.statsMaterializer = createAnalystStatsMaterializer();
   }
 
   /**
-   * Create or update an analyst profile
+   * Sector ETF used as the benchmark, falling back to SPY
    */
-  async createAnalyst(analystData: Omit<Analyst, 'id' | 'created_at' | 'updated_at'>): Promise<string> {
-    const now = new Date();
-    
-    const analyst: Omit<Analyst, 'id'> = {
-      ...analystData,
-      score: analystData.score || 50,
-      lifetime_calls: analystData.lifetime_calls || 0,
-      created_at: now,
-      updated_at: now,
-      tier: this.calculateTier(analystData.score || 50, analystData.lifetime_calls || 0)
+  static getSectorBenchmark(sector?: string): string {
+    return (sector && EnhancedAnalystTracker.SECTOR_BENCHMARKS[sector]) || EnhancedAnalystTracker.CONFIG.BENCHMARK_DEFAULT;
+  }
+
+  /**
+   * Fill in the canonical defaults and tier for a new or migrated analyst
+   */
+  static buildAnalyst(data: NewAnalyst, now: Date = new Date()): Omit<Analyst, 'id'> {
+    const score = data.score ?? EnhancedAnalystTracker.CONFIG.DEFAULT_SCORE;
+    const lifetimeCalls = data.lifetime_calls ?? 0;
+    const correctCalls = data.correct_calls ?? 0;
+
+    return {
+      ...data,
+      name: data.name,
+      firm: data.firm,
+      score,
+      lifetime_calls: lifetimeCalls,
+      correct_calls: correctCalls,
+      accuracy_rate: data.accuracy_rate ?? (lifetimeCalls > 0 ? correctCalls / lifetimeCalls : 0),
+      avg_alpha: data.avg_alpha ?? 0,
+      current_streak: data.current_streak ?? 0,
+      score_history: data.score_history ?? [],
+      covered_tickers: data.covered_tickers ?? [],
+      specializations: data.specializations ?? [],
+      created_at: data.created_at ?? now,
+      updated_at: data.updated_at ?? now,
+      // Zeroed until a call closes, so the leaderboard's windowed sorts still list the analyst
+      stats: data.stats ?? materializeStats({}, now),
+      tier: EnhancedAnalystTracker.calculateTier(score, lifetimeCalls)
     };
+  }
 
-    const docRef = await adminDb.collection('analysts_enhanced').add(analyst);
+  /**
+   * Create an analyst profile
+   */
+  async createAnalyst(analystData: NewAnalyst): Promise<string> {
+    const analyst = EnhancedAnalystTracker.buildAnalyst(analystData);
+
+    const docRef = await adminDb.collection(ANALYSTS_COLLECTION).add(analyst);
     return docRef.id;
   }
 
   /**
-   * Record a new analyst recommendation
+   * Record a new analyst recommendation. It supersedes the analyst's open calls on the ticker,
+   * which are closed and evaluated at the switch, and a change of call is logged for the
+   * rating-change job to push to watchers.
    */
   async recordRecommendation(rec: {
     analystId: string;
@@ -122,14 +343,18 @@ export class EnhancedAnalystTracker {
     sector?: string;
   }): Promise<string> {
     const now = new Date();
+
+    const analystRef = adminDb.collection(ANALYSTS_COLLECTION).doc(rec.analystId);
+    const analystDoc = await analystRef.get();
+    if (!analystDoc.exists) {
+      throw new Error(`Analyst ${rec.analystId} not found`);
+    }
     
-    // Get current price from Polygon
+    // Get the current price from the ticker's market
     const p0 = await this.getPriceAt(rec.ticker, now);
     
     // Determine benchmark based on sector
-    const benchmark = rec.sector ? 
-      EnhancedAnalystTracker.SECTOR_BENCHMARKS[rec.sector] || EnhancedAnalystTracker.CONFIG.BENCHMARK_DEFAULT :
-      EnhancedAnalystTracker.CONFIG.BENCHMARK_DEFAULT;
+    const benchmark = EnhancedAnalystTracker.getSectorBenchmark(rec.sector);
 
     const recommendation: Omit<AnalystRecommendation, 'id'> = {
       analyst_id: rec.analystId,
@@ -139,6 +364,7 @@ export class EnhancedAnalystTracker {
       horizon_days: rec.horizonDays || EnhancedAnalystTracker.CONFIG.DEFAULT_HORIZON_DAYS,
       target_price: rec.targetPrice,
       note: rec.note,
+      ...(rec.sector && { sector: rec.sector }),
       t0: now,
       p0,
       benchmark,
@@ -146,12 +372,84 @@ export class EnhancedAnalystTracker {
       created_at: now
     };
 
-    const docRef = await adminDb.collection('analyst_recommendations_enhanced').add(recommendation);
-    
+    const recommendations = adminDb.collection('analyst_recommendations_enhanced');
+    const openSnapshot = await recommendations
+      .where('analyst_id', '==', rec.analystId)
+      .where('ticker', '==', rec.ticker)
+      .where('status', '==', 'OPEN')
+      .get();
+    const previous = openSnapshot.docs
+      .map(toRecommendation)
+      .sort((a, b) => a.t0.getTime() - b.t0.getTime());
+
+    const docRef = recommendations.doc();
+
+    // Each analyst holds one open call per ticker, so the consensus counts them once
+    const superseded: CallToClose[] = [];
+    for (const prior of previous) {
+      superseded.push({ rec: prior, supersededBy: docRef.id, priced: await this.priceSupersededCall(prior, now) });
+    }
+
+    const latest = previous[previous.length - 1];
+    const direction = latest ? ratingChangeDirection(latest.action, rec.action) : null;
+    const analystName = analystDoc.data()?.name;
+    const ratingChange: RatingChangeEvent | null = latest && direction ? {
+      ticker: rec.ticker,
+      analystId: rec.analystId,
+      ...(analystName && { analystName }),
+      from: latest.action,
+      to: rec.action,
+      direction,
+      date: now,
+      recommendationId: docRef.id,
+      previousRecommendationId: latest.id
+    } : null;
+
+    // The new call, the close of the ones it replaces and the rating change land together or not at all
+    const scored = await adminDb.runTransaction(async transaction => {
+      const results = await this.closeCalls(transaction, rec.analystId, superseded, now);
+
+      transaction.set(docRef, recommendation);
+      transaction.update(analystRef, { covered_tickers: FieldValue.arrayUnion(rec.ticker) });
+      if (ratingChange) {
+        // The rating-change job pushes it to users watching the ticker
+        transaction.set(adminDb.collection(RATING_CHANGES_COLLECTION).doc(docRef.id), {
+          ...ratingChange,
+          notificationStatus: 'pending'
+        });
+      }
+      return results;
+    });
+
+    scored.forEach(result => this.logEvaluation(result));
+    if (ratingChange) {
+      console.log(`📣 ${rec.ticker} ${ratingChange.direction} by analyst ${rec.analystId} (${ratingChange.from} → ${ratingChange.to})`);
+    }
+
     console.log(`Recorded recommendation: ${rec.action} ${rec.ticker} at $${p0} by analyst ${rec.analystId}`);
     return docRef.id;
   }
 
+  /**
+   * Price an open call the analyst has replaced, to score it at the switch. Returns null when it
+   * should be closed unscored: a call replaced within the session it was made in has no closing price
+   * of its own to score against, and one that can't be priced is closed anyway so it stops counting
+   * toward the consensus.
+   */
+  private async priceSupersededCall(prior: AnalystRecommendation, now: Date): Promise<PricedCall | null> {
+    const exchange = getExchangeForMarket(getMarketForTicker(prior.ticker));
+    if (getTradingDateKey(exchange, prior.t0) === getTradingDateKey(exchange, now)) {
+      return null;
+    }
+
+    try {
+      return await this.priceCall(prior, now, true);
+    } catch (error) {
+      console.error(`Failed to evaluate superseded recommendation ${prior.id}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Run the daily evaluator to assess open recommendations
    */
@@ -172,16 +470,21 @@ export class EnhancedAnalystTracker {
       console.log(`Found ${openRecs.docs.length} open recommendations to check`);
 
       for (const doc of openRecs.docs) {
-        const rec = { id: doc.id, ...doc.data() } as AnalystRecommendation;
+        const data = doc.data();
+        const rec = {
+          id: doc.id,
+          ...data,
+          t0: toDate(data.t0)
+        } as AnalystRecommendation;
         
-        // Check if horizon has been reached
-        const daysSinceRec = Math.floor((now.getTime() - rec.t0.getTime()) / (1000 * 60 * 60 * 24));
-        if (daysSinceRec < rec.horizon_days) {
+        // Evaluate at the close of the first session on or after the horizon
+        const evaluationClose = this.getHorizonClose(rec);
+        if (now < evaluationClose) {
           continue; // Not ready for evaluation yet
         }
 
         try {
-          await this.evaluateRecommendation(rec, now);
+          await this.evaluateRecommendation(rec, evaluationClose, now);
           evaluated++;
         } catch (error) {
           const errorMsg = `Failed to evaluate recommendation ${rec.id}: ${error}`;
@@ -190,6 +493,9 @@ export class EnhancedAnalystTracker {
         }
       }
 
+      // Calls age out of the rolling windows even for analysts with nothing closing today
+      await this.statsMaterializer.refreshStale(ANALYSTS_COLLECTION, now);
+
       console.log(`Evaluator completed: ${evaluated} recommendations evaluated, ${errors.length} errors`);
       return { evaluated, errors };
       
@@ -200,10 +506,37 @@ export class EnhancedAnalystTracker {
     }
   }
 
+  /**
+   * Close of the first trading session on or after t0 plus the horizon in calendar days
+   */
+  private getHorizonClose(rec: AnalystRecommendation): Date {
+    const exchange = getExchangeForMarket(getMarketForTicker(rec.ticker));
+    const horizonDay = addCalendarDays(getTradingDateKey(exchange, rec.t0), rec.horizon_days);
+    const evaluationDay = isTradingDay(exchange, horizonDay) ? horizonDay : nextTradingDay(exchange, horizonDay);
+    return getSessionClose(exchange, evaluationDay)!;
+  }
+
   /**
    * Evaluate a single recommendation and update analyst score
    */
-  private async evaluateRecommendation(rec: AnalystRecommendation, t1: Date): Promise<void> {
+  private async evaluateRecommendation(rec: AnalystRecommendation, t1: Date, now: Date = new Date()): Promise<void> {
+    const priced = await this.priceCall(rec, t1);
+    const [result] = await adminDb.runTransaction(transaction =>
+      this.closeCalls(transaction, rec.analyst_id, [{ rec, priced }], now)
+    );
+
+    if (!result) {
+      console.log(`Skipped ${rec.ticker} ${rec.action}: already closed by another run`);
+      return;
+    }
+    this.logEvaluation(result);
+  }
+
+  /**
+   * Returns, outcome and score weight of a call closed at t1. Prices are fetched here, outside the
+   * transaction that scores the call.
+   */
+  private async priceCall(rec: AnalystRecommendation, t1: Date, superseded: boolean = false): Promise<PricedCall> {
     // Get current price and benchmark prices
     const p1 = await this.getPriceAt(rec.ticker, t1);
     const bench0 = await this.getPriceAt(rec.benchmark, new Date(rec.t0));
@@ -214,66 +547,144 @@ export class EnhancedAnalystTracker {
     const benchReturn = (bench1 - bench0) / bench0;
     const alpha = absReturn - benchReturn;
 
-    // Classify outcome
-    const outcome = this.classifyOutcome(rec.action, alpha);
-    const outcomeValue = this.outcomeToValue(outcome);
-
-    // Get current analyst data
-    const analystDoc = await adminDb.collection('analysts_enhanced').doc(rec.analyst_id).get();
-    if (!analystDoc.exists) {
-      throw new Error(`Analyst ${rec.analyst_id} not found`);
-    }
-    
-    const analyst = analystDoc.data() as Analyst;
+    // Price targets are scored on their own, against every session within the horizon
+    const priceTarget = rec.target_price
+      ? evaluatePriceTarget(rec, await this.getBarsBetween(rec.ticker, rec.t0, t1), p1)
+      : null;
 
-    // Calculate score update using Elo-like algorithm
     const daysSince = Math.floor((t1.getTime() - rec.t0.getTime()) / (1000 * 60 * 60 * 24));
     const freshness = Math.exp(-daysSince / EnhancedAnalystTracker.CONFIG.FRESHNESS_DECAY_DAYS);
     const confidence = rec.confidence ?? 0.7;
-    const K = EnhancedAnalystTracker.CONFIG.SCORE_K_BASE * freshness * (0.5 + 0.5 * confidence);
+    // A superseded call counts for the share of its horizon it ran
+    const horizonShare = superseded
+      ? Math.min(1, (t1.getTime() - rec.t0.getTime()) / (rec.horizon_days * DAY_MS))
+      : 1;
 
-    const expectedProb = this.expectedProbability(analyst.score);
-    const scoreDelta = K * (outcomeValue - expectedProb);
-    const newScore = Math.max(0, Math.min(100, analyst.score + scoreDelta));
-
-    // Create evaluation record
-    const evaluation: Omit<AnalystEvaluation, 'id'> = {
-      recommendation_id: rec.id,
-      horizon_days: rec.horizon_days,
+    return {
+      rec,
       t1,
       p1,
-      bench_return: benchReturn,
-      abs_return: absReturn,
+      benchReturn,
+      absReturn,
       alpha,
-      outcome,
-      score_delta: scoreDelta,
-      created_at: new Date()
+      outcome: this.classifyOutcome(rec.action, alpha),
+      priceTarget,
+      K: EnhancedAnalystTracker.CONFIG.SCORE_K_BASE * freshness * (0.5 + 0.5 * confidence) * horizonShare
     };
+  }
 
-    // Update database atomically
-    const batch = adminDb.batch();
+  /**
+   * Close an analyst's calls inside the caller's transaction, before it writes anything itself.
+   * Priced calls are scored in turn against the analyst's score and stats buckets, read here, so
+   * concurrent runs can't lose each other's updates; the rest are closed unscored. Calls another
+   * run already closed are skipped. Returns the scored calls.
+   */
+  private async closeCalls(
+    transaction: FirebaseFirestore.Transaction,
+    analystId: string,
+    calls: CallToClose[],
+    now: Date
+  ): Promise<ScoredCall[]> {
+    const recommendations = adminDb.collection('analyst_recommendations_enhanced');
+    const analystRef = adminDb.collection(ANALYSTS_COLLECTION).doc(analystId);
 
-    // Add evaluation
-    const evalRef = adminDb.collection('analyst_evaluations_enhanced').doc();
-    batch.set(evalRef, evaluation);
+    const [analystDoc, ...recDocs] = await Promise.all([
+      transaction.get(analystRef),
+      ...calls.map(call => transaction.get(recommendations.doc(call.rec.id)))
+    ]);
+    if (!analystDoc.exists) {
+      throw new Error(`Analyst ${analystId} not found`);
+    }
 
-    // Update recommendation status
-    const recRef = adminDb.collection('analyst_recommendations_enhanced').doc(rec.id);
-    batch.update(recRef, { status: 'CLOSED' });
+    const open = calls.filter((_, i) => recDocs[i].data()?.status === 'OPEN');
+    const scored: ScoredCall[] = [];
+    let analyst = analystDoc.data() as Analyst;
+    let running: ReturnType<typeof EnhancedAnalystTracker.applyEvaluation> | null = null;
 
-    // Update analyst score and stats
-    const analystRef = adminDb.collection('analysts_enhanced').doc(rec.analyst_id);
-    const newLifetimeCalls = analyst.lifetime_calls + 1;
-    batch.update(analystRef, {
-      score: newScore,
-      lifetime_calls: newLifetimeCalls,
-      updated_at: new Date(),
-      tier: this.calculateTier(newScore, newLifetimeCalls)
-    });
+    for (const { priced } of open) {
+      if (!priced) continue;
 
-    await batch.commit();
+      // Elo-like score update
+      const scoreDelta = priced.K * (this.outcomeToValue(priced.outcome) - this.expectedProbability(analyst.score));
+      const newScore = Math.max(0, Math.min(100, analyst.score + scoreDelta));
+      running = EnhancedAnalystTracker.applyEvaluation(analyst, priced.outcome, priced.alpha, newScore);
+      analyst = { ...analyst, ...running };
+      scored.push({ priced, scoreDelta });
+    }
+
+    const statsUpdate = scored.length > 0
+      ? await this.statsMaterializer.prepareClosedCalls(transaction, analystId, scored.map(({ priced }) => ({
+        action: priced.rec.action,
+        outcome: priced.outcome,
+        alpha: priced.alpha,
+        sector: resolveSector(priced.rec.ticker, priced.rec.sector),
+        closed_at: priced.t1
+      })), now)
+      : null;
+
+    for (const { priced, scoreDelta } of scored) {
+      const evaluation: Omit<AnalystEvaluation, 'id'> = {
+        recommendation_id: priced.rec.id,
+        horizon_days: priced.rec.horizon_days,
+        t1: priced.t1,
+        p1: priced.p1,
+        bench_return: priced.benchReturn,
+        abs_return: priced.absReturn,
+        alpha: priced.alpha,
+        outcome: priced.outcome,
+        score_delta: scoreDelta,
+        ...(priced.priceTarget && { price_target: priced.priceTarget }),
+        created_at: new Date()
+      };
+      transaction.set(adminDb.collection('analyst_evaluations_enhanced').doc(), evaluation);
+    }
+
+    for (const { rec, supersededBy } of open) {
+      transaction.update(recommendations.doc(rec.id), { status: 'CLOSED', ...(supersededBy && { superseded_by: supersededBy }) });
+    }
+
+    if (running && statsUpdate) {
+      transaction.update(analystRef, { ...running, stats: statsUpdate.stats, updated_at: new Date() });
+      // Day buckets the rolling windows are rebuilt from
+      transaction.set(statsUpdate.ref, { analyst_id: analystId, buckets: statsUpdate.buckets, as_of: now });
+    }
+
+    return scored;
+  }
+
+  private logEvaluation({ priced, scoreDelta }: ScoredCall): void {
+    const { rec, outcome, alpha, priceTarget } = priced;
+    const targetNote = priceTarget ? `, target ${priceTarget.hit ? `hit in ${priceTarget.days_to_hit}d` : 'missed'}` : '';
+    console.log(`Evaluated: ${rec.ticker} ${rec.action} -> ${outcome} (α=${(alpha * 100).toFixed(2)}%, Δ${scoreDelta.toFixed(1)}${targetNote})`);
+  }
+
+  /**
+   * Running stats after one more evaluated call; older records may lack the newer fields
+   */
+  static applyEvaluation(
+    analyst: Partial<Analyst>,
+    outcome: 'CORRECT' | 'NEUTRAL' | 'INCORRECT',
+    alpha: number,
+    newScore: number
+  ): Pick<Analyst, 'score' | 'lifetime_calls' | 'correct_calls' | 'accuracy_rate' | 'avg_alpha' | 'current_streak' | 'score_history' | 'tier'> {
+    const previousCalls = analyst.lifetime_calls || 0;
+    const lifetimeCalls = previousCalls + 1;
+    const correctCalls = (analyst.correct_calls || 0) + (outcome === 'CORRECT' ? 1 : 0);
+    const streak = analyst.current_streak || 0;
 
-    console.log(`Evaluated: ${rec.ticker} ${rec.action} -> ${outcome} (α=${(alpha * 100).toFixed(2)}%, Δ${scoreDelta.toFixed(1)})`);
+    return {
+      score: newScore,
+      lifetime_calls: lifetimeCalls,
+      correct_calls: correctCalls,
+      accuracy_rate: correctCalls / lifetimeCalls,
+      avg_alpha: ((analyst.avg_alpha || 0) * previousCalls + alpha) / lifetimeCalls,
+      current_streak: outcome === 'CORRECT' ? Math.max(streak, 0) + 1
+        : outcome === 'INCORRECT' ? Math.min(streak, 0) - 1
+        : 0,
+      score_history: [...(analyst.score_history || []), Math.round(newScore * 10) / 10]
+        .slice(-EnhancedAnalystTracker.CONFIG.SCORE_HISTORY_LENGTH),
+      tier: EnhancedAnalystTracker.calculateTier(newScore, lifetimeCalls)
+    };
   }
 
   /**
@@ -315,7 +726,7 @@ export class EnhancedAnalystTracker {
   /**
    * Calculate analyst tier based on score and experience
    */
-  private calculateTier(score: number, lifetimeCalls: number): 'TOP_TIER' | 'RISING' | 'NEW' {
+  private static calculateTier(score: number, lifetimeCalls: number): 'TOP_TIER' | 'RISING' | 'NEW' {
     const { TOP_TIER, RISING, MIN_CALLS_FOR_TIER } = EnhancedAnalystTracker.CONFIG.TIER_THRESHOLDS;
     
     if (lifetimeCalls < MIN_CALLS_FOR_TIER) {
@@ -334,30 +745,56 @@ export class EnhancedAnalystTracker {
   }
 
   /**
-   * Get price at a specific time using Polygon
+   * Get the closing price on or before a given date from the ticker's market
    */
   private async getPriceAt(ticker: string, when: Date): Promise<number> {
-    try {
-      // Use the existing polygon tool
-      const dateStr = when.toISOString().slice(0, 10);
-      const priceData = await this.polygonTool.getStockAggregates(ticker, 1, 'day', dateStr, dateStr);
-      
-      if (priceData?.results?.length > 0) {
-        return priceData.results[0].c; // close price
-      }
-      
-      // Fallback: try to get latest price
-      const snapshot = await this.polygonTool.getSnapshot(ticker);
-      if (snapshot?.lastQuote?.price) {
-        return snapshot.lastQuote.price;
+    // Weekends and holidays resolve to the last session; the window covers a few missing bars
+    const exchange = getExchangeForMarket(getMarketForTicker(ticker));
+    const localDay = getTradingDateKey(exchange, when);
+    const to = tradingDayOnOrBefore(exchange, localDay);
+    const from = addTradingDays(exchange, to, -5);
+    const priceData = await this.getPriceSource(ticker).getAggregates(ticker, 1, 'day', from, to);
+
+    const lastBar = priceData.results[priceData.results.length - 1];
+    if (lastBar) {
+      return lastBar.close;
+    }
+
+    // Today's session may not have a daily bar yet
+    if (to === getTradingDateKey(exchange, new Date())) {
+      const snapshot = await this.getPriceSource(ticker).getSnapshotTicker(ticker);
+      if (snapshot.price) {
+        return snapshot.price;
       }
-      
-      throw new Error(`No price data available for ${ticker} on ${dateStr}`);
-    } catch (error) {
-      console.error(`Error fetching price for ${ticker}:`, error);
-      // Return a reasonable fallback price for development
-      return 100; // This should be replaced with proper error handling in production
     }
+
+    throw new Error(`No price data available for ${ticker} on ${to}`);
+  }
+
+  /**
+   * Daily bars for the sessions after t0 up to and including the one containing t1
+   */
+  private async getBarsBetween(ticker: string, t0: Date, t1: Date): Promise<AggregateBar[]> {
+    const exchange = getExchangeForMarket(getMarketForTicker(ticker));
+    const from = nextTradingDay(exchange, getTradingDateKey(exchange, t0));
+    const to = tradingDayOnOrBefore(exchange, getTradingDateKey(exchange, t1));
+    if (from > to) {
+      return [];
+    }
+
+    const priceData = await this.getPriceSource(ticker).getAggregates(ticker, 1, 'day', from, to);
+    return priceData.results;
+  }
+
+  /**
+   * Tel Aviv listings are priced in shekels from the TA-125 price source, everything else from the US feed
+   */
+  private getPriceSource(ticker: string): MarketPriceSource {
+    const market = getMarketForTicker(ticker);
+    if (!this.priceSources[market]) {
+      this.priceSources[market] = createMarketPriceSource(market);
+    }
+    return this.priceSources[market]!;
   }
 
   /**
@@ -372,14 +809,16 @@ export class EnhancedAnalystTracker {
       avgAlpha: number;
       callsByAction: Record<string, number>;
       outcomesByAction: Record<string, Record<string, number>>;
+      priceTargetAccuracy: PriceTargetAccuracy | null;
+      windows: AnalystStats | null;
     };
   }> {
     // Get analyst data
-    const analystDoc = await adminDb.collection('analysts_enhanced').doc(analystId).get();
+    const analystDoc = await adminDb.collection(ANALYSTS_COLLECTION).doc(analystId).get();
     if (!analystDoc.exists) {
       throw new Error(`Analyst ${analystId} not found`);
     }
-    const analyst = { id: analystDoc.id, ...analystDoc.data() } as Analyst;
+    const analyst = toAnalyst(analystDoc);
 
     // Get recent calls (last 20)
     const callsSnapshot = await adminDb
@@ -408,15 +847,27 @@ export class EnhancedAnalystTracker {
           .where('recommendation_id', 'in', batch)
           .get();
         
-        evaluations.push(...evalSnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        } as AnalystEvaluation)));
+        evaluations.push(...evalSnapshot.docs.map(doc => {
+          const data = doc.data();
+          return {
+            id: doc.id,
+            ...data,
+            ...(data.price_target && {
+              price_target: {
+                ...data.price_target,
+                hit_date: toOptionalDate(data.price_target.hit_date)
+              }
+            })
+          } as AnalystEvaluation;
+        }));
       }
     }
 
     // Calculate performance metrics
-    const performance = this.calculatePerformanceMetrics(recentCalls, evaluations);
+    const performance = {
+      ...this.calculatePerformanceMetrics(recentCalls, evaluations),
+      windows: analyst.stats ?? null
+    };
 
     return {
       analyst,
@@ -466,24 +917,53 @@ export class EnhancedAnalystTracker {
       winRate: totalEvaluated > 0 ? totalCorrect / totalEvaluated : 0,
       avgAlpha: totalEvaluated > 0 ? totalAlpha / totalEvaluated : 0,
       callsByAction,
-      outcomesByAction
+      outcomesByAction,
+      priceTargetAccuracy: summarizePriceTargets(evaluatedCalls.map(call => evalMap.get(call.id)!))
     };
   }
 
   /**
-   * Get top analysts with pagination
+   * Get top analysts with pagination, optionally only those specializing in a sector
    */
-  async getTopAnalysts(limit: number = 50, orderBy: 'score' | 'lifetime_calls' = 'score') {
-    const snapshot = await adminDb
-      .collection('analysts_enhanced')
+  async getTopAnalysts(limit: number = 50, orderBy: AnalystOrderField = 'score', sector?: string) {
+    let query: FirebaseFirestore.Query = adminDb.collection(ANALYSTS_COLLECTION);
+    if (sector) {
+      query = query.where('specializations', 'array-contains', sector);
+    }
+
+    const snapshot = await query
       .orderBy(orderBy, 'desc')
       .limit(limit)
       .get();
 
-    return snapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    } as Analyst));
+    return snapshot.docs.map(toAnalyst);
+  }
+
+  /**
+   * Look up an analyst by id, falling back to the ids of legacy records merged into it
+   */
+  async findAnalyst(analystId: string): Promise<Analyst | null> {
+    const doc = await adminDb.collection(ANALYSTS_COLLECTION).doc(analystId).get();
+    if (doc.exists) {
+      return toAnalyst(doc);
+    }
+
+    const merged = await adminDb.collection(ANALYSTS_COLLECTION)
+      .where('legacy_ids', 'array-contains', `${LEGACY_CREDIBILITY_COLLECTION}/${analystId}`)
+      .limit(1)
+      .get();
+    return merged.empty ? null : toAnalyst(merged.docs[0]);
+  }
+
+  /**
+   * Analysts who have recommended a ticker, best score first
+   */
+  async getAnalystsCoveringTicker(ticker: string): Promise<Analyst[]> {
+    const snapshot = await adminDb.collection(ANALYSTS_COLLECTION)
+      .where('covered_tickers', 'array-contains', ticker)
+      .get();
+
+    return snapshot.docs.map(toAnalyst).sort((a, b) => b.score - a.score);
   }
 
   /**
@@ -492,6 +972,8 @@ export class EnhancedAnalystTracker {
   async getWeightedConsensus(ticker: string, maxAge: number = 30): Promise<{
     consensus: 'BUY' | 'HOLD' | 'SELL';
     confidence: number;
+    weights: Record<'BUY' | 'HOLD' | 'SELL', number>;
+    counts: Record<'BUY' | 'HOLD' | 'SELL', number>;
     participants: Array<{
       analyst_id: string;
       action: string;
@@ -513,21 +995,28 @@ export class EnhancedAnalystTracker {
       return {
         consensus: 'HOLD',
         confidence: 0,
+        weights: { BUY: 0, HOLD: 0, SELL: 0 },
+        counts: { BUY: 0, HOLD: 0, SELL: 0 },
         participants: []
       };
     }
 
-    const recommendations = recsSnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    } as AnalystRecommendation));
+    // Calls recorded before superseding existed can leave several open per analyst; the latest stands
+    const latestByAnalyst = new Map<string, AnalystRecommendation>();
+    for (const rec of recsSnapshot.docs.map(toRecommendation)) {
+      const current = latestByAnalyst.get(rec.analyst_id);
+      if (!current || rec.t0 > current.t0) {
+        latestByAnalyst.set(rec.analyst_id, rec);
+      }
+    }
+    const recommendations = Array.from(latestByAnalyst.values());
 
     // Get analyst scores
     const analystIds = [...new Set(recommendations.map(r => r.analyst_id))];
     const analystScores = new Map<string, number>();
     
     for (const analystId of analystIds) {
-      const analystDoc = await adminDb.collection('analysts_enhanced').doc(analystId).get();
+      const analystDoc = await adminDb.collection(ANALYSTS_COLLECTION).doc(analystId).get();
       if (analystDoc.exists) {
         const analyst = analystDoc.data() as Analyst;
         analystScores.set(analystId, analyst.score);
@@ -567,6 +1056,12 @@ export class EnhancedAnalystTracker {
     return {
       consensus,
       confidence,
+      weights: { BUY: buyWeight, HOLD: holdWeight, SELL: sellWeight },
+      counts: {
+        BUY: recommendations.filter(rec => rec.action === 'BUY').length,
+        HOLD: recommendations.filter(rec => rec.action === 'HOLD').length,
+        SELL: recommendations.filter(rec => rec.action === 'SELL').length
+      },
       participants
     };
   }
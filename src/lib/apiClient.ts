@@ -0,0 +1,16 @@
+import { auth } from './firebase';
+
+/**
+ * fetch() for our own API routes with the signed-in user's Firebase ID token attached.
+ * API routes reject requests without it (see lib/serverAuth.ts).
+ */
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  const token = await auth.currentUser?.getIdToken();
+
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+
+  return fetch(input, { ...init, headers });
+}
@@ -5,42 +5,31 @@ import {
   GoogleAuthProvider,
   signOut,
   onAuthStateChanged,
+  sendEmailVerification,
   User
 } from 'firebase/auth';
-import { doc, setDoc, getDoc } from 'firebase/firestore';
-import { auth, db } from './firebase';
-import type { User as AppUser } from '@/types';
+import { auth } from './firebase';
+import { authFetch } from './apiClient';
 
-const ALLOWED_EMAILS = ['matanpr@gmail.com', 'nevo40@gmail.com'];
+const ACCESS_RESTRICTED_MESSAGE = 'Access restricted. This email is not authorized.';
+const VERIFY_EMAIL_MESSAGE = 'Please verify your email address. We sent a link to your inbox; sign in again once you have opened it.';
 
-const googleProvider = new GoogleAuthProvider();
+// Error the server returns for invited accounts whose email is not verified yet
+const EMAIL_NOT_VERIFIED_ERROR = 'Email address not verified';
 
-export const isEmailAllowed = (email: string): boolean => {
-  return ALLOWED_EMAILS.includes(email.toLowerCase());
-};
+const googleProvider = new GoogleAuthProvider();
 
 export const signInWithGoogle = async () => {
   try {
     const result = await signInWithPopup(auth, googleProvider);
-    const user = result.user;
-    
-    if (!isEmailAllowed(user.email || '')) {
-      await signOut(auth);
-      throw new Error('Access restricted. This email is not authorized.');
-    }
-    
-    await createOrUpdateUserDoc(user);
-    return user;
+    await createOrUpdateUserDoc(result.user);
+    return result.user;
   } catch (error) {
     throw error;
   }
 };
 
 export const signInWithEmail = async (email: string, password: string) => {
-  if (!isEmailAllowed(email)) {
-    throw new Error('Access restricted. This email is not authorized.');
-  }
-  
   try {
     const result = await signInWithEmailAndPassword(auth, email, password);
     await createOrUpdateUserDoc(result.user);
@@ -51,13 +40,17 @@ export const signInWithEmail = async (email: string, password: string) => {
 };
 
 export const signUpWithEmail = async (email: string, password: string) => {
-  if (!isEmailAllowed(email)) {
-    throw new Error('Access restricted. This email is not authorized.');
-  }
-  
   try {
     const result = await createUserWithEmailAndPassword(auth, email, password);
-    await createOrUpdateUserDoc(result.user);
+    try {
+      await createOrUpdateUserDoc(result.user);
+    } catch (error) {
+      // Don't leave an account behind for an email that was never invited
+      if (error instanceof Error && error.message === ACCESS_RESTRICTED_MESSAGE) {
+        await result.user.delete().catch(() => undefined);
+      }
+      throw error;
+    }
     return result.user;
   } catch (error) {
     throw error;
@@ -72,34 +65,31 @@ export const logOut = async () => {
   }
 };
 
+/**
+ * Check the invite allowlist and record the login on the server; signs out uninvited users.
+ * Invited users with an unverified email are sent a verification link and signed out.
+ */
 const createOrUpdateUserDoc = async (user: User) => {
-  const userDocRef = doc(db, 'users', user.uid);
-  const userDoc = await getDoc(userDocRef);
-  
-  const userData: Partial<AppUser> = {
-    id: user.uid,
-    email: user.email || '',
-    displayName: user.displayName || '',
-    photoURL: user.photoURL || '',
-    lastLogin: new Date(),
-  };
-  
-  if (!userDoc.exists()) {
-    userData.createdAt = new Date();
-    userData.preferences = {
-      emailNotifications: true,
-      pushNotifications: true,
-      dailySummary: true,
-      weeklySummary: false,
-      alertSettings: {
-        enabledMarkets: ['SP500', 'TA125'],
-        enabledSectors: [],
-        minSentimentScore: 0.6,
-      },
-    };
+  const response = await authFetch('/api/auth/session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      displayName: user.displayName || '',
+      photoURL: user.photoURL || '',
+    }),
+  });
+
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({}));
+    if (error === EMAIL_NOT_VERIFIED_ERROR) {
+      await sendEmailVerification(user).catch(() => undefined);
+      await signOut(auth);
+      throw new Error(VERIFY_EMAIL_MESSAGE);
+    }
+
+    await signOut(auth);
+    throw new Error(response.status === 403 ? ACCESS_RESTRICTED_MESSAGE : 'Failed to sign in. Please try again.');
   }
-  
-  await setDoc(userDocRef, userData, { merge: true });
 };
 
 export const onAuthStateChange = (callback: (user: User | null) => void) => {
@@ -3,6 +3,8 @@
  * Implements intelligent caching with Firestore change detection
  */
 
+import { authFetch } from '@/lib/apiClient';
+
 interface CacheItem<T> {
   data: T;
   timestamp: number;
@@ -192,8 +194,11 @@ export const CACHE_KEYS = {
   TOP_ANALYSTS: (orderBy: string, limit: number) => `top_analysts_${orderBy}_${limit}`,
   ANALYST_LEADERBOARD: (orderBy: string, sector: string) => `analyst_leaderboard_${orderBy}_${sector}`,
   WEIGHTED_CONSENSUS: (ticker: string) => `weighted_consensus_${ticker}`,
+  CONSENSUS_HISTORY: (ticker: string, days: number) => `consensus_history_${ticker}_${days}`,
   EARNINGS_GRID: 'earnings_grid_data',
-  SECTOR_DATA: (sector: string) => `sector_data_${sector}`
+  SECTOR_DATA: (sector: string) => `sector_data_${sector}`,
+  PRICE_HISTORY: (ticker: string, range: string, market: string = '') => `price_history_${ticker}_${market}_${range}`,
+  STOCK_NEWS: (ticker: string) => `stock_news_${ticker}`
 };
 
 /**
@@ -215,7 +220,7 @@ export async function cachedFetch<T>(
   console.log(`Cache miss for ${cacheKey}, fetching from API`);
   
   // Fetch from API
-  const response = await fetch(url, fetchOptions);
+  const response = await authFetch(url, fetchOptions);
   if (!response.ok) {
     throw new Error(`HTTP error! status: ${response.status}`);
   }
@@ -1,4 +1,5 @@
 import { NextResponse } from 'next/server';
+import { toDate } from '@/lib/utils/firestoreValues';
 
 interface CacheMetadata {
   lastModified?: string;
@@ -180,7 +181,7 @@ export function extractFirestoreCacheMetadata(docs: any[]): CacheMetadata {
     const docUpdate = doc.data()?.updatedAt || doc.data()?.updated_at;
     if (!docUpdate) return latest;
     
-    const docDate = docUpdate.toDate ? docUpdate.toDate() : new Date(docUpdate);
+    const docDate = toDate(docUpdate);
     const latestDate = latest ? new Date(latest) : new Date(0);
     
     return docDate > latestDate ? docDate.toISOString() : latest;
@@ -0,0 +1,271 @@
+/**
+ * Search Response Cache
+ * Server-side cache for Serper responses keyed by normalized query, with a TTL per query type.
+ * Firestore in production so every instance shares it; an in-memory LRU in development.
+ */
+
+import { createHash } from 'crypto';
+import { FieldValue, type QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { adminDb } from '../firebase-admin';
+import { toDate } from '../utils/firestoreValues';
+import type { SearchCacheBackend, SearchCacheCounts, SearchCacheStats, SearchQueryType } from '@/types';
+
+export const SEARCH_CACHE_COLLECTION = 'search_cache';
+export const SEARCH_CACHE_STATS_COLLECTION = 'search_cache_stats';
+
+export const SEARCH_QUERY_TYPES: SearchQueryType[] = ['news', 'analyst', 'earnings', 'general'];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const SEARCH_CACHE_TTLS_MS: Record<SearchQueryType, number> = {
+  news: 1 * HOUR_MS, // headlines move quickly
+  analyst: 12 * HOUR_MS, // ratings and targets change a few times a quarter
+  earnings: 24 * HOUR_MS, // report dates rarely move once announced
+  general: 1 * HOUR_MS,
+};
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+// Firestore batches are capped at 500 writes
+const BATCH_SIZE = 400;
+
+/**
+ * Case and whitespace differences should not miss the cache
+ */
+export function normalizeSearchQuery(query: string): string {
+  return query.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export function searchCacheKey(queryType: SearchQueryType, query: string): string {
+  return createHash('sha256').update(`${queryType}:${normalizeSearchQuery(query)}`).digest('hex');
+}
+
+export function buildSearchCacheStats(
+  backend: SearchCacheBackend,
+  counts: Record<SearchQueryType, SearchCacheCounts>,
+  entries: Record<SearchQueryType, number>
+): SearchCacheStats {
+  const byType = Object.fromEntries(SEARCH_QUERY_TYPES.map(type => [type, {
+    ...counts[type],
+    entries: entries[type],
+    ttlMinutes: SEARCH_CACHE_TTLS_MS[type] / 60000
+  }])) as SearchCacheStats['byType'];
+
+  const hits = SEARCH_QUERY_TYPES.reduce((sum, type) => sum + counts[type].hits, 0);
+  const misses = SEARCH_QUERY_TYPES.reduce((sum, type) => sum + counts[type].misses, 0);
+
+  return {
+    backend,
+    entries: SEARCH_QUERY_TYPES.reduce((sum, type) => sum + entries[type], 0),
+    byType,
+    hits,
+    misses,
+    hitRate: hits + misses > 0 ? hits / (hits + misses) : 0
+  };
+}
+
+const perType = <T>(value: () => T): Record<SearchQueryType, T> =>
+  Object.fromEntries(SEARCH_QUERY_TYPES.map(type => [type, value()])) as Record<SearchQueryType, T>;
+
+export interface SearchCache {
+  readonly backend: SearchCacheBackend;
+  get(queryType: SearchQueryType, query: string, now?: Date): Promise<string | null>;
+  set(queryType: SearchQueryType, query: string, response: string, now?: Date): Promise<void>;
+  /** Remove cached responses (of one type, or all); returns how many were removed */
+  purge(queryType?: SearchQueryType): Promise<number>;
+  /** Remove responses whose TTL has passed; returns how many were removed */
+  purgeExpired(now?: Date): Promise<number>;
+  getStats(): Promise<SearchCacheStats>;
+}
+
+interface MemoryEntry {
+  queryType: SearchQueryType;
+  response: string;
+  expiresAt: number;
+}
+
+/**
+ * In-memory LRU; entries and counters live as long as the process
+ */
+export class MemorySearchCache implements SearchCache {
+  readonly backend = 'memory' as const;
+  private entries = new Map<string, MemoryEntry>();
+  private counts = perType<SearchCacheCounts>(() => ({ hits: 0, misses: 0 }));
+
+  constructor(private maxEntries: number = DEFAULT_MAX_ENTRIES) {}
+
+  async get(queryType: SearchQueryType, query: string, now: Date = new Date()): Promise<string | null> {
+    const key = searchCacheKey(queryType, query);
+    const entry = this.entries.get(key);
+
+    if (!entry || entry.expiresAt <= now.getTime()) {
+      this.entries.delete(key);
+      this.counts[queryType].misses++;
+      return null;
+    }
+
+    // Re-insert so Map order tracks recency
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.counts[queryType].hits++;
+    return entry.response;
+  }
+
+  async set(queryType: SearchQueryType, query: string, response: string, now: Date = new Date()): Promise<void> {
+    const key = searchCacheKey(queryType, query);
+    this.entries.delete(key);
+
+    if (this.entries.size >= this.maxEntries) {
+      const leastRecent = this.entries.keys().next().value;
+      if (leastRecent !== undefined) {
+        this.entries.delete(leastRecent);
+      }
+    }
+
+    this.entries.set(key, { queryType, response, expiresAt: now.getTime() + SEARCH_CACHE_TTLS_MS[queryType] });
+  }
+
+  async purge(queryType?: SearchQueryType): Promise<number> {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (!queryType || entry.queryType === queryType) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now.getTime()) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async getStats(): Promise<SearchCacheStats> {
+    const entries = perType(() => 0);
+    this.entries.forEach(entry => entries[entry.queryType]++);
+    return buildSearchCacheStats(this.backend, this.counts, entries);
+  }
+}
+
+/**
+ * Firestore-backed cache shared by every server instance. Lookups never fail the search:
+ * read or write errors are logged and treated as a miss.
+ */
+export class FirestoreSearchCache implements SearchCache {
+  readonly backend = 'firestore' as const;
+
+  async get(queryType: SearchQueryType, query: string, now: Date = new Date()): Promise<string | null> {
+    let response: string | null = null;
+
+    try {
+      const doc = await adminDb.collection(SEARCH_CACHE_COLLECTION).doc(searchCacheKey(queryType, query)).get();
+      const data = doc.data();
+
+      if (doc.exists && data) {
+        if (toDate(data.expiresAt).getTime() > now.getTime()) {
+          response = data.response;
+        } else {
+          await doc.ref.delete();
+        }
+      }
+    } catch (error) {
+      console.error('Error reading search cache:', error);
+    }
+
+    await this.count(queryType, response !== null ? 'hits' : 'misses');
+    return response;
+  }
+
+  async set(queryType: SearchQueryType, query: string, response: string, now: Date = new Date()): Promise<void> {
+    try {
+      await adminDb.collection(SEARCH_CACHE_COLLECTION).doc(searchCacheKey(queryType, query)).set({
+        queryType,
+        query: normalizeSearchQuery(query),
+        response,
+        createdAt: now,
+        expiresAt: new Date(now.getTime() + SEARCH_CACHE_TTLS_MS[queryType])
+      });
+    } catch (error) {
+      console.error('Error writing search cache:', error);
+    }
+  }
+
+  async purge(queryType?: SearchQueryType): Promise<number> {
+    const collection = adminDb.collection(SEARCH_CACHE_COLLECTION);
+    const snapshot = await (queryType ? collection.where('queryType', '==', queryType) : collection).get();
+    return this.deleteAll(snapshot.docs);
+  }
+
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    const snapshot = await adminDb.collection(SEARCH_CACHE_COLLECTION).where('expiresAt', '<=', now).get();
+    return this.deleteAll(snapshot.docs);
+  }
+
+  async getStats(): Promise<SearchCacheStats> {
+    const statsSnapshot = await adminDb.collection(SEARCH_CACHE_STATS_COLLECTION).get();
+    const counts = perType<SearchCacheCounts>(() => ({ hits: 0, misses: 0 }));
+    statsSnapshot.docs.forEach(doc => {
+      if (doc.id in counts) {
+        const data = doc.data();
+        counts[doc.id as SearchQueryType] = { hits: data.hits || 0, misses: data.misses || 0 };
+      }
+    });
+
+    const entries = perType(() => 0);
+    await Promise.all(SEARCH_QUERY_TYPES.map(async type => {
+      const aggregate = await adminDb.collection(SEARCH_CACHE_COLLECTION).where('queryType', '==', type).count().get();
+      entries[type] = aggregate.data().count;
+    }));
+
+    return buildSearchCacheStats(this.backend, counts, entries);
+  }
+
+  private async deleteAll(docs: QueryDocumentSnapshot[]): Promise<number> {
+    for (let i = 0; i < docs.length; i += BATCH_SIZE) {
+      const batch = adminDb.batch();
+      docs.slice(i, i + BATCH_SIZE).forEach(doc => batch.delete(doc.ref));
+      await batch.commit();
+    }
+    return docs.length;
+  }
+
+  private async count(queryType: SearchQueryType, field: keyof SearchCacheCounts): Promise<void> {
+    try {
+      await adminDb.collection(SEARCH_CACHE_STATS_COLLECTION).doc(queryType).set({
+        [field]: FieldValue.increment(1)
+      }, { merge: true });
+    } catch (error) {
+      console.error('Error updating search cache stats:', error);
+    }
+  }
+}
+
+/**
+ * Backend selected by SEARCH_CACHE_BACKEND; defaults to Firestore in production and memory elsewhere
+ */
+export function getSearchCacheBackend(): SearchCacheBackend {
+  const name = (process.env.SEARCH_CACHE_BACKEND || (process.env.NODE_ENV === 'production' ? 'firestore' : 'memory')).toLowerCase();
+
+  if (name !== 'firestore' && name !== 'memory') {
+    throw new Error(`Unknown SEARCH_CACHE_BACKEND "${name}" (expected "firestore" or "memory")`);
+  }
+
+  return name;
+}
+
+/**
+ * Create a search cache for the configured backend
+ */
+export function createSearchCache(backend: SearchCacheBackend = getSearchCacheBackend()): SearchCache {
+  return backend === 'firestore' ? new FirestoreSearchCache() : new MemorySearchCache();
+}
+
+// Shared by every SerperTool in the process so the in-memory cache sees all searches
+export const searchCache = createSearchCache();
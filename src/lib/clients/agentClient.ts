@@ -2,6 +2,9 @@
  * Client utilities for interacting with the agent system
  */
 
+import { authFetch } from '@/lib/apiClient';
+import type { AgentUpdateRun, AgentUpdateRunProgress } from '@/types';
+
 export interface AgentUpdateOptions {
   type?: 'full' | 'smart' | 'ticker';
   maxTickers?: number;
@@ -13,21 +16,18 @@ export interface AgentUpdateOptions {
 export interface AgentUpdateResponse {
   success: boolean;
   type: string;
+  run: AgentUpdateRun;
+  message: string;
+}
+
+export interface AgentQueueResponse {
+  success: boolean;
   result: {
-    totalProcessed: number;
-    successCount: number;
-    errorCount: number;
-    results: Array<{
-      ticker: string;
-      success: boolean;
-      error?: string;
-      newsUpdated?: boolean;
-      financialsUpdated?: boolean;
-      lastUpdated: Date;
-    }>;
-    duration: number;
-    startTime: Date;
-    endTime: Date;
+    processed: number;
+    succeeded: number;
+    failed: number;
+    retried: number;
+    completedRuns: string[];
   };
   message: string;
 }
@@ -56,7 +56,7 @@ export class AgentClient {
    * Trigger agent updates
    */
   async triggerUpdate(options: AgentUpdateOptions = {}): Promise<AgentUpdateResponse> {
-    const response = await fetch(`${this.baseUrl}/api/agents/update`, {
+    const response = await authFetch(`${this.baseUrl}/api/agents/update`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -71,11 +71,85 @@ export class AgentClient {
     return response.json();
   }
 
+  /**
+   * Progress of a queued update run
+   */
+  async getRunProgress(runId: string): Promise<AgentUpdateRunProgress> {
+    const response = await authFetch(`${this.baseUrl}/api/agents/jobs/${runId}`);
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.progress;
+  }
+
+  /**
+   * Latest unfinished run, if any (e.g. to resume following it after a page reload)
+   */
+  async getActiveRun(): Promise<AgentUpdateRunProgress | null> {
+    const response = await authFetch(`${this.baseUrl}/api/agents/jobs?active=true`);
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.progress;
+  }
+
+  /**
+   * Process queued jobs for one slice of time (admins and scheduled jobs only)
+   */
+  async processQueue(runId?: string): Promise<AgentQueueResponse> {
+    const response = await authFetch(`${this.baseUrl}/api/agents/jobs`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ runId })
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Keep the worker busy on a run and poll its progress until it finishes
+   */
+  async followRun(
+    runId: string,
+    onProgress?: (progress: AgentUpdateRunProgress) => void,
+    pollIntervalMs: number = 3000
+  ): Promise<AgentUpdateRunProgress> {
+    let working = false;
+    let progress: AgentUpdateRunProgress;
+
+    do {
+      if (!working) {
+        working = true;
+        this.processQueue(runId)
+          .catch(error => console.error('Queue worker call failed:', error))
+          .finally(() => { working = false; });
+      }
+
+      await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+      progress = await this.getRunProgress(runId);
+      onProgress?.(progress);
+    } while (progress.run.status === 'queued' || progress.run.status === 'running');
+
+    return progress;
+  }
+
   /**
    * Get agent system status
    */
   async getStatus(): Promise<AgentStatusResponse> {
-    const response = await fetch(`${this.baseUrl}/api/agents/update?action=status`);
+    const response = await authFetch(`${this.baseUrl}/api/agents/update?action=status`);
 
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`);
@@ -88,7 +162,7 @@ export class AgentClient {
    * Get list of active tickers
    */
   async getActiveTickers(limit: number = 20): Promise<{ success: boolean; tickers: string[]; count: number }> {
-    const response = await fetch(`${this.baseUrl}/api/agents/update?action=tickers&limit=${limit}`);
+    const response = await authFetch(`${this.baseUrl}/api/agents/update?action=tickers&limit=${limit}`);
 
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`);
@@ -156,13 +230,13 @@ export async function runDailyUpdate(): Promise<void> {
   
   try {
     console.log('Starting daily smart update...');
-    const result = await client.runSmartUpdate(15, 6); // Update up to 15 tickers older than 6 hours
+    const { run } = await client.runSmartUpdate(15, 6); // Update up to 15 tickers older than 6 hours
+    const progress = await client.followRun(run.id);
     
-    console.log(`Update completed: ${result.result.successCount}/${result.result.totalProcessed} successful`);
-    console.log(`Duration: ${result.result.duration}ms`);
+    console.log(`Update completed: ${progress.run.successCount}/${progress.jobs.length} successful`);
     
     // Log any errors
-    const errors = result.result.results.filter(r => !r.success);
+    const errors = progress.jobs.filter(job => job.status === 'failed');
     if (errors.length > 0) {
       console.log('Errors occurred for:', errors.map(e => e.ticker).join(', '));
     }
@@ -179,19 +253,22 @@ export async function updateWatchlistTickers(watchlistTickers: string[]): Promis
   
   try {
     console.log(`Updating watchlist tickers: ${watchlistTickers.join(', ')}`);
-    const result = await client.updateTickers(watchlistTickers);
+    const { run } = await client.updateTickers(watchlistTickers);
+    const progress = await client.followRun(run.id, p => {
+      console.log(`  ${p.counts.done + p.counts.failed}/${p.jobs.length} processed`);
+    });
     
-    console.log(`Watchlist update completed: ${result.result.successCount}/${result.result.totalProcessed} successful`);
+    console.log(`Watchlist update completed: ${progress.run.successCount}/${progress.jobs.length} successful`);
     
     // Report per-ticker results
-    result.result.results.forEach(r => {
-      const status = r.success ? '✓' : '✗';
+    progress.jobs.forEach(job => {
+      const status = job.status === 'done' ? '✓' : '✗';
       const updates = [];
-      if (r.newsUpdated) updates.push('news');
-      if (r.financialsUpdated) updates.push('financials');
+      if (job.result?.newsUpdated) updates.push('news');
+      if (job.result?.financialsUpdated) updates.push('financials');
       
-      console.log(`${status} ${r.ticker}: ${updates.join(', ') || 'no updates'}`);
-      if (r.error) console.log(`  Error: ${r.error}`);
+      console.log(`${status} ${job.ticker}: ${updates.join(', ') || 'no updates'}`);
+      if (job.lastError) console.log(`  Error: ${job.lastError}`);
     });
   } catch (error) {
     console.error('Watchlist update failed:', error);
@@ -1,72 +1,87 @@
+import type { Analyst } from '@/lib/analysts/enhancedAnalystTracker';
+
+export const LEGACY_CREDIBILITY_COLLECTION = 'analyst_credibility';
+
+/**
+ * Credibility view of an analyst, derived from the canonical score in analysts_enhanced
+ */
 interface AnalystCredibility {
   analyst_id: string;
   analyst_name: string;
   firm: string;
-  credibility_score: number;
+  credibility_score: number; // 0.1-1.0
   track_record: {
     total_predictions: number;
     accurate_predictions: number;
     accuracy_rate: number;
     last_updated: Date;
   };
-  specializations: string[]; // e.g., ['tech', 'healthcare']
-  historical_performance: {
-    rating_accuracy: number; // How often their buy/sell recommendations were correct
-    price_target_accuracy: number; // How close their price targets were to actual prices
-    timing_accuracy: number; // How well they timed their recommendations
-    eps_accuracy: number; // How accurate their EPS estimates were
+  specializations: string[];
+  covered_tickers: string[];
+  weight_multiplier: number; // 0.5-2.0, how much their opinion should be weighted
+}
+
+/**
+ * Record in the retired analyst_credibility collection; only read by the analyst migration
+ */
+interface LegacyAnalystCredibility {
+  analyst_id: string;
+  analyst_name: string;
+  firm: string;
+  credibility_score: number;
+  track_record?: {
+    total_predictions: number;
+    accurate_predictions: number;
+    accuracy_rate: number;
+    last_updated: Date;
   };
-  recent_performance: {
+  specializations?: string[];
+  covered_tickers?: string[];
+  historical_performance?: {
+    rating_accuracy: number;
+    price_target_accuracy: number;
+    timing_accuracy: number;
+    eps_accuracy: number;
+  };
+  recent_performance?: {
     last_30_days: number;
     last_90_days: number;
     last_year: number;
   };
-  weight_multiplier: number; // 0.5-2.0, how much their opinion should be weighted
-}
-
-interface CredibilityCalculation {
-  base_accuracy: number;
-  recency_factor: number;
-  specialization_bonus: number;
-  volume_factor: number;
-  final_score: number;
+  weight_multiplier?: number;
 }
 
 export class AnalystCredibilityTracker {
-  
-  static calculateCredibilityScore(analyst: Partial<AnalystCredibility>): CredibilityCalculation {
-    const baseAccuracy = analyst.track_record?.accuracy_rate || 0.5;
-    
-    // Recency factor: recent performance is weighted more heavily
-    const recentPerf = analyst.recent_performance;
-    const recencyFactor = recentPerf 
-      ? (recentPerf.last_30_days * 0.5 + recentPerf.last_90_days * 0.3 + recentPerf.last_year * 0.2)
-      : baseAccuracy;
-    
-    // Specialization bonus: analysts get bonus for covering their specialty sectors
-    const specializationBonus = analyst.specializations?.length ? 0.05 : 0;
-    
-    // Volume factor: more predictions = more reliable (up to a point)
-    const totalPredictions = analyst.track_record?.total_predictions || 0;
-    const volumeFactor = Math.min(totalPredictions / 100, 1.0) * 0.1;
-    
-    const finalScore = Math.min(
-      Math.max(
-        baseAccuracy * 0.4 + 
-        recencyFactor * 0.4 + 
-        specializationBonus + 
-        volumeFactor, 
-        0.1
-      ), 
-      1.0
-    );
-    
+
+  /**
+   * 0.1-1.0 credibility for a 0-100 score; the starting score of 50 is the neutral 0.5
+   */
+  static credibilityFromScore(score: number): number {
+    return Math.min(Math.max(score / 100, 0.1), 1.0);
+  }
+
+  /**
+   * 0.5-2.0 weight multiplier; an analyst at the starting score counts once
+   */
+  static weightFromScore(score: number): number {
+    return Math.pow(2, (Math.min(Math.max(score, 0), 100) - 50) / 50);
+  }
+
+  static toCredibility(analyst: Analyst): AnalystCredibility {
     return {
-      base_accuracy: baseAccuracy,
-      recency_factor: recencyFactor,
-      specialization_bonus: specializationBonus,
-      volume_factor: volumeFactor,
-      final_score: finalScore
+      analyst_id: analyst.id,
+      analyst_name: analyst.name,
+      firm: analyst.firm,
+      credibility_score: this.credibilityFromScore(analyst.score),
+      track_record: {
+        total_predictions: analyst.lifetime_calls || 0,
+        accurate_predictions: analyst.correct_calls || 0,
+        accuracy_rate: analyst.accuracy_rate || 0,
+        last_updated: analyst.updated_at
+      },
+      specializations: analyst.specializations || [],
+      covered_tickers: analyst.covered_tickers || [],
+      weight_multiplier: this.weightFromScore(analyst.score)
     };
   }
   
@@ -137,62 +152,6 @@ export class AnalystCredibilityTracker {
     
     return totalWeight > 0 ? (varianceSum / totalWeight) / 4 : 0; // Normalize by max possible difference (4)
   }
-  
-  static updateAnalystPerformance(
-    analystId: string, 
-    prediction: {
-      type: 'rating' | 'price_target' | 'eps';
-      predicted_value: any;
-      actual_value: any;
-      date: Date;
-      ticker: string;
-    }
-  ): Partial<AnalystCredibility> {
-    // This would integrate with database to update analyst performance
-    // For now, return structure for database update
-    
-    const accuracy = this.calculatePredictionAccuracy(prediction);
-    
-    return {
-      analyst_id: analystId,
-      track_record: {
-        total_predictions: 1, // This would be incremented in database
-        accurate_predictions: accuracy > 0.7 ? 1 : 0,
-        accuracy_rate: accuracy,
-        last_updated: new Date()
-      }
-    };
-  }
-  
-  private static calculatePredictionAccuracy(prediction: {
-    type: 'rating' | 'price_target' | 'eps';
-    predicted_value: any;
-    actual_value: any;
-  }): number {
-    switch (prediction.type) {
-      case 'price_target':
-        const priceDiff = Math.abs(
-          (Number(prediction.actual_value) - Number(prediction.predicted_value)) / 
-          Number(prediction.predicted_value)
-        );
-        return Math.max(0, 1 - priceDiff);
-        
-      case 'eps':
-        const epsDiff = Math.abs(
-          (Number(prediction.actual_value) - Number(prediction.predicted_value)) / 
-          Math.abs(Number(prediction.predicted_value) || 0.01)
-        );
-        return Math.max(0, 1 - epsDiff);
-        
-      case 'rating':
-        // Rating accuracy would be measured over time based on stock performance
-        // This is a simplified version
-        return 0.7; // Placeholder
-        
-      default:
-        return 0.5;
-    }
-  }
 }
 
-export type { AnalystCredibility, CredibilityCalculation };
\ No newline at end of file
+export type { AnalystCredibility, LegacyAnalystCredibility };
@@ -1,4 +1,5 @@
 import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
 import { getFirestore } from 'firebase-admin/firestore';
 
 // Initialize Firebase Admin if it hasn't been initialized already
@@ -41,4 +42,5 @@ if (!getApps().length) {
   }
 }
 
-export const adminDb = getFirestore();
\ No newline at end of file
+export const adminDb = getFirestore();
+export const adminAuth = getAuth();
@@ -12,32 +12,37 @@ import {
   limit,
   startAfter,
   DocumentSnapshot,
+  QueryDocumentSnapshot,
   Timestamp,
+  runTransaction,
 } from 'firebase/firestore';
 import { db } from './firebase';
+import { toOptionalDate } from './utils/firestoreValues';
 import type {
   User,
   Watchlist,
   WatchlistCompany,
+  PortfolioLot,
   EarningsEvent,
   SentimentSignal,
   AlertRule,
   AlertHistory,
   CompanyHistory,
-  OpenAICallLog,
   DailyUsageMetrics,
+  SentimentCalibrationStats,
 } from '@/types';
 
 // Collections
 const USERS_COLLECTION = 'users';
 const WATCHLISTS_COLLECTION = 'watchlists';
+const PORTFOLIO_LOTS_COLLECTION = 'portfolio_lots';
 const EARNINGS_EVENTS_COLLECTION = 'earnings_events';
 const SIGNALS_LATEST_COLLECTION = 'signals_latest';
 const ALERT_RULES_COLLECTION = 'alert_rules';
 const ALERT_HISTORY_COLLECTION = 'alert_history';
 const COMPANY_HISTORY_COLLECTION = 'company_history';
-const OPENAI_CALLS_COLLECTION = 'openai_calls';
 const USAGE_METRICS_COLLECTION = 'usage_metrics';
+const SENTIMENT_CALIBRATION_COLLECTION = 'sentiment_calibration';
 
 // User operations
 export const getUserById = async (userId: string): Promise<User | null> => {
@@ -113,7 +118,109 @@ export const removeCompanyFromWatchlist = async (watchlistId: string, ticker: st
   }
 };
 
+// Portfolio lot operations
+export const getUserPortfolioLots = async (userId: string): Promise<PortfolioLot[]> => {
+  const q = query(
+    collection(db, PORTFOLIO_LOTS_COLLECTION),
+    where('userId', '==', userId),
+    orderBy('buyDate', 'desc')
+  );
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map(doc => {
+    const data = doc.data();
+    return {
+      ...data,
+      id: doc.id,
+      buyDate: toOptionalDate(data.buyDate),
+      sellDate: toOptionalDate(data.sellDate),
+      createdAt: toOptionalDate(data.createdAt),
+      updatedAt: toOptionalDate(data.updatedAt),
+    } as PortfolioLot;
+  });
+};
+
+export const createPortfolioLot = async (lot: Omit<PortfolioLot, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> => {
+  const docRef = await addDoc(collection(db, PORTFOLIO_LOTS_COLLECTION), {
+    ...lot,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+  return docRef.id;
+};
+
+export const updatePortfolioLot = async (lotId: string, data: Partial<PortfolioLot>) => {
+  await updateDoc(doc(db, PORTFOLIO_LOTS_COLLECTION, lotId), {
+    ...data,
+    updatedAt: new Date(),
+  });
+};
+
+export const deletePortfolioLot = async (lotId: string) => {
+  await deleteDoc(doc(db, PORTFOLIO_LOTS_COLLECTION, lotId));
+};
+
+// Selling part of a lot keeps the remainder open and records the sold shares as a closed lot.
+// The quantity is checked against the stored lot inside a transaction, so a stale page or a
+// second tab can't sell shares that are already gone.
+export const sellPortfolioLot = async (lot: PortfolioLot, quantity: number, sellPrice: number, sellDate: Date) => {
+  const lotRef = doc(db, PORTFOLIO_LOTS_COLLECTION, lot.id);
+
+  await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(lotRef);
+    const data = snapshot.data();
+    if (!snapshot.exists() || !data || data.status === 'closed') {
+      throw new Error('This lot is no longer open');
+    }
+
+    const openQuantity: number = data.quantity;
+    if (quantity <= 0 || quantity > openQuantity) {
+      throw new Error(`Sell quantity must be between 0 and ${openQuantity}`);
+    }
+
+    const now = new Date();
+    if (quantity === openQuantity) {
+      transaction.update(lotRef, { status: 'closed', sellPrice, sellDate, updatedAt: now });
+      return;
+    }
+
+    const { createdAt, updatedAt, ...lotData } = data;
+    transaction.set(doc(collection(db, PORTFOLIO_LOTS_COLLECTION)), {
+      ...lotData,
+      quantity,
+      status: 'closed',
+      sellPrice,
+      sellDate,
+      createdAt: now,
+      updatedAt: now,
+    });
+    transaction.update(lotRef, { quantity: openQuantity - quantity, updatedAt: now });
+  });
+};
+
 // Earnings events operations
+
+const toEarningsEvent = (snapshot: QueryDocumentSnapshot): EarningsEvent => {
+  const data = snapshot.data();
+  return {
+    id: snapshot.id,
+    ...data,
+    expectedDate: toOptionalDate(data.expectedDate),
+    dateCandidates: data.dateCandidates?.map((candidate: any) => ({
+      ...candidate,
+      date: toOptionalDate(candidate.date),
+      fetchedAt: toOptionalDate(candidate.fetchedAt),
+    })),
+    dateChanges: data.dateChanges?.map((change: any) => ({
+      ...change,
+      from: toOptionalDate(change.from),
+      to: toOptionalDate(change.to),
+      changedAt: toOptionalDate(change.changedAt),
+    })),
+    createdAt: toOptionalDate(data.createdAt),
+    updatedAt: toOptionalDate(data.updatedAt),
+  } as EarningsEvent;
+};
+
 export const getUpcomingEarnings = async (
   markets?: string[],
   sectors?: string[],
@@ -131,16 +238,7 @@ export const getUpcomingEarnings = async (
   }
 
   const snapshot = await getDocs(q);
-  return snapshot.docs.map(doc => {
-    const data = doc.data();
-    return {
-      id: doc.id,
-      ...data,
-      expectedDate: data.expectedDate?.toDate ? data.expectedDate.toDate() : data.expectedDate,
-      createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : data.createdAt,
-      updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : data.updatedAt,
-    } as EarningsEvent;
-  });
+  return snapshot.docs.map(toEarningsEvent);
 };
 
 export const getEarningsForTickers = async (tickers: string[]): Promise<EarningsEvent[]> => {
@@ -154,16 +252,7 @@ export const getEarningsForTickers = async (tickers: string[]): Promise<Earnings
   );
   
   const snapshot = await getDocs(q);
-  return snapshot.docs.map(doc => {
-    const data = doc.data();
-    return {
-      id: doc.id,
-      ...data,
-      expectedDate: data.expectedDate?.toDate ? data.expectedDate.toDate() : data.expectedDate,
-      createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : data.createdAt,
-      updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : data.updatedAt,
-    } as EarningsEvent;
-  });
+  return snapshot.docs.map(toEarningsEvent);
 };
 
 // Sentiment signals operations
@@ -311,7 +400,27 @@ export const createAlertHistory = async (alert: Omit<AlertHistory, 'id'>): Promi
 // Company history operations
 export const getCompanyHistory = async (ticker: string): Promise<CompanyHistory | null> => {
   const companyDoc = await getDoc(doc(db, COMPANY_HISTORY_COLLECTION, ticker));
-  return companyDoc.exists() ? { ...companyDoc.data(), id: companyDoc.id } as CompanyHistory : null;
+  if (!companyDoc.exists()) return null;
+
+  const data = companyDoc.data();
+  return {
+    ...data,
+    id: companyDoc.id,
+    events: (data.events || []).map((event: any) => ({
+      ...event,
+      date: toOptionalDate(event.date),
+    })),
+    insights: (data.insights || []).map((insight: any) => ({
+      ...insight,
+      sentimentSignal: {
+        ...insight.sentimentSignal,
+        createdAt: toOptionalDate(insight.sentimentSignal?.createdAt),
+        expiresAt: toOptionalDate(insight.sentimentSignal?.expiresAt),
+      },
+    })),
+    createdAt: toOptionalDate(data.createdAt),
+    updatedAt: toOptionalDate(data.updatedAt),
+  } as CompanyHistory;
 };
 
 export const updateCompanyHistory = async (ticker: string, data: Partial<CompanyHistory>) => {
@@ -321,26 +430,6 @@ export const updateCompanyHistory = async (ticker: string, data: Partial<Company
   });
 };
 
-// OpenAI call logging
-export const logOpenAICall = async (callLog: Omit<OpenAICallLog, 'id'>): Promise<string> => {
-  const docRef = await addDoc(collection(db, OPENAI_CALLS_COLLECTION), {
-    ...callLog,
-    createdAt: new Date(),
-  });
-  return docRef.id;
-};
-
-export const getOpenAICallByHash = async (inputHash: string): Promise<OpenAICallLog | null> => {
-  const q = query(
-    collection(db, OPENAI_CALLS_COLLECTION),
-    where('inputHash', '==', inputHash),
-    limit(1)
-  );
-  
-  const snapshot = await getDocs(q);
-  return snapshot.empty ? null : { ...snapshot.docs[0].data(), id: snapshot.docs[0].id } as OpenAICallLog;
-};
-
 // Usage metrics
 export const getDailyUsageMetrics = async (date: string): Promise<DailyUsageMetrics | null> => {
   const metricsDoc = await getDoc(doc(db, USAGE_METRICS_COLLECTION, date));
@@ -349,4 +438,16 @@ export const getDailyUsageMetrics = async (date: string): Promise<DailyUsageMetr
 
 export const updateDailyUsageMetrics = async (date: string, data: Partial<DailyUsageMetrics>) => {
   await updateDoc(doc(db, USAGE_METRICS_COLLECTION, date), data);
-};
\ No newline at end of file
+};
+
+// Sentiment calibration
+export const getSentimentCalibration = async (): Promise<SentimentCalibrationStats | null> => {
+  const statsDoc = await getDoc(doc(db, SENTIMENT_CALIBRATION_COLLECTION, 'latest'));
+  if (!statsDoc.exists()) return null;
+
+  const data = statsDoc.data();
+  return {
+    ...data,
+    updatedAt: toOptionalDate(data.updatedAt),
+  } as SentimentCalibrationStats;
+};
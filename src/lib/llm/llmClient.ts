@@ -0,0 +1,167 @@
+/**
+ * LLM Client
+ * Single entry point for LLM calls: JSON answers are validated against a schema, malformed
+ * answers are sent back to the model for a retry, and every call is logged with its tokens
+ * and cost in openai_calls.
+ */
+
+import { createHash } from 'crypto';
+import { adminDb } from '../firebase-admin';
+import { withoutUndefined } from '../utils/firestoreValues';
+import { extractJson, validateJsonSchema } from './jsonSchema';
+import { OpenAIChatModel } from './openaiModel';
+import type { JsonSchema, LLMJsonRequest, LLMJsonResult, LLMMessage, LLMModel } from './types';
+
+export * from './types';
+
+export const OPENAI_CALLS_COLLECTION = 'openai_calls';
+
+// First answer plus two corrections
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+// Validation messages sent back to the model on a retry
+const MAX_REPORTED_ERRORS = 5;
+
+/**
+ * The model kept answering with JSON that doesn't parse or doesn't match the schema
+ */
+export class LLMResponseError extends Error {
+  constructor(readonly purpose: string, readonly errors: string[], readonly content: string, readonly attempts: number) {
+    super(`Invalid ${purpose} response after ${attempts} attempt(s): ${errors.slice(0, MAX_REPORTED_ERRORS).join('; ')}`);
+    this.name = 'LLMResponseError';
+  }
+}
+
+/**
+ * Parse a model answer and check it against the schema
+ */
+export function parseJsonResponse<T>(content: string, schema: JsonSchema): { data?: T; errors: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJson(content));
+  } catch (error) {
+    return { errors: [`Response is not valid JSON (${error instanceof Error ? error.message : 'parse error'})`] };
+  }
+
+  const errors = validateJsonSchema(parsed, schema);
+  return errors.length === 0 ? { data: parsed as T, errors } : { errors };
+}
+
+export function hashMessages(messages: LLMMessage[]): string {
+  return createHash('sha256').update(JSON.stringify(messages)).digest('hex');
+}
+
+export class LLMClient {
+  constructor(readonly model: LLMModel, private maxAttempts: number = DEFAULT_MAX_ATTEMPTS) {}
+
+  /**
+   * Ask for a JSON object matching `schema`. Throws LLMResponseError when no attempt produced
+   * a valid answer; quota and API errors from the model are passed through.
+   */
+  async completeJson<T>(request: LLMJsonRequest): Promise<LLMJsonResult<T>> {
+    const messages = [...request.messages];
+    let tokensUsed = 0;
+    let cost = 0;
+    let content = '';
+    let errors: string[] = [];
+
+    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+      const completion = await this.model.complete({
+        messages: [...messages],
+        maxTokens: request.maxTokens,
+        temperature: request.temperature,
+        json: true
+      });
+      tokensUsed += completion.tokensUsed;
+      cost += completion.cost;
+      content = completion.content;
+
+      const parsed = parseJsonResponse<T>(content, request.schema);
+      errors = parsed.errors;
+
+      if (parsed.data !== undefined) {
+        const result: LLMJsonResult<T> = {
+          data: parsed.data,
+          content,
+          model: completion.model,
+          tokensUsed,
+          cost,
+          attempts: attempt
+        };
+        await this.logCall(request, result, true);
+        return result;
+      }
+
+      console.warn(`⚠️ Invalid ${request.purpose} response from ${this.model.model} (attempt ${attempt}/${this.maxAttempts}): ${errors.join('; ')}`);
+      messages.push(
+        { role: 'assistant', content },
+        {
+          role: 'user',
+          content: `That response was invalid: ${errors.slice(0, MAX_REPORTED_ERRORS).join('; ')}. Reply again with ONLY the corrected JSON object.`
+        }
+      );
+    }
+
+    await this.logCall(request, {
+      data: null,
+      content,
+      model: this.model.model,
+      tokensUsed,
+      cost,
+      attempts: this.maxAttempts
+    }, false);
+    throw new LLMResponseError(request.purpose, errors, content, this.maxAttempts);
+  }
+
+  /**
+   * The answer of an earlier successful call with the same input hash, if any
+   */
+  async findCachedResult<T>(inputHash: string): Promise<T | null> {
+    try {
+      const snapshot = await adminDb.collection(OPENAI_CALLS_COLLECTION)
+        .where('inputHash', '==', inputHash)
+        .where('resultUsed', '==', true)
+        .limit(1)
+        .get();
+
+      return snapshot.empty ? null : JSON.parse(snapshot.docs[0].data().response) as T;
+    } catch (error) {
+      console.error('Error reading cached LLM call:', error);
+      return null;
+    }
+  }
+
+  private async logCall(request: LLMJsonRequest, result: LLMJsonResult<unknown>, resultUsed: boolean): Promise<void> {
+    const prompt = [...request.messages].reverse().find(message => message.role === 'user')?.content || '';
+
+    try {
+      await adminDb.collection(OPENAI_CALLS_COLLECTION).add(withoutUndefined({
+        ticker: request.ticker,
+        purpose: request.purpose,
+        promptVersion: request.promptVersion,
+        provider: this.model.provider,
+        model: result.model,
+        inputHash: request.inputHash || hashMessages(request.messages),
+        prompt,
+        response: resultUsed ? JSON.stringify(result.data) : result.content,
+        tokensUsed: result.tokensUsed,
+        cost: result.cost,
+        attempts: result.attempts,
+        createdAt: new Date(),
+        resultUsed
+      }));
+    } catch (error) {
+      // Logging failure shouldn't break the main flow
+      console.error('Error logging LLM call:', error);
+    }
+  }
+}
+
+/**
+ * Create an LLM client; defaults to the OpenAI model from OPENAI_MODEL
+ */
+export function createLLMClient(model: LLMModel = new OpenAIChatModel(), maxAttempts?: number): LLMClient {
+  return new LLMClient(model, maxAttempts);
+}
+
+export const llmClient = createLLMClient();
@@ -0,0 +1,48 @@
+import type { LLMCompletion, LLMCompletionRequest, LLMModel } from './types';
+
+export type MockLLMResponse = string | object | ((request: LLMCompletionRequest) => string | object);
+
+export interface MockLLMOptions {
+  tokensPerCall?: number;
+  costPer1kTokens?: number;
+}
+
+/**
+ * Scripted model for tests and offline development. Answers are served in order (the last one
+ * repeats); objects are sent as JSON. Every request is kept in `requests`.
+ */
+export class MockLLMModel implements LLMModel {
+  readonly provider = 'mock';
+  readonly model = 'mock-model';
+  readonly costPer1kTokens: number;
+  readonly requests: LLMCompletionRequest[] = [];
+  private tokensPerCall: number;
+
+  constructor(private responses: MockLLMResponse[], options: MockLLMOptions = {}) {
+    this.tokensPerCall = options.tokensPerCall ?? 100;
+    this.costPer1kTokens = options.costPer1kTokens ?? 0;
+    if (responses.length === 0) {
+      throw new Error('MockLLMModel needs at least one response');
+    }
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const next = this.responses[Math.min(this.requests.length, this.responses.length - 1)];
+    this.requests.push(request);
+
+    const answer = typeof next === 'function' ? next(request) : next;
+    return {
+      content: typeof answer === 'string' ? answer : JSON.stringify(answer),
+      model: this.model,
+      tokensUsed: this.tokensPerCall,
+      cost: (this.tokensPerCall / 1000) * this.costPer1kTokens
+    };
+  }
+}
+
+/**
+ * Create a scripted mock model
+ */
+export function createMockLLMModel(responses: MockLLMResponse[], options?: MockLLMOptions): MockLLMModel {
+  return new MockLLMModel(responses, options);
+}
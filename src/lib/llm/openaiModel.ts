@@ -0,0 +1,82 @@
+import OpenAI from 'openai';
+import { PROVIDER_QUOTAS, quotaManager } from '../services/quotaManager';
+import type { LLMCompletion, LLMCompletionRequest, LLMModel } from './types';
+
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+export interface ModelPrice {
+  promptPer1kTokens: number;
+  completionPer1kTokens: number;
+}
+
+// USD list prices; dated snapshots (gpt-4o-mini-2024-07-18) match their base name
+export const OPENAI_PRICING: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { promptPer1kTokens: 0.00015, completionPer1kTokens: 0.0006 },
+  'gpt-4o': { promptPer1kTokens: 0.0025, completionPer1kTokens: 0.01 },
+  'gpt-4.1-nano': { promptPer1kTokens: 0.0001, completionPer1kTokens: 0.0004 },
+  'gpt-4.1-mini': { promptPer1kTokens: 0.0004, completionPer1kTokens: 0.0016 },
+  'gpt-4.1': { promptPer1kTokens: 0.002, completionPer1kTokens: 0.008 },
+  'gpt-3.5-turbo': { promptPer1kTokens: 0.0005, completionPer1kTokens: 0.0015 },
+};
+
+/**
+ * Price of one completion; models missing from OPENAI_PRICING fall back to the provider's flat budget rate
+ */
+export function priceOpenAICompletion(model: string, promptTokens: number, completionTokens: number): number {
+  const name = Object.keys(OPENAI_PRICING)
+    .sort((a, b) => b.length - a.length)
+    .find(known => model === known || model.startsWith(`${known}-`));
+
+  if (!name) {
+    return ((promptTokens + completionTokens) / 1000) * PROVIDER_QUOTAS.openai.costPer1kTokens;
+  }
+
+  const price = OPENAI_PRICING[name];
+  return (promptTokens / 1000) * price.promptPer1kTokens + (completionTokens / 1000) * price.completionPer1kTokens;
+}
+
+/**
+ * OpenAI chat completions, metered by the quota manager under the 'openai' provider
+ */
+export class OpenAIChatModel implements LLMModel {
+  readonly provider = 'openai';
+  private client: OpenAI | null = null;
+
+  constructor(readonly model: string = process.env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL) {}
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const completion = await quotaManager.call('openai', () => this.getClient().chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(request.json && { response_format: { type: 'json_object' as const } }),
+    }), response => response.usage?.total_tokens || 0, response => this.cost(response));
+
+    return {
+      content: completion.choices[0]?.message?.content || '',
+      model: completion.model || this.model,
+      tokensUsed: completion.usage?.total_tokens || 0,
+      cost: this.cost(completion)
+    };
+  }
+
+  private cost(completion: OpenAI.Chat.ChatCompletion): number {
+    return priceOpenAICompletion(
+      completion.model || this.model,
+      completion.usage?.prompt_tokens || 0,
+      completion.usage?.completion_tokens || 0
+    );
+  }
+
+  // Created on first use so importing the module doesn't require OPENAI_API_KEY
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: process.env.OPENAI_API_KEY,
+        maxRetries: 0, // The quota manager owns 429 retries
+      });
+    }
+    return this.client;
+  }
+}
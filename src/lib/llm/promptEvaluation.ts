@@ -0,0 +1,177 @@
+/**
+ * Prompt Evaluation
+ * Replays saved inputs against two versions of a prompt and reports how often the versions agree
+ * and, for cases with a known answer, how often each is right. Cases are JSON files under
+ * PROMPT_EVAL_DIR (fixtures/prompt-eval by default), one per prompt: {promptId}.json.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DateQuarterUtils } from '../utils/sp500Tickers';
+import { QuotaExceededError } from '../services/quotaManager';
+import { llmClient, type LLMClient } from './llmClient';
+import {
+  PROMPTS,
+  getPromptVersion,
+  renderPrompt,
+  type EarningsDateResponse,
+  type PromptId,
+  type PromptInputs,
+  type SentimentResponse
+} from './prompts';
+
+const DEFAULT_EVAL_DIR = 'fixtures/prompt-eval';
+
+export interface PromptEvalCase<K extends PromptId = PromptId> {
+  id: string;
+  input: PromptInputs[K];
+  /** Known answer: the sentiment label, or the YYYY-MM-DD date (null when there is none) */
+  expected?: string | null;
+}
+
+export interface PromptEvalRun {
+  outcome?: string | null;
+  error?: string;
+  tokensUsed: number;
+  cost: number;
+}
+
+export interface PromptEvalCaseResult {
+  id: string;
+  expected?: string | null;
+  a: PromptEvalRun;
+  b: PromptEvalRun;
+  agree: boolean;
+}
+
+export interface PromptEvalVersionSummary {
+  version: string;
+  answered: number;
+  failed: number;
+  labeled: number;
+  correct: number;
+  accuracy: number | null; // over labeled cases; failures count as wrong
+  tokensUsed: number;
+  cost: number;
+}
+
+export interface PromptEvalReport {
+  promptId: PromptId;
+  total: number;
+  /** Share of cases where both versions answered the same; failures count as disagreement */
+  agreement: number | null;
+  a: PromptEvalVersionSummary;
+  b: PromptEvalVersionSummary;
+  cases: PromptEvalCaseResult[];
+}
+
+// The part of each answer that is compared between versions and against the known answer
+const OUTCOMES: { [K in PromptId]: (data: any) => string | null } = {
+  sentiment: (data: SentimentResponse) => data.sentiment,
+  'earnings-date': (data: EarningsDateResponse) => (data.date ? data.date.slice(0, 10) : null),
+};
+
+// Saved inputs hold dates as strings
+const REVIVE_INPUT: { [K in PromptId]: (input: any) => PromptInputs[K] } = {
+  sentiment: input => ({ ...input, earningsDate: new Date(input.earningsDate) }),
+  'earnings-date': input => {
+    const today = new Date(`${input.today}T12:00:00Z`);
+    return { ticker: input.ticker, searchResults: input.searchResults, today, context: DateQuarterUtils.getReportingContext(today) };
+  },
+};
+
+/**
+ * Read the saved cases for a prompt
+ */
+export async function loadPromptEvalCases<K extends PromptId>(
+  promptId: K,
+  evalDir: string = process.env.PROMPT_EVAL_DIR || DEFAULT_EVAL_DIR
+): Promise<PromptEvalCase<K>[]> {
+  const file = path.resolve(process.cwd(), evalDir, `${promptId}.json`);
+  const saved: Array<{ id: string; input: unknown; expected?: string | null }> = JSON.parse(await fs.readFile(file, 'utf8'));
+
+  return saved.map(item => ({
+    id: item.id,
+    input: REVIVE_INPUT[promptId](item.input) as PromptInputs[K],
+    expected: item.expected
+  }));
+}
+
+function summarize(version: string, cases: PromptEvalCaseResult[], side: 'a' | 'b'): PromptEvalVersionSummary {
+  const runs = cases.map(result => result[side]);
+  const labeled = cases.filter(result => result.expected !== undefined);
+  const correct = labeled.filter(result => !result[side].error && result[side].outcome === result.expected).length;
+
+  return {
+    version,
+    answered: runs.filter(run => !run.error).length,
+    failed: runs.filter(run => run.error).length,
+    labeled: labeled.length,
+    correct,
+    accuracy: labeled.length > 0 ? correct / labeled.length : null,
+    tokensUsed: runs.reduce((sum, run) => sum + run.tokensUsed, 0),
+    cost: runs.reduce((sum, run) => sum + run.cost, 0)
+  };
+}
+
+/**
+ * Run every case through both prompt versions. Cases run one at a time; a used-up
+ * OpenAI budget stops the evaluation.
+ */
+export async function evaluatePromptVersions<K extends PromptId>(
+  promptId: K,
+  versionA: string,
+  versionB: string,
+  cases: PromptEvalCase<K>[],
+  client: LLMClient = llmClient
+): Promise<PromptEvalReport> {
+  // Fail fast on unknown versions
+  getPromptVersion(promptId, versionA);
+  getPromptVersion(promptId, versionB);
+
+  const family = PROMPTS[promptId];
+
+  const run = async (evalCase: PromptEvalCase<K>, version: string): Promise<PromptEvalRun> => {
+    const prompt = renderPrompt(promptId, evalCase.input, version);
+    try {
+      const result = await client.completeJson({
+        purpose: `${promptId}-eval`,
+        promptVersion: version,
+        schema: family.schema,
+        messages: prompt.messages,
+        maxTokens: family.maxTokens,
+        temperature: family.temperature
+      });
+      return { outcome: OUTCOMES[promptId](result.data), tokensUsed: result.tokensUsed, cost: result.cost };
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        throw error;
+      }
+      return { error: error instanceof Error ? error.message : 'Unknown error', tokensUsed: 0, cost: 0 };
+    }
+  };
+
+  const results: PromptEvalCaseResult[] = [];
+  for (const evalCase of cases) {
+    const a = await run(evalCase, versionA);
+    const b = await run(evalCase, versionB);
+    results.push({
+      id: evalCase.id,
+      expected: evalCase.expected,
+      a,
+      b,
+      agree: !a.error && !b.error && a.outcome === b.outcome
+    });
+  }
+
+  console.log(`🧪 ${promptId} ${versionA} vs ${versionB}: ${results.filter(result => result.agree).length}/${results.length} agree`);
+
+  return {
+    promptId,
+    total: results.length,
+    agreement: results.length > 0 ? results.filter(result => result.agree).length / results.length : null,
+    a: summarize(versionA, results, 'a'),
+    b: summarize(versionB, results, 'b'),
+    cases: results
+  };
+}
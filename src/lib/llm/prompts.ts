@@ -0,0 +1,342 @@
+/**
+ * Prompt Registry
+ * Every prompt sent for sentiment and earnings-date extraction, by version. The version used is
+ * recorded on each openai_calls entry and on sentiment signals, so results can be traced to the
+ * prompt that produced them. Published versions are never edited; changes go into a new version.
+ */
+
+import type { SentimentAnalysisInput } from '../services/sentimentService';
+import type { DateQuarterUtils } from '../utils/sp500Tickers';
+import type { JsonSchema, LLMMessage } from './types';
+
+export type PromptId = 'sentiment' | 'earnings-date';
+
+export const PROMPT_IDS: PromptId[] = ['sentiment', 'earnings-date'];
+
+export type ReportingContext = ReturnType<typeof DateQuarterUtils.getReportingContext>;
+
+export interface EarningsDatePromptInput {
+  ticker: string;
+  searchResults: string;
+  today: Date;
+  context: ReportingContext;
+}
+
+export interface PromptInputs {
+  sentiment: SentimentAnalysisInput;
+  'earnings-date': EarningsDatePromptInput;
+}
+
+export interface SentimentResponse {
+  sentiment: 'positive' | 'neutral' | 'negative';
+  sentimentScore: number;
+  reasoning: string;
+  confidence?: number;
+}
+
+export interface EarningsDateResponse {
+  date: string | null;
+  quarter: 'Q1' | 'Q2' | 'Q3' | 'Q4' | null;
+  confidence?: number;
+  confirmed?: boolean; // asked for from v3 on
+}
+
+export interface PromptVersion<TInput> {
+  version: string;
+  description: string;
+  system: string;
+  build(input: TInput): string;
+}
+
+export interface PromptFamily<TInput> {
+  /** Answer format shared by every version */
+  schema: JsonSchema;
+  maxTokens: number;
+  temperature: number;
+  /** Version used unless PROMPT_VERSIONS overrides it */
+  defaultVersion: string;
+  versions: Record<string, PromptVersion<TInput>>;
+}
+
+export interface RenderedPrompt {
+  promptId: PromptId;
+  version: string;
+  messages: LLMMessage[];
+}
+
+const SENTIMENT_SYSTEM = 'You are a financial analyst providing earnings sentiment analysis. Respond only with valid JSON.';
+const EARNINGS_DATE_SYSTEM = 'You are a financial data extraction expert. Return only valid JSON.';
+
+const formatLongDate = (date: Date) => date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+const sentimentFacts = (input: SentimentAnalysisInput) => `Company: ${input.companyName} (${input.ticker})
+Sector: ${input.sector}
+Market: ${input.market}
+Earnings Date: ${input.earningsDate.toISOString().split('T')[0]}
+${input.analystEstimate ? `Analyst Estimate: $${input.analystEstimate}` : ''}
+${input.previousEarnings ? `Previous Earnings: $${input.previousEarnings}` : ''}
+${input.additionalContext ? `Additional Context: ${input.additionalContext}` : ''}`;
+
+const SENTIMENT_FORMAT = `Respond with ONLY a JSON object in this exact format:
+{
+  "sentiment": "positive|neutral|negative",
+  "sentimentScore": 0.0-1.0,
+  "reasoning": "Brief explanation of sentiment rationale",
+  "confidence": 0.0-1.0
+}`;
+
+const earningsDateContext = ({ context, today }: EarningsDatePromptInput) => `Current Earnings Context:
+- Current quarter: ${context.currentQuarter} ${context.year}
+- Companies are reporting ${context.reportingQuarter} ${context.year} results during: ${context.reportingMonths.join(', ')} ${context.year}
+- Next reporting season: ${context.nextQuarter} results in ${context.nextReportingMonths.join(', ')} ${context.nextQuarter === 'Q1' ? context.year + 1 : context.year}
+- Only consider dates AFTER today (${formatLongDate(today)})`;
+
+const earningsDateFormat = ({ context }: EarningsDatePromptInput) => `Return ONLY a JSON object:
+{
+  "date": "YYYY-MM-DD" or null,
+  "quarter": "${context.reportingQuarter}" | "${context.nextQuarter}" or null,
+  "confidence": <0.0-1.0 confidence score>
+}`;
+
+/**
+ * One line per search result instead of the raw Serper JSON; falls back to the text as given
+ */
+export function condenseSearchResults(searchResults: string, limit: number = 8): string {
+  try {
+    const parsed = JSON.parse(searchResults);
+    const items: any[] = [...(parsed.news || []), ...(parsed.organic || [])].slice(0, limit);
+    if (items.length === 0) {
+      return 'No results';
+    }
+    return items
+      .map((item, i) => `${i + 1}. ${item.title || ''}${item.date ? ` (${item.date})` : ''}: ${item.snippet || ''}`)
+      .join('\n');
+  } catch {
+    return searchResults;
+  }
+}
+
+const SENTIMENT_PROMPTS: PromptFamily<SentimentAnalysisInput> = {
+  schema: {
+    type: 'object',
+    required: ['sentiment', 'sentimentScore', 'reasoning'],
+    properties: {
+      sentiment: { type: 'string', enum: ['positive', 'neutral', 'negative'] },
+      sentimentScore: { type: 'number', minimum: 0, maximum: 1 },
+      reasoning: { type: 'string', minLength: 1 },
+      confidence: { type: 'number', minimum: 0, maximum: 1 }
+    }
+  },
+  maxTokens: 1500,
+  temperature: 0.3, // Lower temperature for more consistent results
+  defaultVersion: 'v1',
+  versions: {
+    v1: {
+      version: 'v1',
+      description: 'Original prompt: general factors, no guidance for sparse inputs',
+      system: SENTIMENT_SYSTEM,
+      build: input => `Analyze the earnings sentiment for the following company:
+
+${sentimentFacts(input)}
+
+Based on this information, provide a sentiment analysis for the upcoming earnings. Consider:
+1. Historical performance vs estimates
+2. Sector trends and market conditions
+3. Company-specific factors
+4. Overall market sentiment
+
+${SENTIMENT_FORMAT}
+
+Rules:
+- sentimentScore: 0.0-0.4 = negative, 0.4-0.6 = neutral, 0.6-1.0 = positive
+- confidence: How certain you are of this analysis (0.0-1.0)
+- reasoning: Max 150 characters
+- Use only the sentiment values: "positive", "neutral", "negative"`
+    },
+    v2: {
+      version: 'v2',
+      description: 'Weighs the estimate against previous earnings first; neutral and low confidence when data is missing',
+      system: SENTIMENT_SYSTEM,
+      build: input => `Assess how the market is likely to receive the upcoming earnings report of this company:
+
+${sentimentFacts(input)}
+
+Work through these in order:
+1. If both an analyst estimate and previous earnings are given, compare them: expected growth leans positive, an expected decline leans negative
+2. Use the additional context, if any, for company-specific news
+3. Only then adjust for sector and market conditions
+
+${SENTIMENT_FORMAT}
+
+Rules:
+- sentimentScore: 0.0-0.4 = negative, 0.4-0.6 = neutral, 0.6-1.0 = positive; sentiment must match the score band
+- Without an estimate, previous earnings or context, answer "neutral" with confidence at most 0.4
+- confidence: How certain you are of this analysis (0.0-1.0)
+- reasoning: Max 150 characters, name the deciding factor
+- Use only the sentiment values: "positive", "neutral", "negative"`
+    }
+  }
+};
+
+const EARNINGS_DATE_PROMPTS: PromptFamily<EarningsDatePromptInput> = {
+  schema: {
+    type: 'object',
+    required: ['date', 'quarter'],
+    properties: {
+      date: { type: ['string', 'null'] },
+      quarter: { type: ['string', 'null'], enum: ['Q1', 'Q2', 'Q3', 'Q4', null] },
+      confidence: { type: 'number', minimum: 0, maximum: 1 },
+      confirmed: { type: 'boolean' }
+    }
+  },
+  maxTokens: 200,
+  temperature: 0.1,
+  defaultVersion: 'v3',
+  versions: {
+    v1: {
+      version: 'v1',
+      // Kept as sent: the search results placeholder was escaped, so the model never saw them
+      description: 'Original prompt; the search results were not included',
+      system: EARNINGS_DATE_SYSTEM,
+      build: input => {
+        const { context } = input;
+        const currentDate = formatLongDate(input.today);
+        return `
+Today's date: ${currentDate}. Extract the next earnings date for ${input.ticker} from these search results.
+
+${earningsDateContext(input)}
+
+Search Results:
+\${searchResults}
+
+Look for:
+- "next earnings date" or "earnings call"
+- "${context.reportingQuarter} ${context.year}" or "${context.nextQuarter} ${context.year}" results
+- Specific dates in current or next reporting months
+- "after market close", "before market open"
+
+${earningsDateFormat(input)}
+
+Rules:
+- Only extract dates AFTER ${currentDate}
+- Focus on ${context.reportingQuarter} ${context.year} or ${context.nextQuarter} ${context.year} earnings
+- Ignore historical dates from previous quarters/years
+- Higher confidence for specific dates with quarter info
+- Return only valid JSON
+`;
+      }
+    },
+    v2: {
+      version: 'v2',
+      description: 'Includes the search results; lower confidence for projected dates',
+      system: EARNINGS_DATE_SYSTEM,
+      build: input => {
+        const { context } = input;
+        const currentDate = formatLongDate(input.today);
+        return `Today's date: ${currentDate}. Extract the next earnings date for ${input.ticker} from these search results.
+
+${earningsDateContext(input)}
+
+Search Results:
+${input.searchResults}
+
+Look for:
+- "next earnings date" or "earnings call"
+- "${context.reportingQuarter} ${context.year}" or "${context.nextQuarter} ${context.year}" results
+- Specific dates in current or next reporting months
+- "after market close", "before market open"
+
+${earningsDateFormat(input)}
+
+Rules:
+- Only extract dates AFTER ${currentDate}; use null when no such date appears in the results
+- Focus on ${context.reportingQuarter} ${context.year} or ${context.nextQuarter} ${context.year} earnings
+- Ignore historical dates from previous quarters/years
+- Confidence above 0.7 only for a date the company confirmed; at most 0.5 for "estimated" or "projected" dates
+- Return only valid JSON`;
+      }
+    },
+    v3: {
+      version: 'v3',
+      description: 'Condensed search results; says whether the company confirmed the date',
+      system: EARNINGS_DATE_SYSTEM,
+      build: input => {
+        const { context } = input;
+        const currentDate = formatLongDate(input.today);
+        return `Today's date: ${currentDate}. Extract the next earnings date for ${input.ticker} from these search results.
+
+${earningsDateContext(input)}
+
+Search Results:
+${condenseSearchResults(input.searchResults)}
+
+Look for:
+- "next earnings date" or "earnings call"
+- "${context.reportingQuarter} ${context.year}" or "${context.nextQuarter} ${context.year}" results
+- Specific dates in current or next reporting months
+- "after market close", "before market open"
+
+Return ONLY a JSON object:
+{
+  "date": "YYYY-MM-DD" or null,
+  "quarter": "${context.reportingQuarter}" | "${context.nextQuarter}" or null,
+  "confidence": <0.0-1.0 confidence score>,
+  "confirmed": true if the company itself announced this date, false if it is estimated or projected
+}
+
+Rules:
+- Only extract dates AFTER ${currentDate}; use null when no such date appears in the results
+- Focus on ${context.reportingQuarter} ${context.year} or ${context.nextQuarter} ${context.year} earnings
+- Ignore historical dates from previous quarters/years
+- confirmed: true only for a company press release, investor relations page or a source saying "confirmed"
+- Confidence above 0.7 only for a confirmed date; at most 0.5 for "estimated" or "projected" dates
+- Return only valid JSON`;
+      }
+    }
+  }
+};
+
+export const PROMPTS: { [K in PromptId]: PromptFamily<PromptInputs[K]> } = {
+  sentiment: SENTIMENT_PROMPTS,
+  'earnings-date': EARNINGS_DATE_PROMPTS,
+};
+
+/**
+ * Active version per prompt; PROMPT_VERSIONS overrides the defaults, e.g. "sentiment=v2,earnings-date=v1"
+ */
+export function getActivePromptVersion(promptId: PromptId): string {
+  const override = (process.env.PROMPT_VERSIONS || '')
+    .split(',')
+    .map(entry => entry.split('=').map(part => part.trim()))
+    .find(([id]) => id === promptId)?.[1];
+
+  return override || PROMPTS[promptId].defaultVersion;
+}
+
+export function getPromptVersion<K extends PromptId>(promptId: K, version: string): PromptVersion<PromptInputs[K]> {
+  const prompt = (PROMPTS[promptId] as PromptFamily<PromptInputs[K]>).versions[version];
+  if (!prompt) {
+    throw new Error(`Unknown ${promptId} prompt version "${version}" (available: ${Object.keys(PROMPTS[promptId].versions).join(', ')})`);
+  }
+  return prompt;
+}
+
+/**
+ * Build the messages for a prompt, using the active version unless one is given
+ */
+export function renderPrompt<K extends PromptId>(
+  promptId: K,
+  input: PromptInputs[K],
+  version: string = getActivePromptVersion(promptId)
+): RenderedPrompt {
+  const prompt = getPromptVersion(promptId, version);
+
+  return {
+    promptId,
+    version: prompt.version,
+    messages: [
+      { role: 'system', content: prompt.system },
+      { role: 'user', content: prompt.build(input) }
+    ]
+  };
+}
@@ -0,0 +1,71 @@
+export type LLMRole = 'system' | 'user' | 'assistant';
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  /** Ask the model for a bare JSON object */
+  json?: boolean;
+}
+
+export interface LLMCompletion {
+  content: string;
+  model: string;
+  tokensUsed: number;
+  /** USD, priced by the model */
+  cost: number;
+}
+
+/**
+ * LLM Model
+ * One chat model behind a provider's API. Implemented by the OpenAI model and by the
+ * scripted mock model used in tests.
+ */
+export interface LLMModel {
+  readonly provider: string;
+  readonly model: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+}
+
+/**
+ * The subset of JSON Schema the client validates responses against
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null'
+    | Array<'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null'>;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: Array<string | number | boolean | null>;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface LLMJsonRequest extends Omit<LLMCompletionRequest, 'json'> {
+  schema: JsonSchema;
+  /** What the call is for, recorded in openai_calls */
+  purpose: string;
+  /** Registry version of the prompt, recorded in openai_calls */
+  promptVersion?: string;
+  ticker?: string;
+  /** Defaults to a hash of the messages */
+  inputHash?: string;
+}
+
+export interface LLMJsonResult<T> {
+  data: T;
+  content: string;
+  model: string;
+  tokensUsed: number;
+  cost: number;
+  attempts: number;
+}
@@ -0,0 +1,231 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  buildStockData,
+  type MarketDataProvider,
+  type AggregateTimespan,
+  type TickerSnapshot,
+  type TickerAggregates,
+  type TickerDetails,
+  type EarningsCalendarEntry,
+  type UpcomingEarning,
+  type QuarterlyFinancials,
+  type StockData,
+  type ReportTime
+} from './types';
+
+interface FixtureBar {
+  date: string; // YYYY-MM-DD
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+interface TickerFixture {
+  details?: Partial<TickerDetails>;
+  snapshot?: Partial<TickerSnapshot>;
+  bars?: FixtureBar[];
+  financials?: Array<Omit<QuarterlyFinancials, 'ticker' | 'startDate' | 'endDate' | 'filingDate'> & {
+    startDate?: string;
+    endDate?: string;
+    filingDate?: string;
+  }>;
+}
+
+interface EarningsFixture {
+  ticker: string;
+  companyName: string;
+  reportDate: string;
+  fiscalPeriod: string;
+  fiscalYear: number;
+  estimatedEps?: number;
+  actualEps?: number;
+  reportTime: ReportTime;
+}
+
+const DEFAULT_FIXTURES_DIR = 'fixtures/market-data';
+
+/**
+ * Fixture Market Data Provider
+ * Serves market data from JSON files for offline development and tests.
+ * Layout: tickers/{TICKER}.json and earnings-calendar.json under MARKET_DATA_FIXTURES_DIR
+ */
+export class FixtureMarketDataProvider implements MarketDataProvider {
+  private fixturesDir: string;
+  private tickerCache = new Map<string, TickerFixture | null>();
+
+  constructor(fixturesDir: string = process.env.MARKET_DATA_FIXTURES_DIR || DEFAULT_FIXTURES_DIR) {
+    this.fixturesDir = path.resolve(process.cwd(), fixturesDir);
+  }
+
+  async getSnapshotTicker(ticker: string): Promise<TickerSnapshot> {
+    const fixture = await this.requireTicker(ticker);
+    const bars = fixture.bars || [];
+    const last = bars[bars.length - 1];
+    const previous = bars[bars.length - 2];
+
+    if (!fixture.snapshot && !last) {
+      throw new Error(`Failed to fetch snapshot for ${ticker}: no fixture snapshot or bars`);
+    }
+
+    // Derive the snapshot from the latest bars unless the fixture pins one
+    const price = fixture.snapshot?.price ?? last.close;
+    const previousClose = fixture.snapshot?.previousClose ?? previous?.close ?? price;
+
+    return {
+      ticker,
+      price,
+      change: price - previousClose,
+      changePercent: previousClose ? ((price - previousClose) / previousClose) * 100 : 0,
+      volume: fixture.snapshot?.volume ?? last?.volume ?? 0,
+      open: fixture.snapshot?.open ?? last?.open ?? price,
+      high: fixture.snapshot?.high ?? last?.high ?? price,
+      low: fixture.snapshot?.low ?? last?.low ?? price,
+      previousClose,
+      marketCap: fixture.snapshot?.marketCap ?? fixture.details?.marketCap,
+      timestamp: new Date()
+    };
+  }
+
+  async getAggregates(
+    ticker: string,
+    multiplier: number = 1,
+    timespan: AggregateTimespan = 'day',
+    from: string = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+    to: string = new Date().toISOString().split('T')[0]
+  ): Promise<TickerAggregates> {
+    if (multiplier !== 1 || timespan !== 'day') {
+      throw new Error(`Failed to fetch aggregates for ${ticker}: fixtures only contain 1/day bars`);
+    }
+
+    const fixture = await this.requireTicker(ticker);
+    const results = (fixture.bars || [])
+      .filter(bar => bar.date >= from && bar.date <= to)
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map(bar => ({
+        timestamp: new Date(`${bar.date}T00:00:00Z`),
+        open: bar.open,
+        high: bar.high,
+        low: bar.low,
+        close: bar.close,
+        volume: bar.volume
+      }));
+
+    return { ticker, results };
+  }
+
+  async getTickerDetails(ticker: string): Promise<TickerDetails> {
+    const fixture = await this.requireTicker(ticker);
+    if (!fixture.details) {
+      throw new Error(`No details found for ticker ${ticker}`);
+    }
+
+    return {
+      ...fixture.details,
+      ticker,
+      name: fixture.details.name || ''
+    };
+  }
+
+  async getEarningsCalendar(
+    dateGte: string = new Date().toISOString().split('T')[0],
+    dateLte: string = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
+  ): Promise<{ results: EarningsCalendarEntry[]; count: number }> {
+    const results = (await this.loadEarningsCalendar())
+      .filter(entry => entry.reportDate.toISOString().split('T')[0] >= dateGte &&
+        entry.reportDate.toISOString().split('T')[0] <= dateLte);
+
+    return { results, count: results.length };
+  }
+
+  async getUpcomingEarnings(tickers: string[]): Promise<UpcomingEarning[]> {
+    const now = new Date();
+    const calendar = await this.loadEarningsCalendar();
+    const results: UpcomingEarning[] = [];
+
+    for (const ticker of tickers) {
+      const upcoming = calendar
+        .filter(entry => entry.ticker === ticker && entry.reportDate > now)
+        .sort((a, b) => a.reportDate.getTime() - b.reportDate.getTime())[0];
+
+      if (upcoming) {
+        results.push({
+          ticker: upcoming.ticker,
+          companyName: upcoming.companyName,
+          reportDate: upcoming.reportDate,
+          fiscalPeriod: upcoming.fiscalPeriod,
+          fiscalYear: upcoming.fiscalYear,
+          reportTime: upcoming.reportTime
+        });
+      }
+    }
+
+    return results;
+  }
+
+  async getQuarterlyFinancials(ticker: string, limit: number = 4): Promise<QuarterlyFinancials[]> {
+    const fixture = await this.requireTicker(ticker);
+
+    return (fixture.financials || [])
+      .map(item => ({
+        ...item,
+        ticker,
+        startDate: item.startDate ? new Date(item.startDate) : undefined,
+        endDate: item.endDate ? new Date(item.endDate) : undefined,
+        filingDate: item.filingDate ? new Date(item.filingDate) : undefined
+      }))
+      .sort((a, b) => (b.endDate?.getTime() || 0) - (a.endDate?.getTime() || 0))
+      .slice(0, limit);
+  }
+
+  async getStockData(ticker: string): Promise<StockData> {
+    const [snapshot, details] = await Promise.all([
+      this.getSnapshotTicker(ticker),
+      this.getTickerDetails(ticker).catch(() => ({ ticker, name: ticker }))
+    ]);
+
+    return buildStockData(snapshot, details);
+  }
+
+  private async requireTicker(ticker: string): Promise<TickerFixture> {
+    const fixture = await this.loadTicker(ticker);
+    if (!fixture) {
+      throw new Error(`No market data fixture for ${ticker} in ${this.fixturesDir}`);
+    }
+    return fixture;
+  }
+
+  private async loadTicker(ticker: string): Promise<TickerFixture | null> {
+    const key = ticker.toUpperCase();
+    if (!this.tickerCache.has(key)) {
+      this.tickerCache.set(key, await this.readJson<TickerFixture>(path.join('tickers', `${key}.json`)));
+    }
+    return this.tickerCache.get(key) || null;
+  }
+
+  private async loadEarningsCalendar(): Promise<EarningsCalendarEntry[]> {
+    const entries = await this.readJson<EarningsFixture[]>('earnings-calendar.json') || [];
+    return entries.map(entry => ({ ...entry, reportDate: new Date(entry.reportDate) }));
+  }
+
+  private async readJson<T>(relativePath: string): Promise<T | null> {
+    try {
+      const content = await fs.readFile(path.join(this.fixturesDir, relativePath), 'utf-8');
+      return JSON.parse(content) as T;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return null;
+      }
+      throw new Error(`Invalid market data fixture ${relativePath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
+
+/**
+ * Create a new FixtureMarketDataProvider instance
+ */
+export function createFixtureMarketDataProvider(fixturesDir?: string): FixtureMarketDataProvider {
+  return new FixtureMarketDataProvider(fixturesDir);
+}
@@ -0,0 +1,68 @@
+import { createPolygonTool } from '@/lib/tools/polygonTool';
+import { createFixtureMarketDataProvider } from './fixtureProvider';
+import { createYahooChartMarketData } from './yahooChartProvider';
+import type { MarketDataProvider, MarketDataProviderName, MarketPriceSource, TA125PriceProviderName } from './types';
+
+export * from './types';
+
+/**
+ * Provider selected by MARKET_DATA_PROVIDER ('polygon' by default, 'fixture' for offline dev and tests)
+ */
+export function getMarketDataProviderName(): MarketDataProviderName {
+  const name = (process.env.MARKET_DATA_PROVIDER || 'polygon').toLowerCase();
+
+  if (name !== 'polygon' && name !== 'fixture') {
+    throw new Error(`Unknown MARKET_DATA_PROVIDER "${name}" (expected "polygon" or "fixture")`);
+  }
+
+  return name;
+}
+
+/**
+ * Create the configured market data provider
+ */
+export function createMarketDataProvider(name: MarketDataProviderName = getMarketDataProviderName()): MarketDataProvider {
+  return name === 'fixture' ? createFixtureMarketDataProvider() : createPolygonTool();
+}
+
+/**
+ * Live TA-125 price source selected by TA125_PRICE_PROVIDER. Polygon has no Tel Aviv coverage and no
+ * licensed TASE feed is integrated, so there is none unless 'yahoo' opts in to Yahoo's unofficial chart API.
+ */
+export function getTA125PriceProviderName(): TA125PriceProviderName {
+  const name = (process.env.TA125_PRICE_PROVIDER || 'none').toLowerCase();
+
+  if (name !== 'none' && name !== 'yahoo') {
+    throw new Error(`Unknown TA125_PRICE_PROVIDER "${name}" (expected "none" or "yahoo")`);
+  }
+
+  return name;
+}
+
+/**
+ * A price source whose every lookup fails, for a market nothing is configured to price
+ */
+function createUnavailablePriceSource(reason: string): MarketPriceSource {
+  const unavailable = async (): Promise<never> => {
+    throw new Error(reason);
+  };
+  return { getSnapshotTicker: unavailable, getAggregates: unavailable };
+}
+
+/**
+ * Prices for a market in its own currency: Polygon's US feed for the S&P 500 and, for the TA-125,
+ * shekel quotes from the source TA125_PRICE_PROVIDER picks. The fixture provider serves both.
+ */
+export function createMarketPriceSource(
+  market: 'SP500' | 'TA125',
+  name: MarketDataProviderName = getMarketDataProviderName(),
+  ta125Name: TA125PriceProviderName = getTA125PriceProviderName()
+): MarketPriceSource {
+  if (market !== 'TA125' || name === 'fixture') {
+    return createMarketDataProvider(name);
+  }
+
+  return ta125Name === 'yahoo'
+    ? createYahooChartMarketData()
+    : createUnavailablePriceSource('No TA-125 price source configured (set TA125_PRICE_PROVIDER=yahoo to use Yahoo Finance)');
+}
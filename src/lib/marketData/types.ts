@@ -0,0 +1,159 @@
+export type ReportTime = 'before_market' | 'after_market' | 'during_market';
+
+export type AggregateTimespan = 'minute' | 'hour' | 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export interface TickerSnapshot {
+  ticker: string;
+  price: number;
+  change: number;
+  changePercent: number;
+  volume: number;
+  open: number;
+  high: number;
+  low: number;
+  previousClose: number;
+  marketCap?: number;
+  timestamp: Date;
+}
+
+export interface AggregateBar {
+  timestamp: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface TickerAggregates {
+  ticker: string;
+  results: AggregateBar[];
+}
+
+export interface TickerDetails {
+  ticker: string;
+  name: string;
+  description?: string;
+  sector?: string;
+  industry?: string;
+  marketCap?: number;
+  sharesOutstanding?: number;
+  employees?: number;
+  homepage?: string;
+}
+
+export interface EarningsCalendarEntry {
+  ticker: string;
+  companyName: string;
+  reportDate: Date;
+  fiscalPeriod: string;
+  fiscalYear: number;
+  estimatedEps?: number;
+  actualEps?: number;
+  reportTime: ReportTime;
+}
+
+export interface UpcomingEarning {
+  ticker: string;
+  companyName: string;
+  reportDate: Date;
+  fiscalPeriod: string;
+  fiscalYear: number;
+  reportTime: ReportTime;
+}
+
+export interface QuarterlyFinancials {
+  ticker: string;
+  fiscalPeriod: string;
+  fiscalYear: number;
+  startDate?: Date;
+  endDate?: Date;
+  filingDate?: Date;
+  eps?: number;
+  revenue?: number;
+}
+
+export interface StockData {
+  ticker: string;
+  name: string;
+  price: number;
+  change: number;
+  changePercent: number;
+  volume: number;
+  metrics: {
+    open: number;
+    high: number;
+    low: number;
+    previousClose: number;
+    marketCap?: number;
+    sharesOutstanding?: number;
+  };
+  details: {
+    description?: string;
+    sector?: string;
+    industry?: string;
+    employees?: number;
+    homepage?: string;
+  };
+  lastUpdated: Date;
+}
+
+/**
+ * Market Data Provider
+ * Source of prices, company details and earnings data used by the agents and trackers
+ */
+export interface MarketDataProvider {
+  getSnapshotTicker(ticker: string): Promise<TickerSnapshot>;
+  getAggregates(
+    ticker: string,
+    multiplier?: number,
+    timespan?: AggregateTimespan,
+    from?: string,
+    to?: string
+  ): Promise<TickerAggregates>;
+  getTickerDetails(ticker: string): Promise<TickerDetails>;
+  getEarningsCalendar(dateGte?: string, dateLte?: string): Promise<{ results: EarningsCalendarEntry[]; count: number }>;
+  getUpcomingEarnings(tickers: string[]): Promise<UpcomingEarning[]>;
+  getQuarterlyFinancials(ticker: string, limit?: number): Promise<QuarterlyFinancials[]>;
+  getStockData(ticker: string): Promise<StockData>;
+}
+
+export type MarketDataProviderName = 'polygon' | 'fixture';
+
+// 'none' until a licensed TASE feed exists; 'yahoo' opts in to scraping Yahoo Finance's chart API
+export type TA125PriceProviderName = 'none' | 'yahoo';
+
+/**
+ * The price calls, which are all a market outside Polygon's US coverage supports
+ */
+export type MarketPriceSource = Pick<MarketDataProvider, 'getSnapshotTicker' | 'getAggregates'>;
+
+/**
+ * Combine a snapshot and company details into the StockData shape
+ */
+export function buildStockData(snapshot: TickerSnapshot, details: TickerDetails): StockData {
+  return {
+    ticker: snapshot.ticker,
+    name: details.name || snapshot.ticker,
+    price: snapshot.price,
+    change: snapshot.change,
+    changePercent: snapshot.changePercent,
+    volume: snapshot.volume,
+    metrics: {
+      open: snapshot.open,
+      high: snapshot.high,
+      low: snapshot.low,
+      previousClose: snapshot.previousClose,
+      marketCap: snapshot.marketCap || details.marketCap,
+      sharesOutstanding: details.sharesOutstanding
+    },
+    details: {
+      description: details.description,
+      sector: details.sector,
+      industry: details.industry,
+      employees: details.employees,
+      homepage: details.homepage
+    },
+    lastUpdated: new Date()
+  };
+}
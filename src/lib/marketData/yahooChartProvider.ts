@@ -0,0 +1,164 @@
+import { quotaManager } from '@/lib/services/quotaManager';
+import { toShekels } from '@/lib/utils/currency';
+import { getQuoteSymbol } from '@/lib/utils/ta125Tickers';
+import type { AggregateBar, AggregateTimespan, MarketPriceSource, TickerAggregates, TickerSnapshot } from './types';
+
+// Yahoo Finance's public chart endpoint: undocumented, unlicensed and liable to change without notice
+const CHART_URL = 'https://query1.finance.yahoo.com/v8/finance/chart';
+
+// Chart intervals Yahoo accepts for each timespan; minute bars come in fixed sizes
+const MINUTE_INTERVALS = [1, 2, 5, 15, 30, 60, 90];
+const TIMESPAN_INTERVALS: Partial<Record<AggregateTimespan, string>> = {
+  hour: '60m',
+  day: '1d',
+  week: '1wk',
+  month: '1mo',
+  quarter: '3mo',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The parts of a chart result we read. Quote arrays line up with `timestamp` and hold null for
+ * slots without trades.
+ */
+export interface YahooChartResult {
+  meta?: {
+    currency?: string; // ILA (agorot) or ILS
+    regularMarketPrice?: number;
+    regularMarketTime?: number; // epoch seconds
+  };
+  timestamp?: number[]; // epoch seconds
+  indicators?: {
+    quote?: Array<{
+      open?: Array<number | null>;
+      high?: Array<number | null>;
+      low?: Array<number | null>;
+      close?: Array<number | null>;
+      volume?: Array<number | null>;
+    }>;
+  };
+}
+
+interface YahooChartResponse {
+  chart?: {
+    result?: YahooChartResult[] | null;
+    error?: { code?: string; description?: string } | null;
+  };
+}
+
+const toSeconds = (date: string): number => Math.floor(new Date(`${date}T00:00:00Z`).getTime() / 1000);
+
+/**
+ * Chart interval for a Polygon-style multiplier and timespan
+ */
+export function getChartInterval(multiplier: number, timespan: AggregateTimespan): string {
+  if (timespan === 'minute') {
+    const minutes = MINUTE_INTERVALS.find(size => size >= multiplier) ?? 90;
+    return `${minutes}m`;
+  }
+  return TIMESPAN_INTERVALS[timespan] || '1d';
+}
+
+/**
+ * Bars from a chart result in shekels; quotes in agorot are divided down and empty slots dropped
+ */
+export function parseChartBars(result: YahooChartResult): AggregateBar[] {
+  const currency = result.meta?.currency || 'ILS';
+  const quote = result.indicators?.quote?.[0] || {};
+  const bars: AggregateBar[] = [];
+
+  (result.timestamp || []).forEach((time, i) => {
+    const close = quote.close?.[i];
+    if (typeof close !== 'number') {
+      return;
+    }
+
+    bars.push({
+      timestamp: new Date(time * 1000),
+      open: toShekels(quote.open?.[i] ?? close, currency),
+      high: toShekels(quote.high?.[i] ?? close, currency),
+      low: toShekels(quote.low?.[i] ?? close, currency),
+      close: toShekels(close, currency),
+      volume: quote.volume?.[i] ?? 0,
+    });
+  });
+
+  return bars;
+}
+
+/**
+ * Yahoo Chart Market Data
+ * Tel Aviv quotes in shekels scraped from Yahoo Finance's unofficial chart API, using exchange-qualified
+ * symbols (LUMI.TA). Polygon only covers US venues; this is an opt-in stand-in (TA125_PRICE_PROVIDER=yahoo)
+ * until a licensed TASE feed is integrated.
+ */
+export class YahooChartMarketData implements MarketPriceSource {
+  async getSnapshotTicker(ticker: string): Promise<TickerSnapshot> {
+    const result = await this.getChart(ticker, { range: '5d', interval: '1d' });
+    const bars = parseChartBars(result);
+    const last = bars[bars.length - 1];
+    const currency = result.meta?.currency || 'ILS';
+    const marketPrice = result.meta?.regularMarketPrice;
+    const price = typeof marketPrice === 'number' ? toShekels(marketPrice, currency) : last?.close;
+
+    if (price === undefined) {
+      throw new Error(`No Yahoo chart quote for ${ticker}`);
+    }
+
+    const previousClose = bars.length > 1 ? bars[bars.length - 2].close : price;
+    return {
+      ticker,
+      price,
+      change: price - previousClose,
+      changePercent: previousClose ? ((price - previousClose) / previousClose) * 100 : 0,
+      volume: last?.volume || 0,
+      open: last?.open || price,
+      high: last?.high || price,
+      low: last?.low || price,
+      previousClose,
+      timestamp: result.meta?.regularMarketTime ? new Date(result.meta.regularMarketTime * 1000) : new Date(),
+    };
+  }
+
+  async getAggregates(
+    ticker: string,
+    multiplier: number = 1,
+    timespan: AggregateTimespan = 'day',
+    from: string = new Date(Date.now() - 30 * DAY_MS).toISOString().split('T')[0],
+    to: string = new Date().toISOString().split('T')[0]
+  ): Promise<TickerAggregates> {
+    const result = await this.getChart(ticker, {
+      period1: String(toSeconds(from)),
+      // `to` is inclusive, like Polygon's
+      period2: String(toSeconds(to) + DAY_MS / 1000),
+      interval: getChartInterval(multiplier, timespan),
+    });
+
+    return { ticker, results: parseChartBars(result) };
+  }
+
+  private async getChart(ticker: string, params: Record<string, string>): Promise<YahooChartResult> {
+    const symbol = getQuoteSymbol(ticker, 'TA125');
+    const url = `${CHART_URL}/${encodeURIComponent(symbol)}?${new URLSearchParams(params)}`;
+    const response = await quotaManager.fetch('yahoo', url);
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data: YahooChartResponse = await response.json();
+    const result = data.chart?.result?.[0];
+    if (!result) {
+      throw new Error(data.chart?.error?.description || `No Yahoo chart data for ${symbol}`);
+    }
+    return result;
+  }
+}
+
+/**
+ * Create a new YahooChartMarketData instance
+ */
+export function createYahooChartMarketData(): YahooChartMarketData {
+  return new YahooChartMarketData();
+}
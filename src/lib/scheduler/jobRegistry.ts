@@ -0,0 +1,139 @@
+import { createAgentOrchestrator } from "../agents/orchestrator";
+import { EnhancedAnalystTracker } from "../analysts/enhancedAnalystTracker";
+import { createAlertEngine } from "../alerts/alertEngine";
+import { searchCache } from "../cache/searchCache";
+import { createConsensusHistoryService } from "../services/consensusHistoryService";
+import { createSummaryService } from "../services/summaryService";
+
+export interface ScheduledJobOutcome {
+  success: boolean;
+  message: string;
+}
+
+export interface ScheduledJobDefinition {
+  id: string;
+  name: string;
+  description: string;
+  defaultCron: string; // Eastern time
+  lockMinutes?: number; // how long a run may take before another tick can start it again
+  handler: (now: Date) => Promise<ScheduledJobOutcome>;
+}
+
+/**
+ * Recurring jobs the scheduler knows how to run. Schedules and the enabled flag live in
+ * Firestore and can be changed from Settings; adding a job here registers it on the next tick.
+ */
+export const SCHEDULED_JOB_DEFINITIONS: ScheduledJobDefinition[] = [
+  {
+    id: 'agent-queue-worker',
+    name: 'Agent update worker',
+    description: 'Processes queued news and financials jobs',
+    defaultCron: '* * * * *',
+    lockMinutes: 2,
+    handler: async () => {
+      const result = await createAgentOrchestrator().processQueuedJobs({ timeBudgetMs: 30 * 1000 });
+      return {
+        success: true,
+        message: `Processed ${result.processed} jobs: ${result.succeeded} succeeded, ${result.retried} retrying, ${result.failed} failed`
+      };
+    }
+  },
+  {
+    id: 'agent-smart-update',
+    name: 'Smart agent update',
+    description: 'Queues news and financials updates for up to 15 tickers older than 6 hours',
+    defaultCron: '0 8-18/2 * * 1-5',
+    handler: async () => {
+      const run = await createAgentOrchestrator().runSmartUpdateCycle(15, 6, 'scheduler');
+      return { success: true, message: `Queued ${run.tickers.length} tickers (run ${run.id})` };
+    }
+  },
+  {
+    id: 'alert-evaluation',
+    name: 'Alert rules',
+    description: 'Evaluates alert rules and sends notifications',
+    defaultCron: '*/15 * * * *',
+    handler: async (now) => {
+      const result = await createAlertEngine().runEvaluation(now);
+      return {
+        success: result.errors.length === 0,
+        message: `${result.rulesEvaluated} rules evaluated: ${result.alertsSent} sent, ${result.alertsFailed} failed, ${result.duplicatesSkipped} duplicates skipped`
+      };
+    }
+  },
+  {
+    id: 'rating-change-notifications',
+    name: 'Analyst rating changes',
+    description: 'Pushes new analyst upgrades and downgrades to users watching the ticker',
+    defaultCron: '*/5 * * * *',
+    lockMinutes: 5,
+    handler: async (now) => {
+      const result = await createAlertEngine().notifyPendingRatingChanges(now);
+      return {
+        success: result.errors.length === 0,
+        message: `${result.changes} rating changes: ${result.notified} pushes sent, ${result.failed} failed`
+      };
+    }
+  },
+  {
+    id: 'analyst-evaluator',
+    name: 'Analyst evaluator',
+    description: 'Scores analyst recommendations that reached their horizon',
+    defaultCron: '30 16 * * 1-5',
+    lockMinutes: 30,
+    handler: async (now) => {
+      const result = await new EnhancedAnalystTracker().runEvaluator(now);
+      return {
+        success: result.errors.length === 0,
+        message: `${result.evaluated} recommendations evaluated, ${result.errors.length} errors`
+      };
+    }
+  },
+  {
+    id: 'consensus-snapshot',
+    name: 'Consensus snapshots',
+    description: 'Saves the credibility-weighted analyst consensus of every covered ticker',
+    defaultCron: '0 17 * * 1-5',
+    lockMinutes: 15,
+    handler: async (now) => {
+      const result = await createConsensusHistoryService().snapshotOpenTickers(now);
+      return {
+        success: result.errors.length === 0,
+        message: `${result.snapshots} consensus snapshots saved, ${result.errors.length} errors`
+      };
+    }
+  },
+  {
+    id: 'daily-summary',
+    name: 'Daily summary email',
+    description: 'Emails the daily watchlist summary to users who enabled it',
+    defaultCron: '0 7 * * 1-5',
+    lockMinutes: 30,
+    handler: async () => {
+      const result = await createSummaryService().sendSummaries('daily');
+      return { success: result.errors === 0, message: result.message };
+    }
+  },
+  {
+    id: 'weekly-summary',
+    name: 'Weekly summary email',
+    description: 'Emails the weekly watchlist summary to users who enabled it',
+    defaultCron: '0 8 * * 1',
+    lockMinutes: 30,
+    handler: async () => {
+      const result = await createSummaryService().sendSummaries('weekly');
+      return { success: result.errors === 0, message: result.message };
+    }
+  },
+  {
+    id: 'search-cache-cleanup',
+    name: 'Search cache cleanup',
+    description: 'Deletes cached search responses whose TTL has passed',
+    defaultCron: '30 3 * * *',
+    lockMinutes: 10,
+    handler: async (now) => {
+      const removed = await searchCache.purgeExpired(now);
+      return { success: true, message: `Removed ${removed} expired search cache entries` };
+    }
+  }
+];
@@ -0,0 +1,268 @@
+import { FieldValue } from "firebase-admin/firestore";
+import { adminDb } from "../firebase-admin";
+import { getNextCronRun, parseCronExpression } from "../utils/cron";
+import { EXCHANGE_TIME_ZONES } from "../utils/tradingCalendar";
+import { toDate } from "../utils/firestoreValues";
+import { SCHEDULED_JOB_DEFINITIONS, type ScheduledJobDefinition } from "./jobRegistry";
+import type { ScheduledJob, ScheduledJobRun, ScheduledJobRunStatus, ScheduledJobTrigger } from "@/types";
+
+export const SCHEDULED_JOBS_COLLECTION = 'scheduled_jobs';
+export const SCHEDULED_JOB_RUNS_COLLECTION = 'scheduled_job_runs';
+
+// Schedules follow the US market day
+export const DEFAULT_SCHEDULE_TIME_ZONE = EXCHANGE_TIME_ZONES.NYSE;
+
+const DEFAULT_LOCK_MINUTES = 10;
+
+export interface TickResult {
+  ran: Array<{ jobId: string; status: ScheduledJobRunStatus; message: string }>;
+  skipped: string[]; // due but already running elsewhere
+}
+
+export interface ScheduledJobUpdate {
+  enabled?: boolean;
+  cron?: string;
+}
+
+function toJob(id: string, data: FirebaseFirestore.DocumentData): ScheduledJob {
+  return {
+    ...data,
+    id,
+    nextRunAt: data.nextRunAt ? toDate(data.nextRunAt) : undefined,
+    lastRunAt: data.lastRunAt ? toDate(data.lastRunAt) : undefined,
+    lockedUntil: data.lockedUntil ? toDate(data.lockedUntil) : undefined,
+    updatedAt: toDate(data.updatedAt)
+  } as ScheduledJob;
+}
+
+function toRun(id: string, data: FirebaseFirestore.DocumentData): ScheduledJobRun {
+  return {
+    ...data,
+    id,
+    startedAt: toDate(data.startedAt),
+    completedAt: toDate(data.completedAt)
+  } as ScheduledJobRun;
+}
+
+/**
+ * Scheduler
+ * Runs the registered recurring jobs when their cron schedule is due. A single tick endpoint
+ * (Cloud Scheduler every minute, or scripts/localScheduler.js) drives it; missed runs are not backfilled.
+ */
+export class Scheduler {
+  private definitions: Map<string, ScheduledJobDefinition>;
+
+  constructor(definitions: ScheduledJobDefinition[] = SCHEDULED_JOB_DEFINITIONS) {
+    this.definitions = new Map(definitions.map(definition => [definition.id, definition]));
+  }
+
+  /**
+   * Registered jobs with their stored schedule and last run; jobs seen for the first time
+   * are stored with their default schedule
+   */
+  async listJobs(now: Date = new Date()): Promise<ScheduledJob[]> {
+    const snapshot = await adminDb.collection(SCHEDULED_JOBS_COLLECTION).get();
+    const stored = new Map(snapshot.docs.map(doc => [doc.id, toJob(doc.id, doc.data())]));
+    const jobs: ScheduledJob[] = [];
+
+    for (const definition of this.definitions.values()) {
+      const existing = stored.get(definition.id);
+      if (existing) {
+        // Labels come from the code; the schedule and state from Firestore
+        jobs.push({ ...existing, name: definition.name, description: definition.description });
+        continue;
+      }
+
+      const job: ScheduledJob = {
+        id: definition.id,
+        name: definition.name,
+        description: definition.description,
+        cron: definition.defaultCron,
+        timeZone: DEFAULT_SCHEDULE_TIME_ZONE,
+        enabled: true,
+        nextRunAt: getNextCronRun(definition.defaultCron, now, DEFAULT_SCHEDULE_TIME_ZONE),
+        updatedAt: now
+      };
+      await adminDb.collection(SCHEDULED_JOBS_COLLECTION).doc(job.id).set(job);
+      console.log(`🗓️ Registered scheduled job ${job.id} (${job.cron})`);
+      jobs.push(job);
+    }
+
+    return jobs;
+  }
+
+  /**
+   * Run every enabled job whose next run is due, one after another
+   */
+  async tick(now: Date = new Date()): Promise<TickResult> {
+    const result: TickResult = { ran: [], skipped: [] };
+    const jobs = await this.listJobs(now);
+
+    for (const job of jobs) {
+      if (!job.enabled || !job.nextRunAt || job.nextRunAt.getTime() > now.getTime()) {
+        continue;
+      }
+
+      try {
+        const run = await this.execute(job, 'schedule', 'scheduler', now);
+        if (run) {
+          result.ran.push({ jobId: job.id, status: run.status, message: run.message });
+        } else {
+          result.skipped.push(job.id);
+        }
+      } catch (error) {
+        console.error(`Error running scheduled job ${job.id}:`, error);
+        result.ran.push({
+          jobId: job.id,
+          status: 'failed',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Run a job immediately without moving its schedule. Returns null if it is already running.
+   */
+  async runNow(jobId: string, triggeredBy: string, now: Date = new Date()): Promise<ScheduledJobRun | null> {
+    const job = (await this.listJobs(now)).find(candidate => candidate.id === jobId);
+    if (!job) {
+      throw new Error(`Unknown scheduled job: ${jobId}`);
+    }
+
+    return this.execute(job, 'manual', triggeredBy, now);
+  }
+
+  /**
+   * Change a job's schedule or enabled flag. Invalid cron expressions throw; unknown jobs return null.
+   */
+  async updateJob(jobId: string, updates: ScheduledJobUpdate, now: Date = new Date()): Promise<ScheduledJob | null> {
+    const job = (await this.listJobs(now)).find(candidate => candidate.id === jobId);
+    if (!job) {
+      return null;
+    }
+
+    const cron = updates.cron !== undefined ? updates.cron.trim() : job.cron;
+    parseCronExpression(cron);
+
+    const updated: ScheduledJob = {
+      ...job,
+      cron,
+      enabled: updates.enabled ?? job.enabled,
+      nextRunAt: getNextCronRun(cron, now, job.timeZone),
+      updatedAt: now
+    };
+
+    await adminDb.collection(SCHEDULED_JOBS_COLLECTION).doc(jobId).update({
+      cron: updated.cron,
+      enabled: updated.enabled,
+      nextRunAt: updated.nextRunAt,
+      updatedAt: now
+    });
+
+    console.log(`🗓️ Scheduled job ${jobId} updated: ${updated.enabled ? 'enabled' : 'disabled'}, ${updated.cron}`);
+    return updated;
+  }
+
+  /**
+   * Recent runs, newest first, for one job or all of them
+   */
+  async getRunHistory(jobId?: string, limitCount: number = 20): Promise<ScheduledJobRun[]> {
+    const collection = adminDb.collection(SCHEDULED_JOB_RUNS_COLLECTION);
+    const query = jobId ? collection.where('jobId', '==', jobId) : collection;
+
+    const snapshot = await query.orderBy('startedAt', 'desc').limit(limitCount).get();
+    return snapshot.docs.map(doc => toRun(doc.id, doc.data()));
+  }
+
+  /**
+   * Take the job's lock (and, for scheduled runs, advance nextRunAt), run the handler and record the run
+   */
+  private async execute(
+    job: ScheduledJob,
+    trigger: ScheduledJobTrigger,
+    triggeredBy: string,
+    now: Date
+  ): Promise<ScheduledJobRun | null> {
+    const definition = this.definitions.get(job.id);
+    if (!definition) {
+      throw new Error(`Unknown scheduled job: ${job.id}`);
+    }
+
+    const jobRef = adminDb.collection(SCHEDULED_JOBS_COLLECTION).doc(job.id);
+    const lockedUntil = new Date(now.getTime() + (definition.lockMinutes || DEFAULT_LOCK_MINUTES) * 60 * 1000);
+
+    const acquired = await adminDb.runTransaction(async transaction => {
+      const doc = await transaction.get(jobRef);
+      const current = toJob(doc.id, doc.data() || {});
+
+      if (current.lockedUntil && current.lockedUntil.getTime() > now.getTime()) {
+        return false;
+      }
+      // Another tick may have run it since the job list was read
+      if (trigger === 'schedule' && (!current.enabled || !current.nextRunAt || current.nextRunAt.getTime() > now.getTime())) {
+        return false;
+      }
+
+      transaction.update(jobRef, {
+        lockedUntil,
+        ...(trigger === 'schedule' && { nextRunAt: getNextCronRun(current.cron, now, current.timeZone) })
+      });
+      return true;
+    });
+
+    if (!acquired) {
+      return null;
+    }
+
+    const startedAt = new Date();
+    let status: ScheduledJobRunStatus;
+    let message: string;
+
+    try {
+      const outcome = await definition.handler(startedAt);
+      status = outcome.success ? 'success' : 'failed';
+      message = outcome.message;
+    } catch (error) {
+      console.error(`Scheduled job ${job.id} threw:`, error);
+      status = 'failed';
+      message = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    const completedAt = new Date();
+    const runRef = adminDb.collection(SCHEDULED_JOB_RUNS_COLLECTION).doc();
+    const run: ScheduledJobRun = {
+      id: runRef.id,
+      jobId: job.id,
+      trigger,
+      triggeredBy,
+      status,
+      message,
+      startedAt,
+      completedAt,
+      durationMs: completedAt.getTime() - startedAt.getTime()
+    };
+
+    await runRef.set(run);
+    await jobRef.update({
+      lastRunAt: startedAt,
+      lastStatus: status,
+      lastMessage: message,
+      lastDurationMs: run.durationMs,
+      lockedUntil: FieldValue.delete(),
+      updatedAt: completedAt
+    });
+
+    console.log(`${status === 'success' ? '✅' : '❌'} Scheduled job ${job.id} (${trigger}) ${status} in ${run.durationMs}ms: ${message}`);
+    return run;
+  }
+}
+
+/**
+ * Create a new Scheduler instance
+ */
+export function createScheduler(): Scheduler {
+  return new Scheduler();
+}
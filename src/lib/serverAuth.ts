@@ -0,0 +1,137 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { adminAuth } from '@/lib/firebase-admin';
+import { createInviteService } from '@/lib/services/inviteService';
+import type { UserRole } from '@/types';
+
+/**
+ * Who may call a route:
+ * - user: any signed-in user, plus scheduled jobs
+ * - admin: admins only (destructive or cost-incurring endpoints)
+ * - scheduled: scheduled jobs (x-api-key) and admins
+ */
+export type RoutePolicy = 'user' | 'admin' | 'scheduled';
+
+export type AuthRole = UserRole | 'service';
+
+export interface AuthPrincipal {
+  uid: string;
+  email: string;
+  role: AuthRole;
+}
+
+export type AuthResult =
+  | { principal: AuthPrincipal; response?: undefined }
+  | { principal?: undefined; response: NextResponse };
+
+const POLICY_ROLES: Record<RoutePolicy, AuthRole[]> = {
+  user: ['user', 'admin', 'service'],
+  admin: ['admin'],
+  scheduled: ['admin', 'service'],
+};
+
+export const EMAIL_NOT_VERIFIED_ERROR = 'Email address not verified';
+
+const SERVICE_PRINCIPAL: AuthPrincipal = { uid: 'service', email: '', role: 'service' };
+
+function deny(status: 401 | 403, error: string): AuthResult {
+  return { response: NextResponse.json({ success: false, error }, { status }) };
+}
+
+function isValidApiKey(apiKey: string): boolean {
+  const expected = process.env.API_KEY;
+  if (!expected) {
+    return false;
+  }
+
+  const given = Buffer.from(apiKey);
+  const wanted = Buffer.from(expected);
+  return given.length === wanted.length && timingSafeEqual(given, wanted);
+}
+
+/**
+ * Read the role from the invite, which only admins can write; the `role` on the users doc is a
+ * display copy the browser can edit, so it is never trusted. Null when the email has no active invite.
+ */
+export async function getInvitedRole(email: string): Promise<UserRole | null> {
+  const invite = email ? await createInviteService().getInvite(email) : null;
+  if (invite?.status !== 'active') {
+    return null;
+  }
+  return invite.role === 'admin' ? 'admin' : 'user';
+}
+
+/**
+ * Authenticate a request with a Firebase ID token (Authorization: Bearer) or the
+ * scheduled-jobs API key (x-api-key), then check the principal against the policy.
+ * Token holders must also still be on the invite allowlist, with a verified email.
+ * Returns either the principal or the 401/403 response to send back.
+ */
+export async function authorizeRequest(request: NextRequest, policy: RoutePolicy): Promise<AuthResult> {
+  let principal: AuthPrincipal;
+
+  const apiKey = request.headers.get('x-api-key');
+  const authorization = request.headers.get('authorization') || '';
+  const token = authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length).trim() : '';
+
+  if (apiKey) {
+    if (!isValidApiKey(apiKey)) {
+      return deny(401, 'Invalid API key');
+    }
+    principal = SERVICE_PRINCIPAL;
+  } else if (token) {
+    let decoded;
+    try {
+      decoded = await adminAuth.verifyIdToken(token);
+    } catch (error) {
+      console.warn('Rejected ID token:', error instanceof Error ? error.message : error);
+      return deny(401, 'Invalid or expired token');
+    }
+
+    const email = (decoded.email || '').toLowerCase();
+    const role = await getInvitedRole(email);
+    if (!role) {
+      return deny(403, 'Access restricted. This email is not authorized.');
+    }
+    // Otherwise anyone could register a password account under an invited address first
+    if (decoded.email_verified !== true) {
+      return deny(403, EMAIL_NOT_VERIFIED_ERROR);
+    }
+
+    principal = { uid: decoded.uid, email, role };
+  } else {
+    return deny(401, 'Authentication required');
+  }
+
+  if (!satisfiesPolicy(principal, policy)) {
+    console.warn(`🚫 ${principal.email || principal.uid} (${principal.role}) denied ${request.method} ${request.nextUrl.pathname}`);
+    return deny(403, policy === 'admin' ? 'Admin access required' : 'Insufficient permissions');
+  }
+
+  return { principal };
+}
+
+/**
+ * Whether an authorized principal may also do what a stricter policy allows, for routes whose
+ * policy depends on the request body
+ */
+export function satisfiesPolicy(principal: AuthPrincipal, policy: RoutePolicy): boolean {
+  return POLICY_ROLES[policy].includes(principal.role);
+}
+
+/**
+ * Users may only act on their own data; admins and scheduled jobs may act on anyone's
+ */
+export function canActAsUser(principal: AuthPrincipal, userId: string): boolean {
+  return principal.role !== 'user' || principal.uid === userId;
+}
+
+/**
+ * 403 response for requests that name another user's data
+ */
+export function forbiddenUserResponse(): NextResponse {
+  return NextResponse.json({
+    success: false,
+    error: 'You can only access your own data'
+  }, { status: 403 });
+}
@@ -75,7 +75,7 @@ export class AnalystSearchService {
           const query = formatAnalystInsightQuery(ticker, analyst.name, analyst.firm);
           console.log(`Searching: ${query}`);
           
-          const searchResults = await this.serperTool.search(query);
+          const searchResults = await this.serperTool.search(query, 'analyst');
           const parsedResults = parseAnalystResults(searchResults, analyst.name, analyst.firm);
           
           // Filter results that mention the analyst or firm
@@ -105,9 +105,6 @@ export class AnalystSearchService {
             }
             firmInsightsMap.get(analyst.firm)!.push(...relevantResults);
           }
-          
-          // Rate limiting - wait between searches
-          await new Promise(resolve => setTimeout(resolve, 1500));
         } catch (error) {
           console.error(`Error searching for ${analyst.name} at ${analyst.firm}:`, error);
           continue;
@@ -122,15 +119,13 @@ export class AnalystSearchService {
             const query = `${firm} ${ticker} analyst coverage rating recommendation price target 2024 2025`;
             console.log(`Searching firm coverage: ${query}`);
             
-            const searchResults = await this.serperTool.search(query);
+            const searchResults = await this.serperTool.search(query, 'analyst');
             const parsedResults = parseAnalystResults(searchResults, undefined, firm);
             
             const firmResults = parsedResults.filter(result => result.firmMention);
             if (firmResults.length > 0) {
               firmInsightsMap.set(firm, firmResults);
             }
-            
-            await new Promise(resolve => setTimeout(resolve, 1500));
           } catch (error) {
             console.error(`Error searching firm coverage for ${firm}:`, error);
             continue;
@@ -0,0 +1,200 @@
+import { adminDb } from '@/lib/firebase-admin';
+import {
+  ANALYSTS_COLLECTION,
+  EnhancedAnalystTracker,
+  ratingChangeDirection,
+  type AnalystRecommendation
+} from '@/lib/analysts/enhancedAnalystTracker';
+import { toDate } from '@/lib/utils/firestoreValues';
+import type { ConsensusHistory, ConsensusSnapshot, EarningsConsensusShift, HistoryEvent, RatingChangeEvent } from '@/types';
+
+export const CONSENSUS_SNAPSHOTS_COLLECTION = 'consensus_snapshots';
+
+export const DEFAULT_HISTORY_DAYS = 90;
+
+// How far ahead of an earnings date the "before" snapshot is taken
+const PRE_EARNINGS_LOOKBACK_DAYS = 28;
+
+// Upcoming reports this close are shown so the run-up is visible before they happen
+const UPCOMING_EARNINGS_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+/**
+ * Every change of call, found by walking each analyst's recommendations on the ticker in order
+ */
+export function detectRatingChanges(
+  ticker: string,
+  recommendations: Array<Pick<AnalystRecommendation, 'analyst_id' | 'action' | 't0'>>
+): RatingChangeEvent[] {
+  const byAnalyst = new Map<string, typeof recommendations>();
+  for (const rec of recommendations) {
+    byAnalyst.set(rec.analyst_id, [...(byAnalyst.get(rec.analyst_id) || []), rec]);
+  }
+
+  const changes: RatingChangeEvent[] = [];
+  for (const [analystId, calls] of byAnalyst) {
+    const ordered = [...calls].sort((a, b) => a.t0.getTime() - b.t0.getTime());
+    for (let i = 1; i < ordered.length; i++) {
+      const direction = ratingChangeDirection(ordered[i - 1].action, ordered[i].action);
+      if (direction) {
+        changes.push({
+          ticker,
+          analystId,
+          from: ordered[i - 1].action,
+          to: ordered[i].action,
+          direction,
+          date: ordered[i].t0
+        });
+      }
+    }
+  }
+
+  return changes.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * The snapshot about four weeks before each report and the last one before it
+ */
+export function summarizeEarningsShifts(
+  snapshots: ConsensusSnapshot[],
+  earnings: Array<{ date: Date; label: string }>
+): EarningsConsensusShift[] {
+  const lastOnOrBefore = (key: string) =>
+    [...snapshots].reverse().find(snapshot => snapshot.date <= key) || null;
+
+  return earnings.map(report => ({
+    date: report.date,
+    label: report.label,
+    before: lastOnOrBefore(dateKey(new Date(report.date.getTime() - PRE_EARNINGS_LOOKBACK_DAYS * DAY_MS))),
+    latest: lastOnOrBefore(dateKey(new Date(report.date.getTime() - DAY_MS)))
+  }));
+}
+
+/**
+ * Consensus History Service
+ * Persists one credibility-weighted consensus snapshot per ticker per day and serves the timeline
+ * with upgrades/downgrades and the consensus going into each earnings report
+ */
+export class ConsensusHistoryService {
+  private tracker = new EnhancedAnalystTracker();
+
+  /**
+   * Snapshot today's consensus for every ticker with an open recommendation
+   */
+  async snapshotOpenTickers(now: Date = new Date()): Promise<{ snapshots: number; errors: string[] }> {
+    const openRecs = await adminDb.collection('analyst_recommendations_enhanced')
+      .where('status', '==', 'OPEN')
+      .get();
+    const tickers = Array.from(new Set(openRecs.docs.map(doc => doc.data().ticker as string)));
+
+    const errors: string[] = [];
+    let snapshots = 0;
+
+    for (const ticker of tickers) {
+      try {
+        const consensus = await this.tracker.getWeightedConsensus(ticker);
+        if (consensus.participants.length === 0) {
+          continue;
+        }
+
+        const snapshot: ConsensusSnapshot = {
+          ticker,
+          date: dateKey(now),
+          consensus: consensus.consensus,
+          confidence: consensus.confidence,
+          participants: consensus.participants.length,
+          weights: consensus.weights,
+          counts: consensus.counts,
+          createdAt: now
+        };
+
+        // Re-running on the same day replaces that day's snapshot
+        await adminDb.collection(CONSENSUS_SNAPSHOTS_COLLECTION).doc(`${ticker}_${snapshot.date}`).set(snapshot);
+        snapshots++;
+      } catch (error) {
+        const message = `Failed to snapshot consensus for ${ticker}: ${error instanceof Error ? error.message : error}`;
+        console.error(message);
+        errors.push(message);
+      }
+    }
+
+    console.log(`📸 Saved ${snapshots} consensus snapshots for ${tickers.length} tickers`);
+    return { snapshots, errors };
+  }
+
+  async getHistory(ticker: string, days: number = DEFAULT_HISTORY_DAYS, now: Date = new Date()): Promise<ConsensusHistory> {
+    const since = new Date(now.getTime() - days * DAY_MS);
+    const until = new Date(now.getTime() + UPCOMING_EARNINGS_DAYS * DAY_MS);
+
+    const [snapshotDocs, recommendationDocs, earningsDocs, historyDoc] = await Promise.all([
+      adminDb.collection(CONSENSUS_SNAPSHOTS_COLLECTION).where('ticker', '==', ticker).get(),
+      adminDb.collection('analyst_recommendations_enhanced').where('ticker', '==', ticker).get(),
+      adminDb.collection('earnings_events').where('ticker', '==', ticker).get(),
+      adminDb.collection('company_history').doc(ticker).get()
+    ]);
+
+    const snapshots = snapshotDocs.docs
+      .map(doc => ({ ...doc.data(), createdAt: toDate(doc.data().createdAt) }) as ConsensusSnapshot)
+      .filter(snapshot => snapshot.date >= dateKey(since))
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    const ratingChanges = detectRatingChanges(
+      ticker,
+      recommendationDocs.docs.map(doc => ({
+        analyst_id: doc.data().analyst_id,
+        action: doc.data().action,
+        t0: toDate(doc.data().t0)
+      }))
+    ).filter(change => change.date >= since);
+
+    const analystIds = Array.from(new Set(ratingChanges.map(change => change.analystId)));
+    const analystDocs = await Promise.all(
+      analystIds.map(id => adminDb.collection(ANALYSTS_COLLECTION).doc(id).get())
+    );
+    const analystNames = new Map(
+      analystDocs.filter(doc => doc.exists).map(doc => [doc.id, doc.data()?.name as string])
+    );
+
+    // The earnings event only holds the next report; past ones are the company's earnings_release history.
+    // One report per day even when several entries describe it.
+    const reports = new Map<string, { date: Date; label: string }>();
+    const addReport = (value: any, quarter?: string, fiscalYear?: number) => {
+      const date = toDate(value);
+      if (isNaN(date.getTime()) || date < since || date > until) return;
+      reports.set(dateKey(date), {
+        date,
+        label: `${quarter || ''} ${fiscalYear || ''} earnings`.trim()
+      });
+    };
+
+    const historyEvents: HistoryEvent[] = historyDoc.exists ? historyDoc.data()?.events || [] : [];
+    historyEvents
+      .filter(event => event.type === 'earnings_release')
+      .forEach(event => addReport(event.date, event.data?.quarter, event.data?.fiscalYear));
+    earningsDocs.docs.forEach(doc => addReport(doc.data().expectedDate, doc.data().quarter, doc.data().fiscalYear));
+
+    return {
+      ticker,
+      days,
+      snapshots,
+      ratingChanges: ratingChanges.map(change => ({
+        ...change,
+        ...(analystNames.has(change.analystId) && { analystName: analystNames.get(change.analystId) })
+      })),
+      earnings: summarizeEarningsShifts(
+        snapshots,
+        Array.from(reports.values()).sort((a, b) => a.date.getTime() - b.date.getTime())
+      )
+    };
+  }
+}
+
+/**
+ * Create a new ConsensusHistoryService instance
+ */
+export function createConsensusHistoryService(): ConsensusHistoryService {
+  return new ConsensusHistoryService();
+}
@@ -1,12 +1,14 @@
 // Client-side data fetching utilities
 
+import { authFetch } from '@/lib/apiClient';
+
 export async function fetchEarningsData(
   startDate?: string,
   endDate?: string,
   forceRefresh: boolean = false
 ) {
   try {
-    const response = await fetch('/api/earnings/fetch', {
+    const response = await authFetch('/api/earnings/fetch', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -47,7 +49,7 @@ export async function getEarningsEvents(
     if (endDate) params.append('endDate', endDate);
     if (market) params.append('market', market);
 
-    const response = await fetch(`/api/earnings/fetch?${params.toString()}`);
+    const response = await authFetch(`/api/earnings/fetch?${params.toString()}`);
 
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`);
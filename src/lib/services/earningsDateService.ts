@@ -0,0 +1,290 @@
+import { adminDb } from '@/lib/firebase-admin';
+import { toDate } from '@/lib/utils/firestoreValues';
+import type { EarningsDateCandidate, EarningsDateChange, EarningsDateSource } from '@/types';
+
+export const EARNINGS_EVENTS_COLLECTION = 'earnings_events';
+
+/**
+ * How far each source's own confidence is trusted. The LLM reads dated search results; Polygon's
+ * calendar is projected from past reporting patterns; web dates are the first date found in a snippet.
+ */
+export const SOURCE_WEIGHTS: Record<EarningsDateSource, number> = {
+  sp500: 1,
+  ta125: 1,
+  polygon: 0.6,
+  web: 0.5,
+};
+
+// A date the company announced counts as near-certain whatever the source
+const CONFIRMED_WEIGHT = 0.95;
+
+// Parsed dates land on midnight in different time zones; closer than this is the same day
+const SAME_DAY_TOLERANCE_MS = 20 * 60 * 60 * 1000;
+
+// Candidates not seen again within this window are dropped
+export const CANDIDATE_MAX_AGE_MS = 14 * 24 * 60 * 60 * 1000;
+
+// Reports more than a day in the past only count when nothing upcoming is known
+const PAST_GRACE_MS = 24 * 60 * 60 * 1000;
+
+// A report this long after one that has passed is the next quarter's, not the same one running late
+const NEXT_REPORT_MIN_GAP_MS = 45 * 24 * 60 * 60 * 1000;
+
+export const MAX_DATE_CHANGES = 10;
+
+export interface ReconciledEarningsDate {
+  date: Date;
+  source: EarningsDateSource;
+  confidence: number;
+  confirmed: boolean;
+  agreeingSources: EarningsDateSource[];
+  conflictingCandidates: number;
+}
+
+export interface EarningsDateUpdate {
+  ticker: string;
+  candidates: EarningsDateCandidate[];
+  /** Written along with the reconciled date */
+  fields: Record<string, unknown>;
+  /** Only written when the event is created */
+  defaults?: Record<string, unknown>;
+}
+
+export interface EarningsDateUpdateResult {
+  action: 'created' | 'updated' | 'skipped';
+  reconciled: ReconciledEarningsDate | null;
+  moved: boolean;
+}
+
+const dateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+export function candidateWeight(candidate: EarningsDateCandidate): number {
+  if (candidate.confirmed) {
+    return CONFIRMED_WEIGHT;
+  }
+  return SOURCE_WEIGHTS[candidate.source] * Math.max(0, Math.min(1, candidate.confidence));
+}
+
+// Chance that at least one of several independent sources is right
+const combineWeights = (weights: number[]): number => 1 - weights.reduce((product, weight) => product * (1 - weight), 1);
+
+/**
+ * Fresh candidates replace earlier ones from the same source; other sources' candidates are kept until they go stale
+ */
+export function mergeDateCandidates(
+  existing: EarningsDateCandidate[],
+  incoming: EarningsDateCandidate[],
+  now: Date = new Date()
+): EarningsDateCandidate[] {
+  const refreshed = new Set(incoming.map(candidate => candidate.source));
+
+  return [
+    ...incoming,
+    ...existing.filter(candidate =>
+      !refreshed.has(candidate.source) && now.getTime() - candidate.fetchedAt.getTime() <= CANDIDATE_MAX_AGE_MS
+    )
+  ]
+    .filter(candidate => !isNaN(candidate.date.getTime()))
+    .sort((a, b) => candidateWeight(b) - candidateWeight(a));
+}
+
+/**
+ * Pick the report date the candidates support best. Candidates naming the same day back each other up;
+ * a company-confirmed date beats any number of estimates. Confidence is the support for the chosen day,
+ * reduced by the support for other days.
+ */
+export function reconcileEarningsDate(
+  candidates: EarningsDateCandidate[],
+  now: Date = new Date()
+): ReconciledEarningsDate | null {
+  const upcoming = candidates.filter(candidate => candidate.date.getTime() >= now.getTime() - PAST_GRACE_MS);
+  const pool = upcoming.length > 0 ? upcoming : candidates;
+
+  if (pool.length === 0) {
+    return null;
+  }
+
+  const days: EarningsDateCandidate[][] = [];
+  [...pool]
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .forEach(candidate => {
+      const day = days[days.length - 1];
+      if (day && candidate.date.getTime() - day[0].date.getTime() < SAME_DAY_TOLERANCE_MS) {
+        day.push(candidate);
+      } else {
+        days.push([candidate]);
+      }
+    });
+
+  const scored = days.map(members => ({
+    members: [...members].sort((a, b) => candidateWeight(b) - candidateWeight(a)),
+    support: combineWeights(members.map(candidateWeight)),
+    confirmed: members.some(candidate => candidate.confirmed)
+  }));
+
+  // Ties keep the earlier day
+  const best = scored.reduce((leader, day) => {
+    if (day.confirmed !== leader.confirmed) {
+      return day.confirmed ? day : leader;
+    }
+    return day.support > leader.support ? day : leader;
+  });
+  const dissent = combineWeights(scored.filter(day => day !== best).map(day => day.support));
+  const top = best.members[0];
+
+  return {
+    date: top.date,
+    source: top.source,
+    confidence: Math.round(best.support * (1 - dissent / 2) * 100) / 100,
+    confirmed: best.confirmed,
+    agreeingSources: Array.from(new Set(best.members.map(candidate => candidate.source))),
+    conflictingCandidates: pool.length - best.members.length
+  };
+}
+
+/**
+ * Whether the event has moved on to the next report: the stored date has passed and the new one
+ * is for another quarter, or far enough out that it can't be the same report delayed
+ */
+export function isNextReport(
+  previous: { date: Date; quarter?: string; fiscalYear?: number } | undefined,
+  next: { date: Date; quarter?: string; fiscalYear?: number },
+  now: Date = new Date()
+): boolean {
+  if (!previous || previous.date.getTime() >= now.getTime() - PAST_GRACE_MS) {
+    return false;
+  }
+
+  const otherQuarter = !!previous.quarter && !!next.quarter &&
+    (previous.quarter !== next.quarter || previous.fiscalYear !== next.fiscalYear);
+  return otherQuarter || next.date.getTime() - previous.date.getTime() >= NEXT_REPORT_MIN_GAP_MS;
+}
+
+/**
+ * Append a change entry when the reconciled date lands on a different day
+ */
+export function appendDateChange(
+  changes: EarningsDateChange[],
+  previous: Date | undefined,
+  reconciled: ReconciledEarningsDate,
+  now: Date = new Date()
+): EarningsDateChange[] {
+  if (!previous || Math.abs(previous.getTime() - reconciled.date.getTime()) < SAME_DAY_TOLERANCE_MS) {
+    return changes;
+  }
+
+  return [
+    ...changes,
+    { from: previous, to: reconciled.date, changedAt: now, source: reconciled.source, confirmed: reconciled.confirmed }
+  ].slice(-MAX_DATE_CHANGES);
+}
+
+/**
+ * Earnings Date Service
+ * Keeps one earnings event per ticker whose expectedDate is reconciled from every source's candidate,
+ * with the candidates and a log of date moves stored alongside
+ */
+export class EarningsDateService {
+  /**
+   * Most recently updated event for a ticker
+   */
+  async findLatestEvent(ticker: string): Promise<FirebaseFirestore.QueryDocumentSnapshot | null> {
+    const snapshot = await adminDb.collection(EARNINGS_EVENTS_COLLECTION)
+      .where('ticker', '==', ticker)
+      .get();
+
+    if (snapshot.empty) {
+      return null;
+    }
+
+    return snapshot.docs.reduce((latest, current) => {
+      const latestDate = latest.data().updatedAt?.toDate() || latest.data().createdAt?.toDate() || new Date(0);
+      const currentDate = current.data().updatedAt?.toDate() || current.data().createdAt?.toDate() || new Date(0);
+      return currentDate > latestDate ? current : latest;
+    });
+  }
+
+  /**
+   * Merge new candidates into the ticker's event, re-reconcile its date and record a move
+   */
+  async applyDateCandidates(update: EarningsDateUpdate, now: Date = new Date()): Promise<EarningsDateUpdateResult> {
+    const doc = await this.findLatestEvent(update.ticker);
+    const data = doc?.data();
+
+    const merged = mergeDateCandidates(
+      (data?.dateCandidates || []).map((candidate: any) => ({
+        ...candidate,
+        date: toDate(candidate.date),
+        fetchedAt: toDate(candidate.fetchedAt)
+      })),
+      update.candidates,
+      now
+    );
+    const reconciled = reconcileEarningsDate(merged, now);
+
+    if (!doc && !reconciled) {
+      return { action: 'skipped', reconciled, moved: false };
+    }
+
+    const previousChanges: EarningsDateChange[] = (data?.dateChanges || []).map((change: any) => ({
+      ...change,
+      from: toDate(change.from),
+      to: toDate(change.to),
+      changedAt: toDate(change.changedAt)
+    }));
+    const previousDate = data?.expectedDate ? toDate(data.expectedDate) : undefined;
+
+    // Reaching the next quarter's date isn't a move; that report starts a fresh log and drops the old candidates
+    const nextReport = !!reconciled && isNextReport(
+      previousDate && { date: previousDate, quarter: data?.quarter, fiscalYear: data?.fiscalYear },
+      { date: reconciled.date, quarter: update.fields.quarter as string | undefined, fiscalYear: update.fields.fiscalYear as number | undefined },
+      now
+    );
+    const candidates = nextReport
+      ? merged.filter(candidate => candidate.date.getTime() >= now.getTime() - PAST_GRACE_MS)
+      : merged;
+    const dateChanges = nextReport
+      ? []
+      : reconciled ? appendDateChange(previousChanges, previousDate, reconciled, now) : previousChanges;
+    const moved = !nextReport && dateChanges !== previousChanges;
+
+    const record = {
+      ...update.fields,
+      ...(reconciled && {
+        expectedDate: reconciled.date,
+        dataSource: reconciled.source,
+        confidence: reconciled.confidence,
+        dateConfirmed: reconciled.confirmed
+      }),
+      dateCandidates: candidates,
+      dateChanges,
+      updatedAt: now
+    };
+
+    if (nextReport && previousDate && reconciled) {
+      console.log(`📅 ${update.ticker}: reported ${dateKey(previousDate)}, next report ${dateKey(reconciled.date)}`);
+    } else if (moved && previousDate && reconciled) {
+      console.log(`📅 ${update.ticker}: earnings date moved ${dateKey(previousDate)} → ${dateKey(reconciled.date)} (${reconciled.source}${reconciled.confirmed ? ', confirmed' : ''})`);
+    }
+
+    if (doc) {
+      await doc.ref.update(record);
+      return { action: 'updated', reconciled, moved };
+    }
+
+    await adminDb.collection(EARNINGS_EVENTS_COLLECTION).add({
+      ticker: update.ticker,
+      ...update.defaults,
+      ...record,
+      createdAt: now
+    });
+    return { action: 'created', reconciled, moved };
+  }
+}
+
+/**
+ * Create a new EarningsDateService instance
+ */
+export function createEarningsDateService(): EarningsDateService {
+  return new EarningsDateService();
+}
@@ -1,4 +1,5 @@
 import { EarningsEvent } from '@/types';
+import { getMarketForTicker } from '@/lib/utils/ta125Tickers';
 
 // Mock earnings data for development/testing
 // In production, this would connect to real APIs like Alpha Vantage, Yahoo Finance, etc.
@@ -273,9 +274,7 @@ export class AlphaVantageEarningsProvider implements EarningsDataProvider {
   }
 
   private determineMarket(ticker: string): 'SP500' | 'TA125' {
-    // This is a simplified determination - in production, you'd have a proper mapping
-    const israeliTickers = ['TEVA', 'CHKP', 'CYBR', 'NICE', 'WIX', 'MNDY', 'FVRR'];
-    return israeliTickers.includes(ticker) ? 'TA125' : 'SP500';
+    return getMarketForTicker(ticker);
   }
 
   private determineQuarter(date: Date): string {
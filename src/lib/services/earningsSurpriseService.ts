@@ -0,0 +1,315 @@
+import { adminDb } from '@/lib/firebase-admin';
+import { FieldValue } from 'firebase-admin/firestore';
+import {
+  createMarketDataProvider,
+  createMarketPriceSource,
+  type MarketDataProvider,
+  type MarketPriceSource,
+  type QuarterlyFinancials
+} from '@/lib/marketData/marketDataProvider';
+import { getExchangeForMarket, getReactionTradingDay, type Exchange } from '@/lib/utils/tradingCalendar';
+import { toDate } from '@/lib/utils/firestoreValues';
+import type { EarningsEvent, EarningsSurprise, HistoryEvent } from '@/types';
+
+export interface DailyBar {
+  timestamp: Date;
+  close: number;
+}
+
+export interface ReconciliationResult {
+  checked: number;
+  reconciled: number;
+  pending: number;
+  errors: string[];
+  results: Array<{
+    ticker: string;
+    status: 'reconciled' | 'pending' | 'error';
+    message: string;
+  }>;
+}
+
+const dateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+/**
+ * Surprise as a percentage of the absolute estimate
+ */
+export function calculateSurprisePercent(actual?: number, estimate?: number): number | undefined {
+  if (actual === undefined || estimate === undefined || estimate === 0) {
+    return undefined;
+  }
+  return (actual - estimate) / Math.abs(estimate) * 100;
+}
+
+/**
+ * Index of the first session that could react to the report in date-sorted bars.
+ * Before/during-market reports react on the report day, after-market and holiday reports on the next session.
+ */
+export function findReactionIndex(
+  sortedBars: DailyBar[],
+  reportDate: Date,
+  reportTime: EarningsEvent['expectedTime'],
+  exchange: Exchange = 'NYSE'
+): number {
+  const reactionDay = getReactionTradingDay(exchange, dateKey(reportDate), reportTime);
+  return sortedBars.findIndex(bar => dateKey(bar.timestamp) >= reactionDay);
+}
+
+/**
+ * Close-to-close move over the first session that could react to the report
+ */
+export function calculatePriceReaction(
+  bars: DailyBar[],
+  reportDate: Date,
+  reportTime: EarningsEvent['expectedTime'],
+  exchange: Exchange = 'NYSE'
+): { percent: number; date: Date } | null {
+  const sorted = [...bars].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const reactionIndex = findReactionIndex(sorted, reportDate, reportTime, exchange);
+
+  if (reactionIndex < 1) {
+    return null;
+  }
+
+  const base = sorted[reactionIndex - 1];
+  const reaction = sorted[reactionIndex];
+  if (!base.close) {
+    return null;
+  }
+
+  return {
+    percent: (reaction.close - base.close) / base.close * 100,
+    date: reaction.timestamp,
+  };
+}
+
+/**
+ * The quarter a report covers: the latest one that ended before the report date, at most maxGapMs earlier
+ */
+export function findReportedQuarter(
+  financials: QuarterlyFinancials[],
+  reportDate: Date,
+  maxGapMs: number
+): QuarterlyFinancials | undefined {
+  return financials
+    .filter(item =>
+      item.endDate &&
+      item.endDate.getTime() < reportDate.getTime() &&
+      reportDate.getTime() - item.endDate.getTime() <= maxGapMs
+    )
+    .sort((a, b) => b.endDate!.getTime() - a.endDate!.getTime())[0];
+}
+
+/**
+ * Earnings Surprise Service
+ * Reconciles past earnings events with reported EPS/revenue and the market's reaction
+ */
+export class EarningsSurpriseService {
+  private marketData: MarketDataProvider;
+  private priceSources: Partial<Record<EarningsEvent['market'], MarketPriceSource>> = {};
+
+  private static CONFIG = {
+    // How long after the report we keep retrying (10-Q filings can lag the release by weeks)
+    LOOKBACK_DAYS: 45,
+    // Give the report time to be published before the first attempt
+    MIN_HOURS_AFTER_REPORT: 12,
+    // Reported quarter must have ended shortly before the report date
+    MAX_QUARTER_END_GAP_DAYS: 120,
+  };
+
+  constructor() {
+    this.marketData = createMarketDataProvider();
+  }
+
+  /**
+   * Reconcile every recent earnings event that doesn't have a complete surprise record yet
+   */
+  async reconcilePastEarnings(now: Date = new Date()): Promise<ReconciliationResult> {
+    const { LOOKBACK_DAYS, MIN_HOURS_AFTER_REPORT } = EarningsSurpriseService.CONFIG;
+    const result: ReconciliationResult = { checked: 0, reconciled: 0, pending: 0, errors: [], results: [] };
+
+    const windowStart = new Date(now.getTime() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const windowEnd = new Date(now.getTime() - MIN_HOURS_AFTER_REPORT * 60 * 60 * 1000);
+
+    const snapshot = await adminDb.collection('earnings_events')
+      .where('expectedDate', '>=', windowStart)
+      .where('expectedDate', '<=', windowEnd)
+      .get();
+
+    const candidates = snapshot.docs
+      .map(doc => {
+        const data = doc.data();
+        return {
+          ...data,
+          id: doc.id,
+          expectedDate: toDate(data.expectedDate),
+        } as EarningsEvent;
+      })
+      .filter(event => !this.isComplete(event.surprise));
+
+    console.log(`Reconciling ${candidates.length} past earnings events`);
+
+    for (const event of candidates) {
+      result.checked++;
+      try {
+        const surprise = await this.reconcileEvent(event);
+
+        if (this.isComplete(surprise)) {
+          result.reconciled++;
+          result.results.push({
+            ticker: event.ticker,
+            status: 'reconciled',
+            message: `EPS ${surprise!.actualEps} vs ${surprise!.estimatedEps ?? 'n/a'}, reaction ${surprise!.priceReactionPercent!.toFixed(2)}%`,
+          });
+        } else {
+          result.pending++;
+          result.results.push({
+            ticker: event.ticker,
+            status: 'pending',
+            message: surprise ? 'Partial data recorded, waiting for remaining figures' : 'No reported figures available yet',
+          });
+        }
+
+        // Rate limiting
+        await new Promise(resolve => setTimeout(resolve, 200));
+      } catch (error) {
+        const errorMsg = `Failed to reconcile ${event.ticker}: ${error instanceof Error ? error.message : error}`;
+        console.error(errorMsg);
+        result.errors.push(errorMsg);
+        result.results.push({ ticker: event.ticker, status: 'error', message: errorMsg });
+      }
+    }
+
+    console.log(`Earnings reconciliation completed: ${result.reconciled} reconciled, ${result.pending} pending, ${result.errors.length} errors`);
+    return result;
+  }
+
+  /**
+   * Capture actual figures and price reaction for one event and persist them
+   */
+  async reconcileEvent(event: EarningsEvent): Promise<EarningsSurprise | null> {
+    const expectedDate = new Date(event.expectedDate);
+
+    const [reported, reaction] = await Promise.all([
+      this.getReportedQuarter(event.ticker, expectedDate),
+      this.getPriceReaction(event.ticker, event.market, expectedDate, event.expectedTime),
+    ]);
+
+    if (!reported && !reaction) {
+      return null;
+    }
+
+    // Firestore rejects undefined values, so only set what we have
+    const surprise: EarningsSurprise = { reconciledAt: new Date() };
+    if (reported?.eps !== undefined) surprise.actualEps = reported.eps;
+    if (event.analystEstimate !== undefined) surprise.estimatedEps = event.analystEstimate;
+    if (reported?.revenue !== undefined) surprise.actualRevenue = reported.revenue;
+
+    const surprisePercent = calculateSurprisePercent(reported?.eps, event.analystEstimate);
+    if (surprisePercent !== undefined) surprise.epsSurprisePercent = surprisePercent;
+
+    if (reaction) {
+      surprise.priceReactionPercent = reaction.percent;
+      surprise.reactionDate = reaction.date;
+    }
+
+    await adminDb.collection('earnings_events').doc(event.id).update({
+      surprise,
+      updatedAt: new Date(),
+    });
+
+    if (this.isComplete(surprise)) {
+      await this.recordHistoryEvent(event, surprise);
+    }
+
+    return surprise;
+  }
+
+  private isComplete(surprise?: EarningsSurprise | null): boolean {
+    return !!surprise && surprise.actualEps !== undefined && surprise.priceReactionPercent !== undefined;
+  }
+
+  /**
+   * Find the quarterly filing for the quarter this report covers
+   */
+  private async getReportedQuarter(ticker: string, expectedDate: Date): Promise<QuarterlyFinancials | null> {
+    try {
+      const financials = await this.marketData.getQuarterlyFinancials(ticker, 4);
+      const maxGapMs = EarningsSurpriseService.CONFIG.MAX_QUARTER_END_GAP_DAYS * 24 * 60 * 60 * 1000;
+      const reported = findReportedQuarter(financials, expectedDate, maxGapMs);
+
+      return reported && (reported.eps !== undefined || reported.revenue !== undefined) ? reported : null;
+    } catch (error) {
+      console.warn(`No reported financials for ${ticker}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  private async getPriceReaction(
+    ticker: string,
+    market: EarningsEvent['market'],
+    expectedDate: Date,
+    expectedTime: EarningsEvent['expectedTime']
+  ): Promise<{ percent: number; date: Date } | null> {
+    try {
+      // Tel Aviv listings have their own price source; Polygon only covers US venues
+      if (!this.priceSources[market]) {
+        this.priceSources[market] = createMarketPriceSource(market);
+      }
+      const from = dateKey(new Date(expectedDate.getTime() - 7 * 24 * 60 * 60 * 1000));
+      const to = dateKey(new Date(expectedDate.getTime() + 7 * 24 * 60 * 60 * 1000));
+      const aggregates = await this.priceSources[market]!.getAggregates(ticker, 1, 'day', from, to);
+
+      return calculatePriceReaction(aggregates.results, expectedDate, expectedTime, getExchangeForMarket(market));
+    } catch (error) {
+      console.warn(`No price reaction for ${ticker}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * Append an earnings_release entry to the company's history
+   */
+  private async recordHistoryEvent(event: EarningsEvent, surprise: EarningsSurprise): Promise<void> {
+    const historyEvent: HistoryEvent = {
+      type: 'earnings_release',
+      date: new Date(event.expectedDate),
+      data: {
+        quarter: event.quarter,
+        fiscalYear: event.fiscalYear,
+        actualEps: surprise.actualEps,
+        priceReactionPercent: surprise.priceReactionPercent,
+        ...(surprise.estimatedEps !== undefined && { estimatedEps: surprise.estimatedEps }),
+        ...(surprise.epsSurprisePercent !== undefined && { epsSurprisePercent: surprise.epsSurprisePercent }),
+        ...(surprise.actualRevenue !== undefined && { actualRevenue: surprise.actualRevenue }),
+      },
+    };
+
+    const historyRef = adminDb.collection('company_history').doc(event.ticker);
+    const historyDoc = await historyRef.get();
+
+    if (!historyDoc.exists) {
+      await historyRef.set({
+        ticker: event.ticker,
+        companyName: event.companyName,
+        events: [historyEvent],
+        insights: [],
+        alerts: [],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      return;
+    }
+
+    await historyRef.update({
+      events: FieldValue.arrayUnion(historyEvent),
+      updatedAt: new Date(),
+    });
+  }
+}
+
+/**
+ * Create a new EarningsSurpriseService instance
+ */
+export function createEarningsSurpriseService(): EarningsSurpriseService {
+  return new EarningsSurpriseService();
+}
@@ -61,6 +61,24 @@ export class EmailService {
     }
   }
 
+  async sendAlertEmail(
+    userEmail: string,
+    ticker: string,
+    title: string,
+    message: string
+  ): Promise<boolean> {
+    try {
+      const html = this.generateAlertHTML(ticker, title, message);
+      const subject = `🔔 ${title}: ${ticker}`;
+
+      await this.sendEmail(userEmail, subject, html);
+      return true;
+    } catch (error) {
+      console.error('Error sending alert email:', error);
+      return false;
+    }
+  }
+
   private async sendEmail(to: string, subject: string, html: string): Promise<void> {
     const msg = {
       to,
@@ -358,6 +376,49 @@ export class EmailService {
     `;
   }
 
+  private generateAlertHTML(ticker: string, title: string, message: string): string {
+    return `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${title}</title>
+    <style>
+        body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 20px; background-color: #f5f5f5; }
+        .container { max-width: 500px; margin: 0 auto; background: white; border-radius: 8px; overflow: hidden; box-shadow: 0 2px 10px rgba(0,0,0,0.1); }
+        .header { background: #4F46E5; color: white; padding: 20px; text-align: center; }
+        .content { padding: 20px; }
+        .alert-box { background: #EEF2FF; border: 1px solid #C7D2FE; border-radius: 6px; padding: 15px; margin: 15px 0; }
+        .footer { background: #F9FAFB; padding: 15px; text-align: center; color: #6B7280; font-size: 14px; }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <div class="header">
+            <h1>🔔 ${title}</h1>
+        </div>
+        
+        <div class="content">
+            <div class="alert-box">
+                <h2 style="margin-top: 0;">${ticker}</h2>
+                <p>${message}</p>
+            </div>
+            
+            <p style="text-align: center;">
+                <a href="${process.env.NEXT_PUBLIC_APP_URL}/alerts" style="background: #4F46E5; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; display: inline-block;">View Alerts</a>
+            </p>
+        </div>
+        
+        <div class="footer">
+            <p>This is an automated alert from Zimy Stocks.</p>
+        </div>
+    </div>
+</body>
+</html>
+    `;
+  }
+
   private htmlToText(html: string): string {
     // Simple HTML to text conversion
     return html
@@ -0,0 +1,196 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminAuth, adminDb } from '@/lib/firebase-admin';
+import { toDate } from '@/lib/utils/firestoreValues';
+import type { InvitedUser, UserInvite, UserRole } from '@/types';
+
+export const USER_INVITES_COLLECTION = 'user_invites';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+export function isValidEmail(email: string): boolean {
+  return EMAIL_PATTERN.test(normalizeEmail(email));
+}
+
+function toInvite(data: FirebaseFirestore.DocumentData): UserInvite {
+  return {
+    ...data,
+    invitedAt: toDate(data.invitedAt),
+    acceptedAt: data.acceptedAt ? toDate(data.acceptedAt) : undefined,
+    revokedAt: data.revokedAt ? toDate(data.revokedAt) : undefined,
+  } as UserInvite;
+}
+
+export interface SignInProfile {
+  uid: string;
+  email: string;
+  displayName?: string;
+  photoURL?: string;
+}
+
+/**
+ * Invite Service
+ * Email allowlist for sign-in; admins invite and revoke, sign-ins are recorded on the users doc
+ */
+export class InviteService {
+  async getInvite(email: string): Promise<UserInvite | null> {
+    const doc = await adminDb.collection(USER_INVITES_COLLECTION).doc(normalizeEmail(email)).get();
+    const data = doc.data();
+    return doc.exists && data ? toInvite(data) : null;
+  }
+
+  /**
+   * All invites, newest first, with the matching account's last login
+   */
+  async listInvitedUsers(): Promise<InvitedUser[]> {
+    const [invitesSnapshot, usersSnapshot] = await Promise.all([
+      adminDb.collection(USER_INVITES_COLLECTION).get(),
+      adminDb.collection('users').get(),
+    ]);
+
+    const usersByEmail = new Map<string, FirebaseFirestore.QueryDocumentSnapshot>();
+    usersSnapshot.docs.forEach(doc => {
+      const email = doc.data().email;
+      if (email) {
+        usersByEmail.set(normalizeEmail(email), doc);
+      }
+    });
+
+    return invitesSnapshot.docs
+      .map(doc => {
+        const invite = toInvite(doc.data());
+        const userDoc = usersByEmail.get(invite.email);
+        const user = userDoc?.data();
+        return {
+          ...invite,
+          uid: userDoc?.id,
+          displayName: user?.displayName || undefined,
+          lastLogin: user?.lastLogin ? toDate(user.lastLogin) : undefined,
+        };
+      })
+      .sort((a, b) => b.invitedAt.getTime() - a.invitedAt.getTime());
+  }
+
+  /**
+   * Invite an email, or restore/change the role of an existing invite.
+   * An existing account gets the new role straight away.
+   */
+  async inviteUser(email: string, role: UserRole, invitedBy: string, now: Date = new Date()): Promise<UserInvite> {
+    const normalized = normalizeEmail(email);
+    const ref = adminDb.collection(USER_INVITES_COLLECTION).doc(normalized);
+    const existing = await this.getInvite(normalized);
+
+    await ref.set({
+      email: normalized,
+      role,
+      status: 'active',
+      invitedBy,
+      invitedAt: existing?.invitedAt || now,
+      revokedAt: FieldValue.delete(),
+      revokedBy: FieldValue.delete(),
+    }, { merge: true });
+
+    const userDoc = await this.findUserByEmail(normalized);
+    if (userDoc) {
+      await userDoc.ref.update({ role });
+    }
+
+    console.log(`✉️ ${invitedBy} invited ${normalized} as ${role}`);
+    return {
+      email: normalized,
+      role,
+      status: 'active',
+      invitedBy,
+      invitedAt: existing?.invitedAt || now,
+      ...(existing?.acceptedAt && { acceptedAt: existing.acceptedAt }),
+    };
+  }
+
+  /**
+   * Revoke an invite and sign the account out everywhere; returns false if there was no invite
+   */
+  async revokeInvite(email: string, revokedBy: string, now: Date = new Date()): Promise<boolean> {
+    const normalized = normalizeEmail(email);
+    const ref = adminDb.collection(USER_INVITES_COLLECTION).doc(normalized);
+    const doc = await ref.get();
+    if (!doc.exists) {
+      return false;
+    }
+
+    await ref.update({ status: 'revoked', revokedAt: now, revokedBy });
+
+    const userDoc = await this.findUserByEmail(normalized);
+    if (userDoc) {
+      try {
+        await adminAuth.revokeRefreshTokens(userDoc.id);
+      } catch (error) {
+        // The Firestore check still blocks API access once the ID token expires
+        console.warn(`Could not revoke sessions for ${normalized}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    console.log(`🚫 ${revokedBy} revoked access for ${normalized}`);
+    return true;
+  }
+
+  /**
+   * Check the invite and create or update the users doc on sign-in.
+   * Returns the user's role, or null when the email is not invited.
+   */
+  async registerSignIn(profile: SignInProfile, now: Date = new Date()): Promise<UserRole | null> {
+    const invite = await this.getInvite(profile.email);
+    if (invite?.status !== 'active') {
+      return null;
+    }
+
+    const userRef = adminDb.collection('users').doc(profile.uid);
+    const userDoc = await userRef.get();
+    // The invite is the source of truth; the users doc keeps a copy for the UI
+    const role: UserRole = invite.role === 'admin' ? 'admin' : 'user';
+
+    const userData: Record<string, any> = {
+      id: profile.uid,
+      email: normalizeEmail(profile.email),
+      displayName: profile.displayName || '',
+      photoURL: profile.photoURL || '',
+      role,
+      lastLogin: now,
+    };
+
+    if (!userDoc.exists) {
+      userData.createdAt = now;
+      userData.preferences = {
+        emailNotifications: true,
+        pushNotifications: true,
+        dailySummary: true,
+        weeklySummary: false,
+        alertSettings: {
+          enabledMarkets: ['SP500', 'TA125'],
+          enabledSectors: [],
+          minSentimentScore: 0.6,
+        },
+      };
+    }
+
+    await userRef.set(userData, { merge: true });
+
+    if (!invite.acceptedAt) {
+      await adminDb.collection(USER_INVITES_COLLECTION).doc(invite.email).update({ acceptedAt: now });
+    }
+
+    return role;
+  }
+
+  private async findUserByEmail(email: string): Promise<FirebaseFirestore.QueryDocumentSnapshot | null> {
+    const snapshot = await adminDb.collection('users').where('email', '==', email).limit(1).get();
+    return snapshot.docs[0] || null;
+  }
+}
+
+/**
+ * Create a new InviteService instance
+ */
+export function createInviteService(): InviteService {
+  return new InviteService();
+}
@@ -0,0 +1,328 @@
+import { createHash } from 'crypto';
+import { adminDb } from '../firebase-admin';
+import { llmClient, type JsonSchema, type LLMClient } from '../llm/llmClient';
+import { toDate, toOptionalDate, withoutUndefined } from '../utils/firestoreValues';
+import type { ParsedNewsArticle } from '../tools/serperTool';
+import type { NewsArticle, NewsSentiment, StockNews } from '@/types';
+
+export const STOCK_NEWS_COLLECTION = 'stock_news';
+
+// Articles kept per ticker, newest first
+export const MAX_STORED_ARTICLES = 20;
+
+// Articles sent to the LLM for the summary
+const MAX_SUMMARY_ARTICLES = 10;
+
+// Mean article score beyond ±0.15 tips the overall sentiment
+const SENTIMENT_THRESHOLD = 0.15;
+
+// Tracking parameters don't make a different article
+const TRACKING_PARAMS = /^(utm_|ref$|cmpid$|mod$|guccounter)/i;
+
+export function normalizeArticleUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    [...parsed.searchParams.keys()]
+      .filter(key => TRACKING_PARAMS.test(key))
+      .forEach(key => parsed.searchParams.delete(key));
+
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    const path = parsed.pathname.replace(/\/+$/, '');
+    return `${host}${path}${parsed.search}`;
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
+
+/**
+ * Syndicated copies share a headline; compare titles without case or punctuation
+ */
+export function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+export function articleId(article: Pick<ParsedNewsArticle, 'title' | 'url'>): string {
+  const key = article.url ? normalizeArticleUrl(article.url) : `title:${normalizeTitle(article.title)}`;
+  return createHash('sha256').update(key).digest('hex').slice(0, 20);
+}
+
+const articleTime = (article: NewsArticle) => (article.publishedAt || article.firstSeenAt).getTime();
+
+/**
+ * Merge freshly parsed articles into the stored ones. An article already seen (same URL or
+ * same headline) keeps its first-seen time and sentiment; only unseen articles are returned in `added`.
+ */
+export function mergeArticles(
+  existing: NewsArticle[],
+  incoming: ParsedNewsArticle[],
+  now: Date = new Date()
+): { articles: NewsArticle[]; added: NewsArticle[] } {
+  const ids = new Set(existing.map(article => article.id));
+  const titles = new Set(existing.map(article => normalizeTitle(article.title)));
+  const added: NewsArticle[] = [];
+
+  for (const item of incoming) {
+    const id = articleId(item);
+    const title = normalizeTitle(item.title);
+    if (!title || ids.has(id) || titles.has(title)) {
+      continue;
+    }
+
+    ids.add(id);
+    titles.add(title);
+    added.push({ ...item, id, firstSeenAt: now });
+  }
+
+  const articles = [...added, ...existing]
+    .sort((a, b) => articleTime(b) - articleTime(a))
+    .slice(0, MAX_STORED_ARTICLES);
+
+  return { articles, added: added.filter(article => articles.includes(article)) };
+}
+
+export function scoreToSentiment(score: number): NewsSentiment {
+  if (score > SENTIMENT_THRESHOLD) return 'positive';
+  if (score < -SENTIMENT_THRESHOLD) return 'negative';
+  return 'neutral';
+}
+
+/**
+ * Overall sentiment as the mean of the scored articles
+ */
+export function aggregateSentiment(articles: NewsArticle[]): Pick<StockNews, 'sentiment' | 'sentimentScore'> {
+  const scores = articles
+    .map(article => article.sentimentScore)
+    .filter((score): score is number => typeof score === 'number');
+
+  if (scores.length === 0) {
+    return {};
+  }
+
+  const sentimentScore = Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 100) / 100;
+  return { sentiment: scoreToSentiment(sentimentScore), sentimentScore };
+}
+
+export interface NewsDigest {
+  summary: string;
+  themes: string[];
+  articleScores: Map<string, number>; // article id → -1..1
+}
+
+export interface NewsDigestResponse {
+  summary: string;
+  themes?: string[];
+  articles?: Array<{ index: number; score: number }>;
+}
+
+const NEWS_DIGEST_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['summary'],
+  properties: {
+    summary: { type: 'string', minLength: 1 },
+    themes: { type: 'array', items: { type: 'string' } },
+    articles: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['index', 'score'],
+        properties: {
+          index: { type: 'integer', minimum: 1 },
+          score: { type: 'number' }
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Map the LLM's article numbers back to the articles sent
+ */
+export function buildNewsDigest(response: NewsDigestResponse, articles: NewsArticle[]): NewsDigest {
+  const articleScores = new Map<string, number>();
+  (response.articles || []).forEach(entry => {
+    const article = articles[entry.index - 1];
+    if (article) {
+      articleScores.set(article.id, Math.max(-1, Math.min(1, entry.score)));
+    }
+  });
+
+  return {
+    summary: response.summary.trim().substring(0, 600),
+    themes: (response.themes || [])
+      .map(theme => theme.trim())
+      .filter(theme => theme.length > 0)
+      .slice(0, 5),
+    articleScores
+  };
+}
+
+// stock_news documents as read back: dates are Timestamps and docs written before a field existed lack it
+type StoredNewsArticle = Omit<NewsArticle, 'publishedAt' | 'firstSeenAt'> & {
+  publishedAt?: unknown;
+  firstSeenAt?: unknown;
+};
+
+type StoredStockNews = Partial<Omit<StockNews, 'id' | 'articles' | 'lastUpdated' | 'updatedAt'>> & {
+  articles?: StoredNewsArticle[];
+  lastUpdated?: unknown;
+  updatedAt?: unknown;
+};
+
+function toNewsArticle(article: StoredNewsArticle): NewsArticle {
+  return {
+    ...article,
+    publishedAt: toOptionalDate(article.publishedAt),
+    firstSeenAt: toDate(article.firstSeenAt)
+  };
+}
+
+function toStockNews(id: string, data: StoredStockNews): StockNews {
+  return {
+    id,
+    ticker: data.ticker || id,
+    news: data.news || [],
+    articles: (data.articles || []).map(toNewsArticle),
+    summary: data.summary || '',
+    themes: data.themes || [],
+    sentiment: data.sentiment,
+    sentimentScore: data.sentimentScore,
+    lastUpdated: toDate(data.lastUpdated),
+    updatedAt: toDate(data.updatedAt)
+  };
+}
+
+/**
+ * News Service
+ * Keeps a de-duplicated article list per ticker in stock_news with an LLM summary,
+ * key themes and per-article sentiment
+ */
+export class NewsService {
+  constructor(private llm: LLMClient = llmClient) {}
+
+  async getStockNews(ticker: string): Promise<StockNews | null> {
+    const doc = await adminDb.collection(STOCK_NEWS_COLLECTION).doc(ticker).get();
+    const data: StoredStockNews | undefined = doc.data();
+    return doc.exists && data ? toStockNews(doc.id, data) : null;
+  }
+
+  /**
+   * Merge new articles into the ticker's news and re-summarize when anything new arrived.
+   * Articles seen on earlier runs are not scored again.
+   */
+  async refreshStockNews(ticker: string, incoming: ParsedNewsArticle[], now: Date = new Date()): Promise<StockNews> {
+    const current = await this.getStockNews(ticker);
+    const { articles, added } = mergeArticles(current?.articles || [], incoming, now);
+
+    let summary = current?.summary || '';
+    let themes = current?.themes || [];
+    let scored = articles;
+
+    if (added.length > 0 || !summary) {
+      const digest = await this.summarize(ticker, articles);
+      if (digest) {
+        summary = digest.summary;
+        themes = digest.themes;
+        scored = articles.map(article => {
+          const score = article.sentimentScore ?? digest.articleScores.get(article.id);
+          return score === undefined ? article : { ...article, sentimentScore: score, sentiment: scoreToSentiment(score) };
+        });
+      } else if (!summary) {
+        summary = this.fallbackSummary(ticker, articles);
+      }
+    }
+
+    const stockNews: StockNews = {
+      id: ticker,
+      ticker,
+      news: scored.slice(0, 5).map(article => `${article.title}: ${article.snippet}`),
+      articles: scored,
+      summary,
+      themes,
+      ...aggregateSentiment(scored),
+      lastUpdated: now,
+      updatedAt: now
+    };
+
+    await adminDb.collection(STOCK_NEWS_COLLECTION).doc(ticker).set(withoutUndefined({
+      ...stockNews,
+      articles: scored.map(article => withoutUndefined(article))
+    }));
+
+    return stockNews;
+  }
+
+  /**
+   * One LLM call for the summary, themes and article scores. Returns null when the call fails
+   * or the OpenAI budget is used up; the caller falls back to a headline summary.
+   */
+  private async summarize(ticker: string, articles: NewsArticle[]): Promise<NewsDigest | null> {
+    const recent = articles.slice(0, MAX_SUMMARY_ARTICLES);
+    if (recent.length === 0) {
+      return null;
+    }
+
+    try {
+      const { data } = await this.llm.completeJson<NewsDigestResponse>({
+        purpose: 'news-digest',
+        ticker,
+        schema: NEWS_DIGEST_SCHEMA,
+        messages: [
+          {
+            role: 'system',
+            content: 'You are a financial news analyst. Respond only with valid JSON.'
+          },
+          {
+            role: 'user',
+            content: this.createPrompt(ticker, recent)
+          }
+        ],
+        maxTokens: 800,
+        temperature: 0.2,
+      });
+
+      return buildNewsDigest(data, recent);
+    } catch (error) {
+      console.error(`News summary failed for ${ticker}:`, error);
+      return null;
+    }
+  }
+
+  private createPrompt(ticker: string, articles: NewsArticle[]): string {
+    const list = articles
+      .map((article, i) => {
+        const date = article.publishedAt ? ` (${article.publishedAt.toISOString().split('T')[0]})` : '';
+        return `${i + 1}. [${article.source}${date}] ${article.title}\n   ${article.snippet}`;
+      })
+      .join('\n');
+
+    return `Recent news articles about ${ticker}:
+
+${list}
+
+Respond with ONLY a JSON object in this exact format:
+{
+  "summary": "2-3 sentences on what the news means for ${ticker} and its stock",
+  "themes": ["short theme", "..."],
+  "articles": [{ "index": 1, "score": 0.0 }]
+}
+
+Rules:
+- summary: max 400 characters, no investment advice
+- themes: 2-5 key themes, each under 40 characters
+- articles: one entry per numbered article; score from -1.0 (very negative for the stock) to 1.0 (very positive), 0 if neutral or unrelated`;
+  }
+
+  private fallbackSummary(ticker: string, articles: NewsArticle[]): string {
+    if (articles.length === 0) {
+      return `No recent news found for ${ticker}.`;
+    }
+    return `Latest headlines for ${ticker}: ${articles.slice(0, 3).map(article => article.title).join('; ')}`;
+  }
+}
+
+/**
+ * Create a new NewsService instance
+ */
+export function createNewsService(llm?: LLMClient): NewsService {
+  return new NewsService(llm);
+}
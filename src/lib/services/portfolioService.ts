@@ -0,0 +1,276 @@
+import { adminDb } from '@/lib/firebase-admin';
+import {
+  createMarketDataProvider,
+  createMarketPriceSource,
+  type MarketDataProvider,
+  type MarketPriceSource
+} from '@/lib/marketData/marketDataProvider';
+import { getMarketCurrency, USD_ILS_FX_SYMBOL } from '@/lib/utils/currency';
+import { toDate } from '@/lib/utils/firestoreValues';
+import { getQuoteSymbol } from '@/lib/utils/ta125Tickers';
+import type {
+  MarketCurrency,
+  PortfolioLot,
+  PortfolioPosition,
+  PortfolioExposure,
+  PortfolioSummary,
+  EarningsEvent,
+  EarningsAtRisk
+} from '@/types';
+
+export const DEFAULT_EARNINGS_WINDOW_DAYS = 14;
+
+function groupExposure(positions: PortfolioPosition[], keyOf: (position: PortfolioPosition) => string, total: number): PortfolioExposure[] {
+  const totals = new Map<string, number>();
+  for (const position of positions) {
+    const key = keyOf(position) || 'Unknown';
+    totals.set(key, (totals.get(key) || 0) + position.marketValue);
+  }
+
+  return Array.from(totals.entries())
+    .map(([key, marketValue]) => ({ key, marketValue, weight: total > 0 ? marketValue / total : 0 }))
+    .sort((a, b) => b.marketValue - a.marketValue);
+}
+
+/**
+ * Aggregate lots into positions with P&L, exposure and earnings at risk.
+ * `prices` are keyed by quote symbol (AAPL, LUMI.TA), in each market's own currency.
+ * Positions without a price are valued at cost so totals stay meaningful;
+ * totals are in USD, converted with `fxRates` (USD per unit of each currency).
+ */
+export function calculatePortfolioSummary(
+  lots: PortfolioLot[],
+  prices: Record<string, number | undefined>,
+  earningsEvents: EarningsEvent[],
+  now: Date = new Date(),
+  days: number = DEFAULT_EARNINGS_WINDOW_DAYS,
+  fxRates: Partial<Record<MarketCurrency, number>> = { USD: 1 }
+): PortfolioSummary {
+  const openLots = lots.filter(lot => lot.status === 'open');
+  const realizedPnL = lots
+    .filter(lot => lot.status === 'closed' && lot.sellPrice !== undefined)
+    .reduce((sum, lot) => {
+      const rate = fxRates[getMarketCurrency(lot.market)];
+      return rate === undefined ? sum : sum + (lot.sellPrice! - lot.costBasis) * lot.quantity * rate;
+    }, 0);
+
+  // The same symbol held in New York and Tel Aviv is two positions
+  const bySymbol = new Map<string, PortfolioLot[]>();
+  for (const lot of openLots) {
+    const symbol = getQuoteSymbol(lot.ticker, lot.market);
+    bySymbol.set(symbol, [...(bySymbol.get(symbol) || []), lot]);
+  }
+
+  const positions: PortfolioPosition[] = Array.from(bySymbol.entries()).map(([symbol, tickerLots]) => {
+    const ticker = tickerLots[0].ticker;
+    const currency = getMarketCurrency(tickerLots[0].market);
+    const rate = fxRates[currency];
+    const quantity = tickerLots.reduce((sum, lot) => sum + lot.quantity, 0);
+    const nativeCost = tickerLots.reduce((sum, lot) => sum + lot.quantity * lot.costBasis, 0);
+    const price = prices[symbol];
+    const nativeValue = price !== undefined ? price * quantity : nativeCost;
+    // Without a rate the totals stay in the native currency and the position is left out
+    const costBasis = nativeCost * (rate ?? 1);
+    const marketValue = nativeValue * (rate ?? 1);
+    const unrealizedPnL = marketValue - costBasis;
+
+    return {
+      ticker,
+      companyName: tickerLots[0].companyName,
+      market: tickerLots[0].market,
+      sector: tickerLots[0].sector,
+      currency,
+      quantity,
+      averageCost: quantity > 0 ? nativeCost / quantity : 0,
+      price,
+      costBasis,
+      marketValue,
+      unrealizedPnL,
+      unrealizedPnLPercent: costBasis > 0 ? (unrealizedPnL / costBasis) * 100 : 0,
+      priceAvailable: price !== undefined,
+      fxAvailable: rate !== undefined,
+    };
+  }).sort((a, b) => b.marketValue - a.marketValue);
+
+  const included = positions.filter(position => position.fxAvailable);
+  const totalMarketValue = included.reduce((sum, position) => sum + position.marketValue, 0);
+  const totalCostBasis = included.reduce((sum, position) => sum + position.costBasis, 0);
+
+  // Earliest upcoming report per held ticker inside the window
+  const windowEnd = now.getTime() + days * 24 * 60 * 60 * 1000;
+  const positionsByTicker = new Map(included.map(position => [position.ticker, position]));
+  const nextEvent = new Map<string, EarningsEvent>();
+  for (const event of earningsEvents) {
+    const time = new Date(event.expectedDate).getTime();
+    if (!positionsByTicker.has(event.ticker) || time < now.getTime() || time > windowEnd) continue;
+
+    const existing = nextEvent.get(event.ticker);
+    if (!existing || time < new Date(existing.expectedDate).getTime()) {
+      nextEvent.set(event.ticker, event);
+    }
+  }
+
+  const atRisk: EarningsAtRisk[] = Array.from(nextEvent.values())
+    .map(event => {
+      const position = positionsByTicker.get(event.ticker)!;
+      return {
+        ticker: event.ticker,
+        companyName: position.companyName,
+        expectedDate: new Date(event.expectedDate),
+        expectedTime: event.expectedTime,
+        marketValue: position.marketValue,
+        weight: totalMarketValue > 0 ? position.marketValue / totalMarketValue : 0,
+      };
+    })
+    .sort((a, b) => a.expectedDate.getTime() - b.expectedDate.getTime());
+
+  const atRiskValue = atRisk.reduce((sum, event) => sum + event.marketValue, 0);
+
+  return {
+    positions,
+    totalMarketValue,
+    totalCostBasis,
+    unrealizedPnL: totalMarketValue - totalCostBasis,
+    unrealizedPnLPercent: totalCostBasis > 0 ? ((totalMarketValue - totalCostBasis) / totalCostBasis) * 100 : 0,
+    realizedPnL,
+    exposureBySector: groupExposure(included, position => position.sector, totalMarketValue),
+    exposureByMarket: groupExposure(included, position => position.market, totalMarketValue),
+    earningsAtRisk: {
+      days,
+      events: atRisk,
+      marketValue: atRiskValue,
+      weight: totalMarketValue > 0 ? atRiskValue / totalMarketValue : 0,
+    },
+    fxRates,
+    pricedAt: now,
+  };
+}
+
+/**
+ * Portfolio Service
+ * Prices a user's lots with market data snapshots and builds the P&L summary
+ */
+export class PortfolioService {
+  private marketData: MarketDataProvider | null = null;
+  private priceSources: Partial<Record<PortfolioLot['market'], MarketPriceSource>> = {};
+
+  async getPortfolioSummary(
+    userId: string,
+    days: number = DEFAULT_EARNINGS_WINDOW_DAYS,
+    now: Date = new Date()
+  ): Promise<PortfolioSummary> {
+    const lotsSnapshot = await adminDb.collection('portfolio_lots')
+      .where('userId', '==', userId)
+      .get();
+
+    const lots = lotsSnapshot.docs.map(doc => {
+      const data = doc.data();
+      return {
+        ...data,
+        id: doc.id,
+        buyDate: toDate(data.buyDate),
+        sellDate: data.sellDate ? toDate(data.sellDate) : undefined,
+      } as PortfolioLot;
+    });
+
+    const openLots = lots.filter(lot => lot.status === 'open');
+    const tickers = Array.from(new Set(openLots.map(lot => lot.ticker)));
+    const currencies = Array.from(new Set(lots.map(lot => getMarketCurrency(lot.market))));
+    const [prices, earningsEvents, fxRates] = await Promise.all([
+      this.getPrices(openLots),
+      this.getUpcomingEarnings(tickers, now, days),
+      this.getFxRates(currencies, now),
+    ]);
+
+    return calculatePortfolioSummary(lots, prices, earningsEvents, now, days, fxRates);
+  }
+
+  /**
+   * Latest price per quote symbol, from the source for each lot's stored market
+   */
+  private async getPrices(lots: PortfolioLot[]): Promise<Record<string, number | undefined>> {
+    const prices: Record<string, number | undefined> = {};
+
+    for (const lot of lots) {
+      const symbol = getQuoteSymbol(lot.ticker, lot.market);
+      if (symbol in prices) continue;
+
+      try {
+        const snapshot = await this.getPriceSource(lot.market).getSnapshotTicker(lot.ticker);
+        prices[symbol] = snapshot.price || undefined;
+      } catch (error) {
+        // Delisted tickers have no snapshot; value them at cost
+        prices[symbol] = undefined;
+        console.warn(`No price for ${symbol}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    return prices;
+  }
+
+  private getPriceSource(market: PortfolioLot['market']): MarketPriceSource {
+    if (!this.priceSources[market]) {
+      this.priceSources[market] = createMarketPriceSource(market);
+    }
+    return this.priceSources[market]!;
+  }
+
+  /**
+   * USD per unit of each currency, from the latest daily close of the FX pair
+   */
+  private async getFxRates(currencies: MarketCurrency[], now: Date): Promise<Partial<Record<MarketCurrency, number>>> {
+    const rates: Partial<Record<MarketCurrency, number>> = { USD: 1 };
+    if (!currencies.includes('ILS')) {
+      return rates;
+    }
+
+    if (!this.marketData) {
+      this.marketData = createMarketDataProvider();
+    }
+
+    try {
+      const from = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+      const aggregates = await this.marketData.getAggregates(
+        USD_ILS_FX_SYMBOL,
+        1,
+        'day',
+        from.toISOString().split('T')[0],
+        now.toISOString().split('T')[0]
+      );
+      const last = aggregates.results[aggregates.results.length - 1];
+      if (last?.close) {
+        rates.ILS = 1 / last.close;
+      }
+    } catch (error) {
+      console.warn('No USD/ILS rate; shekel positions are left out of the totals:', error instanceof Error ? error.message : error);
+    }
+
+    return rates;
+  }
+
+  private async getUpcomingEarnings(tickers: string[], now: Date, days: number): Promise<EarningsEvent[]> {
+    if (tickers.length === 0) {
+      return [];
+    }
+
+    const snapshot = await adminDb.collection('earnings_events')
+      .where('expectedDate', '>=', now)
+      .where('expectedDate', '<=', new Date(now.getTime() + days * 24 * 60 * 60 * 1000))
+      .get();
+
+    const held = new Set(tickers);
+    return snapshot.docs
+      .map(doc => {
+        const data = doc.data();
+        return { ...data, id: doc.id, expectedDate: toDate(data.expectedDate) } as EarningsEvent;
+      })
+      .filter(event => held.has(event.ticker));
+  }
+}
+
+/**
+ * Create a new PortfolioService instance
+ */
+export function createPortfolioService(): PortfolioService {
+  return new PortfolioService();
+}
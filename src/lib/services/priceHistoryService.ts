@@ -0,0 +1,207 @@
+import { adminDb } from '@/lib/firebase-admin';
+import { createMarketPriceSource, type MarketPriceSource, type AggregateTimespan } from '@/lib/marketData/marketDataProvider';
+import { getMarketForTicker, getQuoteSymbol } from '@/lib/utils/ta125Tickers';
+import { getMarketCurrency, formatPrice } from '@/lib/utils/currency';
+import { toDate } from '@/lib/utils/firestoreValues';
+import type { PriceRange, PricePoint, PriceChartMarker, PriceHistory } from '@/types';
+
+interface RangeConfig {
+  multiplier: number;
+  timespan: AggregateTimespan;
+  // Calendar days requested from the provider
+  lookbackDays: number;
+  // Intraday ranges keep only the most recent sessions
+  sessions?: number;
+  cacheMinutes: number;
+}
+
+export const PRICE_RANGES: Record<PriceRange, RangeConfig> = {
+  '1D': { multiplier: 5, timespan: 'minute', lookbackDays: 5, sessions: 1, cacheMinutes: 5 },
+  '5D': { multiplier: 30, timespan: 'minute', lookbackDays: 9, sessions: 5, cacheMinutes: 15 },
+  '1M': { multiplier: 1, timespan: 'day', lookbackDays: 31, cacheMinutes: 360 },
+  '6M': { multiplier: 1, timespan: 'day', lookbackDays: 183, cacheMinutes: 360 },
+  '1Y': { multiplier: 1, timespan: 'day', lookbackDays: 366, cacheMinutes: 720 },
+};
+
+export function isPriceRange(value: string): value is PriceRange {
+  return Object.prototype.hasOwnProperty.call(PRICE_RANGES, value);
+}
+
+type Market = PriceHistory['market'];
+
+const dateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+/**
+ * Keep only bars from the last `sessions` trading days
+ */
+export function trimToSessions(bars: PricePoint[], sessions: number): PricePoint[] {
+  const days = Array.from(new Set(bars.map(bar => dateKey(bar.timestamp)))).sort();
+  const keep = new Set(days.slice(-sessions));
+  return bars.filter(bar => keep.has(dateKey(bar.timestamp)));
+}
+
+/**
+ * Price History Service
+ * Serves chart aggregates from the market data provider with a Firestore cache,
+ * plus earnings and analyst recommendation markers
+ */
+export class PriceHistoryService {
+  private priceSources: Partial<Record<Market, MarketPriceSource>> = {};
+
+  /**
+   * Pass the market the caller stored with the ticker; the bare-ticker guess treats dual listings as US
+   */
+  async getPriceHistory(
+    ticker: string,
+    range: PriceRange,
+    market: Market = getMarketForTicker(ticker),
+    now: Date = new Date()
+  ): Promise<PriceHistory> {
+    const config = PRICE_RANGES[range];
+    const from = new Date(now.getTime() - config.lookbackDays * 24 * 60 * 60 * 1000);
+
+    const [{ bars, fetchedAt, cached }, markers] = await Promise.all([
+      this.getBars(ticker, market, range, from, now),
+      this.getMarkers(ticker, market, from, now),
+    ]);
+
+    // Markers only make sense inside the plotted window
+    const firstBar = bars[0]?.timestamp.getTime() ?? from.getTime();
+
+    return {
+      ticker,
+      market,
+      range,
+      currency: getMarketCurrency(market),
+      bars,
+      markers: markers.filter(marker => marker.date.getTime() >= firstBar),
+      fetchedAt,
+      cached,
+    };
+  }
+
+  private async getBars(
+    ticker: string,
+    market: Market,
+    range: PriceRange,
+    from: Date,
+    now: Date
+  ): Promise<{ bars: PricePoint[]; fetchedAt: Date; cached: boolean }> {
+    const config = PRICE_RANGES[range];
+    const cacheRef = adminDb.collection('price_history_cache').doc(`${getQuoteSymbol(ticker, market)}_${range}`);
+    const cacheDoc = await cacheRef.get();
+
+    if (cacheDoc.exists) {
+      const data = cacheDoc.data()!;
+      const fetchedAt = toDate(data.fetchedAt);
+      if (now.getTime() - fetchedAt.getTime() < config.cacheMinutes * 60 * 1000) {
+        return {
+          bars: (data.bars || []).map((bar: any) => ({
+            timestamp: new Date(bar.t),
+            open: bar.o,
+            high: bar.h,
+            low: bar.l,
+            close: bar.c,
+            volume: bar.v,
+          })),
+          fetchedAt,
+          cached: true,
+        };
+      }
+    }
+
+    if (!this.priceSources[market]) {
+      this.priceSources[market] = createMarketPriceSource(market);
+    }
+
+    const aggregates = await this.priceSources[market]!.getAggregates(
+      ticker,
+      config.multiplier,
+      config.timespan,
+      dateKey(from),
+      dateKey(now)
+    );
+
+    const bars = config.sessions ? trimToSessions(aggregates.results, config.sessions) : aggregates.results;
+
+    if (bars.length === 0) {
+      return { bars, fetchedAt: now, cached: false };
+    }
+
+    // Compact keys keep a year of daily bars well under the document size limit
+    await cacheRef.set({
+      ticker,
+      market,
+      range,
+      bars: bars.map(bar => ({
+        t: bar.timestamp.getTime(),
+        o: bar.open,
+        h: bar.high,
+        l: bar.low,
+        c: bar.close,
+        v: bar.volume,
+      })),
+      fetchedAt: now,
+    });
+
+    return { bars, fetchedAt: now, cached: false };
+  }
+
+  private async getMarkers(ticker: string, market: Market, from: Date, now: Date): Promise<PriceChartMarker[]> {
+    const [earningsSnapshot, recommendationsSnapshot] = await Promise.all([
+      adminDb.collection('earnings_events').where('ticker', '==', ticker).get(),
+      adminDb.collection('analyst_recommendations_enhanced').where('ticker', '==', ticker).get(),
+    ]);
+
+    const inWindow = (date: Date) => date.getTime() >= from.getTime() && date.getTime() <= now.getTime();
+    const markers: PriceChartMarker[] = [];
+
+    for (const doc of earningsSnapshot.docs) {
+      const data = doc.data();
+      const date = toDate(data.expectedDate);
+      if (!inWindow(date)) continue;
+
+      const marker: PriceChartMarker = {
+        type: 'earnings',
+        date,
+        label: `${data.quarter || ''} ${data.fiscalYear || ''} earnings`.trim(),
+      };
+      if (data.surprise?.epsSurprisePercent !== undefined) {
+        marker.epsSurprisePercent = data.surprise.epsSurprisePercent;
+      }
+      markers.push(marker);
+    }
+
+    const recommendations = recommendationsSnapshot.docs
+      .map(doc => ({ ...doc.data(), t0: toDate(doc.data().t0) }) as any)
+      .filter(rec => inWindow(rec.t0));
+
+    const analystIds = Array.from(new Set(recommendations.map(rec => rec.analyst_id as string)));
+    const analystDocs = await Promise.all(
+      analystIds.map(id => adminDb.collection('analysts_enhanced').doc(id).get())
+    );
+    const analystNames = new Map(
+      analystDocs.filter(doc => doc.exists).map(doc => [doc.id, doc.data()?.name as string])
+    );
+
+    const currency = getMarketCurrency(market);
+    for (const rec of recommendations) {
+      const analyst = analystNames.get(rec.analyst_id);
+      markers.push({
+        type: 'recommendation',
+        date: rec.t0,
+        action: rec.action,
+        label: `${rec.action}${analyst ? ` by ${analyst}` : ''}${rec.target_price ? ` (target ${formatPrice(rec.target_price, currency)})` : ''}`,
+      });
+    }
+
+    return markers.sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+}
+
+/**
+ * Create a new PriceHistoryService instance
+ */
+export function createPriceHistoryService(): PriceHistoryService {
+  return new PriceHistoryService();
+}
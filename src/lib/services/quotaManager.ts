@@ -0,0 +1,326 @@
+import { FieldValue } from "firebase-admin/firestore";
+import { adminDb } from "../firebase-admin";
+import type { ApiProvider, ProviderDailyUsage, ProviderQuotaStatus, ProviderUsageDay } from "@/types";
+
+export const USAGE_METRICS_COLLECTION = 'usage_metrics';
+
+export interface ProviderQuota {
+  requestsPerSecond: number;
+  burst: number;
+  dailyCallLimit: number;
+  costPerCall: number;
+  costPer1kTokens: number;
+}
+
+export const API_PROVIDERS: ApiProvider[] = ['serper', 'polygon', 'yahoo', 'openai'];
+
+// SERPER_DAILY_CALL_LIMIT, POLYGON_DAILY_CALL_LIMIT, YAHOO_DAILY_CALL_LIMIT and OPENAI_DAILY_CALL_LIMIT override the defaults
+const dailyCallLimit = (provider: ApiProvider, fallback: number): number =>
+  Number(process.env[`${provider.toUpperCase()}_DAILY_CALL_LIMIT`]) || fallback;
+
+export const PROVIDER_QUOTAS: Record<ApiProvider, ProviderQuota> = {
+  // ~$50 per 50k searches
+  serper: { requestsPerSecond: 1, burst: 2, dailyCallLimit: dailyCallLimit('serper', 1000), costPerCall: 0.001, costPer1kTokens: 0 },
+  // Polygon allows 5 requests per second
+  polygon: { requestsPerSecond: 5, burst: 5, dailyCallLimit: dailyCallLimit('polygon', 20000), costPerCall: 0, costPer1kTokens: 0 },
+  // Opt-in Tel Aviv quotes scraped from Yahoo Finance's unofficial chart API; unmetered, so kept gentle
+  yahoo: { requestsPerSecond: 2, burst: 2, dailyCallLimit: dailyCallLimit('yahoo', 2000), costPerCall: 0, costPer1kTokens: 0 },
+  // costPer1kTokens only prices models missing from OPENAI_PRICING in src/lib/llm/openaiModel.ts.
+  // Kept at the 50 calls a day sentiment analysis was budgeted on its own; sentiment, earnings-date parsing
+  // and news digests now share them, so raise OPENAI_DAILY_CALL_LIMIT deliberately rather than here
+  openai: { requestsPerSecond: 1, burst: 1, dailyCallLimit: dailyCallLimit('openai', 50), costPerCall: 0, costPer1kTokens: 0.002 },
+};
+
+export const MAX_RATE_LIMIT_RETRIES = 3;
+export const RATE_LIMIT_BASE_DELAY_MS = 1000;
+
+// Re-read today's counts from Firestore at most this often; other instances share the budget
+const USAGE_SYNC_MS = 60 * 1000;
+
+const emptyUsage = (): ProviderDailyUsage => ({ calls: 0, tokens: 0, cost: 0, rateLimited: 0 });
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const usageDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+/**
+ * Thrown when a provider's daily call budget is used up
+ */
+export class QuotaExceededError extends Error {
+  constructor(public provider: ApiProvider, public limit: number) {
+    super(`Daily ${provider} API call limit (${limit}) reached. Please try again tomorrow.`);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/**
+ * Thrown for a 429 response; carries the server's Retry-After when it sent one
+ */
+export class RateLimitError extends Error {
+  status = 429;
+
+  constructor(public provider: ApiProvider, public retryAfterMs?: number) {
+    super(`${provider} rate limit exceeded (HTTP 429)`);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * Retry-After as milliseconds; accepts delta-seconds or an HTTP date
+ */
+export function parseRetryAfter(value: string | null | undefined, now: Date = new Date()): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now.getTime());
+}
+
+/**
+ * Backoff after the nth 429 (0-based): 1s, 2s, 4s, ...
+ */
+export function rateLimitDelayMs(attempt: number): number {
+  return RATE_LIMIT_BASE_DELAY_MS * 2 ** attempt;
+}
+
+export function throwIfRateLimited(provider: ApiProvider, response: Response): void {
+  if (response.status === 429) {
+    throw new RateLimitError(provider, parseRetryAfter(response.headers?.get('retry-after')));
+  }
+}
+
+function isRateLimited(error: unknown): error is { status: number; retryAfterMs?: number; headers?: any } {
+  return typeof error === 'object' && error !== null && (error as { status?: number }).status === 429;
+}
+
+// OpenAI SDK errors expose headers as a Headers object
+function retryAfterFrom(error: { retryAfterMs?: number; headers?: any }): number | undefined {
+  if (error.retryAfterMs !== undefined) return error.retryAfterMs;
+  return parseRetryAfter(error.headers?.get?.('retry-after'));
+}
+
+/**
+ * Token bucket: refills at `ratePerSecond` up to `capacity`. Reservations may take the
+ * balance negative so concurrent callers queue behind each other instead of racing.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(private ratePerSecond: number, private capacity: number, now: number = Date.now()) {
+    this.tokens = capacity;
+    this.updatedAt = now;
+  }
+
+  /**
+   * Take one token; returns how long the caller must wait before using it
+   */
+  reserve(now: number = Date.now()): number {
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 1000) * this.ratePerSecond);
+    this.updatedAt = now;
+    this.tokens -= 1;
+
+    return this.tokens >= 0 ? 0 : Math.ceil((-this.tokens / this.ratePerSecond) * 1000);
+  }
+}
+
+interface LocalUsage {
+  date: string;
+  calls: number;
+  syncedAt: number;
+}
+
+/**
+ * Quota Manager
+ * Central rate limiting for external APIs: a per-provider token bucket, a daily call budget
+ * counted in usage_metrics, and retry with backoff on 429 responses
+ */
+export class QuotaManager {
+  private buckets = new Map<ApiProvider, TokenBucket>();
+  private usage = new Map<ApiProvider, LocalUsage>();
+
+  constructor(private quotas: Record<ApiProvider, ProviderQuota> = PROVIDER_QUOTAS) {}
+
+  /**
+   * Wait for a rate-limit slot and count the call against today's budget.
+   * Throws QuotaExceededError when the budget is used up.
+   */
+  async acquire(provider: ApiProvider): Promise<void> {
+    const quota = this.quotas[provider];
+    const usage = await this.getLocalUsage(provider);
+
+    if (usage.calls >= quota.dailyCallLimit) {
+      throw new QuotaExceededError(provider, quota.dailyCallLimit);
+    }
+    usage.calls++;
+
+    let bucket = this.buckets.get(provider);
+    if (!bucket) {
+      bucket = new TokenBucket(quota.requestsPerSecond, quota.burst);
+      this.buckets.set(provider, bucket);
+    }
+
+    const waitMs = bucket.reserve();
+    if (waitMs > 0) {
+      await sleep(waitMs);
+    }
+  }
+
+  /**
+   * Run an API call under the provider's quota, retrying 429s with backoff (honoring Retry-After).
+   * `tokensUsed` reads the token count from the result for per-token pricing; `costOf` prices the result
+   * itself when the provider's flat per-token rate doesn't fit (OpenAI prices each model and token kind).
+   */
+  async call<T>(
+    provider: ApiProvider,
+    operation: () => Promise<T>,
+    tokensUsed?: (result: T) => number,
+    costOf?: (result: T) => number
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(provider);
+
+      try {
+        const result = await operation();
+        await this.recordUsage(provider, tokensUsed ? tokensUsed(result) : 0, costOf?.(result));
+        return result;
+      } catch (error) {
+        if (!isRateLimited(error)) {
+          throw error;
+        }
+
+        await this.recordRateLimited(provider);
+        if (attempt >= MAX_RATE_LIMIT_RETRIES) {
+          throw error;
+        }
+
+        const delay = retryAfterFrom(error) ?? rateLimitDelayMs(attempt);
+        console.warn(`⏳ ${provider} rate limited, retrying in ${delay}ms (attempt ${attempt + 1}/${MAX_RATE_LIMIT_RETRIES})`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * fetch() under the provider's quota; 429s are retried and throw RateLimitError once retries run out
+   */
+  async fetch(provider: ApiProvider, input: string, init?: RequestInit): Promise<Response> {
+    return this.call(provider, async () => {
+      const response = await fetch(input, init);
+      throwIfRateLimited(provider, response);
+      return response;
+    });
+  }
+
+  /**
+   * Budget and usage so far today for every provider
+   */
+  async getQuotaStatus(now: Date = new Date()): Promise<ProviderQuotaStatus[]> {
+    const [today] = await this.getUsageHistory(1, now);
+
+    return API_PROVIDERS.map(provider => ({
+      provider,
+      requestsPerSecond: this.quotas[provider].requestsPerSecond,
+      dailyCallLimit: this.quotas[provider].dailyCallLimit,
+      callsToday: today.providers[provider].calls,
+      costToday: today.providers[provider].cost
+    }));
+  }
+
+  /**
+   * Calls and cost per provider for the last `days` days, newest first (days without usage are zero)
+   */
+  async getUsageHistory(days: number, now: Date = new Date()): Promise<ProviderUsageDay[]> {
+    const dates = Array.from({ length: days }, (_, i) => usageDateKey(new Date(now.getTime() - i * 24 * 60 * 60 * 1000)));
+    const docs = await Promise.all(dates.map(date => adminDb.collection(USAGE_METRICS_COLLECTION).doc(date).get()));
+
+    return docs.map((doc, i) => {
+      const data = doc.exists ? doc.data() || {} : {};
+      const providers = Object.fromEntries(
+        API_PROVIDERS.map(provider => [provider, { ...emptyUsage(), ...data.providers?.[provider] }])
+      ) as Record<ApiProvider, ProviderDailyUsage>;
+
+      return {
+        date: dates[i],
+        providers,
+        totalCost: API_PROVIDERS.reduce((sum, provider) => sum + providers[provider].cost, 0)
+      };
+    });
+  }
+
+  private async recordUsage(provider: ApiProvider, tokens: number, pricedCost?: number, now: Date = new Date()): Promise<void> {
+    const quota = this.quotas[provider];
+    const cost = pricedCost ?? quota.costPerCall + (tokens / 1000) * quota.costPer1kTokens;
+
+    await this.incrementUsage(now, {
+      providers: {
+        [provider]: {
+          calls: FieldValue.increment(1),
+          tokens: FieldValue.increment(tokens),
+          cost: FieldValue.increment(cost)
+        }
+      },
+      totalCost: FieldValue.increment(cost),
+      // Pre-existing OpenAI totals, kept alongside the per-provider breakdown
+      ...(provider === 'openai' && {
+        openaiCalls: FieldValue.increment(1),
+        tokensUsed: FieldValue.increment(tokens)
+      })
+    });
+  }
+
+  private async recordRateLimited(provider: ApiProvider, now: Date = new Date()): Promise<void> {
+    await this.incrementUsage(now, {
+      providers: { [provider]: { rateLimited: FieldValue.increment(1) } }
+    });
+  }
+
+  private async incrementUsage(now: Date, fields: Record<string, unknown>): Promise<void> {
+    try {
+      const date = usageDateKey(now);
+      await adminDb.collection(USAGE_METRICS_COLLECTION).doc(date).set({ date, ...fields }, { merge: true });
+    } catch (error) {
+      // Metering must not fail the API call it measures
+      console.error('Error updating usage metrics:', error);
+    }
+  }
+
+  /**
+   * Today's call count for the provider, re-synced from Firestore when stale. Calls made here
+   * since the last sync are counted locally so a burst cannot overshoot the budget.
+   */
+  private async getLocalUsage(provider: ApiProvider, now: Date = new Date()): Promise<LocalUsage> {
+    const date = usageDateKey(now);
+    const cached = this.usage.get(provider);
+    if (cached && cached.date === date && now.getTime() - cached.syncedAt < USAGE_SYNC_MS) {
+      return cached;
+    }
+
+    let calls = cached?.date === date ? cached.calls : 0;
+    try {
+      const doc = await adminDb.collection(USAGE_METRICS_COLLECTION).doc(date).get();
+      const stored = doc.exists ? doc.data()?.providers?.[provider]?.calls || 0 : 0;
+      calls = Math.max(calls, stored);
+    } catch (error) {
+      console.error(`Error reading ${provider} usage; using local count:`, error);
+    }
+
+    const usage = { date, calls, syncedAt: now.getTime() };
+    this.usage.set(provider, usage);
+    return usage;
+  }
+}
+
+/**
+ * Create a new QuotaManager instance
+ */
+export function createQuotaManager(quotas?: Record<ApiProvider, ProviderQuota>): QuotaManager {
+  return new QuotaManager(quotas);
+}
+
+// Shared by every tool in the process so the buckets see all calls
+export const quotaManager = new QuotaManager();
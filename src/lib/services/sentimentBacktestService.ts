@@ -0,0 +1,395 @@
+import { adminDb } from '@/lib/firebase-admin';
+import { FieldValue } from 'firebase-admin/firestore';
+import { createMarketDataProvider, type MarketDataProvider } from '@/lib/marketData/marketDataProvider';
+import { EnhancedAnalystTracker } from '@/lib/analysts/enhancedAnalystTracker';
+import { findReactionIndex, type DailyBar } from '@/lib/services/earningsSurpriseService';
+import { toDate } from '@/lib/utils/firestoreValues';
+import type {
+  EarningsEvent,
+  SentimentSignal,
+  SentimentHorizonOutcome,
+  SentimentBacktestResult,
+  SentimentCalibrationStats,
+  HorizonCalibrationStats,
+  ConfidenceBucketStats,
+  HistoricalInsight
+} from '@/types';
+
+export interface BacktestRunResult {
+  signalsChecked: number;
+  evaluated: number;
+  completed: number;
+  skipped: number;
+  errors: string[];
+  stats: SentimentCalibrationStats;
+}
+
+// Trading days after the earnings reaction
+export const BACKTEST_HORIZONS = [1, 5, 20];
+
+// Neutral calls are correct when the stock stays within this band of its benchmark
+const NEUTRAL_BAND = 0.02;
+
+const CONFIDENCE_BUCKETS = [0, 0.5, 0.6, 0.7, 0.8, 0.9, 1];
+
+const dateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+/**
+ * Whether a sentiment call matched the stock's move relative to its benchmark
+ */
+export function isSentimentHit(sentiment: SentimentSignal['sentiment'], excessReturn: number): boolean {
+  switch (sentiment) {
+    case 'positive':
+      return excessReturn > 0;
+    case 'negative':
+      return excessReturn < 0;
+    default:
+      return Math.abs(excessReturn) <= NEUTRAL_BAND;
+  }
+}
+
+/**
+ * Stock and benchmark returns from the close before the earnings reaction to each horizon.
+ * Horizons without data yet are left out.
+ */
+export function calculateHorizonOutcomes(
+  stockBars: DailyBar[],
+  benchmarkBars: DailyBar[],
+  earningsDate: Date,
+  expectedTime: EarningsEvent['expectedTime'],
+  sentiment: SentimentSignal['sentiment'],
+  horizons: number[] = BACKTEST_HORIZONS
+): Record<string, SentimentHorizonOutcome> {
+  const sorted = [...stockBars].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const benchmarkByDate = new Map(benchmarkBars.map(bar => [dateKey(bar.timestamp), bar.close]));
+  const outcomes: Record<string, SentimentHorizonOutcome> = {};
+
+  const reactionIndex = findReactionIndex(sorted, earningsDate, expectedTime);
+  if (reactionIndex < 1) {
+    return outcomes;
+  }
+
+  const base = sorted[reactionIndex - 1];
+  const benchmarkBase = benchmarkByDate.get(dateKey(base.timestamp));
+  if (!base.close || !benchmarkBase) {
+    return outcomes;
+  }
+
+  for (const horizon of horizons) {
+    const target = sorted[reactionIndex + horizon - 1];
+    const benchmarkTarget = target && benchmarkByDate.get(dateKey(target.timestamp));
+    if (!target || !benchmarkTarget) continue;
+
+    const stockReturn = (target.close - base.close) / base.close;
+    const benchmarkReturn = (benchmarkTarget - benchmarkBase) / benchmarkBase;
+    const excessReturn = stockReturn - benchmarkReturn;
+
+    outcomes[String(horizon)] = {
+      stockReturn,
+      benchmarkReturn,
+      excessReturn,
+      hit: isSentimentHit(sentiment, excessReturn),
+    };
+  }
+
+  return outcomes;
+}
+
+/**
+ * Hit rate per confidence bucket and Brier score (confidence as the forecast probability of a hit)
+ */
+export function calculateCalibrationStats(
+  results: Array<Pick<SentimentBacktestResult, 'sentiment' | 'confidence' | 'horizons'>>,
+  horizons: number[] = BACKTEST_HORIZONS,
+  now: Date = new Date()
+): SentimentCalibrationStats {
+  const stats: SentimentCalibrationStats = {
+    totalSignals: results.length,
+    horizons: {},
+    updatedAt: now,
+  };
+
+  for (const horizon of horizons) {
+    const key = String(horizon);
+    const samples = results
+      .filter(result => result.horizons[key])
+      .map(result => ({
+        sentiment: result.sentiment,
+        confidence: Math.min(Math.max(result.confidence, 0), 1),
+        outcome: result.horizons[key],
+      }));
+
+    const hits = samples.filter(sample => sample.outcome.hit).length;
+    const brierTotal = samples.reduce(
+      (sum, sample) => sum + Math.pow(sample.confidence - (sample.outcome.hit ? 1 : 0), 2), 0
+    );
+    const excessTotal = samples.reduce((sum, sample) => sum + sample.outcome.excessReturn, 0);
+
+    const buckets: ConfidenceBucketStats[] = [];
+    for (let i = 0; i < CONFIDENCE_BUCKETS.length - 1; i++) {
+      const minConfidence = CONFIDENCE_BUCKETS[i];
+      const maxConfidence = CONFIDENCE_BUCKETS[i + 1];
+      const isLast = i === CONFIDENCE_BUCKETS.length - 2;
+      const inBucket = samples.filter(sample =>
+        sample.confidence >= minConfidence &&
+        (isLast ? sample.confidence <= maxConfidence : sample.confidence < maxConfidence)
+      );
+      const bucketHits = inBucket.filter(sample => sample.outcome.hit).length;
+
+      buckets.push({
+        label: `${Math.round(minConfidence * 100)}-${Math.round(maxConfidence * 100)}%`,
+        minConfidence,
+        maxConfidence,
+        count: inBucket.length,
+        hits: bucketHits,
+        hitRate: inBucket.length > 0 ? bucketHits / inBucket.length : 0,
+        avgConfidence: inBucket.length > 0
+          ? inBucket.reduce((sum, sample) => sum + sample.confidence, 0) / inBucket.length
+          : 0,
+      });
+    }
+
+    const bySentiment = {} as HorizonCalibrationStats['bySentiment'];
+    for (const sentiment of ['positive', 'neutral', 'negative'] as const) {
+      const ofSentiment = samples.filter(sample => sample.sentiment === sentiment);
+      bySentiment[sentiment] = {
+        count: ofSentiment.length,
+        hitRate: ofSentiment.length > 0
+          ? ofSentiment.filter(sample => sample.outcome.hit).length / ofSentiment.length
+          : 0,
+      };
+    }
+
+    stats.horizons[key] = {
+      sampleSize: samples.length,
+      hitRate: samples.length > 0 ? hits / samples.length : 0,
+      brierScore: samples.length > 0 ? brierTotal / samples.length : 0,
+      avgExcessReturn: samples.length > 0 ? excessTotal / samples.length : 0,
+      buckets,
+      bySentiment,
+    };
+  }
+
+  return stats;
+}
+
+/**
+ * Sentiment Backtest Service
+ * Compares stored sentiment signals with post-earnings moves against the sector benchmark
+ */
+export class SentimentBacktestService {
+  private marketData: MarketDataProvider;
+
+  private static CONFIG = {
+    // Only signals from this window are (re)evaluated
+    LOOKBACK_DAYS: 180,
+    // A signal belongs to the first earnings event within this many days of its creation
+    MAX_DAYS_TO_EARNINGS: 45,
+    // Calendar days of bars fetched after the report (covers 20 trading days)
+    PRICE_WINDOW_DAYS: 35,
+  };
+
+  constructor() {
+    this.marketData = createMarketDataProvider();
+  }
+
+  /**
+   * Evaluate pending signals and refresh the calibration stats
+   */
+  async runBacktest(now: Date = new Date()): Promise<BacktestRunResult> {
+    const { LOOKBACK_DAYS } = SentimentBacktestService.CONFIG;
+    const run: Omit<BacktestRunResult, 'stats'> = {
+      signalsChecked: 0,
+      evaluated: 0,
+      completed: 0,
+      skipped: 0,
+      errors: [],
+    };
+
+    const since = new Date(now.getTime() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const [signalsSnapshot, completedSnapshot] = await Promise.all([
+      adminDb.collection('signals_latest').where('createdAt', '>=', since).get(),
+      adminDb.collection('sentiment_backtests').where('complete', '==', true).get(),
+    ]);
+
+    const completedIds = new Set(completedSnapshot.docs.map(doc => doc.id));
+    const signals = signalsSnapshot.docs
+      .filter(doc => !completedIds.has(doc.id))
+      .map(doc => {
+        const data = doc.data();
+        return {
+          ...data,
+          id: doc.id,
+          createdAt: toDate(data.createdAt),
+          expiresAt: toDate(data.expiresAt),
+        } as SentimentSignal;
+      });
+
+    console.log(`Back-testing ${signals.length} sentiment signals`);
+
+    for (const signal of signals) {
+      run.signalsChecked++;
+      try {
+        const result = await this.evaluateSignal(signal, now);
+        if (!result) {
+          run.skipped++;
+          continue;
+        }
+
+        run.evaluated++;
+        if (result.complete) {
+          run.completed++;
+          await this.recordInsight(signal, result);
+        }
+
+        // Rate limiting
+        await new Promise(resolve => setTimeout(resolve, 200));
+      } catch (error) {
+        const errorMsg = `Failed to back-test ${signal.ticker} (${signal.id}): ${error instanceof Error ? error.message : error}`;
+        console.error(errorMsg);
+        run.errors.push(errorMsg);
+      }
+    }
+
+    const stats = await this.refreshCalibrationStats(now);
+
+    console.log(`Sentiment back-test completed: ${run.evaluated} evaluated, ${run.completed} completed, ${run.skipped} skipped, ${run.errors.length} errors`);
+    return { ...run, stats };
+  }
+
+  /**
+   * Evaluate one signal against the earnings event it was made for
+   */
+  async evaluateSignal(signal: SentimentSignal, now: Date = new Date()): Promise<SentimentBacktestResult | null> {
+    const event = await this.findEarningsEvent(signal, now);
+    if (!event) {
+      return null;
+    }
+
+    const earningsDate = new Date(event.expectedDate);
+    const benchmark = EnhancedAnalystTracker.getSectorBenchmark(event.sector);
+    const from = dateKey(new Date(earningsDate.getTime() - 7 * 24 * 60 * 60 * 1000));
+    const to = dateKey(new Date(earningsDate.getTime() + SentimentBacktestService.CONFIG.PRICE_WINDOW_DAYS * 24 * 60 * 60 * 1000));
+
+    const [stockAggregates, benchmarkAggregates] = await Promise.all([
+      this.marketData.getAggregates(signal.ticker, 1, 'day', from, to),
+      this.marketData.getAggregates(benchmark, 1, 'day', from, to),
+    ]);
+
+    const horizons = calculateHorizonOutcomes(
+      stockAggregates.results,
+      benchmarkAggregates.results,
+      earningsDate,
+      event.expectedTime,
+      signal.sentiment
+    );
+
+    if (Object.keys(horizons).length === 0) {
+      return null;
+    }
+
+    const result: SentimentBacktestResult = {
+      id: signal.id,
+      signalId: signal.id,
+      ticker: signal.ticker,
+      sector: event.sector || 'Unknown',
+      benchmark,
+      earningsEventId: event.id,
+      earningsDate,
+      sentiment: signal.sentiment,
+      confidence: signal.confidence,
+      horizons,
+      complete: BACKTEST_HORIZONS.every(horizon => horizons[String(horizon)]),
+      evaluatedAt: now,
+    };
+
+    const { id, ...data } = result;
+    await adminDb.collection('sentiment_backtests').doc(id).set(data);
+
+    return result;
+  }
+
+  /**
+   * First reported earnings event for the ticker after the signal was created
+   */
+  private async findEarningsEvent(signal: SentimentSignal, now: Date): Promise<EarningsEvent | null> {
+    const snapshot = await adminDb.collection('earnings_events')
+      .where('ticker', '==', signal.ticker)
+      .get();
+
+    const signalTime = new Date(signal.createdAt).getTime();
+    const maxTime = signalTime + SentimentBacktestService.CONFIG.MAX_DAYS_TO_EARNINGS * 24 * 60 * 60 * 1000;
+    // Signals are often generated on the report day itself
+    const minTime = signalTime - 24 * 60 * 60 * 1000;
+
+    const events = snapshot.docs
+      .map(doc => {
+        const data = doc.data();
+        return { ...data, id: doc.id, expectedDate: toDate(data.expectedDate) } as EarningsEvent;
+      })
+      .filter(event => {
+        const time = event.expectedDate.getTime();
+        return time >= minTime && time <= maxTime && time < now.getTime();
+      })
+      .sort((a, b) => a.expectedDate.getTime() - b.expectedDate.getTime());
+
+    return events[0] || null;
+  }
+
+  /**
+   * Recompute calibration stats from every stored back-test result
+   */
+  async refreshCalibrationStats(now: Date = new Date()): Promise<SentimentCalibrationStats> {
+    const snapshot = await adminDb.collection('sentiment_backtests').get();
+    const results = snapshot.docs.map(doc => doc.data() as SentimentBacktestResult);
+
+    const stats = calculateCalibrationStats(results, BACKTEST_HORIZONS, now);
+    await adminDb.collection('sentiment_calibration').doc('latest').set(stats);
+
+    return stats;
+  }
+
+  /**
+   * Fill accuracy/actualOutcome on the company's history once every horizon is known
+   */
+  private async recordInsight(signal: SentimentSignal, result: SentimentBacktestResult): Promise<void> {
+    const outcomes = BACKTEST_HORIZONS.map(horizon => result.horizons[String(horizon)]);
+    const formatReturn = (value: number) => `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+
+    const insight: HistoricalInsight = {
+      sentimentSignal: signal,
+      accuracy: outcomes.filter(outcome => outcome.hit).length / outcomes.length,
+      actualOutcome: `vs ${result.benchmark} ` + BACKTEST_HORIZONS
+        .map((horizon, i) => `${horizon}d ${formatReturn(outcomes[i].excessReturn)}`)
+        .join(', '),
+    };
+
+    const historyRef = adminDb.collection('company_history').doc(signal.ticker);
+    const historyDoc = await historyRef.get();
+
+    if (!historyDoc.exists) {
+      await historyRef.set({
+        ticker: signal.ticker,
+        companyName: signal.companyName,
+        events: [],
+        insights: [insight],
+        alerts: [],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      return;
+    }
+
+    await historyRef.update({
+      insights: FieldValue.arrayUnion(insight),
+      updatedAt: new Date(),
+    });
+  }
+}
+
+/**
+ * Create a new SentimentBacktestService instance
+ */
+export function createSentimentBacktestService(): SentimentBacktestService {
+  return new SentimentBacktestService();
+}
@@ -1,5 +1,7 @@
 // Client-side sentiment analysis utilities
 
+import { authFetch } from '@/lib/apiClient';
+
 export interface SentimentAnalysisResult {
   success: boolean;
   message: string;
@@ -20,7 +22,7 @@ export async function analyzeSentimentForWatchlist(
   forceRefresh: boolean = false
 ): Promise<SentimentAnalysisResult> {
   try {
-    const response = await fetch('/api/sentiment/analyze', {
+    const response = await authFetch('/api/sentiment/analyze', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -60,7 +62,7 @@ export async function analyzeSingleCompany(
   additionalContext?: string
 ): Promise<any> {
   try {
-    const response = await fetch('/api/sentiment/analyze', {
+    const response = await authFetch('/api/sentiment/analyze', {
       method: 'PUT',
       headers: {
         'Content-Type': 'application/json',
@@ -1,17 +1,9 @@
-import OpenAI from 'openai';
 import { createHash } from 'crypto';
-import { 
-  getOpenAICallByHash, 
-  logOpenAICall, 
-  createSentimentSignal,
-  getDailyUsageMetrics,
-  updateDailyUsageMetrics
-} from '@/lib/firestore';
-import type { EarningsEvent, SentimentSignal, OpenAICallLog } from '@/types';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { createSentimentSignal } from '@/lib/firestore';
+import { llmClient, type LLMClient } from '@/lib/llm/llmClient';
+import { PROMPTS, getActivePromptVersion, renderPrompt, type SentimentResponse } from '@/lib/llm/prompts';
+import { QuotaExceededError } from './quotaManager';
+import type { EarningsEvent, SentimentSignal } from '@/types';
 
 export interface SentimentAnalysisInput {
   ticker: string;
@@ -30,80 +22,61 @@ export interface SentimentAnalysisResult {
   reasoning: string;
   confidence: number;
   sourceData: string;
+  promptVersion?: string;
 }
 
 // Cost-optimized sentiment analysis service
 export class SentimentAnalysisService {
-  private readonly maxDailyCalls: number = 50; // Stay under $5/month budget
-  private readonly maxTokensPerCall: number = 1500;
-  private readonly model: string = 'gpt-3.5-turbo'; // More cost-effective than GPT-4
+  constructor(private llm: LLMClient = llmClient) {}
 
   async analyzeSentiment(input: SentimentAnalysisInput): Promise<SentimentAnalysisResult> {
-    // Check daily usage limits
-    await this.checkDailyLimits();
+    const promptVersion = getActivePromptVersion('sentiment');
 
-    // Create input hash for deduplication
-    const inputHash = this.createInputHash(input);
+    // Create input hash for deduplication; a new prompt version analyzes again
+    const inputHash = this.createInputHash(input, promptVersion);
     
     // Check if we've already analyzed this exact input
-    const existingCall = await getOpenAICallByHash(inputHash);
-    if (existingCall && existingCall.resultUsed) {
+    const cached = await this.llm.findCachedResult<SentimentResponse>(inputHash);
+    if (cached) {
       console.log(`Using cached result for ${input.ticker}`);
-      return this.parseExistingResult(existingCall);
+      return this.toResult(cached, JSON.stringify(cached), promptVersion);
     }
 
-    // Generate prompt
-    const prompt = this.createPrompt(input);
+    const prompt = renderPrompt('sentiment', input, promptVersion);
     
     try {
-      // Call OpenAI API
-      const response = await openai.chat.completions.create({
-        model: this.model,
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a financial analyst providing earnings sentiment analysis. Respond only with valid JSON.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        max_tokens: this.maxTokensPerCall,
-        temperature: 0.3, // Lower temperature for more consistent results
+      // The client validates the JSON, retries malformed answers and logs the call for cost tracking
+      const response = await this.llm.completeJson<SentimentResponse>({
+        purpose: prompt.promptId,
+        promptVersion: prompt.version,
+        ticker: input.ticker,
+        inputHash,
+        schema: PROMPTS.sentiment.schema,
+        messages: prompt.messages,
+        maxTokens: PROMPTS.sentiment.maxTokens,
+        temperature: PROMPTS.sentiment.temperature,
       });
 
-      const result = this.parseOpenAIResponse(response);
-      
-      // Log the API call for cost tracking and caching
-      await this.logAPICall(input, prompt, response, inputHash, result);
-      
-      // Update daily usage metrics
-      await this.updateUsageMetrics(response.usage?.total_tokens || 0);
-
-      return result;
+      return this.toResult(response.data, JSON.stringify({ openaiResponse: response.content }), prompt.version);
     } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        throw error;
+      }
       console.error('OpenAI API error:', error);
       throw new Error(`Sentiment analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   async analyzeBatchSentiment(inputs: SentimentAnalysisInput[]): Promise<SentimentAnalysisResult[]> {
-    // Process in batches to respect rate limits
+    // Process in batches; the quota manager spaces out the API calls
     const batchSize = 5;
     const results: SentimentAnalysisResult[] = [];
     
     for (let i = 0; i < inputs.length; i += batchSize) {
       const batch = inputs.slice(i, i + batchSize);
       
-      // Process batch with delay between calls
       const batchResults = await Promise.all(
-        batch.map(async (input, index) => {
-          // Add delay between API calls to respect rate limits
-          if (index > 0) {
-            await new Promise(resolve => setTimeout(resolve, 1000));
-          }
-          
+        batch.map(async (input) => {
           try {
             return await this.analyzeSentiment(input);
           } catch (error) {
@@ -121,28 +94,15 @@ export class SentimentAnalysisService {
       );
       
       results.push(...batchResults);
-      
-      // Delay between batches
-      if (i + batchSize < inputs.length) {
-        await new Promise(resolve => setTimeout(resolve, 2000));
-      }
     }
     
     return results;
   }
 
-  private async checkDailyLimits(): Promise<void> {
-    const today = new Date().toISOString().split('T')[0];
-    const metrics = await getDailyUsageMetrics(today);
-    
-    if (metrics && metrics.openaiCalls >= this.maxDailyCalls) {
-      throw new Error('Daily OpenAI API call limit reached. Please try again tomorrow.');
-    }
-  }
-
-  private createInputHash(input: SentimentAnalysisInput): string {
+  private createInputHash(input: SentimentAnalysisInput, promptVersion: string): string {
     // Create a hash of the input to enable deduplication
     const hashInput = {
+      promptVersion,
       ticker: input.ticker,
       sector: input.sector,
       market: input.market,
@@ -156,144 +116,21 @@ export class SentimentAnalysisService {
       .digest('hex');
   }
 
-  private createPrompt(input: SentimentAnalysisInput): string {
-    return `Analyze the earnings sentiment for the following company:
-
-Company: ${input.companyName} (${input.ticker})
-Sector: ${input.sector}
-Market: ${input.market}
-Earnings Date: ${input.earningsDate.toISOString().split('T')[0]}
-${input.analystEstimate ? `Analyst Estimate: $${input.analystEstimate}` : ''}
-${input.previousEarnings ? `Previous Earnings: $${input.previousEarnings}` : ''}
-${input.additionalContext ? `Additional Context: ${input.additionalContext}` : ''}
-
-Based on this information, provide a sentiment analysis for the upcoming earnings. Consider:
-1. Historical performance vs estimates
-2. Sector trends and market conditions
-3. Company-specific factors
-4. Overall market sentiment
-
-Respond with ONLY a JSON object in this exact format:
-{
-  "sentiment": "positive|neutral|negative",
-  "sentimentScore": 0.0-1.0,
-  "reasoning": "Brief explanation of sentiment rationale",
-  "confidence": 0.0-1.0
-}
-
-Rules:
-- sentimentScore: 0.0-0.4 = negative, 0.4-0.6 = neutral, 0.6-1.0 = positive
-- confidence: How certain you are of this analysis (0.0-1.0)
-- reasoning: Max 150 characters
-- Use only the sentiment values: "positive", "neutral", "negative"`;
-  }
-
-  private parseOpenAIResponse(response: any): SentimentAnalysisResult {
-    try {
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('No content in OpenAI response');
-      }
-
-      const parsed = JSON.parse(content.trim());
-      
-      // Validate required fields
-      if (!parsed.sentiment || typeof parsed.sentimentScore !== 'number' || !parsed.reasoning) {
-        throw new Error('Invalid response format from OpenAI');
-      }
-
-      // Ensure sentiment is valid
-      if (!['positive', 'neutral', 'negative'].includes(parsed.sentiment)) {
-        throw new Error('Invalid sentiment value');
-      }
-
-      // Clamp values to valid ranges
-      const sentimentScore = Math.max(0, Math.min(1, parsed.sentimentScore));
-      const confidence = Math.max(0, Math.min(1, parsed.confidence || 0.5));
-
-      return {
-        sentiment: parsed.sentiment,
-        sentimentScore,
-        reasoning: parsed.reasoning.substring(0, 150), // Ensure max length
-        confidence,
-        sourceData: JSON.stringify({ openaiResponse: content }),
-      };
-    } catch (error) {
-      console.error('Error parsing OpenAI response:', error, response);
-      throw new Error('Failed to parse sentiment analysis result');
-    }
-  }
-
-  private parseExistingResult(callLog: OpenAICallLog): SentimentAnalysisResult {
-    try {
-      const sourceData = JSON.parse(callLog.response);
-      return {
-        sentiment: sourceData.sentiment,
-        sentimentScore: sourceData.sentimentScore,
-        reasoning: sourceData.reasoning,
-        confidence: sourceData.confidence,
-        sourceData: callLog.response,
-      };
-    } catch (error) {
-      throw new Error('Failed to parse cached sentiment result');
-    }
-  }
-
-  private async logAPICall(
-    input: SentimentAnalysisInput,
-    prompt: string,
-    response: any,
-    inputHash: string,
-    result: SentimentAnalysisResult
-  ): Promise<void> {
-    try {
-      const callLog: Omit<OpenAICallLog, 'id'> = {
-        ticker: input.ticker,
-        inputHash,
-        prompt,
-        response: JSON.stringify(result),
-        tokensUsed: response.usage?.total_tokens || 0,
-        cost: this.calculateCost(response.usage?.total_tokens || 0),
-        createdAt: new Date(),
-        resultUsed: true,
-      };
-
-      await logOpenAICall(callLog);
-    } catch (error) {
-      console.error('Error logging OpenAI call:', error);
-      // Don't throw here - logging failure shouldn't break the main flow
-    }
-  }
-
-  private async updateUsageMetrics(tokensUsed: number): Promise<void> {
-    try {
-      const today = new Date().toISOString().split('T')[0];
-      const currentMetrics = await getDailyUsageMetrics(today);
-      
-      const updatedMetrics = {
-        date: today,
-        openaiCalls: (currentMetrics?.openaiCalls || 0) + 1,
-        tokensUsed: (currentMetrics?.tokensUsed || 0) + tokensUsed,
-        totalCost: (currentMetrics?.totalCost || 0) + this.calculateCost(tokensUsed),
-        uniqueCompanies: (currentMetrics?.uniqueCompanies || 0) + 1, // This is approximate
-        alertsSent: currentMetrics?.alertsSent || 0,
-      };
-
-      await updateDailyUsageMetrics(today, updatedMetrics);
-    } catch (error) {
-      console.error('Error updating usage metrics:', error);
-    }
-  }
-
-  private calculateCost(tokens: number): number {
-    // GPT-3.5-turbo pricing: ~$0.002 per 1K tokens (as of 2024)
-    return (tokens / 1000) * 0.002;
+  private toResult(response: SentimentResponse, sourceData: string, promptVersion: string): SentimentAnalysisResult {
+    return {
+      sentiment: response.sentiment,
+      sentimentScore: Math.max(0, Math.min(1, response.sentimentScore)),
+      reasoning: response.reasoning.substring(0, 150), // Ensure max length
+      confidence: Math.max(0, Math.min(1, response.confidence ?? 0.5)),
+      sourceData,
+      promptVersion,
+    };
   }
 }
 
 // Factory function
-export function createSentimentService(): SentimentAnalysisService {
-  return new SentimentAnalysisService();
+export function createSentimentService(llm?: LLMClient): SentimentAnalysisService {
+  return new SentimentAnalysisService(llm);
 }
 
 // Utility function to create sentiment signal from earnings event
@@ -325,6 +162,7 @@ export async function createSentimentFromEarnings(
     reasoning: result.reasoning,
     sourceData: result.sourceData,
     confidence: result.confidence,
+    promptVersion: result.promptVersion,
     createdAt: new Date(),
     expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
   };
@@ -0,0 +1,204 @@
+import { adminDb } from '@/lib/firebase-admin';
+import { emailService } from './emailService';
+import type { User, EarningsEvent, SentimentSignal, AlertHistory } from '@/types';
+
+export type SummaryPeriod = 'daily' | 'weekly';
+
+export interface SummaryDeliveryResult {
+  userId: string;
+  email?: string;
+  success: boolean;
+  earningsCount?: number;
+  alertsCount?: number;
+  error?: string;
+}
+
+export interface SummaryRunResult {
+  message: string;
+  sent: number;
+  errors: number;
+  results: SummaryDeliveryResult[];
+}
+
+/**
+ * Summary Service
+ * Builds and emails daily/weekly watchlist summaries
+ */
+export class SummaryService {
+  /**
+   * Send the summary to the given users, or to everyone who enabled it
+   */
+  async sendSummaries(type: SummaryPeriod, userIds?: string[]): Promise<SummaryRunResult> {
+    let targetUserIds: string[] = [];
+    
+    if (userIds) {
+      targetUserIds = userIds;
+    } else {
+      // Get all users who have enabled the summary type
+      const usersSnapshot = await adminDb.collection('users')
+        .where(`preferences.${type}Summary`, '==', true)
+        .where('preferences.emailNotifications', '==', true)
+        .get();
+      
+      targetUserIds = usersSnapshot.docs.map(doc => doc.id);
+    }
+
+    if (targetUserIds.length === 0) {
+      return {
+        message: 'No users found with enabled email summaries',
+        sent: 0,
+        errors: 0,
+        results: [],
+      };
+    }
+
+    const results: SummaryDeliveryResult[] = [];
+    let sentCount = 0;
+    let errorCount = 0;
+
+    for (const currentUserId of targetUserIds) {
+      try {
+        const userDoc = await adminDb.collection('users').doc(currentUserId).get();
+        const user = userDoc.exists ? { id: userDoc.id, ...userDoc.data() } as User : null;
+        
+        if (!user || !user.preferences?.emailNotifications) {
+          continue;
+        }
+
+        // Check if user has enabled this type of summary
+        if (type === 'daily' && !user.preferences.dailySummary) {
+          continue;
+        }
+        if (type === 'weekly' && !user.preferences.weeklySummary) {
+          continue;
+        }
+
+        // Get user's watchlisted companies
+        const watchlistsSnapshot = await adminDb.collection('watchlists')
+          .where('userId', '==', currentUserId)
+          .get();
+        const watchlistedTickers = watchlistsSnapshot.docs
+          .flatMap(doc => doc.data().companies || [])
+          .map((company: any) => company.ticker);
+
+        if (watchlistedTickers.length === 0) {
+          continue; // Skip users with no watchlisted companies
+        }
+
+        // Get relevant data for the period
+        const startDate = new Date();
+        const endDate = type === 'daily' 
+          ? new Date(Date.now() + 24 * 60 * 60 * 1000) // Next 24 hours
+          : new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // Next 7 days
+
+        // Get upcoming earnings - simplified to avoid complex index
+        const earningsSnapshot = await adminDb.collection('earnings_events')
+          .where('expectedDate', '>=', startDate)
+          .limit(100)
+          .get();
+        const allEarnings = earningsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as EarningsEvent));
+        const upcomingEarnings = allEarnings
+          .filter(event => 
+            new Date(event.expectedDate) <= endDate &&
+            ['SP500', 'TA125'].includes(event.market)
+          )
+          .sort((a, b) => new Date(a.expectedDate).getTime() - new Date(b.expectedDate).getTime())
+          .slice(0, 50);
+
+        // Get sentiment signals - simplified query to avoid index requirements
+        const signalsSnapshot = await adminDb.collection('signals_latest')
+          .limit(50)
+          .get();
+        const allSignals = signalsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as SentimentSignal));
+        const sentimentSignals = allSignals
+          .filter(signal => watchlistedTickers.includes(signal.ticker))
+          .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+          .slice(0, 20);
+
+        // Get recent alerts
+        const alertsSnapshot = await adminDb.collection('alert_history')
+          .where('userId', '==', currentUserId)
+          .orderBy('sentAt', 'desc')
+          .limit(10)
+          .get();
+        const recentAlerts = alertsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as AlertHistory));
+
+        // Filter earnings to only watchlisted companies
+        const relevantEarnings = upcomingEarnings.filter(earnings => 
+          watchlistedTickers.includes(earnings.ticker) &&
+          new Date(earnings.expectedDate) >= startDate &&
+          new Date(earnings.expectedDate) <= endDate
+        );
+
+        // Filter recent alerts for the time period
+        const alertCutoff = type === 'daily' 
+          ? new Date(Date.now() - 24 * 60 * 60 * 1000) // Last 24 hours
+          : new Date(Date.now() - 7 * 24 * 60 * 60 * 1000); // Last 7 days
+        
+        const periodAlerts = recentAlerts.filter(alert => 
+          new Date(alert.sentAt) >= alertCutoff
+        );
+
+        const emailData = {
+          user,
+          upcomingEarnings: relevantEarnings,
+          sentimentSignals,
+          recentAlerts: periodAlerts,
+          period: type as 'daily' | 'weekly',
+        };
+
+        let success = false;
+        if (type === 'daily') {
+          success = await emailService.sendDailySummary(emailData);
+        } else {
+          success = await emailService.sendWeeklySummary(emailData);
+        }
+
+        if (success) {
+          sentCount++;
+          results.push({
+            userId: currentUserId,
+            email: user.email,
+            success: true,
+            earningsCount: relevantEarnings.length,
+            alertsCount: periodAlerts.length,
+          });
+        } else {
+          errorCount++;
+          results.push({
+            userId: currentUserId,
+            email: user.email,
+            success: false,
+            error: 'Failed to send email',
+          });
+        }
+
+        // Add delay between emails to respect rate limits
+        await new Promise(resolve => setTimeout(resolve, 1000));
+
+      } catch (error) {
+        errorCount++;
+        results.push({
+          userId: currentUserId,
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        console.error(`Error sending ${type} summary to user ${currentUserId}:`, error);
+      }
+    }
+
+    return {
+      message: `${type} summary sent to ${sentCount} users, ${errorCount} errors`,
+      sent: sentCount,
+      errors: errorCount,
+      results,
+    };
+  }
+}
+
+/**
+ * Create a new SummaryService instance
+ */
+export function createSummaryService(): SummaryService {
+  return new SummaryService();
+}
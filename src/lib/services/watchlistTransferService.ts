@@ -0,0 +1,483 @@
+import { adminDb } from '@/lib/firebase-admin';
+import { createMarketPriceSource, type MarketPriceSource } from '@/lib/marketData/marketDataProvider';
+import { getMarketCurrency } from '@/lib/utils/currency';
+import { getSP500Companies, type SP500Company } from '@/lib/utils/sp500Tickers';
+import { getCuratedTA125Companies } from '@/lib/utils/ta125Tickers';
+import { toDate } from '@/lib/utils/firestoreValues';
+import type {
+  EarningsEvent,
+  SentimentSignal,
+  Watchlist,
+  WatchlistCompany,
+  WatchlistExportRow,
+  WatchlistFileFormat,
+  WatchlistImportReport,
+  WatchlistImportRow
+} from '@/types';
+
+export const MAX_IMPORT_ROWS = 500;
+
+// Firestore caps `in` queries at 30 values
+const IN_QUERY_LIMIT = 30;
+
+const TICKER_PATTERN = /^[A-Z0-9][A-Z0-9.\-]{0,9}$/;
+
+const EXPORT_COLUMNS: (keyof WatchlistExportRow)[] = [
+  'ticker', 'companyName', 'market', 'sector', 'notes', 'addedAt',
+  'earningsDate', 'price', 'currency', 'sentiment', 'sentimentScore',
+];
+
+// Names accepted in the market column
+const MARKET_ALIASES: Record<string, WatchlistCompany['market']> = {
+  sp500: 'SP500',
+  nyse: 'SP500',
+  nasdaq: 'SP500',
+  us: 'SP500',
+  ta125: 'TA125',
+  tase: 'TA125',
+  tlv: 'TA125',
+};
+
+const COLUMN_ALIASES: Record<string, keyof Omit<WatchlistImportRow, 'row'>> = {
+  ticker: 'ticker',
+  symbol: 'ticker',
+  name: 'companyName',
+  company: 'companyName',
+  companyname: 'companyName',
+  market: 'market',
+  exchange: 'market',
+  sector: 'sector',
+  notes: 'notes',
+  note: 'notes',
+};
+
+const toDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+export function isWatchlistFileFormat(format: string): format is WatchlistFileFormat {
+  return format === 'csv' || format === 'json';
+}
+
+// Spreadsheets run cells starting with these as formulas; exports prefix them with a quote
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Split CSV content into records, honouring double-quoted fields (which may span lines) and "" escapes.
+ * Each record keeps the line it starts on for error reporting.
+ */
+function parseCsvRecords(content: string): Array<{ line: number; fields: string[] }> {
+  const records: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let current = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(current.trim());
+    // Blank lines are skipped
+    if (fields.length > 1 || fields[0]) {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+    current = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(current.trim());
+      current = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      current += char;
+    }
+  }
+
+  endRecord();
+  return records;
+}
+
+function escapeCsvField(value: string | number | null): string {
+  const raw = value === null ? '' : String(value);
+  const text = FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Undo the export's formula guard so a round trip keeps the original text
+const unescapeCsvField = (value: string): string =>
+  value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+
+function parseCsv(content: string): { rows: WatchlistImportRow[]; invalid: WatchlistImportReport['invalid'] } {
+  const rows: WatchlistImportRow[] = [];
+  let columns: (keyof Omit<WatchlistImportRow, 'row'> | undefined)[] = ['ticker', 'companyName', 'sector', 'notes'];
+  let headerChecked = false;
+
+  parseCsvRecords(content).forEach(({ line, fields }) => {
+    // A header row is optional; without one, columns are ticker,name,sector,notes
+    if (!headerChecked) {
+      headerChecked = true;
+      const header = fields.map(field => COLUMN_ALIASES[field.toLowerCase().replace(/[\s_]/g, '')]);
+      if (header.includes('ticker')) {
+        columns = header;
+        return;
+      }
+    }
+
+    const row: WatchlistImportRow = { row: line, ticker: '' };
+    columns.forEach((column, position) => {
+      const value = fields[position];
+      if (column && value) {
+        row[column] = unescapeCsvField(value);
+      }
+    });
+    rows.push(row);
+  });
+
+  return { rows, invalid: [] };
+}
+
+function parseJson(content: string): { rows: WatchlistImportRow[]; invalid: WatchlistImportReport['invalid'] } {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    return { rows: [], invalid: [{ row: 0, reason: `Invalid JSON: ${error instanceof Error ? error.message : 'parse error'}` }] };
+  }
+
+  // Accept a bare array or an exported watchlist ({ name, companies: [...] })
+  const items = Array.isArray(parsed) ? parsed : parsed?.companies;
+  if (!Array.isArray(items)) {
+    return { rows: [], invalid: [{ row: 0, reason: 'Expected an array of companies or an object with a "companies" array' }] };
+  }
+
+  const rows: WatchlistImportRow[] = [];
+  const invalid: WatchlistImportReport['invalid'] = [];
+  items.forEach((item, index) => {
+    const row = index + 1;
+    if (typeof item === 'string') {
+      rows.push({ row, ticker: item });
+    } else if (item && typeof item === 'object') {
+      const pick = (...keys: string[]) => {
+        const key = keys.find(candidate => typeof item[candidate] === 'string' && item[candidate].trim());
+        return key ? item[key].trim() : undefined;
+      };
+      rows.push({
+        row,
+        ticker: pick('ticker', 'symbol') || '',
+        market: pick('market', 'exchange'),
+        companyName: pick('companyName', 'name', 'company'),
+        sector: pick('sector'),
+        notes: pick('notes', 'note'),
+      });
+    } else {
+      invalid.push({ row, reason: 'Entry must be a ticker string or an object' });
+    }
+  });
+
+  return { rows, invalid };
+}
+
+/**
+ * Parse an uploaded CSV or JSON file into raw rows; problems are reported, not thrown
+ */
+export function parseWatchlistFile(
+  content: string,
+  format: WatchlistFileFormat
+): { rows: WatchlistImportRow[]; invalid: WatchlistImportReport['invalid'] } {
+  return format === 'csv' ? parseCsv(content) : parseJson(content);
+}
+
+/**
+ * Check parsed rows against the S&P 500 and curated TA-125 lists and the companies already
+ * on the watchlist. A market column picks the list; without one the symbol must be on exactly
+ * one list. Missing names and sectors are filled in from the lists.
+ */
+export function validateWatchlistImport(
+  rows: WatchlistImportRow[],
+  existing: WatchlistCompany[],
+  now: Date = new Date()
+): WatchlistImportReport {
+  const listed = new Map<string, Array<{ company: SP500Company; market: WatchlistCompany['market'] }>>();
+  const addListed = (company: SP500Company, market: WatchlistCompany['market']) =>
+    listed.set(company.ticker, [...(listed.get(company.ticker) || []), { company, market }]);
+  getSP500Companies().forEach(company => addListed(company, 'SP500'));
+  getCuratedTA125Companies().forEach(company => addListed(company, 'TA125'));
+
+  const seen = new Set(existing.map(company => company.ticker));
+  const report: WatchlistImportReport = { companies: [], unknown: [], duplicates: [], invalid: [] };
+
+  for (const raw of rows) {
+    const ticker = raw.ticker.trim().toUpperCase();
+    const row = { ...raw, ticker };
+
+    if (!ticker) {
+      report.invalid.push({ row: raw.row, reason: 'Missing ticker' });
+      continue;
+    }
+    if (!TICKER_PATTERN.test(ticker)) {
+      report.invalid.push({ row: raw.row, reason: `Invalid ticker "${raw.ticker}"` });
+      continue;
+    }
+    if (seen.has(ticker)) {
+      report.duplicates.push(row);
+      continue;
+    }
+
+    const market = raw.market ? MARKET_ALIASES[raw.market.toLowerCase().replace(/[^a-z0-9]/g, '')] : undefined;
+    if (raw.market && !market) {
+      report.invalid.push({ row: raw.row, reason: `Unknown market "${raw.market}" (expected SP500 or TA125)` });
+      continue;
+    }
+
+    const matches = (listed.get(ticker) || []).filter(entry => !market || entry.market === market);
+    if (matches.length === 0) {
+      report.unknown.push(row);
+      continue;
+    }
+    if (matches.length > 1) {
+      report.invalid.push({ row: raw.row, reason: `${ticker} is listed on both markets; add a market column (SP500 or TA125)` });
+      continue;
+    }
+    const match = matches[0];
+
+    seen.add(ticker);
+    report.companies.push({
+      ticker,
+      companyName: row.companyName || match.company.companyName,
+      market: match.market,
+      sector: row.sector || match.company.sector,
+      addedAt: now,
+      // Firestore rejects undefined fields
+      ...(row.notes && { notes: row.notes }),
+    });
+  }
+
+  return report;
+}
+
+/**
+ * Build one export row per company with its nearest earnings date (upcoming first,
+ * otherwise the most recent), latest price and latest sentiment signal
+ */
+export function buildWatchlistExportRows(
+  companies: WatchlistCompany[],
+  events: EarningsEvent[],
+  signals: SentimentSignal[],
+  prices: Record<string, number | undefined>,
+  now: Date = new Date()
+): WatchlistExportRow[] {
+  return companies.map(company => {
+    const tickerEvents = events.filter(event => event.ticker === company.ticker);
+    const upcoming = tickerEvents
+      .filter(event => event.expectedDate >= now)
+      .sort((a, b) => a.expectedDate.getTime() - b.expectedDate.getTime())[0];
+    const latestPast = tickerEvents
+      .filter(event => event.expectedDate < now)
+      .sort((a, b) => b.expectedDate.getTime() - a.expectedDate.getTime())[0];
+    const earningsEvent = upcoming || latestPast;
+
+    const signal = signals
+      .filter(item => item.ticker === company.ticker)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+
+    return {
+      ticker: company.ticker,
+      companyName: company.companyName,
+      market: company.market,
+      sector: company.sector,
+      notes: company.notes || '',
+      addedAt: company.addedAt ? toDateKey(company.addedAt) : '',
+      earningsDate: earningsEvent ? toDateKey(earningsEvent.expectedDate) : '',
+      price: prices[company.ticker] ?? null,
+      currency: getMarketCurrency(company.market),
+      sentiment: signal?.sentiment || '',
+      sentimentScore: signal ? signal.sentimentScore : null,
+    };
+  });
+}
+
+/**
+ * Serialize export rows; JSON keeps the watchlist name so the file can be imported again
+ */
+export function formatWatchlistExport(
+  name: string,
+  rows: WatchlistExportRow[],
+  format: WatchlistFileFormat,
+  now: Date = new Date()
+): string {
+  if (format === 'json') {
+    return JSON.stringify({ name, exportedAt: now.toISOString(), companies: rows }, null, 2);
+  }
+
+  const lines = [
+    EXPORT_COLUMNS.join(','),
+    ...rows.map(row => EXPORT_COLUMNS.map(column => escapeCsvField(row[column])).join(',')),
+  ];
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Watchlist Transfer Service
+ * Imports companies into a watchlist from CSV/JSON and exports a watchlist with market data
+ */
+export class WatchlistTransferService {
+  private priceSources: Partial<Record<WatchlistCompany['market'], MarketPriceSource>> = {};
+
+  /**
+   * Validate a file against the watchlist and, unless `dryRun`, append the valid companies
+   */
+  async importWatchlist(
+    watchlistId: string,
+    userId: string,
+    content: string,
+    format: WatchlistFileFormat,
+    dryRun: boolean = false
+  ): Promise<WatchlistImportReport | null> {
+    const watchlist = await this.getWatchlist(watchlistId, userId);
+    if (!watchlist) {
+      return null;
+    }
+
+    const parsed = parseWatchlistFile(content, format);
+    if (parsed.rows.length > MAX_IMPORT_ROWS) {
+      return {
+        companies: [],
+        unknown: [],
+        duplicates: [],
+        invalid: [{ row: 0, reason: `Import is limited to ${MAX_IMPORT_ROWS} rows, file has ${parsed.rows.length}` }],
+      };
+    }
+
+    const report = validateWatchlistImport(parsed.rows, watchlist.companies);
+    report.invalid = [...parsed.invalid, ...report.invalid].sort((a, b) => a.row - b.row);
+
+    if (!dryRun && report.companies.length > 0) {
+      await adminDb.collection('watchlists').doc(watchlistId).update({
+        companies: [...watchlist.companies, ...report.companies],
+        updatedAt: new Date(),
+      });
+      console.log(`📥 Imported ${report.companies.length} companies into watchlist ${watchlistId}`);
+    }
+
+    return report;
+  }
+
+  async exportWatchlist(
+    watchlistId: string,
+    userId: string,
+    format: WatchlistFileFormat,
+    now: Date = new Date()
+  ): Promise<{ name: string; content: string } | null> {
+    const watchlist = await this.getWatchlist(watchlistId, userId);
+    if (!watchlist) {
+      return null;
+    }
+    const tickers = watchlist.companies.map(company => company.ticker);
+
+    const [events, signals, prices] = await Promise.all([
+      this.getEarningsEvents(tickers),
+      this.getSignals(tickers),
+      this.getPrices(watchlist.companies),
+    ]);
+
+    const rows = buildWatchlistExportRows(watchlist.companies, events, signals, prices, now);
+    return { name: watchlist.name, content: formatWatchlistExport(watchlist.name, rows, format, now) };
+  }
+
+  /**
+   * Load a watchlist owned by `userId`; other users' watchlists are reported as missing
+   */
+  private async getWatchlist(watchlistId: string, userId: string): Promise<Watchlist | null> {
+    const doc = await adminDb.collection('watchlists').doc(watchlistId).get();
+    const data = doc.data();
+
+    if (!doc.exists || !data || data.userId !== userId) {
+      return null;
+    }
+
+    return {
+      ...data,
+      id: doc.id,
+      companies: (data.companies || []).map((company: any) => ({ ...company, addedAt: toDate(company.addedAt) })),
+      createdAt: toDate(data.createdAt),
+      updatedAt: toDate(data.updatedAt),
+    } as Watchlist;
+  }
+
+  private async queryByTicker(collection: string, tickers: string[]) {
+    const docs = [];
+    for (let i = 0; i < tickers.length; i += IN_QUERY_LIMIT) {
+      const snapshot = await adminDb.collection(collection)
+        .where('ticker', 'in', tickers.slice(i, i + IN_QUERY_LIMIT))
+        .get();
+      docs.push(...snapshot.docs);
+    }
+    return docs;
+  }
+
+  private async getEarningsEvents(tickers: string[]): Promise<EarningsEvent[]> {
+    const docs = await this.queryByTicker('earnings_events', tickers);
+    return docs.map(doc => {
+      const data = doc.data();
+      return { ...data, id: doc.id, expectedDate: toDate(data.expectedDate) } as EarningsEvent;
+    });
+  }
+
+  private async getSignals(tickers: string[]): Promise<SentimentSignal[]> {
+    const docs = await this.queryByTicker('signals_latest', tickers);
+    return docs.map(doc => {
+      const data = doc.data();
+      return {
+        ...data,
+        id: doc.id,
+        createdAt: toDate(data.createdAt),
+        expiresAt: toDate(data.expiresAt),
+      } as SentimentSignal;
+    });
+  }
+
+  /**
+   * Latest price per ticker, from the source for each company's stored market
+   */
+  private async getPrices(companies: WatchlistCompany[]): Promise<Record<string, number | undefined>> {
+    const prices: Record<string, number | undefined> = {};
+
+    for (const { ticker, market } of companies) {
+      try {
+        if (!this.priceSources[market]) {
+          this.priceSources[market] = createMarketPriceSource(market);
+        }
+        const snapshot = await this.priceSources[market]!.getSnapshotTicker(ticker);
+        prices[ticker] = snapshot.price || undefined;
+      } catch (error) {
+        // Leave the price column empty rather than failing the export
+        console.warn(`No price for ${ticker}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    return prices;
+  }
+}
+
+/**
+ * Create a new WatchlistTransferService instance
+ */
+export function createWatchlistTransferService(): WatchlistTransferService {
+  return new WatchlistTransferService();
+}
@@ -1,8 +1,12 @@
+import { buildStockData, type MarketDataProvider } from '@/lib/marketData/types';
+import { classifyReportTime } from '@/lib/utils/tradingCalendar';
+import { quotaManager } from '@/lib/services/quotaManager';
+
 /**
  * Polygon.io API Tool
  * Fetches structured financial data for stocks
  */
-export class PolygonTool {
+export class PolygonTool implements MarketDataProvider {
   private apiKey: string;
   private baseUrl = 'https://api.polygon.io';
 
@@ -31,7 +35,7 @@ export class PolygonTool {
   }> {
     try {
       const url = `${this.baseUrl}/v2/snapshot/locale/us/markets/stocks/tickers/${ticker}?apikey=${this.apiKey}`;
-      const response = await fetch(url);
+      const response = await quotaManager.fetch('polygon', url);
       
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
@@ -88,7 +92,7 @@ export class PolygonTool {
   }> {
     try {
       const url = `${this.baseUrl}/v2/aggs/ticker/${ticker}/range/${multiplier}/${timespan}/${from}/${to}?adjusted=true&sort=asc&apikey=${this.apiKey}`;
-      const response = await fetch(url);
+      const response = await quotaManager.fetch('polygon', url);
       
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
@@ -138,7 +142,7 @@ export class PolygonTool {
   }> {
     try {
       const url = `${this.baseUrl}/v3/reference/tickers/${ticker}?apikey=${this.apiKey}`;
-      const response = await fetch(url);
+      const response = await quotaManager.fetch('polygon', url);
       
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
@@ -196,7 +200,7 @@ export class PolygonTool {
       for (const ticker of majorTickers.slice(0, 8)) { // Get data for 8 major companies
         try {
           const url = `${this.baseUrl}/v3/reference/tickers/${ticker}?apikey=${this.apiKey}`;
-          const response = await fetch(url);
+          const response = await quotaManager.fetch('polygon', url);
           
           if (response.ok) {
             const data = await response.json();
@@ -225,9 +229,6 @@ export class PolygonTool {
               });
             }
           }
-          
-          // Rate limiting
-          await new Promise(resolve => setTimeout(resolve, 200));
         } catch (error) {
           console.error(`Error fetching data for ${ticker}:`, error);
         }
@@ -261,7 +262,7 @@ export class PolygonTool {
       for (const ticker of tickers) {
         try {
           const url = `${this.baseUrl}/vX/reference/financials?ticker=${ticker}&period=quarterly&limit=5&apikey=${this.apiKey}`;
-          const response = await fetch(url);
+          const response = await quotaManager.fetch('polygon', url);
           
           if (response.ok) {
             const data = await response.json();
@@ -284,9 +285,6 @@ export class PolygonTool {
               }
             }
           }
-          
-          // Rate limiting
-          await new Promise(resolve => setTimeout(resolve, 200));
         } catch (error) {
           console.error(`Error fetching earnings for ${ticker}:`, error);
         }
@@ -300,19 +298,61 @@ export class PolygonTool {
   }
 
   /**
-   * Guess report time based on filing patterns (simple heuristic)
+   * Get reported quarterly financials (EPS and revenue) for a ticker, most recent first
+   */
+  async getQuarterlyFinancials(ticker: string, limit: number = 4): Promise<Array<{
+    ticker: string;
+    fiscalPeriod: string;
+    fiscalYear: number;
+    startDate?: Date;
+    endDate?: Date;
+    filingDate?: Date;
+    eps?: number;
+    revenue?: number;
+  }>> {
+    try {
+      const url = `${this.baseUrl}/vX/reference/financials?ticker=${ticker}&timeframe=quarterly&order=desc&sort=period_of_report_date&limit=${limit}&apikey=${this.apiKey}`;
+      const response = await quotaManager.fetch('polygon', url);
+      
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      
+      const data = await response.json();
+      
+      if (!data.results || data.results.length === 0) {
+        return [];
+      }
+      
+      return data.results.map((item: any) => {
+        const income = item.financials?.income_statement || {};
+        return {
+          ticker,
+          fiscalPeriod: item.fiscal_period,
+          fiscalYear: parseInt(item.fiscal_year) || new Date().getFullYear(),
+          startDate: item.start_date ? new Date(item.start_date) : undefined,
+          endDate: item.end_date ? new Date(item.end_date) : undefined,
+          filingDate: item.filing_date ? new Date(item.filing_date) : undefined,
+          eps: income.diluted_earnings_per_share?.value ?? income.basic_earnings_per_share?.value,
+          revenue: income.revenues?.value
+        };
+      });
+    } catch (error) {
+      console.error(`Error fetching financials for ${ticker}:`, error);
+      throw new Error(`Failed to fetch financials for ${ticker}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Guess report time by placing the filing timestamp against the NYSE session
    */
   private guessReportTime(filingDate: string): 'before_market' | 'after_market' | 'during_market' {
-    const date = new Date(filingDate);
-    const hour = date.getHours();
-    
-    if (hour < 9) {
-      return 'before_market';
-    } else if (hour > 16) {
+    // Date-only filings carry no time of day; most companies report after the close
+    if (!filingDate || !filingDate.includes('T')) {
       return 'after_market';
-    } else {
-      return 'during_market';
     }
+
+    return classifyReportTime('NYSE', new Date(filingDate));
   }
 
   /**
@@ -359,30 +399,7 @@ export class PolygonTool {
         }))
       ]);
 
-      return {
-        ticker: snapshot.ticker,
-        name: details.name || ticker,
-        price: snapshot.price,
-        change: snapshot.change,
-        changePercent: snapshot.changePercent,
-        volume: snapshot.volume,
-        metrics: {
-          open: snapshot.open,
-          high: snapshot.high,
-          low: snapshot.low,
-          previousClose: snapshot.previousClose,
-          marketCap: snapshot.marketCap || details.marketCap,
-          sharesOutstanding: details.sharesOutstanding
-        },
-        details: {
-          description: details.description,
-          sector: details.sector,
-          industry: details.industry,
-          employees: details.employees,
-          homepage: details.homepage
-        },
-        lastUpdated: new Date()
-      };
+      return buildStockData(snapshot, details);
     } catch (error) {
       console.error(`Error fetching stock data for ${ticker}:`, error);
       throw error;
@@ -1,6 +1,16 @@
+import { quotaManager } from '../services/quotaManager';
+import { searchCache } from '../cache/searchCache';
+import type { NewsArticle, SearchQueryType } from '@/types';
+
+export type SerperEndpoint = 'search' | 'news';
+
+// A news article as parsed from Serper, before de-duplication and sentiment scoring
+export type ParsedNewsArticle = Pick<NewsArticle, 'title' | 'url' | 'source' | 'snippet' | 'publishedAt'>;
+
 /**
  * Serper Web Search Tool
- * Fetches fresh web data for stocks and finance news using direct API calls
+ * Fetches fresh web data for stocks and finance news using direct API calls.
+ * Responses are cached per query type (see SEARCH_CACHE_TTLS_MS) so repeated searches don't use quota.
  */
 export class SerperTool {
   private apiKey: string;
@@ -13,9 +23,27 @@ export class SerperTool {
     this.apiKey = process.env.SERPER_API_KEY;
   }
 
-  async search(query: string): Promise<string> {
+  async search(query: string, queryType: SearchQueryType = 'general'): Promise<string> {
+    return this.request('search', query, queryType);
+  }
+
+  /**
+   * Google News results (title, link, source, date) for the query
+   */
+  async searchNews(query: string): Promise<string> {
+    return this.request('news', query, 'news');
+  }
+
+  private async request(endpoint: SerperEndpoint, query: string, queryType: SearchQueryType): Promise<string> {
+    // Endpoints return different shapes for the same query
+    const cacheQuery = endpoint === 'search' ? query : `${endpoint}: ${query}`;
+    const cached = await searchCache.get(queryType, cacheQuery);
+    if (cached !== null) {
+      return cached;
+    }
+
     try {
-      const response = await fetch('https://google.serper.dev/search', {
+      const response = await quotaManager.fetch('serper', `https://google.serper.dev/${endpoint}`, {
         method: 'POST',
         headers: {
           'X-API-KEY': this.apiKey,
@@ -29,7 +57,9 @@ export class SerperTool {
       }
 
       const data = await response.json();
-      return JSON.stringify(data);
+      const result = JSON.stringify(data);
+      await searchCache.set(queryType, cacheQuery, result);
+      return result;
     } catch (error) {
       console.error('Serper search error:', error);
       throw new Error(`Failed to search for "${query}": ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -135,6 +165,65 @@ export function parseSerperResults(searchResults: string): string[] {
   }
 }
 
+const RELATIVE_DATE_UNITS_MS: Record<string, number> = {
+  second: 1000,
+  minute: 60 * 1000,
+  min: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+  year: 365 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Serper dates are either relative ("3 hours ago") or absolute ("Mar 2, 2026")
+ */
+export function parseSerperDate(value: string | undefined, now: Date = new Date()): Date | undefined {
+  if (!value) return undefined;
+
+  const relative = value.trim().toLowerCase().match(/^(\d+)\s+(second|minute|min|hour|day|week|month|year)s?\s+ago$/);
+  if (relative) {
+    return new Date(now.getTime() - parseInt(relative[1], 10) * RELATIVE_DATE_UNITS_MS[relative[2]]);
+  }
+
+  const absolute = Date.parse(value);
+  return isNaN(absolute) ? undefined : new Date(absolute);
+}
+
+function sourceFromUrl(url?: string): string {
+  if (!url) return 'web search';
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return 'web search';
+  }
+}
+
+/**
+ * Parse Serper search or news results into structured articles, news results first
+ */
+export function parseSerperNewsArticles(searchResults: string, now: Date = new Date(), limit: number = 10): ParsedNewsArticle[] {
+  try {
+    const parsed = JSON.parse(searchResults);
+    const items = [...(parsed.news || []), ...(parsed.topStories || []), ...(parsed.organic || [])];
+
+    return items
+      .filter((item: any) => item.title)
+      .slice(0, limit)
+      .map((item: any) => ({
+        title: item.title.trim(),
+        url: item.link || undefined,
+        source: item.source || sourceFromUrl(item.link),
+        snippet: (item.snippet || '').trim(),
+        publishedAt: parseSerperDate(item.date, now)
+      }));
+  } catch (error) {
+    console.error('Error parsing Serper news results:', error);
+    return [];
+  }
+}
+
 /**
  * Parse earnings calendar information from search results
  */
@@ -143,6 +232,7 @@ export function parseEarningsCalendarResults(searchResults: string): Array<{
   companyName?: string;
   date?: string;
   source: string;
+  confirmed: boolean;
 }> {
   try {
     const parsed = JSON.parse(searchResults);
@@ -151,6 +241,7 @@ export function parseEarningsCalendarResults(searchResults: string): Array<{
       companyName?: string;
       date?: string;
       source: string;
+      confirmed: boolean;
     }> = [];
     
     // Extract from organic search results
@@ -170,7 +261,8 @@ export function parseEarningsCalendarResults(searchResults: string): Array<{
               ticker: tickerMatches ? tickerMatches[0] : undefined,
               companyName: result.title,
               date: dateMatches ? dateMatches[0] : undefined,
-              source: result.link || 'web search'
+              source: result.link || 'web search',
+              confirmed: isCompanyConfirmedDate(text)
             });
           }
         }
@@ -191,7 +283,8 @@ export function parseEarningsCalendarResults(searchResults: string): Array<{
               ticker: tickerMatches ? tickerMatches[0] : undefined,
               companyName: result.title,
               date: dateMatches ? dateMatches[0] : undefined,
-              source: result.source || 'news'
+              source: result.source || 'news',
+              confirmed: isCompanyConfirmedDate(text)
             });
           }
         }
@@ -205,6 +298,16 @@ export function parseEarningsCalendarResults(searchResults: string): Array<{
   }
 }
 
+const CONFIRMED_DATE_PATTERN = /\b(confirmed|will (?:report|announce|release|host)|to (?:report|announce|release) (?:its )?(?:fiscal|first|second|third|fourth|q[1-4])|scheduled to (?:report|release)|announces? (?:date|conference call))\b/i;
+const ESTIMATED_DATE_PATTERN = /\b(estimated|projected|expected|unconfirmed|tentative)\b/i;
+
+/**
+ * Whether a result reads like the company announcing its report date rather than a calendar estimate
+ */
+export function isCompanyConfirmedDate(text: string): boolean {
+  return CONFIRMED_DATE_PATTERN.test(text) && !ESTIMATED_DATE_PATTERN.test(text);
+}
+
 /**
  * Parse analyst-specific search results
  */
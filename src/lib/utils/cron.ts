@@ -0,0 +1,201 @@
+/**
+ * Cron Expressions
+ * Five fields (minute hour day-of-month month day-of-week) evaluated in a time zone.
+ * Supports *, lists, ranges, steps, and JAN–DEC / SUN–SAT names.
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1 = January
+  daysOfWeek: Set<number>; // 0 = Sunday
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  nameOffset?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'], nameOffset: 1 },
+  { name: 'day of week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'], nameOffset: 0 },
+];
+
+const MINUTE_MS = 60 * 1000;
+
+// Five years of day-level skips is far more than any satisfiable expression needs
+const MAX_SEARCH_STEPS = 5 * 366 * 24 * 2;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function parseValue(token: string, spec: FieldSpec): number {
+  const nameIndex = spec.names?.indexOf(token.toUpperCase()) ?? -1;
+  if (nameIndex >= 0) {
+    return nameIndex + (spec.nameOffset || 0);
+  }
+  if (!/^\d+$/.test(token)) {
+    throw new Error(`"${token}" is not a valid ${spec.name}`);
+  }
+  return parseInt(token, 10);
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepToken, extra] = part.split('/');
+    if (extra !== undefined || !range) {
+      throw new Error(`"${part}" is not a valid ${spec.name}`);
+    }
+
+    const step = stepToken === undefined ? 1 : parseValue(stepToken, { name: 'step', min: 1, max: spec.max });
+    if (step < 1) {
+      throw new Error(`Step in "${part}" must be at least 1`);
+    }
+
+    let low: number;
+    let high: number;
+    if (range === '*') {
+      low = spec.min;
+      high = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      low = parseValue(from, spec);
+      high = parseValue(to, spec);
+    } else {
+      low = parseValue(range, spec);
+      high = stepToken === undefined ? low : spec.max;
+    }
+
+    if (low < spec.min || high > spec.max || low > high) {
+      throw new Error(`"${part}" is out of range for ${spec.name} (${spec.min}-${spec.max})`);
+    }
+
+    for (let value = low; value <= high; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression; throws with a readable message when invalid
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields (minute hour day month weekday)`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseField(field, FIELDS[i]));
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*',
+  };
+}
+
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Like classic cron, a restricted day of month and day of week match if either does
+function matchesDay(schedule: CronSchedule, dayOfMonth: number, dayOfWeek: number): boolean {
+  const domMatch = schedule.daysOfMonth.has(dayOfMonth);
+  const dowMatch = schedule.daysOfWeek.has(dayOfWeek);
+
+  if (schedule.anyDayOfMonth && schedule.anyDayOfWeek) return true;
+  if (schedule.anyDayOfMonth) return dowMatch;
+  if (schedule.anyDayOfWeek) return domMatch;
+  return domMatch || dowMatch;
+}
+
+// Wall-clock time in the zone, encoded as a UTC timestamp so the UTC getters read local fields
+function wallClock(date: Date, timeZone: string): number {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts = formatter.formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+  return Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'));
+}
+
+// Instant for a wall-clock time; the second pass settles DST transitions
+function toInstant(wall: number, timeZone: string): Date {
+  let instant = wall;
+  for (let i = 0; i < 2; i++) {
+    instant += wall - wallClock(new Date(instant), timeZone);
+  }
+  return new Date(instant);
+}
+
+/**
+ * Next time the schedule fires, strictly after `after`, for a cron evaluated in `timeZone`
+ */
+export function getNextCronRun(expression: string | CronSchedule, after: Date, timeZone: string): Date {
+  const schedule = typeof expression === 'string' ? parseCronExpression(expression) : expression;
+  let cursor = wallClock(after, timeZone) + MINUTE_MS;
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    const local = new Date(cursor);
+    const year = local.getUTCFullYear();
+    const month = local.getUTCMonth();
+    const day = local.getUTCDate();
+    const hour = local.getUTCHours();
+
+    if (!schedule.months.has(month + 1)) {
+      cursor = Date.UTC(year, month + 1, 1);
+    } else if (!matchesDay(schedule, day, local.getUTCDay())) {
+      cursor = Date.UTC(year, month, day + 1);
+    } else if (!schedule.hours.has(hour)) {
+      cursor = Date.UTC(year, month, day, hour + 1);
+    } else if (!schedule.minutes.has(local.getUTCMinutes())) {
+      cursor += MINUTE_MS;
+    } else {
+      const instant = toInstant(cursor, timeZone);
+      // A wall-clock time repeated when clocks fall back can map to before `after`
+      if (instant.getTime() > after.getTime()) {
+        return instant;
+      }
+      cursor += MINUTE_MS;
+    }
+  }
+
+  throw new Error('Cron expression never fires');
+}
@@ -0,0 +1,42 @@
+/**
+ * Currency Utilities
+ * TA-125 prices are quoted in shekels, S&P 500 prices in dollars
+ */
+
+import type { MarketCurrency } from "@/types";
+
+export const MARKET_CURRENCIES: Record<'SP500' | 'TA125', MarketCurrency> = {
+  SP500: 'USD',
+  TA125: 'ILS',
+};
+
+/**
+ * Market data feed symbol for the dollar/shekel exchange rate
+ */
+export const USD_ILS_FX_SYMBOL = 'C:USDILS';
+
+// TASE quotes most shares in agorot (ILA), hundredths of a shekel
+export const AGOROT_PER_SHEKEL = 100;
+
+/**
+ * A TASE quote in shekels; quotes already in ILS are returned unchanged
+ */
+export function toShekels(value: number, quoteCurrency: string): number {
+  return quoteCurrency.toUpperCase() === 'ILA' ? value / AGOROT_PER_SHEKEL : value;
+}
+
+export function getMarketCurrency(market: 'SP500' | 'TA125'): MarketCurrency {
+  return MARKET_CURRENCIES[market] || 'USD';
+}
+
+/**
+ * Format a price with its currency symbol, e.g. $12.34 or ₪12.34
+ */
+export function formatPrice(value: number, currency: MarketCurrency = 'USD', fractionDigits: number = 2): string {
+  return value.toLocaleString('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  });
+}
@@ -0,0 +1,21 @@
+/**
+ * Firestore Values
+ * Helpers for reading and writing Firestore documents
+ */
+
+/**
+ * A stored date as a Date; Firestore returns Timestamps, older records hold strings or numbers
+ */
+export const toDate = (value: any): Date => (value?.toDate ? value.toDate() : new Date(value));
+
+/**
+ * toDate for optional fields: a missing value stays undefined instead of becoming an invalid date
+ */
+export const toOptionalDate = (value: any): Date | undefined => (value === undefined || value === null ? undefined : toDate(value));
+
+/**
+ * Copy of `value` without its undefined fields, which Firestore rejects
+ */
+export function withoutUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined)) as Partial<T>;
+}
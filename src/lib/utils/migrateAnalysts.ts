@@ -4,6 +4,8 @@
  */
 
 import { adminDb } from '@/lib/firebase-admin';
+import { ANALYSTS_COLLECTION, EnhancedAnalystTracker } from '@/lib/analysts/enhancedAnalystTracker';
+import { fromEnhancedRecord } from '@/lib/analysts/analystMigration';
 
 export interface AnalystProfile {
   name: string;
@@ -125,8 +127,9 @@ export async function migrateAnalystsFromConsensus(): Promise<void> {
     let batchCount = 0;
     
     for (const [key, profile] of analystProfiles) {
-      const docRef = adminDb.collection('analysts_enhanced').doc();
-      batch.set(docRef, profile);
+      const docRef = adminDb.collection(ANALYSTS_COLLECTION).doc();
+      // Stored in the canonical analyst shape
+      batch.set(docRef, EnhancedAnalystTracker.buildAnalyst(fromEnhancedRecord(profile)));
       batchCount++;
       
       // Commit batch every 500 operations (Firestore limit)
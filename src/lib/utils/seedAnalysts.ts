@@ -4,6 +4,8 @@
  */
 
 import { adminDb } from '@/lib/firebase-admin';
+import { ANALYSTS_COLLECTION, EnhancedAnalystTracker } from '@/lib/analysts/enhancedAnalystTracker';
+import { fromEnhancedRecord } from '@/lib/analysts/analystMigration';
 
 export interface SampleAnalyst {
   name: string;
@@ -267,7 +269,7 @@ export async function seedRealAnalysts(): Promise<void> {
     const now = new Date();
     
     for (const analyst of realAnalysts) {
-      const docRef = adminDb.collection('analysts_enhanced').doc();
+      const docRef = adminDb.collection(ANALYSTS_COLLECTION).doc();
       
       const analystData: SampleAnalyst = {
         ...analyst,
@@ -275,7 +277,8 @@ export async function seedRealAnalysts(): Promise<void> {
         last_updated: now
       };
       
-      batch.set(docRef, analystData);
+      // Stored in the canonical analyst shape
+      batch.set(docRef, EnhancedAnalystTracker.buildAnalyst(fromEnhancedRecord(analystData)));
     }
     
     await batch.commit();
@@ -294,7 +297,7 @@ export async function clearAnalysts(): Promise<void> {
   console.log('🧹 Clearing analyst data...');
   
   try {
-    const snapshot = await adminDb.collection('analysts_enhanced').get();
+    const snapshot = await adminDb.collection(ANALYSTS_COLLECTION).get();
     const batch = adminDb.batch();
     
     snapshot.docs.forEach(doc => {
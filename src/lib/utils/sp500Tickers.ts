@@ -4,6 +4,9 @@
  */
 
 import { createSerperTool } from "../tools/serperTool";
+import { llmClient } from "../llm/llmClient";
+import { PROMPTS, renderPrompt, type EarningsDateResponse } from "../llm/prompts";
+import { getCuratedTA125Companies } from "./ta125Tickers";
 
 /**
  * Dynamic date and quarter utilities
@@ -73,7 +76,7 @@ export class DateQuarterUtils {
     };
   }
   
-  static buildDynamicEarningsQuery(ticker: string, companyName: string): string {
+  static buildDynamicEarningsQuery(ticker: string, companyName: string, market: 'SP500' | 'TA125' = 'SP500'): string {
     const context = this.getReportingContext();
     const currentDate = new Date();
     const monthName = currentDate.toLocaleString('default', { month: 'long' });
@@ -82,49 +85,13 @@ export class DateQuarterUtils {
     const reportingMonthsStr = context.reportingMonths.join(' ');
     const nextReportingMonthsStr = context.nextReportingMonths.join(' ');
     
-    return `${ticker} ${companyName} earnings date ${context.reportingQuarter} ${context.nextQuarter} ${context.year} when next report ${reportingMonthsStr} ${nextReportingMonthsStr} site:finance.yahoo.com OR site:marketwatch.com OR site:zacks.com`;
-  }
-  
-  static buildDynamicLLMPrompt(ticker: string, searchResults: string): string {
-    const context = this.getReportingContext();
-    const currentDate = new Date().toLocaleDateString('en-US', { 
-      year: 'numeric', 
-      month: 'long', 
-      day: 'numeric' 
-    });
-    
-    return `
-Today's date: ${currentDate}. Extract the next earnings date for ${ticker} from these search results.
-
-Current Earnings Context:
-- Current quarter: ${context.currentQuarter} ${context.year}
-- Companies are reporting ${context.reportingQuarter} ${context.year} results during: ${context.reportingMonths.join(', ')} ${context.year}
-- Next reporting season: ${context.nextQuarter} results in ${context.nextReportingMonths.join(', ')} ${context.nextQuarter === 'Q1' ? context.year + 1 : context.year}
-- Only consider dates AFTER today (${currentDate})
-
-Search Results:
-\${searchResults}
-
-Look for:
-- "next earnings date" or "earnings call"
-- "${context.reportingQuarter} ${context.year}" or "${context.nextQuarter} ${context.year}" results
-- Specific dates in current or next reporting months
-- "after market close", "before market open"
-
-Return ONLY a JSON object:
-{
-  "date": "YYYY-MM-DD" or null,
-  "quarter": "${context.reportingQuarter}" | "${context.nextQuarter}" or null,
-  "confidence": <0.0-1.0 confidence score>
-}
+    // Tel Aviv listings are covered by Israeli financial press rather than US earnings calendars
+    const sites = market === 'TA125'
+      ? 'site:en.globes.co.il OR site:calcalistech.com OR site:marketscreener.com'
+      : 'site:finance.yahoo.com OR site:marketwatch.com OR site:zacks.com';
+    const exchange = market === 'TA125' ? ' TASE' : '';
 
-Rules:
-- Only extract dates AFTER ${currentDate}
-- Focus on ${context.reportingQuarter} ${context.year} or ${context.nextQuarter} ${context.year} earnings
-- Ignore historical dates from previous quarters/years
-- Higher confidence for specific dates with quarter info
-- Return only valid JSON
-`;
+    return `${ticker}${exchange} ${companyName} earnings date ${context.reportingQuarter} ${context.nextQuarter} ${context.year} when next report ${reportingMonthsStr} ${nextReportingMonthsStr} ${sites}`;
   }
 }
 
@@ -139,6 +106,17 @@ export interface SP500Company {
   quarterlyPattern?: 'Q1' | 'Q2' | 'Q3' | 'Q4';
 }
 
+export interface CompanyEarningsDate {
+  ticker: string;
+  companyName: string;
+  sector: string;
+  industry: string;
+  nextEarningsDate: Date | null;
+  quarterlyPattern: 'Q1' | 'Q2' | 'Q3' | 'Q4' | null;
+  confidence: number;
+  confirmed?: boolean; // the company announced the date
+}
+
 /**
  * S&P 500 companies with sector information
  * This is a curated list of major S&P 500 companies with sector data
@@ -299,11 +277,9 @@ export function getRandomSP500Companies(count: number = 10): SP500Company[] {
  */
 export class SP500EarningsManager {
   private serperTool: any;
-  private openaiModel: string;
   
   constructor() {
     this.serperTool = createSerperTool();
-    this.openaiModel = process.env.OPENAI_MODEL || 'gpt-4o-mini';
   }
 
   /**
@@ -319,6 +295,7 @@ export class SP500EarningsManager {
       nextEarningsDate: Date | null;
       quarterlyPattern: 'Q1' | 'Q2' | 'Q3' | 'Q4' | null;
       confidence: number;
+      confirmed: boolean;
       needsAnalysis: boolean;
       daysUntilEarnings: number | null;
     }>;
@@ -378,12 +355,10 @@ export class SP500EarningsManager {
             nextEarningsDate: earningsInfo.nextEarningsDate,
             quarterlyPattern: earningsInfo.quarterlyPattern,
             confidence: earningsInfo.confidence,
+            confirmed: earningsInfo.confirmed === true,
             needsAnalysis,
             daysUntilEarnings
           });
-
-          // Small delay to respect rate limits
-          await new Promise(resolve => setTimeout(resolve, 1000));
           
         } catch (error) {
           console.error(`Error processing ${company.ticker}:`, error);
@@ -397,6 +372,7 @@ export class SP500EarningsManager {
             nextEarningsDate: null,
             quarterlyPattern: null,
             confidence: 0,
+            confirmed: false,
             needsAnalysis: false,
             daysUntilEarnings: null
           });
@@ -444,15 +420,7 @@ export class SP500EarningsManager {
   async fetchEarningsCalendarForSP500(
     limit: number = 3,
     sector?: string
-  ): Promise<Array<{
-    ticker: string;
-    companyName: string;
-    sector: string;
-    industry: string;
-    nextEarningsDate: Date | null;
-    quarterlyPattern: 'Q1' | 'Q2' | 'Q3' | 'Q4' | null;
-    confidence: number;
-  }>> {
+  ): Promise<CompanyEarningsDate[]> {
     try {
       console.log(`Fetching earnings calendar for S&P 500 companies (limit: ${limit})...`);
       
@@ -466,73 +434,89 @@ export class SP500EarningsManager {
       // Limit the companies to process
       companies = companies.slice(0, limit);
       
-      const results: Array<{
-        ticker: string;
-        companyName: string;
-        sector: string;
-        industry: string;
-        nextEarningsDate: Date | null;
-        quarterlyPattern: 'Q1' | 'Q2' | 'Q3' | 'Q4' | null;
-        confidence: number;
-      }> = [];
-      
-      // Process companies in small batches to respect rate limits
-      const batchSize = 5;
-      for (let i = 0; i < companies.length; i += batchSize) {
-        const batch = companies.slice(i, i + batchSize);
-        console.log(`Processing batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(companies.length / batchSize)}: ${batch.map(c => c.ticker).join(', ')}`);
-        
-        const batchPromises = batch.map(company => this.fetchEarningsDateForCompany(company));
-        const batchResults = await Promise.allSettled(batchPromises);
-        
-        batchResults.forEach((result, index) => {
-          if (result.status === 'fulfilled') {
-            results.push(result.value);
-          } else {
-            console.error(`Error processing ${batch[index].ticker}:`, result.reason);
-            // Add company with null earnings date on error
-            results.push({
-              ...batch[index],
-              nextEarningsDate: null,
-              quarterlyPattern: null,
-              confidence: 0.1
-            });
-          }
-        });
-        
-        // Rate limiting between batches
-        if (i + batchSize < companies.length) {
-          console.log('Waiting between batches...');
-          await new Promise(resolve => setTimeout(resolve, 3000));
-        }
-      }
-      
-      console.log(`Completed earnings calendar fetch: ${results.length} companies processed`);
-      return results;
+      return await this.fetchEarningsCalendarForCompanies(companies, 'SP500');
     } catch (error) {
       console.error('Error fetching S&P 500 earnings calendar:', error);
       throw error;
     }
   }
 
+  /**
+   * Fetch real earnings dates for TA-125 companies
+   */
+  async fetchEarningsCalendarForTA125(
+    limit: number = 3,
+    sector?: string
+  ): Promise<CompanyEarningsDate[]> {
+    try {
+      console.log(`Fetching earnings calendar for TA-125 companies (limit: ${limit})...`);
+
+      let companies = getCuratedTA125Companies();
+
+      if (sector) {
+        companies = companies.filter(company => company.sector === sector);
+      }
+
+      companies = companies.slice(0, limit);
+
+      return await this.fetchEarningsCalendarForCompanies(companies, 'TA125');
+    } catch (error) {
+      console.error('Error fetching TA-125 earnings calendar:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch earnings dates for a list of companies in rate-limited batches
+   */
+  private async fetchEarningsCalendarForCompanies(
+    companies: SP500Company[],
+    market: 'SP500' | 'TA125'
+  ): Promise<CompanyEarningsDate[]> {
+    const results: CompanyEarningsDate[] = [];
+    
+    // Process companies in small batches to respect rate limits
+    const batchSize = 5;
+    for (let i = 0; i < companies.length; i += batchSize) {
+      const batch = companies.slice(i, i + batchSize);
+      console.log(`Processing batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(companies.length / batchSize)}: ${batch.map(c => c.ticker).join(', ')}`);
+      
+      const batchPromises = batch.map(company => this.fetchEarningsDateForCompany(company, market));
+      const batchResults = await Promise.allSettled(batchPromises);
+      
+      batchResults.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+          results.push(result.value);
+        } else {
+          console.error(`Error processing ${batch[index].ticker}:`, result.reason);
+          // Add company with null earnings date on error
+          results.push({
+            ...batch[index],
+            nextEarningsDate: null,
+            quarterlyPattern: null,
+            confidence: 0.1
+          });
+        }
+      });
+    }
+    
+    console.log(`Completed ${market} earnings calendar fetch: ${results.length} companies processed`);
+    return results;
+  }
+
   /**
    * Fetch earnings date for individual company
    */
-  private async fetchEarningsDateForCompany(company: SP500Company): Promise<{
-    ticker: string;
-    companyName: string;
-    sector: string;
-    industry: string;
-    nextEarningsDate: Date | null;
-    quarterlyPattern: 'Q1' | 'Q2' | 'Q3' | 'Q4' | null;
-    confidence: number;
-  }> {
+  private async fetchEarningsDateForCompany(
+    company: SP500Company,
+    market: 'SP500' | 'TA125' = 'SP500'
+  ): Promise<CompanyEarningsDate> {
     try {
       console.log(`Fetching earnings date for ${company.ticker} (${company.companyName})...`);
       
       // Search for earnings date - dynamic based on current date
-      const query = DateQuarterUtils.buildDynamicEarningsQuery(company.ticker, company.companyName);
-      const searchResults = await this.serperTool.search(query);
+      const query = DateQuarterUtils.buildDynamicEarningsQuery(company.ticker, company.companyName, market);
+      const searchResults = await this.serperTool.search(query, 'earnings');
       
       // Parse earnings date using LLM
       const earningsInfo = await this.parseEarningsDate(company.ticker, searchResults);
@@ -544,7 +528,8 @@ export class SP500EarningsManager {
         industry: company.industry,
         nextEarningsDate: earningsInfo.date,
         quarterlyPattern: earningsInfo.quarter,
-        confidence: earningsInfo.confidence
+        confidence: earningsInfo.confidence,
+        confirmed: earningsInfo.confirmed
       };
     } catch (error) {
       console.error(`Error fetching earnings for ${company.ticker}:`, error);
@@ -564,84 +549,40 @@ export class SP500EarningsManager {
     date: Date | null;
     quarter: 'Q1' | 'Q2' | 'Q3' | 'Q4' | null;
     confidence: number;
+    confirmed: boolean;
   }> {
     try {
-      const prompt = DateQuarterUtils.buildDynamicLLMPrompt(ticker, searchResults);
-
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`
-        },
-        body: JSON.stringify({
-          model: this.openaiModel,
-          messages: [
-            {
-              role: 'system',
-              content: 'You are a financial data extraction expert. Return only valid JSON.'
-            },
-            {
-              role: 'user',
-              content: prompt
-            }
-          ],
-          temperature: 0.1,
-          max_tokens: 200
-        })
+      const prompt = renderPrompt('earnings-date', {
+        ticker,
+        searchResults,
+        today: new Date(),
+        context: DateQuarterUtils.getReportingContext()
       });
 
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      const content = data.choices[0]?.message?.content;
-      
-      if (!content) {
-        return { date: null, quarter: null, confidence: 0.1 };
-      }
+      const { data } = await llmClient.completeJson<EarningsDateResponse>({
+        purpose: prompt.promptId,
+        promptVersion: prompt.version,
+        ticker,
+        schema: PROMPTS['earnings-date'].schema,
+        messages: prompt.messages,
+        maxTokens: PROMPTS['earnings-date'].maxTokens,
+        temperature: PROMPTS['earnings-date'].temperature
+      });
 
-      // Clean the content to extract JSON from markdown blocks
-      const cleanedContent = this.extractJSONFromResponse(content);
-      const parsed = JSON.parse(cleanedContent);
+      const date = data.date ? new Date(data.date) : null;
       
       return {
-        date: parsed.date ? new Date(parsed.date) : null,
-        quarter: parsed.quarter || null,
-        confidence: Math.max(0.1, Math.min(1.0, parsed.confidence || 0.5))
+        date: date && !isNaN(date.getTime()) ? date : null,
+        quarter: data.quarter || null,
+        confidence: Math.max(0.1, Math.min(1.0, data.confidence ?? 0.5)),
+        confirmed: data.confirmed === true
       };
     } catch (error) {
       console.error(`Error parsing earnings date for ${ticker}:`, error);
-      return { date: null, quarter: null, confidence: 0.1 };
+      return { date: null, quarter: null, confidence: 0.1, confirmed: false };
     }
   }
 
-  /**
-   * Extract JSON from LLM response that might be wrapped in markdown code blocks
-   */
-  private extractJSONFromResponse(content: string): string {
-    // Remove markdown code blocks if present
-    let cleaned = content.trim();
-    
-    // Check for ```json code blocks
-    if (cleaned.startsWith('```json')) {
-      cleaned = cleaned.replace(/```json\s*/, '').replace(/\s*```$/, '');
-    } else if (cleaned.startsWith('```')) {
-      cleaned = cleaned.replace(/```[a-zA-Z]*\s*/, '').replace(/\s*```$/, '');
-    }
-    
-    // Find the first { and last } to extract JSON
-    const firstBrace = cleaned.indexOf('{');
-    const lastBrace = cleaned.lastIndexOf('}');
-    
-    if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
-      cleaned = cleaned.substring(firstBrace, lastBrace + 1);
-    }
-    
-    return cleaned.trim();
-  }
-
   /**
    * Generate realistic earnings dates for companies without real data (dynamic)
    */
@@ -0,0 +1,143 @@
+/**
+ * TA-125 Ticker Utilities
+ * A hand-curated subset of Tel Aviv 125 constituents, keyed by their TASE symbol. This is not the
+ * full index: a TA-125 stock missing here is unknown to every helper below.
+ */
+
+import type { SP500Company } from "./sp500Tickers";
+
+export interface TA125Company extends SP500Company {
+  // Also listed on NYSE/Nasdaq under the same symbol, quoted there in dollars
+  dualListed?: boolean;
+  // The bare symbol belongs to an unrelated US-listed company
+  usSymbolConflict?: boolean;
+}
+
+// Yahoo Finance and most data vendors qualify Tel Aviv listings with this suffix
+export const TASE_SYMBOL_SUFFIX = '.TA';
+
+/**
+ * Curated TA-125 companies with sector information
+ * About 40 of the largest constituents, maintained by hand; sectors use the same names as the S&P 500 list
+ */
+const CURATED_TA125_COMPANIES: Omit<TA125Company, 'nextEarningsDate' | 'lastEarningsDate' | 'quarterlyPattern'>[] = [
+  // Banks
+  { ticker: 'LUMI', companyName: 'Bank Leumi le-Israel B.M.', sector: 'Financial Services', industry: 'Banking' },
+  { ticker: 'POLI', companyName: 'Bank Hapoalim B.M.', sector: 'Financial Services', industry: 'Banking' },
+  { ticker: 'DSCT', companyName: 'Israel Discount Bank Ltd.', sector: 'Financial Services', industry: 'Banking' },
+  { ticker: 'MZTF', companyName: 'Mizrahi Tefahot Bank Ltd.', sector: 'Financial Services', industry: 'Banking' },
+  { ticker: 'FIBI', companyName: 'First International Bank of Israel Ltd.', sector: 'Financial Services', industry: 'Banking' },
+
+  // Insurance
+  { ticker: 'PHOE', companyName: 'The Phoenix Holdings Ltd.', sector: 'Financial Services', industry: 'Insurance' },
+  { ticker: 'HARL', companyName: 'Harel Insurance Investments & Financial Services Ltd.', sector: 'Financial Services', industry: 'Insurance' },
+  { ticker: 'CLIS', companyName: 'Clal Insurance Enterprises Holdings Ltd.', sector: 'Financial Services', industry: 'Insurance' },
+  { ticker: 'MGDL', companyName: 'Migdal Insurance & Financial Holdings Ltd.', sector: 'Financial Services', industry: 'Insurance' },
+  { ticker: 'MMHD', companyName: 'Menora Mivtachim Holdings Ltd.', sector: 'Financial Services', industry: 'Insurance' },
+
+  // Technology
+  { ticker: 'NICE', companyName: 'NICE Ltd.', sector: 'Technology', industry: 'Software', dualListed: true },
+  { ticker: 'TSEM', companyName: 'Tower Semiconductor Ltd.', sector: 'Technology', industry: 'Semiconductors', dualListed: true },
+  { ticker: 'NVMI', companyName: 'Nova Ltd.', sector: 'Technology', industry: 'Semiconductor Equipment', dualListed: true },
+  { ticker: 'CAMT', companyName: 'Camtek Ltd.', sector: 'Technology', industry: 'Semiconductor Equipment', dualListed: true },
+  { ticker: 'FORTY', companyName: 'Formula Systems (1985) Ltd.', sector: 'Technology', industry: 'IT Services', dualListed: true },
+  { ticker: 'MTRX', companyName: 'Matrix IT Ltd.', sector: 'Technology', industry: 'IT Services' },
+  { ticker: 'ONE', companyName: 'One Technologies Software Ltd.', sector: 'Technology', industry: 'IT Services', usSymbolConflict: true },
+  { ticker: 'HLAN', companyName: 'Hilan Ltd.', sector: 'Technology', industry: 'Software' },
+
+  // Healthcare
+  { ticker: 'TEVA', companyName: 'Teva Pharmaceutical Industries Ltd.', sector: 'Healthcare', industry: 'Pharmaceuticals', dualListed: true },
+
+  // Industrials
+  { ticker: 'ESLT', companyName: 'Elbit Systems Ltd.', sector: 'Industrials', industry: 'Aerospace & Defense', dualListed: true },
+  { ticker: 'ELAL', companyName: 'El Al Israel Airlines Ltd.', sector: 'Industrials', industry: 'Airlines' },
+  { ticker: 'ELTR', companyName: 'Electra Ltd.', sector: 'Industrials', industry: 'Construction & Engineering' },
+  { ticker: 'SKBN', companyName: 'Shikun & Binui Ltd.', sector: 'Industrials', industry: 'Construction & Engineering' },
+  { ticker: 'ASHG', companyName: 'Ashtrom Group Ltd.', sector: 'Industrials', industry: 'Construction & Engineering' },
+
+  // Materials
+  { ticker: 'ICL', companyName: 'ICL Group Ltd.', sector: 'Materials', industry: 'Specialty Chemicals', dualListed: true },
+  { ticker: 'ILCO', companyName: 'Israel Corporation Ltd.', sector: 'Materials', industry: 'Holding Company' },
+
+  // Energy
+  { ticker: 'NWMD', companyName: 'NewMed Energy LP', sector: 'Energy', industry: 'Oil & Gas Exploration' },
+  { ticker: 'DLEKG', companyName: 'Delek Group Ltd.', sector: 'Energy', industry: 'Oil & Gas' },
+  { ticker: 'ORL', companyName: 'Bazan Ltd.', sector: 'Energy', industry: 'Oil Refining' },
+  { ticker: 'ENOG', companyName: 'Energean plc', sector: 'Energy', industry: 'Oil & Gas Exploration' },
+
+  // Utilities
+  { ticker: 'ENLT', companyName: 'Enlight Renewable Energy Ltd.', sector: 'Utilities', industry: 'Renewable Energy', dualListed: true },
+  { ticker: 'ORA', companyName: 'Ormat Technologies Inc.', sector: 'Utilities', industry: 'Renewable Energy', dualListed: true },
+  { ticker: 'OPCE', companyName: 'OPC Energy Ltd.', sector: 'Utilities', industry: 'Electric Utilities' },
+
+  // Communication Services
+  { ticker: 'BEZQ', companyName: 'Bezeq The Israel Telecommunication Corp. Ltd.', sector: 'Communication Services', industry: 'Telecommunications' },
+  { ticker: 'PTNR', companyName: 'Partner Communications Company Ltd.', sector: 'Communication Services', industry: 'Telecommunications' },
+  { ticker: 'CEL', companyName: 'Cellcom Israel Ltd.', sector: 'Communication Services', industry: 'Telecommunications', usSymbolConflict: true },
+
+  // Consumer
+  { ticker: 'SAE', companyName: 'Shufersal Ltd.', sector: 'Consumer Staples', industry: 'Retail' },
+  { ticker: 'STRS', companyName: 'Strauss Group Ltd.', sector: 'Consumer Staples', industry: 'Food Products' },
+  { ticker: 'FOX', companyName: 'Fox-Wizel Ltd.', sector: 'Consumer Discretionary', industry: 'Apparel Retail', usSymbolConflict: true },
+  { ticker: 'DLEA', companyName: 'Delek Automotive Systems Ltd.', sector: 'Consumer Discretionary', industry: 'Auto Dealers' },
+
+  // Real Estate
+  { ticker: 'AZRG', companyName: 'Azrieli Group Ltd.', sector: 'Real Estate', industry: 'Real Estate Operations' },
+  { ticker: 'MLSR', companyName: 'Melisron Ltd.', sector: 'Real Estate', industry: 'Real Estate Operations' },
+  { ticker: 'AMOT', companyName: 'Amot Investments Ltd.', sector: 'Real Estate', industry: 'Real Estate Operations' },
+  { ticker: 'BIG', companyName: 'Big Shopping Centers Ltd.', sector: 'Real Estate', industry: 'Real Estate Operations', usSymbolConflict: true },
+  { ticker: 'ALHE', companyName: 'Alony Hetz Properties & Investments Ltd.', sector: 'Real Estate', industry: 'Real Estate Operations' },
+];
+
+const CURATED_TA125_TICKERS = new Set(CURATED_TA125_COMPANIES.map(company => company.ticker));
+
+// A bare symbol that means the same thing in New York would be a US quote
+const TEL_AVIV_ONLY_TICKERS = new Set(
+  CURATED_TA125_COMPANIES.filter(company => !company.dualListed && !company.usSymbolConflict).map(company => company.ticker)
+);
+
+/**
+ * Get the curated TA-125 companies
+ */
+export function getCuratedTA125Companies(): TA125Company[] {
+  return CURATED_TA125_COMPANIES.map(company => ({ ...company }));
+}
+
+/**
+ * Get curated TA-125 companies by sector
+ */
+export function getCuratedTA125CompaniesBySector(sector: string): TA125Company[] {
+  return getCuratedTA125Companies().filter(company => company.sector === sector);
+}
+
+/**
+ * Get curated TA-125 tickers only
+ */
+export function getCuratedTA125Tickers(): string[] {
+  return CURATED_TA125_COMPANIES.map(company => company.ticker);
+}
+
+/**
+ * Whether a ticker is on the curated TA-125 list; false for constituents we don't carry
+ */
+export function isCuratedTA125Ticker(ticker: string): boolean {
+  return CURATED_TA125_TICKERS.has(ticker.toUpperCase());
+}
+
+/**
+ * Best guess at the market of a bare ticker, for data that arrives without one. Only curated symbols that
+ * trade solely in Tel Aviv and don't name a US stock resolve to TA125; dual listings and symbols
+ * like FOX resolve to the S&P 500 side. Holdings and watchlist entries store their market; use that.
+ */
+export function getMarketForTicker(ticker: string): 'SP500' | 'TA125' {
+  return TEL_AVIV_ONLY_TICKERS.has(ticker.toUpperCase()) ? 'TA125' : 'SP500';
+}
+
+/**
+ * Exchange-qualified symbol for quotes, so a Tel Aviv line never shares a key with a US one
+ * (TEVA.TA in shekels vs TEVA in dollars)
+ */
+export function getQuoteSymbol(ticker: string, market: 'SP500' | 'TA125'): string {
+  const symbol = ticker.toUpperCase();
+  return market === 'TA125' ? `${symbol}${TASE_SYMBOL_SUFFIX}` : symbol;
+}
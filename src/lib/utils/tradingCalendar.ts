@@ -0,0 +1,367 @@
+/**
+ * Trading Calendar Utilities
+ * Exchange sessions, NYSE holidays and early closes, and trading-day arithmetic.
+ * Day-level helpers work on YYYY-MM-DD date keys in the exchange's local calendar.
+ */
+
+export type Exchange = 'NYSE' | 'TASE';
+
+export interface TradingSession {
+  open: string; // HH:MM local time
+  close: string; // HH:MM local time
+  earlyClose?: boolean;
+}
+
+interface ExchangeLocalTime {
+  dateKey: string; // YYYY-MM-DD local date
+  weekday: number; // 0 = Sunday
+  minutes: number; // minutes since local midnight
+}
+
+export const EXCHANGE_TIME_ZONES: Record<Exchange, string> = {
+  NYSE: 'America/New_York',
+  TASE: 'Asia/Jerusalem',
+};
+
+/**
+ * TASE moved from a Sunday–Thursday to a Monday–Friday trading week in January 2026
+ */
+export const TASE_MONDAY_FRIDAY_START = '2026-01-05';
+
+const NYSE_SESSION: TradingSession = { open: '09:30', close: '16:00' };
+const NYSE_EARLY_CLOSE = '13:00';
+
+// One-off closures announced outside the regular holiday rules
+const NYSE_SPECIAL_CLOSURES = new Set([
+  '2025-01-09', // National Day of Mourning for President Carter
+]);
+
+// Sessions by weekday (0 = Sunday)
+const TASE_SUNDAY_THURSDAY_SESSIONS: Record<number, TradingSession> = {
+  0: { open: '09:59', close: '15:50' },
+  1: { open: '09:59', close: '17:25' },
+  2: { open: '09:59', close: '17:25' },
+  3: { open: '09:59', close: '17:25' },
+  4: { open: '09:59', close: '17:25' },
+};
+
+const TASE_MONDAY_FRIDAY_SESSIONS: Record<number, TradingSession> = {
+  1: { open: '09:59', close: '17:25' },
+  2: { open: '09:59', close: '17:25' },
+  3: { open: '09:59', close: '17:25' },
+  4: { open: '09:59', close: '17:25' },
+  5: { open: '09:59', close: '13:50' },
+};
+
+// Bounds the search loops; no exchange closes for this long
+const MAX_CLOSED_DAYS = 14;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const keyOf = (year: number, month: number, day: number): string =>
+  new Date(Date.UTC(year, month, day)).toISOString().split('T')[0];
+
+const weekdayOf = (dateKey: string): number => new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+
+/**
+ * Shift a date key by a number of calendar days
+ */
+export function addCalendarDays(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+}
+
+// nth weekday of a month (n = -1 for the last one)
+function nthWeekday(year: number, month: number, weekday: number, n: number): string {
+  if (n > 0) {
+    const first = new Date(Date.UTC(year, month, 1)).getUTCDay();
+    return keyOf(year, month, 1 + ((weekday - first + 7) % 7) + (n - 1) * 7);
+  }
+  const lastDay = new Date(Date.UTC(year, month + 1, 0));
+  const offset = (lastDay.getUTCDay() - weekday + 7) % 7;
+  return keyOf(year, month, lastDay.getUTCDate() - offset);
+}
+
+// Anonymous Gregorian algorithm
+function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31) - 1;
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return keyOf(year, month, day);
+}
+
+// Saturday holidays are observed on Friday, Sunday holidays on Monday
+function observed(dateKey: string): string {
+  const weekday = weekdayOf(dateKey);
+  if (weekday === 6) return addCalendarDays(dateKey, -1);
+  if (weekday === 0) return addCalendarDays(dateKey, 1);
+  return dateKey;
+}
+
+const nyseHolidayCache = new Map<number, Set<string>>();
+
+/**
+ * NYSE full-day holidays for a year
+ */
+export function getNYSEHolidays(year: number): Set<string> {
+  const cached = nyseHolidayCache.get(year);
+  if (cached) return cached;
+
+  const holidays = new Set<string>([
+    nthWeekday(year, 0, 1, 3), // Martin Luther King Jr. Day
+    nthWeekday(year, 1, 1, 3), // Washington's Birthday
+    addCalendarDays(easterSunday(year), -2), // Good Friday
+    nthWeekday(year, 4, 1, -1), // Memorial Day
+    observed(keyOf(year, 6, 4)), // Independence Day
+    nthWeekday(year, 8, 1, 1), // Labor Day
+    nthWeekday(year, 10, 4, 4), // Thanksgiving
+    observed(keyOf(year, 11, 25)), // Christmas
+  ]);
+
+  // NYSE does not observe New Year's Day on the preceding Friday
+  const newYear = keyOf(year, 0, 1);
+  if (weekdayOf(newYear) !== 6) {
+    holidays.add(observed(newYear));
+  }
+
+  if (year >= 2022) {
+    holidays.add(observed(keyOf(year, 5, 19))); // Juneteenth
+  }
+
+  nyseHolidayCache.set(year, holidays);
+  return holidays;
+}
+
+function isNYSEEarlyClose(dateKey: string): boolean {
+  const year = Number(dateKey.slice(0, 4));
+  const candidates = [
+    keyOf(year, 6, 3), // Day before Independence Day
+    addCalendarDays(nthWeekday(year, 10, 4, 4), 1), // Day after Thanksgiving
+    keyOf(year, 11, 24), // Christmas Eve
+  ];
+  return candidates.includes(dateKey);
+}
+
+/**
+ * Whether the exchange is closed all day for a holiday.
+ * TASE holidays follow the Hebrew calendar and are not modelled.
+ */
+export function isHoliday(exchange: Exchange, dateKey: string): boolean {
+  if (exchange !== 'NYSE') return false;
+  return NYSE_SPECIAL_CLOSURES.has(dateKey) || getNYSEHolidays(Number(dateKey.slice(0, 4))).has(dateKey);
+}
+
+export function getExchangeForMarket(market: 'SP500' | 'TA125'): Exchange {
+  return market === 'TA125' ? 'TASE' : 'NYSE';
+}
+
+/**
+ * Wall-clock date and time at the exchange for an instant
+ */
+export function getExchangeLocalTime(exchange: Exchange, date: Date): ExchangeLocalTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: EXCHANGE_TIME_ZONES[exchange],
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
+  const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+  return {
+    dateKey: `${part('year')}-${part('month')}-${part('day')}`,
+    weekday: weekdays.indexOf(part('weekday')),
+    minutes: parseInt(part('hour')) * 60 + parseInt(part('minute')),
+  };
+}
+
+/**
+ * The exchange's local date for an instant
+ */
+export function getTradingDateKey(exchange: Exchange, date: Date): string {
+  return getExchangeLocalTime(exchange, date).dateKey;
+}
+
+/**
+ * Regular session for a local date (a date key, or the local date containing an instant),
+ * or null when the exchange is closed all day
+ */
+export function getTradingSession(exchange: Exchange, date: Date | string): TradingSession | null {
+  const dateKey = typeof date === 'string' ? date : getTradingDateKey(exchange, date);
+  const weekday = weekdayOf(dateKey);
+
+  if (exchange === 'TASE') {
+    const sessions = dateKey >= TASE_MONDAY_FRIDAY_START
+      ? TASE_MONDAY_FRIDAY_SESSIONS
+      : TASE_SUNDAY_THURSDAY_SESSIONS;
+    return sessions[weekday] || null;
+  }
+
+  if (weekday === 0 || weekday === 6 || isHoliday(exchange, dateKey)) {
+    return null;
+  }
+
+  return isNYSEEarlyClose(dateKey)
+    ? { ...NYSE_SESSION, close: NYSE_EARLY_CLOSE, earlyClose: true }
+    : NYSE_SESSION;
+}
+
+export function isTradingDay(exchange: Exchange, date: Date | string): boolean {
+  return getTradingSession(exchange, date) !== null;
+}
+
+export function isMarketOpen(exchange: Exchange, date: Date = new Date()): boolean {
+  const session = getTradingSession(exchange, date);
+  if (!session) return false;
+
+  const { minutes } = getExchangeLocalTime(exchange, date);
+  return minutes >= toMinutes(session.open) && minutes < toMinutes(session.close);
+}
+
+/**
+ * Last trading day strictly before a date key
+ */
+export function previousTradingDay(exchange: Exchange, dateKey: string): string {
+  return addTradingDays(exchange, dateKey, -1);
+}
+
+/**
+ * First trading day strictly after a date key
+ */
+export function nextTradingDay(exchange: Exchange, dateKey: string): string {
+  return addTradingDays(exchange, dateKey, 1);
+}
+
+/**
+ * Move a number of trading days from a date key; the start day itself is never counted,
+ * so +1 from a Saturday is the following Monday. An offset of 0 returns the date key unchanged.
+ */
+export function addTradingDays(exchange: Exchange, dateKey: string, offset: number): string {
+  const step = offset < 0 ? -1 : 1;
+  let current = dateKey;
+  let remaining = Math.abs(offset);
+
+  while (remaining > 0) {
+    let closedDays = 0;
+    do {
+      current = addCalendarDays(current, step);
+      if (++closedDays > MAX_CLOSED_DAYS) {
+        throw new Error(`No ${exchange} trading day within ${MAX_CLOSED_DAYS} days of ${current}`);
+      }
+    } while (!isTradingDay(exchange, current));
+    remaining--;
+  }
+
+  return current;
+}
+
+/**
+ * The date key itself when it is a trading day, otherwise the last trading day before it
+ */
+export function tradingDayOnOrBefore(exchange: Exchange, dateKey: string): string {
+  return isTradingDay(exchange, dateKey) ? dateKey : previousTradingDay(exchange, dateKey);
+}
+
+/**
+ * Trading days after `fromKey` up to and including `toKey`
+ */
+export function countTradingDays(exchange: Exchange, fromKey: string, toKey: string): number {
+  let count = 0;
+  for (let current = addCalendarDays(fromKey, 1); current <= toKey; current = addCalendarDays(current, 1)) {
+    if (isTradingDay(exchange, current)) count++;
+  }
+  return count;
+}
+
+/**
+ * Instant of a local wall-clock time at the exchange
+ */
+function zonedInstant(exchange: Exchange, dateKey: string, time: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const target = Date.UTC(year, month - 1, day) + toMinutes(time) * 60 * 1000;
+
+  // Correct the guess by the zone offset; the second pass settles DST transitions
+  let instant = target;
+  for (let i = 0; i < 2; i++) {
+    const local = getExchangeLocalTime(exchange, new Date(instant));
+    const [ly, lm, ld] = local.dateKey.split('-').map(Number);
+    const localAsUtc = Date.UTC(ly, lm - 1, ld) + local.minutes * 60 * 1000;
+    instant += target - localAsUtc;
+  }
+
+  return new Date(instant);
+}
+
+/**
+ * Instant the session on a trading day closes, or null when closed all day
+ */
+export function getSessionClose(exchange: Exchange, dateKey: string): Date | null {
+  const session = getTradingSession(exchange, dateKey);
+  return session ? zonedInstant(exchange, dateKey, session.close) : null;
+}
+
+/**
+ * Instant the next session opens, strictly after `date`
+ */
+export function getNextSessionOpen(exchange: Exchange, date: Date = new Date()): Date {
+  const local = getExchangeLocalTime(exchange, date);
+  const today = getTradingSession(exchange, local.dateKey);
+
+  if (today && local.minutes < toMinutes(today.open)) {
+    return zonedInstant(exchange, local.dateKey, today.open);
+  }
+
+  const next = nextTradingDay(exchange, local.dateKey);
+  return zonedInstant(exchange, next, getTradingSession(exchange, next)!.open);
+}
+
+/**
+ * Classify a report timestamp against the session on its local date
+ */
+export function classifyReportTime(
+  exchange: Exchange,
+  reportedAt: Date
+): 'before_market' | 'after_market' | 'during_market' {
+  const local = getExchangeLocalTime(exchange, reportedAt);
+  const session = getTradingSession(exchange, local.dateKey);
+
+  // Reports on closed days are first traded on the next session
+  if (!session) return 'before_market';
+  if (local.minutes < toMinutes(session.open)) return 'before_market';
+  if (local.minutes >= toMinutes(session.close)) return 'after_market';
+  return 'during_market';
+}
+
+/**
+ * Trading day whose session first trades on a report
+ */
+export function getReactionTradingDay(
+  exchange: Exchange,
+  reportDateKey: string,
+  reportTime: 'before_market' | 'after_market' | 'during_market'
+): string {
+  if (reportTime !== 'after_market' && isTradingDay(exchange, reportDateKey)) {
+    return reportDateKey;
+  }
+  return nextTradingDay(exchange, reportDateKey);
+}
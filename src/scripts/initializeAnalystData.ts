@@ -1,11 +1,13 @@
 import { adminDb } from '@/lib/firebase-admin';
-import { AnalystCredibility } from '@/lib/credibility/analystCredibility';
+import { ANALYSTS_COLLECTION, EnhancedAnalystTracker } from '@/lib/analysts/enhancedAnalystTracker';
+import { fromCredibilityRecord } from '@/lib/analysts/analystMigration';
+import type { LegacyAnalystCredibility } from '@/lib/credibility/analystCredibility';
 
 /**
- * Initialize sample analyst credibility data for demonstration
+ * Initialize sample analyst credibility data for demonstration, written as canonical analysts
  */
 async function initializeAnalystCredibilityData() {
-  const sampleAnalysts: AnalystCredibility[] = [
+  const sampleAnalysts: LegacyAnalystCredibility[] = [
     {
       analyst_id: 'analyst_1',
       analyst_name: 'Sarah Chen',
@@ -138,7 +140,7 @@ async function initializeAnalystCredibilityData() {
   const batch = adminDb.batch();
   
   sampleAnalysts.forEach((analyst) => {
-    const docRef = adminDb.collection('analyst_credibility').doc(analyst.analyst_id);
+    const docRef = adminDb.collection(ANALYSTS_COLLECTION).doc(analyst.analyst_id);
     
     // Add covered tickers for demo
     const analystWithTickers = {
@@ -149,7 +151,7 @@ async function initializeAnalystCredibilityData() {
       ]
     };
     
-    batch.set(docRef, analystWithTickers);
+    batch.set(docRef, EnhancedAnalystTracker.buildAnalyst(fromCredibilityRecord(analystWithTickers)));
   });
 
   try {
@@ -157,7 +159,7 @@ async function initializeAnalystCredibilityData() {
     console.log(`Successfully initialized ${sampleAnalysts.length} analyst credibility records`);
     
     // Verify data was created
-    const snapshot = await adminDb.collection('analyst_credibility').get();
+    const snapshot = await adminDb.collection(ANALYSTS_COLLECTION).get();
     console.log(`Total analyst records in database: ${snapshot.docs.length}`);
     
     return {
@@ -1,4 +1,4 @@
-import { EnhancedAnalystTracker, Analyst } from '@/lib/analysts/enhancedAnalystTracker';
+import { EnhancedAnalystTracker, type NewAnalyst } from '@/lib/analysts/enhancedAnalystTracker';
 
 /**
  * Initialize sample analysts for the enhanced tracking system
@@ -6,7 +6,7 @@ import { EnhancedAnalystTracker, Analyst } from '@/lib/analysts/enhancedAnalystT
 async function initializeEnhancedAnalysts() {
   const tracker = new EnhancedAnalystTracker();
 
-  const sampleAnalysts: Array<Omit<Analyst, 'id' | 'created_at' | 'updated_at'>> = [
+  const sampleAnalysts: NewAnalyst[] = [
     {
       name: 'Sarah Chen',
       firm: 'Goldman Sachs',
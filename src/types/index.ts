@@ -1,11 +1,35 @@
+// Admins can run destructive and cost-incurring endpoints; stored on the users doc
+export type UserRole = 'user' | 'admin';
+
 export interface User {
   id: string;
   email: string;
   displayName?: string;
   photoURL?: string;
+  role?: UserRole; // missing means 'user'
   preferences: UserPreferences;
   createdAt: Date;
   lastLogin: Date;
+  fcmToken?: string;
+}
+
+// Only invited emails can sign in; doc id is the lowercased email
+export interface UserInvite {
+  email: string;
+  role: UserRole;
+  status: 'active' | 'revoked';
+  invitedBy: string;
+  invitedAt: Date;
+  acceptedAt?: Date; // first sign-in
+  revokedAt?: Date;
+  revokedBy?: string;
+}
+
+// An invite joined with the account it was used for, for the admin UI
+export interface InvitedUser extends UserInvite {
+  uid?: string;
+  displayName?: string;
+  lastLogin?: Date;
 }
 
 export interface UserPreferences {
@@ -37,6 +61,118 @@ export interface WatchlistCompany {
   market: 'SP500' | 'TA125';
   sector: string;
   addedAt: Date;
+  notes?: string;
+}
+
+export type WatchlistFileFormat = 'csv' | 'json';
+
+// One row of an imported file, before validation
+export interface WatchlistImportRow {
+  row: number;
+  ticker: string;
+  market?: string; // as written in the file; checked against SP500/TA125 during validation
+  companyName?: string;
+  sector?: string;
+  notes?: string;
+}
+
+export interface WatchlistImportReport {
+  companies: WatchlistCompany[];
+  unknown: WatchlistImportRow[];
+  duplicates: WatchlistImportRow[];
+  invalid: { row: number; reason: string }[];
+}
+
+export interface WatchlistExportRow {
+  ticker: string;
+  companyName: string;
+  market: 'SP500' | 'TA125';
+  sector: string;
+  notes: string;
+  addedAt: string;
+  earningsDate: string;
+  price: number | null;
+  currency: MarketCurrency;
+  sentiment: SentimentSignal['sentiment'] | '';
+  sentimentScore: number | null;
+}
+
+// TA-125 stocks trade in shekels, S&P 500 stocks in dollars
+export type MarketCurrency = 'USD' | 'ILS';
+
+// A single purchase of shares; partially sold lots are split into an open and a closed lot
+export interface PortfolioLot {
+  id: string;
+  userId: string;
+  ticker: string;
+  companyName: string;
+  market: 'SP500' | 'TA125';
+  sector: string;
+  quantity: number;
+  costBasis: number; // per share, in the market's currency
+  buyDate: Date;
+  status: 'open' | 'closed';
+  sellPrice?: number; // per share, in the market's currency
+  sellDate?: Date;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PortfolioPosition {
+  ticker: string;
+  companyName: string;
+  market: 'SP500' | 'TA125';
+  sector: string;
+  currency: MarketCurrency;
+  quantity: number;
+  // Per share, in the position's currency
+  averageCost: number;
+  price?: number;
+  // Totals converted to USD; left in the native currency when fxAvailable is false
+  costBasis: number;
+  marketValue: number;
+  unrealizedPnL: number;
+  unrealizedPnLPercent: number;
+  // False when no live price was available and the position is valued at cost
+  priceAvailable: boolean;
+  // False when no exchange rate was available; the position is left out of the totals
+  fxAvailable: boolean;
+}
+
+export interface PortfolioExposure {
+  key: string;
+  marketValue: number;
+  weight: number;
+}
+
+export interface EarningsAtRisk {
+  ticker: string;
+  companyName: string;
+  expectedDate: Date;
+  expectedTime: EarningsEvent['expectedTime'];
+  marketValue: number;
+  weight: number;
+}
+
+export interface PortfolioSummary {
+  positions: PortfolioPosition[];
+  totalMarketValue: number;
+  totalCostBasis: number;
+  unrealizedPnL: number;
+  unrealizedPnLPercent: number;
+  realizedPnL: number;
+  exposureBySector: PortfolioExposure[];
+  exposureByMarket: PortfolioExposure[];
+  earningsAtRisk: {
+    days: number;
+    events: EarningsAtRisk[];
+    marketValue: number;
+    weight: number;
+  };
+  // USD per unit of each currency, as used for the totals
+  fxRates: Partial<Record<MarketCurrency, number>>;
+  pricedAt: Date;
 }
 
 export interface EarningsEvent {
@@ -63,10 +199,47 @@ export interface EarningsEvent {
   technicalAnalysis?: string;
   newsLastUpdated?: Date;
   financialsLastUpdated?: Date;
+  // Filled in by the post-earnings reconciliation job
+  surprise?: EarningsSurprise;
+  // Earnings date provenance: expectedDate is reconciled from these candidates
+  dateCandidates?: EarningsDateCandidate[];
+  dataSource?: string; // source of the reconciled date
+  confidence?: number; // 0-1, from source agreement
+  dateConfirmed?: boolean; // the company announced the date
+  dateChanges?: EarningsDateChange[]; // newest last
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type EarningsDateSource = 'sp500' | 'ta125' | 'polygon' | 'web';
+
+export interface EarningsDateCandidate {
+  source: EarningsDateSource;
+  date: Date;
+  confidence: number; // the source's own 0-1 confidence
+  confirmed: boolean;
+  fetchedAt: Date;
+}
+
+export interface EarningsDateChange {
+  from: Date;
+  to: Date;
+  changedAt: Date;
+  source: EarningsDateSource;
+  confirmed: boolean;
+}
+
+export interface EarningsSurprise {
+  actualEps?: number;
+  estimatedEps?: number;
+  epsSurprisePercent?: number;
+  actualRevenue?: number;
+  // Close-to-close move over the first session that could react to the report
+  priceReactionPercent?: number;
+  reactionDate?: Date;
+  reconciledAt: Date;
+}
+
 export interface SentimentSignal {
   id: string;
   ticker: string;
@@ -79,6 +252,7 @@ export interface SentimentSignal {
   createdAt: Date;
   expiresAt: Date;
   openaiCallId?: string;
+  promptVersion?: string; // sentiment prompt version that produced this signal
 }
 
 export interface AlertRule {
@@ -88,12 +262,25 @@ export interface AlertRule {
   conditions: AlertCondition[];
   actions: AlertAction[];
   isActive: boolean;
+  // Minimum minutes between two price-level alerts for the same ticker
+  cooldownMinutes?: number;
   createdAt: Date;
   updatedAt: Date;
 }
 
 export interface AlertCondition {
-  type: 'watchlist_earnings' | 'sentiment_available' | 'high_confidence';
+  type:
+    | 'watchlist_earnings'
+    | 'sentiment_available'
+    | 'high_confidence'
+    | 'price_above'
+    | 'price_below'
+    | 'percent_change_day'
+    | 'gap_at_open';
+  // watchlist_earnings: { daysAhead?: number } (default 7)
+  // high_confidence: { threshold?: number } (default 0.8)
+  // price_above / price_below: { ticker: string; price: number }
+  // percent_change_day / gap_at_open: { percent: number; direction?: 'up' | 'down' | 'any'; ticker?: string }
   parameters: Record<string, any>;
 }
 
@@ -111,6 +298,10 @@ export interface AlertHistory {
   message: string;
   sentAt: Date;
   status: 'sent' | 'failed' | 'pending';
+  // Identifies the earnings event or signal that triggered the alert (used for de-duplication)
+  eventKey?: string;
+  channels?: Array<AlertAction['type']>;
+  error?: string;
 }
 
 export interface CompanyHistory {
@@ -137,6 +328,86 @@ export interface HistoricalInsight {
   notes?: string;
 }
 
+// Price history for charts
+export type PriceRange = '1D' | '5D' | '1M' | '6M' | '1Y';
+
+export interface PricePoint {
+  timestamp: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface PriceChartMarker {
+  type: 'earnings' | 'recommendation';
+  date: Date;
+  label: string;
+  action?: 'BUY' | 'HOLD' | 'SELL';
+  epsSurprisePercent?: number;
+}
+
+export interface PriceHistory {
+  ticker: string;
+  market: 'SP500' | 'TA125';
+  range: PriceRange;
+  currency: MarketCurrency;
+  bars: PricePoint[];
+  markers: PriceChartMarker[];
+  fetchedAt: Date;
+  cached: boolean;
+}
+
+// Sentiment signal back-testing
+export interface SentimentHorizonOutcome {
+  stockReturn: number;
+  benchmarkReturn: number;
+  excessReturn: number;
+  hit: boolean;
+}
+
+export interface SentimentBacktestResult {
+  id: string; // same as the signal id
+  signalId: string;
+  ticker: string;
+  sector: string;
+  benchmark: string;
+  earningsEventId: string;
+  earningsDate: Date;
+  sentiment: SentimentSignal['sentiment'];
+  confidence: number;
+  // Keyed by trading days after the earnings reaction ('1', '5', '20')
+  horizons: Record<string, SentimentHorizonOutcome>;
+  complete: boolean;
+  evaluatedAt: Date;
+}
+
+export interface ConfidenceBucketStats {
+  label: string;
+  minConfidence: number;
+  maxConfidence: number;
+  count: number;
+  hits: number;
+  hitRate: number;
+  avgConfidence: number;
+}
+
+export interface HorizonCalibrationStats {
+  sampleSize: number;
+  hitRate: number;
+  brierScore: number;
+  avgExcessReturn: number;
+  buckets: ConfidenceBucketStats[];
+  bySentiment: Record<SentimentSignal['sentiment'], { count: number; hitRate: number }>;
+}
+
+export interface SentimentCalibrationStats {
+  totalSignals: number;
+  horizons: Record<string, HorizonCalibrationStats>;
+  updatedAt: Date;
+}
+
 export interface HistoricalAlert {
   alertHistory: AlertHistory;
   context: Record<string, any>;
@@ -144,12 +415,17 @@ export interface HistoricalAlert {
 
 export interface OpenAICallLog {
   id: string;
-  ticker: string;
+  ticker?: string;
+  purpose?: string; // e.g. 'sentiment', 'earnings-date', 'news-digest'
+  promptVersion?: string; // prompt registry version, e.g. 'v2'
+  provider?: string;
+  model?: string;
   inputHash: string;
   prompt: string;
-  response: string;
+  response: string; // validated JSON, or the last raw answer when resultUsed is false
   tokensUsed: number;
   cost: number;
+  attempts?: number;
   createdAt: Date;
   resultUsed: boolean;
 }
@@ -161,6 +437,50 @@ export interface DailyUsageMetrics {
   totalCost: number;
   uniqueCompanies: number;
   alertsSent: number;
+  providers?: Partial<Record<ApiProvider, ProviderDailyUsage>>;
+}
+
+// External APIs metered by the quota manager
+export type ApiProvider = 'serper' | 'polygon' | 'yahoo' | 'openai';
+
+export interface ProviderDailyUsage {
+  calls: number;
+  tokens: number;
+  cost: number;
+  rateLimited: number; // 429 responses
+}
+
+export interface ProviderUsageDay {
+  date: string;
+  providers: Record<ApiProvider, ProviderDailyUsage>;
+  totalCost: number;
+}
+
+export interface ProviderQuotaStatus {
+  provider: ApiProvider;
+  requestsPerSecond: number;
+  dailyCallLimit: number;
+  callsToday: number;
+  costToday: number;
+}
+
+// Serper search cache
+export type SearchQueryType = 'news' | 'analyst' | 'earnings' | 'general';
+
+export type SearchCacheBackend = 'firestore' | 'memory';
+
+export interface SearchCacheCounts {
+  hits: number;
+  misses: number;
+}
+
+export interface SearchCacheStats {
+  backend: SearchCacheBackend;
+  entries: number;
+  byType: Record<SearchQueryType, SearchCacheCounts & { entries: number; ttlMinutes: number }>;
+  hits: number;
+  misses: number;
+  hitRate: number; // 0-1
 }
 
 // Enhanced stock data types for agent system
@@ -202,12 +522,29 @@ export interface StockData {
   updatedAt: Date;
 }
 
+export type NewsSentiment = 'positive' | 'neutral' | 'negative';
+
+export interface NewsArticle {
+  id: string; // stable across runs: normalized URL, or title when there is no link
+  title: string;
+  url?: string;
+  source: string;
+  snippet: string;
+  publishedAt?: Date;
+  sentiment?: NewsSentiment;
+  sentimentScore?: number; // -1 (very negative) to 1 (very positive)
+  firstSeenAt: Date;
+}
+
 export interface StockNews {
   id: string;
   ticker: string;
-  news: string[];
+  news: string[]; // "title: snippet" lines, kept for older readers
+  articles: NewsArticle[]; // newest first
   summary: string;
-  sentiment?: 'positive' | 'neutral' | 'negative';
+  themes: string[];
+  sentiment?: NewsSentiment;
+  sentimentScore?: number;
   lastUpdated: Date;
   updatedAt: Date;
 }
@@ -230,4 +567,122 @@ export interface BatchUpdateResult {
   duration: number;
   startTime: Date;
   endTime: Date;
-}
\ No newline at end of file
+}
+
+// Agent update job queue
+export type AgentUpdateType = 'full' | 'smart' | 'ticker';
+
+export type AgentJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export type AgentRunStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface AgentUpdateJob {
+  id: string;
+  runId: string;
+  ticker: string;
+  status: AgentJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  availableAt: Date; // not picked up before this (retry backoff)
+  leaseExpiresAt?: Date; // a running job whose lease expired is picked up again
+  leaseOwner?: string; // the claim holding the lease; only it may renew, complete or fail the job
+  lastError?: string;
+  result?: AgentUpdateResult;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AgentUpdateRun {
+  id: string;
+  type: AgentUpdateType;
+  status: AgentRunStatus;
+  tickers: string[];
+  requestedBy: string;
+  successCount: number;
+  errorCount: number;
+  createdAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+}
+
+export interface AgentUpdateRunProgress {
+  run: AgentUpdateRun;
+  counts: Record<AgentJobStatus, number>;
+  retrying: number; // queued jobs that already failed at least once
+  jobs: AgentUpdateJob[];
+}
+
+// Scheduled jobs
+export type ScheduledJobRunStatus = 'success' | 'failed';
+
+export type ScheduledJobTrigger = 'schedule' | 'manual';
+
+export interface ScheduledJob {
+  id: string;
+  name: string;
+  description: string;
+  cron: string; // five-field cron, evaluated in timeZone
+  timeZone: string;
+  enabled: boolean;
+  nextRunAt?: Date;
+  lastRunAt?: Date;
+  lastStatus?: ScheduledJobRunStatus;
+  lastMessage?: string;
+  lastDurationMs?: number;
+  lockedUntil?: Date; // set while a run is in progress
+  updatedAt: Date;
+}
+
+export interface ScheduledJobRun {
+  id: string;
+  jobId: string;
+  trigger: ScheduledJobTrigger;
+  triggeredBy: string;
+  status: ScheduledJobRunStatus;
+  message: string;
+  startedAt: Date;
+  completedAt: Date;
+  durationMs: number;
+}
+// Analyst consensus history
+export type ConsensusAction = 'BUY' | 'HOLD' | 'SELL';
+
+export interface ConsensusSnapshot {
+  ticker: string;
+  date: string; // YYYY-MM-DD, one snapshot per ticker per day
+  consensus: ConsensusAction;
+  confidence: number; // share of the weight behind the consensus
+  participants: number;
+  weights: Record<ConsensusAction, number>;
+  counts: Record<ConsensusAction, number>;
+  createdAt: Date;
+}
+
+export interface RatingChangeEvent {
+  ticker: string;
+  analystId: string;
+  analystName?: string;
+  from: ConsensusAction;
+  to: ConsensusAction;
+  direction: 'upgrade' | 'downgrade';
+  date: Date;
+  recommendationId?: string; // the new call
+  previousRecommendationId?: string; // the open call it superseded
+  notificationStatus?: 'pending' | 'sent'; // watchers are pushed by the rating-change job
+  notified?: number;
+}
+
+export interface EarningsConsensusShift {
+  date: Date; // earnings date
+  label: string;
+  before: ConsensusSnapshot | null; // about four weeks before the report
+  latest: ConsensusSnapshot | null; // last snapshot before the report
+}
+
+export interface ConsensusHistory {
+  ticker: string;
+  days: number;
+  snapshots: ConsensusSnapshot[];
+  ratingChanges: RatingChangeEvent[];
+  earnings: EarningsConsensusShift[];
+}